@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "password_hash" TEXT;
+ALTER TABLE "User" ADD COLUMN "last_login_at" DATETIME;
+
+-- CreateTable
+CREATE TABLE "Session" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "user_agent" TEXT,
+    "expires_at" DATETIME NOT NULL,
+    "revoked_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Session_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "MagicLinkToken" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "expires_at" DATETIME NOT NULL,
+    "consumed_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "Session_userId_idx" ON "Session"("userId");
+
+-- CreateIndex
+CREATE INDEX "Session_expires_at_idx" ON "Session"("expires_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MagicLinkToken_token_hash_key" ON "MagicLinkToken"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "MagicLinkToken_email_idx" ON "MagicLinkToken"("email");
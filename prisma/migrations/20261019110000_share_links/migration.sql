@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ShareLink" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "filters_json" TEXT NOT NULL DEFAULT '{}',
+    "settings_json" TEXT NOT NULL DEFAULT '{}',
+    "is_public" BOOLEAN NOT NULL DEFAULT true,
+    "password_hash" TEXT,
+    "expires_at" DATETIME,
+    "access_count" INTEGER NOT NULL DEFAULT 0,
+    "last_accessed_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "ShareLink_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ShareLink_userId_idx" ON "ShareLink"("userId");
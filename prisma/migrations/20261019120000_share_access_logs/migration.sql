@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "ShareAccessLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shareId" TEXT NOT NULL,
+    "accessed_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "referrer" TEXT,
+    "user_agent" TEXT,
+    "ip_hash" TEXT,
+    "duration_sec" INTEGER NOT NULL DEFAULT 0,
+    "actions_json" TEXT NOT NULL DEFAULT '[]',
+    CONSTRAINT "ShareAccessLog_shareId_fkey" FOREIGN KEY ("shareId") REFERENCES "ShareLink" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ShareAccessLog_shareId_accessed_at_idx" ON "ShareAccessLog"("shareId", "accessed_at");
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'user';
+ALTER TABLE "User" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'active';
+ALTER TABLE "User" ADD COLUMN "suspended_at" DATETIME;
+ALTER TABLE "User" ADD COLUMN "suspension_reason" TEXT;
+
+-- CreateTable
+CREATE TABLE "AdminAction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "target_id" TEXT NOT NULL,
+    "target_type" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "reason" TEXT,
+    "performed_by" TEXT NOT NULL,
+    "performed_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "metadata_json" TEXT
+);
+
+-- CreateIndex
+CREATE INDEX "AdminAction_performed_at_idx" ON "AdminAction"("performed_at");
+
+-- CreateIndex
+CREATE INDEX "AdminAction_target_type_target_id_idx" ON "AdminAction"("target_type", "target_id");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "FeatureFlag" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "enabled_for" TEXT NOT NULL DEFAULT 'all',
+    "rollout_percentage" INTEGER,
+    "allow_list_json" TEXT NOT NULL DEFAULT '[]',
+    "deny_list_json" TEXT NOT NULL DEFAULT '[]',
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeatureFlag_name_key" ON "FeatureFlag"("name");
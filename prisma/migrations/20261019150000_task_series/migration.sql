@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "TaskSeries" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "rule" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "priority" TEXT NOT NULL DEFAULT 'medium',
+    "estimate_min" INTEGER DEFAULT 0,
+    "tags_json" TEXT NOT NULL DEFAULT '[]',
+    "reminder_offset_min" INTEGER,
+    "reminder_frequency" TEXT,
+    "parent_task_id" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "TaskSeries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TaskSeriesException" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "seriesId" TEXT NOT NULL,
+    "occurrence_at" DATETIME NOT NULL,
+    "skipped" BOOLEAN NOT NULL DEFAULT false,
+    "due_at" DATETIME,
+    "title" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "TaskSeriesException_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "TaskSeries" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "seriesId" TEXT REFERENCES "TaskSeries" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Task" ADD COLUMN "occurrence_at" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "Task_seriesId_occurrence_at_idx" ON "Task"("seriesId", "occurrence_at");
+
+-- CreateIndex
+CREATE INDEX "TaskSeries_userId_idx" ON "TaskSeries"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskSeriesException_seriesId_occurrence_at_key" ON "TaskSeriesException"("seriesId", "occurrence_at");
@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "Project" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#3B82F6',
+    "icon" TEXT,
+    "archived_at" DATETIME,
+    "order_index" INTEGER NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "Project_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "projectId" TEXT REFERENCES "Project" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "TaskSeries" ADD COLUMN "projectId" TEXT REFERENCES "Project" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_userId_name_key" ON "Project"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "Project_userId_order_index_idx" ON "Project"("userId", "order_index");
+
+-- CreateIndex
+CREATE INDEX "Task_projectId_idx" ON "Task"("projectId");
+
+-- Lists used to be faked with each task's first tag; turn every distinct first tag into a
+-- project, ordered by name, and move the tasks into it. Tags are left as they are.
+INSERT INTO "Project" ("id", "userId", "name", "order_index", "updated_at")
+SELECT
+    lower(hex(randomblob(16))),
+    "userId",
+    "name",
+    ROW_NUMBER() OVER (PARTITION BY "userId" ORDER BY "name") - 1,
+    CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT "userId", trim(replace(json_extract("tags_json", '$[0]'), '#', '')) AS "name"
+    FROM "Task"
+    WHERE json_valid("tags_json") AND json_array_length("tags_json") > 0
+)
+WHERE "name" IS NOT NULL AND "name" <> '';
+
+UPDATE "Task"
+SET "projectId" = (
+    SELECT "Project"."id" FROM "Project"
+    WHERE "Project"."userId" = "Task"."userId"
+      AND "Project"."name" = trim(replace(json_extract("Task"."tags_json", '$[0]'), '#', ''))
+)
+WHERE json_valid("tags_json") AND json_array_length("tags_json") > 0;
+
+UPDATE "TaskSeries"
+SET "projectId" = (
+    SELECT "Project"."id" FROM "Project"
+    WHERE "Project"."userId" = "TaskSeries"."userId"
+      AND "Project"."name" = trim(replace(json_extract("TaskSeries"."tags_json", '$[0]'), '#', ''))
+)
+WHERE json_valid("tags_json") AND json_array_length("tags_json") > 0;
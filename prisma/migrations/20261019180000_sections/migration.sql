@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "Section" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "name" TEXT NOT NULL,
+    "status" TEXT,
+    "order_index" INTEGER NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "Section_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Section_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "sectionId" TEXT REFERENCES "Section" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "Section_userId_projectId_order_index_idx" ON "Section"("userId", "projectId", "order_index");
+
+-- CreateIndex
+CREATE INDEX "Task_sectionId_order_index_idx" ON "Task"("sectionId", "order_index");
@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#6B7280',
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "Tag_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TaskTag" (
+    "taskId" TEXT NOT NULL,
+    "tagId" TEXT NOT NULL,
+
+    PRIMARY KEY ("taskId", "tagId"),
+    CONSTRAINT "TaskTag_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "TaskTag_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_userId_name_key" ON "Tag"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "TaskTag_tagId_idx" ON "TaskTag"("tagId");
+
+-- Existing tags_json values mix "#work", "work" and "Work"; they all become the tag "work"
+INSERT INTO "Tag" ("id", "userId", "name", "updated_at")
+SELECT lower(hex(randomblob(16))), "userId", "name", CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT "Task"."userId", lower(trim(ltrim(trim(entry."value"), '#'))) AS "name"
+    FROM "Task", json_each("Task"."tags_json") AS entry
+    WHERE json_valid("Task"."tags_json") AND entry."type" = 'text'
+)
+WHERE "name" <> '';
+
+INSERT OR IGNORE INTO "TaskTag" ("taskId", "tagId")
+SELECT "Task"."id", "Tag"."id"
+FROM "Task", json_each("Task"."tags_json") AS entry
+JOIN "Tag" ON "Tag"."userId" = "Task"."userId" AND "Tag"."name" = lower(trim(ltrim(trim(entry."value"), '#')))
+WHERE json_valid("Task"."tags_json") AND entry."type" = 'text';
+
+UPDATE "Task"
+SET "tags_json" = COALESCE((
+    SELECT json_group_array("Tag"."name")
+    FROM "TaskTag" JOIN "Tag" ON "Tag"."id" = "TaskTag"."tagId"
+    WHERE "TaskTag"."taskId" = "Task"."id"
+), '[]');
+
+-- Series templates keep names rather than links, normalised the same way
+UPDATE "TaskSeries"
+SET "tags_json" = COALESCE((
+    SELECT json_group_array(DISTINCT lower(trim(ltrim(trim(entry."value"), '#'))))
+    FROM json_each("TaskSeries"."tags_json") AS entry
+    WHERE entry."type" = 'text' AND trim(ltrim(trim(entry."value"), '#')) <> ''
+), '[]')
+WHERE json_valid("tags_json");
@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "SavedSearch" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "order_index" INTEGER NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "SavedSearch_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_userId_order_index_idx" ON "SavedSearch"("userId", "order_index");
+
+-- Full-text index over task titles, descriptions and the notes of the task's focus sessions
+CREATE VIRTUAL TABLE "TaskSearch" USING fts5(
+    "taskId" UNINDEXED,
+    "userId" UNINDEXED,
+    "title",
+    "description",
+    "notes",
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER "Task_search_insert" AFTER INSERT ON "Task" BEGIN
+    INSERT INTO "TaskSearch" ("taskId", "userId", "title", "description", "notes")
+    VALUES (NEW."id", NEW."userId", NEW."title", coalesce(NEW."description", ''), '');
+END;
+
+CREATE TRIGGER "Task_search_update" AFTER UPDATE OF "title", "description" ON "Task" BEGIN
+    UPDATE "TaskSearch"
+    SET "title" = NEW."title", "description" = coalesce(NEW."description", '')
+    WHERE "taskId" = NEW."id";
+END;
+
+CREATE TRIGGER "Task_search_delete" AFTER DELETE ON "Task" BEGIN
+    DELETE FROM "TaskSearch" WHERE "taskId" = OLD."id";
+END;
+
+CREATE TRIGGER "FocusSession_search_insert" AFTER INSERT ON "FocusSession" WHEN NEW."taskId" IS NOT NULL BEGIN
+    UPDATE "TaskSearch"
+    SET "notes" = (SELECT coalesce(group_concat("notes", ' '), '') FROM "FocusSession" WHERE "taskId" = NEW."taskId")
+    WHERE "taskId" = NEW."taskId";
+END;
+
+-- Covers sessions moving between tasks as well as edited notes
+CREATE TRIGGER "FocusSession_search_update" AFTER UPDATE OF "notes", "taskId" ON "FocusSession" BEGIN
+    UPDATE "TaskSearch"
+    SET "notes" = (SELECT coalesce(group_concat(f."notes", ' '), '') FROM "FocusSession" f WHERE f."taskId" = "TaskSearch"."taskId")
+    WHERE "taskId" IN (OLD."taskId", NEW."taskId");
+END;
+
+CREATE TRIGGER "FocusSession_search_delete" AFTER DELETE ON "FocusSession" WHEN OLD."taskId" IS NOT NULL BEGIN
+    UPDATE "TaskSearch"
+    SET "notes" = (SELECT coalesce(group_concat("notes", ' '), '') FROM "FocusSession" WHERE "taskId" = OLD."taskId")
+    WHERE "taskId" = OLD."taskId";
+END;
+
+-- Index the tasks that already exist
+INSERT INTO "TaskSearch" ("taskId", "userId", "title", "description", "notes")
+SELECT t."id", t."userId", t."title", coalesce(t."description", ''),
+       (SELECT coalesce(group_concat(f."notes", ' '), '') FROM "FocusSession" f WHERE f."taskId" = t."id")
+FROM "Task" t;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "SmartView" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "builtin" TEXT,
+    "definition_json" TEXT NOT NULL,
+    "pinned" BOOLEAN NOT NULL DEFAULT false,
+    "order_index" INTEGER NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "SmartView_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SmartView_userId_builtin_key" ON "SmartView"("userId", "builtin");
+
+-- CreateIndex
+CREATE INDEX "SmartView_userId_order_index_idx" ON "SmartView"("userId", "order_index");
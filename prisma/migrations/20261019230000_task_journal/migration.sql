@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "TaskChange" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "before_json" TEXT,
+    "after_json" TEXT,
+    "undone_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TaskChange_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TaskChange_userId_created_at_idx" ON "TaskChange"("userId", "created_at");
+
+-- CreateIndex
+CREATE INDEX "TaskChange_taskId_created_at_idx" ON "TaskChange"("taskId", "created_at");
+
+-- CreateIndex
+CREATE INDEX "TaskChange_batchId_idx" ON "TaskChange"("batchId");
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "TaskComment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "authorId" TEXT,
+    "author_name" TEXT NOT NULL,
+    "shareId" TEXT,
+    "body" TEXT NOT NULL,
+    "mentions_json" TEXT NOT NULL DEFAULT '[]',
+    "edited_at" DATETIME,
+    "deleted_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TaskComment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TaskActivity" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "data_json" TEXT NOT NULL DEFAULT '{}',
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TaskActivity_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "notification_task_comment" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateIndex
+CREATE INDEX "TaskComment_taskId_created_at_idx" ON "TaskComment"("taskId", "created_at");
+
+-- CreateIndex
+CREATE INDEX "TaskComment_userId_idx" ON "TaskComment"("userId");
+
+-- CreateIndex
+CREATE INDEX "TaskComment_authorId_idx" ON "TaskComment"("authorId");
+
+-- CreateIndex
+CREATE INDEX "TaskActivity_taskId_created_at_idx" ON "TaskActivity"("taskId", "created_at");
+
+-- CreateIndex
+CREATE INDEX "TaskActivity_userId_idx" ON "TaskActivity"("userId");
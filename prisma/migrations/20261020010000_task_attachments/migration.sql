@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "TaskAttachment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "mime_type" TEXT NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "thumbnail_key" TEXT,
+    "width" INTEGER,
+    "height" INTEGER,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TaskAttachment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TaskAttachment_taskId_created_at_idx" ON "TaskAttachment"("taskId", "created_at");
+
+-- CreateIndex
+CREATE INDEX "TaskAttachment_userId_idx" ON "TaskAttachment"("userId");
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "description_text" TEXT;
+
+-- Search indexes the rendered description. Rows written before the app filled it in fall
+-- back to the markdown until their description is next saved.
+DROP TRIGGER "Task_search_insert";
+DROP TRIGGER "Task_search_update";
+
+CREATE TRIGGER "Task_search_insert" AFTER INSERT ON "Task" BEGIN
+    INSERT INTO "TaskSearch" ("taskId", "userId", "title", "description", "notes")
+    VALUES (NEW."id", NEW."userId", NEW."title", coalesce(NEW."description_text", NEW."description", ''), '');
+END;
+
+CREATE TRIGGER "Task_search_update" AFTER UPDATE OF "title", "description", "description_text" ON "Task" BEGIN
+    UPDATE "TaskSearch"
+    SET "title" = NEW."title", "description" = coalesce(NEW."description_text", NEW."description", '')
+    WHERE "taskId" = NEW."id";
+END;
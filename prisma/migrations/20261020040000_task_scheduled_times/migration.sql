@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "scheduled_start" DATETIME;
+ALTER TABLE "Task" ADD COLUMN "scheduled_end" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "Task_userId_scheduled_start_idx" ON "Task"("userId", "scheduled_start");
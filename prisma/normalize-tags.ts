@@ -0,0 +1,25 @@
+import { prisma } from '../src/lib/prisma';
+import { TagManager } from '../src/lib/tags';
+
+// Run once after the 20261019200000_tags migration. Its SQL folds names with lower() and
+// trim(), which only handle ASCII letters and spaces, so "Äpfel" or a tab-padded name ends
+// up under a different name than the app writes. This renames or merges those tags the way
+// normalizeTagName does.
+async function main() {
+  const owners = await prisma.tag.findMany({ distinct: ['userId'], select: { userId: true } });
+
+  for (const { userId } of owners) {
+    await TagManager.normalizeExisting(userId);
+  }
+
+  console.log(`Normalized tags for ${owners.length} users`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
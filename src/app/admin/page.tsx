@@ -0,0 +1,24 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import AdminPanel from '@/components/AdminPanel';
+import { adminManager } from '@/lib/admin';
+
+export default function AdminPage() {
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    // AdminPanel checks the role synchronously, so load the current user first
+    adminManager.initialize().finally(() => setReady(true));
+  }, []);
+
+  if (!ready) {
+    return <p className="text-gray-600 dark:text-gray-400">Loading...</p>;
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <AdminPanel />
+    </div>
+  );
+}
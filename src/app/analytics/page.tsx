@@ -33,6 +33,8 @@ type SeriesData = {
 
 type TimeByListData = {
   list: string;
+  projectId: string | null;
+  color: string | null;
   minutes: number;
   hours: number;
   sessions: number;
@@ -44,6 +46,7 @@ type TimeByListData = {
 type TaskData = {
   id: string;
   title: string;
+  projectId: string | null;
   status: string;
   priority: string;
   due_at: string | null;
@@ -73,6 +76,8 @@ type FilterState = {
   status: string[];
   priority: string[];
   tags: string[];
+  // undefined shows every project, null only tasks outside any project
+  projectId?: string | null;
   dateRange: {
     from: string;
     to: string;
@@ -81,7 +86,6 @@ type FilterState = {
 };
 
 export default function AnalyticsPage() {
-  const userId = 'user-123'; // Replace with actual user ID
   const [kpis, setKpis] = useState<KPIData | null>(null);
   const [seriesData, setSeriesData] = useState<SeriesData[]>([]);
   const [timeByList, setTimeByList] = useState<TimeByListData[]>([]);
@@ -108,13 +112,13 @@ export default function AnalyticsPage() {
   const loadAnalytics = useCallback(async () => {
     setLoading(true);
     try {
-      console.log('Loading analytics for user:', userId, 'filters:', filters);
+      console.log('Loading analytics with filters:', filters);
       
       const [summaryRes, seriesRes, timeByListRes, tasksRes] = await Promise.all([
-        fetch(`/api/analytics/summary?userId=${userId}&from=${filters.dateRange.from}&to=${filters.dateRange.to}`),
-        fetch(`/api/analytics/series?userId=${userId}&from=${filters.dateRange.from}&to=${filters.dateRange.to}`),
-        fetch(`/api/analytics/time-by-list?userId=${userId}&from=${filters.dateRange.from}&to=${filters.dateRange.to}`),
-        fetch(`/api/analytics/tasks?userId=${userId}&from=${filters.dateRange.from}&to=${filters.dateRange.to}`)
+        fetch(`/api/analytics/summary?from=${filters.dateRange.from}&to=${filters.dateRange.to}`),
+        fetch(`/api/analytics/series?from=${filters.dateRange.from}&to=${filters.dateRange.to}`),
+        fetch(`/api/analytics/time-by-list?from=${filters.dateRange.from}&to=${filters.dateRange.to}`),
+        fetch(`/api/analytics/tasks?from=${filters.dateRange.from}&to=${filters.dateRange.to}`)
       ]);
 
       if (summaryRes.ok) {
@@ -152,7 +156,7 @@ export default function AnalyticsPage() {
     } finally {
       setLoading(false);
     }
-  }, [userId, filters]);
+  }, [filters]);
 
   // Handle drill-down clicks
   const handleDrillDown = useCallback((type: string, value: string) => {
@@ -168,9 +172,10 @@ export default function AnalyticsPage() {
         }
       }));
     } else if (type === 'list') {
+      const item = timeByList.find(entry => entry.list === value);
       setFilters(prev => ({
         ...prev,
-        tags: [value]
+        projectId: item ? item.projectId : undefined
       }));
     } else if (type === 'metric') {
       // Handle metric drill-downs
@@ -188,7 +193,7 @@ export default function AnalyticsPage() {
           break;
       }
     }
-  }, []);
+  }, [timeByList]);
 
   // Export with current filters and offline queue support
   const exportCSV = useCallback(async (exportType: 'tasks' | 'focus-sessions' | 'summary') => {
@@ -220,7 +225,6 @@ export default function AnalyticsPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId,
           exportType,
           filters: filters
         })
@@ -264,7 +268,7 @@ export default function AnalyticsPage() {
     } finally {
       setExporting(false);
     }
-  }, [filters, userId]);
+  }, [filters]);
 
   // Filter tasks based on current filters
   const filteredTasks = tasks.filter(task => {
@@ -277,6 +281,9 @@ export default function AnalyticsPage() {
     if (filters.tags.length > 0 && !task.tags.some(tag => filters.tags.includes(tag))) {
       return false;
     }
+    if (filters.projectId !== undefined && task.projectId !== filters.projectId) {
+      return false;
+    }
     if (filters.search && !task.title.toLowerCase().includes(filters.search.toLowerCase())) {
       return false;
     }
@@ -609,9 +616,9 @@ export default function AnalyticsPage() {
         </div>
       </div>
 
-      {/* Time by List Donut - Clickable for Drill-down */}
+      {/* Time by Project Donut - Clickable for Drill-down */}
       <div className="bg-white dark:bg-gray-800 rounded-lg p-6">
-        <h2 className="text-xl font-semibold mb-4">Time by List</h2>
+        <h2 className="text-xl font-semibold mb-4">Time by Project</h2>
         <div className="space-y-3">
           {timeByList.map((item, index) => (
             <div 
@@ -622,7 +629,7 @@ export default function AnalyticsPage() {
               <div className="flex items-center gap-2">
                 <div 
                   className="w-4 h-4 rounded"
-                  style={{ backgroundColor: `hsl(${index * 60}, 70%, 50%)` }}
+                  style={{ backgroundColor: item.color ?? `hsl(${index * 60}, 70%, 50%)` }}
                 />
                 <span className="font-medium">{item.list}</span>
               </div>
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { AccountManager } from '@/lib/account';
+import { exportFilename } from '@/lib/csv';
+import { ExportRecordManager } from '@/lib/exportRecords';
+
+// Export history, newest first
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getSessionUser(req);
+    if (!user) return unauthorized();
+
+    const { searchParams } = new URL(req.url);
+    const exports = await ExportRecordManager.getHistory(user.id, parseInt(searchParams.get('limit') || '20'));
+
+    return NextResponse.json({ exports });
+  } catch (error) {
+    console.error('Export history error:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch export history',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Downloads everything tied to the account as a versioned JSON archive. Session only,
+// never via an API token, like deleting the account. Suspended users can still export their data.
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getSessionUser(req);
+    if (!user) return unauthorized();
+
+    const { exportId, json } = await AccountManager.exportAccount(user.id);
+
+    const response = new NextResponse(json);
+    response.headers.set('Content-Type', 'application/json');
+    response.headers.set('Content-Disposition', `attachment; filename="${exportFilename('blitzapp_account', 'json')}"`);
+    response.headers.set('X-Export-Id', exportId);
+
+    return response;
+  } catch (error) {
+    console.error('Account export error:', error);
+    return NextResponse.json({
+      error: 'Failed to export account',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { AuthManager, clearSessionCookie, getSessionUser, normalizeEmail, unauthorized } from '@/lib/auth';
+import { AccountManager } from '@/lib/account';
+
+// Permanently deletes the signed-in user's account. Session only, never via an API token,
+// and the user must retype their email (and password, if they have one) to confirm.
+export async function DELETE(req: NextRequest) {
+  try {
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) return unauthorized();
+
+    const { confirmEmail, password } = await req.json();
+
+    if (!confirmEmail || normalizeEmail(String(confirmEmail)) !== normalizeEmail(sessionUser.email)) {
+      return NextResponse.json({ error: 'confirmEmail must match your account email' }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: sessionUser.id },
+      select: { password_hash: true }
+    });
+    if (user?.password_hash && (!password || !await AuthManager.verifyPassword(String(password), user.password_hash))) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 403 });
+    }
+
+    const deleted = await AccountManager.deleteAccount(sessionUser.id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+
+    return response;
+  } catch (error) {
+    console.error('Account deletion error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete account',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
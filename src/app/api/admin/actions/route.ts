@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminService, adminRequired, getAdminUser } from '@/lib/adminService';
+
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    const { searchParams } = new URL(req.url);
+
+    const result = await AdminService.getAdminActions({
+      type: searchParams.get('type') || undefined,
+      targetType: searchParams.get('targetType') || undefined,
+      performedBy: searchParams.get('performedBy') || undefined,
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '20')
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Admin actions error:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch admin actions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    const { type, targetId, targetType, action, reason, metadata } = await req.json();
+
+    if (!type || !targetId || !targetType || !action) {
+      return NextResponse.json({ error: 'type, targetId, targetType and action required' }, { status: 400 });
+    }
+
+    // performedBy always comes from the session, never the request body
+    await AdminService.logAction(admin, { type, targetId, targetType, action, reason, metadata });
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error('Log admin action error:', error);
+    return NextResponse.json({
+      error: 'Failed to log admin action',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
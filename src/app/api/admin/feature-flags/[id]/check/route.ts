@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { isFeatureEnabled } from '@/lib/featureFlags';
+
+// Any signed-in user may ask about their own flags; the segment is the flag name, not its id
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser(req);
+    const enabled = await isFeatureEnabled(params.id, user);
+
+    return NextResponse.json({ name: params.id, enabled });
+  } catch (error) {
+    console.error('Feature flag check error:', error);
+    return NextResponse.json({
+      error: 'Failed to check feature flag',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
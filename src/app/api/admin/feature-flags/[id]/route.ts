@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminService, adminRequired, getAdminUser } from '@/lib/adminService';
+import { FeatureFlagManager } from '@/lib/featureFlags';
+
+type Params = { params: { id: string } };
+
+export async function PUT(req: NextRequest, { params }: Params) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    const existing = await FeatureFlagManager.getFlag(params.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Feature flag not found' }, { status: 404 });
+    }
+
+    const { name, description, enabled, enabledFor, targetUsers, excludedUsers, targetPercentage } = await req.json();
+    const input = {
+      name,
+      description,
+      enabled: enabled !== undefined ? !!enabled : undefined,
+      enabledFor,
+      targetUsers,
+      excludedUsers,
+      targetPercentage
+    };
+
+    const invalid = FeatureFlagManager.validate(input, false);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    if (name !== undefined && name !== existing.name && await FeatureFlagManager.getFlagByName(name)) {
+      return NextResponse.json({ error: 'A feature flag with this name already exists' }, { status: 409 });
+    }
+
+    const flag = await FeatureFlagManager.updateFlag(existing.id, input);
+    const changes = Object.keys(input).filter(key => input[key as keyof typeof input] !== undefined);
+
+    await AdminService.logAction(admin, {
+      type: 'feature_flag_change',
+      targetId: flag.id,
+      targetType: 'feature',
+      action: input.enabled !== undefined && input.enabled !== existing.enabled
+        ? `${flag.enabled ? 'Enabled' : 'Disabled'} feature flag ${flag.name}`
+        : `Updated feature flag ${flag.name}`,
+      metadata: { changes, previous: FeatureFlagManager.toFeatureFlag(existing) }
+    });
+
+    return NextResponse.json(flag);
+  } catch (error) {
+    console.error('Admin update feature flag error:', error);
+    return NextResponse.json({
+      error: 'Failed to update feature flag',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    const existing = await FeatureFlagManager.getFlag(params.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Feature flag not found' }, { status: 404 });
+    }
+
+    await FeatureFlagManager.deleteFlag(existing.id);
+
+    await AdminService.logAction(admin, {
+      type: 'feature_flag_change',
+      targetId: existing.id,
+      targetType: 'feature',
+      action: `Deleted feature flag ${existing.name}`,
+      metadata: { previous: FeatureFlagManager.toFeatureFlag(existing) }
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Admin delete feature flag error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete feature flag',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
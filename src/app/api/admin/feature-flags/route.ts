@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminService, adminRequired, getAdminUser } from '@/lib/adminService';
+import { FeatureFlagManager } from '@/lib/featureFlags';
+
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    return NextResponse.json(await FeatureFlagManager.listFlags());
+  } catch (error) {
+    console.error('Admin list feature flags error:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch feature flags',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    const { name, description, enabled, enabledFor, targetUsers, excludedUsers, targetPercentage } = await req.json();
+    const input = { name, description, enabled, enabledFor, targetUsers, excludedUsers, targetPercentage };
+
+    const invalid = FeatureFlagManager.validate(input, true);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    if (await FeatureFlagManager.getFlagByName(name)) {
+      return NextResponse.json({ error: 'A feature flag with this name already exists' }, { status: 409 });
+    }
+
+    const flag = await FeatureFlagManager.createFlag(admin.id, { ...input, enabled: !!enabled });
+
+    await AdminService.logAction(admin, {
+      type: 'feature_flag_change',
+      targetId: flag.id,
+      targetType: 'feature',
+      action: `Created feature flag ${flag.name}`,
+      metadata: { enabled: flag.enabled, enabledFor: flag.enabledFor, targetPercentage: flag.targetPercentage }
+    });
+
+    return NextResponse.json(flag, { status: 201 });
+  } catch (error) {
+    console.error('Admin create feature flag error:', error);
+    return NextResponse.json({
+      error: 'Failed to create feature flag',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
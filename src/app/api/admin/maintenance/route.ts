@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminService, adminRequired, getAdminUser } from '@/lib/adminService';
+
+const MAINTENANCE_TYPES = ['database', 'cache', 'restart'];
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    const { type, duration } = await req.json();
+
+    if (!MAINTENANCE_TYPES.includes(type)) {
+      return NextResponse.json({ error: 'type must be one of: ' + MAINTENANCE_TYPES.join(', ') }, { status: 400 });
+    }
+
+    const result = await AdminService.runMaintenance(type);
+
+    await AdminService.logAction(admin, {
+      type: 'system_maintenance',
+      targetId: type,
+      targetType: 'system',
+      action: `Ran ${type} maintenance`,
+      metadata: { duration, result }
+    });
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error('Admin maintenance error:', error);
+    return NextResponse.json({
+      error: 'Failed to trigger maintenance',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminService, adminRequired, getAdminUser } from '@/lib/adminService';
+
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    const stats = await AdminService.getSystemStats();
+
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error('Admin stats error:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch system stats',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
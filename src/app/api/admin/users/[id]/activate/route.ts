@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { AdminService, adminRequired, getAdminUser } from '@/lib/adminService';
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    const target = await prisma.user.findUnique({ where: { id: params.id } });
+    if (!target) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    if (!AdminService.canManage(admin, target)) {
+      return NextResponse.json({ error: 'You cannot modify this user' }, { status: 403 });
+    }
+
+    await AdminService.setStatus(admin, target, 'active');
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Admin activate user error:', error);
+    return NextResponse.json({
+      error: 'Failed to activate user',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
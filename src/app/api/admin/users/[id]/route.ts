@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { AdminService, adminRequired, getAdminUser, isUserRole } from '@/lib/adminService';
+
+type Params = { params: { id: string } };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    const user = await AdminService.getUser(params.id);
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error('Admin get user error:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch user',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: Params) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    const target = await prisma.user.findUnique({ where: { id: params.id } });
+    if (!target) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    if (!AdminService.canManage(admin, target)) {
+      return NextResponse.json({ error: 'You cannot modify this user' }, { status: 403 });
+    }
+
+    const { name, role, preferences } = await req.json();
+    const data: any = {};
+
+    if (name !== undefined) data.name = name || null;
+    if (role !== undefined) {
+      if (!isUserRole(role)) {
+        return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+      }
+      if (admin.role !== 'super_admin') {
+        return NextResponse.json({ error: 'Only super admins can change roles' }, { status: 403 });
+      }
+      data.role = role;
+    }
+    if (preferences?.notifications !== undefined) data.notification_task_due = !!preferences.notifications;
+    if (preferences?.emailDigest !== undefined) data.notification_daily_email = !!preferences.emailDigest;
+
+    await prisma.user.update({
+      where: { id: target.id },
+      data
+    });
+
+    await AdminService.logAction(admin, {
+      type: 'user_update',
+      targetId: target.id,
+      targetType: 'user',
+      action: data.role && data.role !== target.role
+        ? `Changed ${target.email} role from ${target.role} to ${data.role}`
+        : `Updated ${target.email}`,
+      metadata: { changes: Object.keys(data) }
+    });
+
+    return NextResponse.json(await AdminService.getUser(target.id));
+  } catch (error) {
+    console.error('Admin update user error:', error);
+    return NextResponse.json({
+      error: 'Failed to update user',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    const target = await prisma.user.findUnique({ where: { id: params.id } });
+    if (!target) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    if (!AdminService.canManage(admin, target)) {
+      return NextResponse.json({ error: 'You cannot delete this user' }, { status: 403 });
+    }
+
+    await AdminService.deleteUser(admin, target);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Admin delete user error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete user',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
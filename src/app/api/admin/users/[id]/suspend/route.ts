@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { AdminService, adminRequired, getAdminUser } from '@/lib/adminService';
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    const target = await prisma.user.findUnique({ where: { id: params.id } });
+    if (!target) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    if (!AdminService.canManage(admin, target)) {
+      return NextResponse.json({ error: 'You cannot modify this user' }, { status: 403 });
+    }
+
+    const { reason } = await req.json().catch(() => ({}));
+
+    await AdminService.setStatus(admin, target, 'suspended', reason);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Admin suspend user error:', error);
+    return NextResponse.json({
+      error: 'Failed to suspend user',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
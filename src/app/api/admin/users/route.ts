@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminService, adminRequired, getAdminUser } from '@/lib/adminService';
+
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await getAdminUser(req);
+    if (!admin) return adminRequired();
+
+    const { searchParams } = new URL(req.url);
+
+    const result = await AdminService.listUsers({
+      role: searchParams.get('role') || undefined,
+      status: searchParams.get('status') || undefined,
+      search: searchParams.get('search') || undefined,
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '20')
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Admin list users error:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch users',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,42 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { exportFilename } from '@/lib/csv';
+import { ExportRecordManager } from '@/lib/exportRecords';
 
 export async function POST(req: NextRequest) {
   try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'analytics:read')) return forbidden('analytics:read');
+    const { userId } = auth;
+
     const body = await req.json();
-    const { userId, exportType, filters } = body;
+    const { exportType, filters } = body;
 
-    if (!userId || !exportType) {
-      return NextResponse.json({ error: 'userId and exportType required' }, { status: 400 });
+    if (!exportType) {
+      return NextResponse.json({ error: 'exportType required' }, { status: 400 });
     }
 
-    let csvData = '';
+    let generate: (userId: string, filters: any) => Promise<string>;
     let filename = '';
 
     switch (exportType) {
       case 'summary':
-        csvData = await generateSummaryCSV(userId, filters);
-        filename = `analytics_summary_${new Date().toISOString().split('T')[0]}.csv`;
+        generate = generateSummaryCSV;
+        filename = exportFilename('analytics_summary', 'csv');
         break;
       
       case 'tasks':
-        csvData = await generateTasksCSV(userId, filters);
-        filename = `tasks_export_${new Date().toISOString().split('T')[0]}.csv`;
+        generate = generateTasksCSV;
+        filename = exportFilename('tasks_export', 'csv');
         break;
       
       case 'focus-sessions':
-        csvData = await generateFocusSessionsCSV(userId, filters);
-        filename = `focus_sessions_export_${new Date().toISOString().split('T')[0]}.csv`;
+        generate = generateFocusSessionsCSV;
+        filename = exportFilename('focus_sessions_export', 'csv');
         break;
       
       default:
         return NextResponse.json({ error: 'Invalid export type' }, { status: 400 });
     }
 
+    const { exportId, content: csvData } = await ExportRecordManager.track(
+      userId,
+      exportType,
+      { filters, dateRange: filters?.dateRange },
+      () => generate(userId, filters)
+    );
+
     // Create CSV response
     const response = new NextResponse(csvData);
     response.headers.set('Content-Type', 'text/csv');
     response.headers.set('Content-Disposition', `attachment; filename="${filename}"`);
+    response.headers.set('X-Export-Id', exportId);
     
     return response;
 
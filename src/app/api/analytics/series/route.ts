@@ -1,18 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { addDays, dayKey, endOfDay, hourOf, startOfDay, startOfWeek } from '@/lib/timezone';
+import { UserSettingsManager } from '@/lib/userSettings';
 
 export async function GET(req: NextRequest) {
   const url = new URL(req.url);
-  const userId = url.searchParams.get('userId');
+  const auth = await getRequestAuth(req);
   const from = url.searchParams.get('from');
   const to = url.searchParams.get('to');
   const groupBy = url.searchParams.get('groupBy') || 'day'; // day, hour, week, month
   
-  if (!userId) {
-    return NextResponse.json({ error: 'userId required' }, { status: 400 });
+  if (!auth) {
+    return unauthorized();
   }
+  if (isSuspended(auth)) {
+    return accountSuspended();
+  }
+  if (!hasScope(auth, 'analytics:read')) {
+    return forbidden('analytics:read');
+  }
+  const { userId } = auth;
 
   try {
+    // Buckets are the user's own days, hours and weeks
+    const timeZone = await UserSettingsManager.getTimeZone(userId);
     const fromDate = from ? new Date(from) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
     const toDate = to ? new Date(to) : new Date();
 
@@ -52,23 +64,22 @@ export async function GET(req: NextRequest) {
       const dailyStats = new Map<string, { tasks: number; focusMinutes: number }>();
 
       // Initialize all days in range
-      const currentDate = new Date(fromDate);
+      let currentDate = startOfDay(fromDate, timeZone);
       while (currentDate <= toDate) {
-        const dateKey = currentDate.toISOString().split('T')[0];
-        dailyStats.set(dateKey, { tasks: 0, focusMinutes: 0 });
-        currentDate.setDate(currentDate.getDate() + 1);
+        dailyStats.set(dayKey(currentDate, timeZone), { tasks: 0, focusMinutes: 0 });
+        currentDate = addDays(currentDate, 1, timeZone);
       }
 
       // Add task completions
       tasks.forEach(task => {
-        const dateKey = task.completed_at!.toISOString().split('T')[0];
+        const dateKey = dayKey(task.completed_at!, timeZone);
         const existing = dailyStats.get(dateKey) || { tasks: 0, focusMinutes: 0 };
         dailyStats.set(dateKey, { ...existing, tasks: existing.tasks + 1 });
       });
 
       // Add focus sessions
       focusSessions.forEach(session => {
-        const dateKey = session.started_at.toISOString().split('T')[0];
+        const dateKey = dayKey(session.started_at, timeZone);
         const existing = dailyStats.get(dateKey) || { tasks: 0, focusMinutes: 0 };
         dailyStats.set(dateKey, { 
           ...existing, 
@@ -86,10 +97,8 @@ export async function GET(req: NextRequest) {
     } else if (groupBy === 'hour') {
       // Hourly data for a specific day
       const dayDate = from ? new Date(from) : new Date();
-      const dayStart = new Date(dayDate);
-      dayStart.setHours(0, 0, 0, 0);
-      const dayEnd = new Date(dayDate);
-      dayEnd.setHours(23, 59, 59, 999);
+      const dayStart = startOfDay(dayDate, timeZone);
+      const dayEnd = endOfDay(dayDate, timeZone);
 
       const focusSessions = await prisma.focusSession.findMany({
         where: {
@@ -113,7 +122,7 @@ export async function GET(req: NextRequest) {
       }
 
       focusSessions.forEach(session => {
-        const hour = session.started_at.getHours();
+        const hour = hourOf(session.started_at, timeZone);
         const existing = hourlyStats.get(hour) || 0;
         hourlyStats.set(hour, existing + session.focus_minutes);
       });
@@ -146,10 +155,7 @@ export async function GET(req: NextRequest) {
       const weeklyStats = new Map<string, { tasks: number; focusMinutes: number }>();
 
       focusSessions.forEach(session => {
-        const weekStart = new Date(session.started_at);
-        weekStart.setDate(weekStart.getDate() - weekStart.getDay());
-        weekStart.setHours(0, 0, 0, 0);
-        const weekKey = weekStart.toISOString().split('T')[0];
+        const weekKey = dayKey(startOfWeek(session.started_at, timeZone), timeZone);
 
         const existing = weeklyStats.get(weekKey) || { tasks: 0, focusMinutes: 0 };
         weeklyStats.set(weekKey, { 
@@ -169,6 +175,7 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({
       series,
       groupBy,
+      timeZone,
       dateRange: {
         from: fromDate.toISOString(),
         to: toDate.toISOString()
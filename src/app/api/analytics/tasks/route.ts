@@ -1,16 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
 
 export async function GET(req: NextRequest) {
   const url = new URL(req.url);
-  const userId = url.searchParams.get('userId');
+  const auth = await getRequestAuth(req);
   const from = url.searchParams.get('from');
   const to = url.searchParams.get('to');
   const status = url.searchParams.get('status'); // all, done, todo, overdue
   
-  if (!userId) {
-    return NextResponse.json({ error: 'userId required' }, { status: 400 });
+  if (!auth) {
+    return unauthorized();
   }
+  if (isSuspended(auth)) {
+    return accountSuspended();
+  }
+  if (!hasScope(auth, 'analytics:read')) {
+    return forbidden('analytics:read');
+  }
+  const { userId } = auth;
 
   try {
     const fromDate = from ? new Date(from) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
@@ -87,6 +95,7 @@ export async function GET(req: NextRequest) {
       return {
         id: task.id,
         title: task.title,
+        projectId: task.projectId,
         status: task.status,
         priority: task.priority,
         due_at: task.due_at,
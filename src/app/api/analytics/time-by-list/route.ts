@@ -1,15 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
 
 export async function GET(req: NextRequest) {
   const url = new URL(req.url);
-  const userId = url.searchParams.get('userId');
+  const auth = await getRequestAuth(req);
   const from = url.searchParams.get('from');
   const to = url.searchParams.get('to');
   
-  if (!userId) {
-    return NextResponse.json({ error: 'userId required' }, { status: 400 });
+  if (!auth) {
+    return unauthorized();
   }
+  if (isSuspended(auth)) {
+    return accountSuspended();
+  }
+  if (!hasScope(auth, 'analytics:read')) {
+    return forbidden('analytics:read');
+  }
+  const { userId } = auth;
 
   try {
     const fromDate = from ? new Date(from) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
@@ -29,34 +37,36 @@ export async function GET(req: NextRequest) {
         task: {
           select: {
             title: true,
-            tags_json: true,
-            priority: true
+            project: {
+              select: { id: true, name: true, color: true }
+            }
           }
         }
       }
     });
 
-    // Group by tags/lists
-    const timeByList = new Map<string, { minutes: number; sessions: number; tasks: Set<string> }>();
+    // Group by project; sessions without a task or project share one bucket
+    const timeByList = new Map<string | null, {
+      list: string;
+      color: string | null;
+      minutes: number;
+      sessions: number;
+      tasks: Set<string>;
+    }>();
 
     focusSessions.forEach(session => {
-      let listName = 'No List';
-      
-      if (session.task) {
-        try {
-          const tags = JSON.parse(session.task.tags_json || '[]');
-          if (tags.length > 0) {
-            // Use the first tag as the list name
-            listName = tags[0].replace('#', '');
-          }
-        } catch {
-          // If tags parsing fails, use priority as list
-          listName = session.task.priority || 'No List';
-        }
-      }
+      const project = session.task?.project ?? null;
+      const key = project?.id ?? null;
 
-      const existing = timeByList.get(listName) || { minutes: 0, sessions: 0, tasks: new Set() };
-      timeByList.set(listName, {
+      const existing = timeByList.get(key) || {
+        list: project?.name ?? 'No Project',
+        color: project?.color ?? null,
+        minutes: 0,
+        sessions: 0,
+        tasks: new Set<string>()
+      };
+      timeByList.set(key, {
+        ...existing,
         minutes: existing.minutes + session.focus_minutes,
         sessions: existing.sessions + 1,
         tasks: existing.tasks.add(session.task?.title || 'Unknown Task')
@@ -64,8 +74,10 @@ export async function GET(req: NextRequest) {
     });
 
     // Convert to array format for chart
-    const chartData = Array.from(timeByList.entries()).map(([list, data]) => ({
-      list,
+    const chartData = Array.from(timeByList.entries()).map(([projectId, data]) => ({
+      list: data.list,
+      projectId,
+      color: data.color,
       minutes: data.minutes,
       hours: Math.round((data.minutes / 60) * 100) / 100,
       sessions: data.sessions,
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthManager, setSessionCookie } from '@/lib/auth';
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { email, password } = body;
+
+    if (!email || !password) {
+      return NextResponse.json({ error: 'email and password are required' }, { status: 400 });
+    }
+
+    const user = await AuthManager.signInWithPassword(email, password);
+    if (!user) {
+      return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
+    }
+
+    const { token, expiresAt } = await AuthManager.createSession(user.id, req.headers.get('user-agent'));
+    const response = NextResponse.json({ user });
+    setSessionCookie(response, token, expiresAt);
+
+    return response;
+  } catch (error) {
+    console.error('Login error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to sign in',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthManager, clearSessionCookie } from '@/lib/auth';
+import { SESSION_ID_HEADER } from '@/lib/sessionToken';
+
+export async function POST(req: NextRequest) {
+  try {
+    const sessionId = req.headers.get(SESSION_ID_HEADER);
+    if (sessionId) {
+      await AuthManager.revokeSession(sessionId);
+    }
+
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+
+    return response;
+  } catch (error) {
+    console.error('Logout error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to sign out',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
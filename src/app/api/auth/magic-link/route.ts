@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthManager, devLinksEnabled } from '@/lib/auth';
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { email, next } = body;
+
+    if (!email || typeof email !== 'string' || !email.includes('@')) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+
+    const link = await AuthManager.requestMagicLink(email, next);
+
+    // Always respond the same way so the endpoint can't be used to probe for accounts
+    return NextResponse.json({
+      success: true,
+      ...(devLinksEnabled() && { devLink: link })
+    });
+  } catch (error) {
+    console.error('Magic link request error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to send sign-in link',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthManager, setSessionCookie } from '@/lib/auth';
+import { safeRedirectPath } from '@/lib/safeRedirect';
+
+export async function GET(req: NextRequest) {
+  const url = new URL(req.url);
+  const token = url.searchParams.get('token');
+  const next = safeRedirectPath(url.searchParams.get('next'));
+
+  try {
+    const user = token ? await AuthManager.consumeMagicLink(token) : null;
+    if (!user) {
+      return NextResponse.redirect(new URL('/login?error=invalid_link', req.url));
+    }
+
+    const { token: sessionToken, expiresAt } = await AuthManager.createSession(user.id, req.headers.get('user-agent'));
+    const response = NextResponse.redirect(new URL(next, req.url));
+    setSessionCookie(response, sessionToken, expiresAt);
+
+    return response;
+  } catch (error) {
+    console.error('Magic link verification error:', error);
+    return NextResponse.redirect(new URL('/login?error=invalid_link', req.url));
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getSessionUser(req);
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error('Session lookup error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to load session',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
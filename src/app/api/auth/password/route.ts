@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthManager, getSessionUser, unauthorized } from '@/lib/auth';
+
+// Adds or changes the signed-in user's password. Session only: a magic-link account gets a
+// password here after signing in with a link, never through registration.
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getSessionUser(req);
+    if (!user) return unauthorized();
+
+    const { password, currentPassword } = await req.json();
+
+    if (!AuthManager.isValidPassword(password)) {
+      return NextResponse.json({ error: 'Password must be at least 8 characters' }, { status: 400 });
+    }
+
+    const updated = await AuthManager.setPassword(
+      user.id,
+      password,
+      typeof currentPassword === 'string' ? currentPassword : undefined
+    );
+    if (!updated) {
+      return NextResponse.json({ error: 'Incorrect current password' }, { status: 403 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Set password error:', error);
+    return NextResponse.json({
+      error: 'Failed to set password',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthManager, setSessionCookie } from '@/lib/auth';
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { email, password, name } = body;
+
+    if (!email || !password) {
+      return NextResponse.json({ error: 'email and password are required' }, { status: 400 });
+    }
+
+    if (!AuthManager.isValidPassword(password)) {
+      return NextResponse.json({ error: 'Password must be at least 8 characters' }, { status: 400 });
+    }
+
+    const user = await AuthManager.register(email, password, name);
+    if (!user) {
+      return NextResponse.json({ error: 'An account with this email already exists' }, { status: 409 });
+    }
+
+    const { token, expiresAt } = await AuthManager.createSession(user.id, req.headers.get('user-agent'));
+    const response = NextResponse.json({ user }, { status: 201 });
+    setSessionCookie(response, token, expiresAt);
+
+    return response;
+  } catch (error) {
+    console.error('Registration error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to register',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,14 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { DEFAULT_TIME_ZONE, addDays, dayKey, resolveTimeZone, startOfDay } from '@/lib/timezone';
 
 export async function POST(req: NextRequest) {
   try {
     const now = new Date();
-    const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-    const yesterdayStart = new Date(yesterday);
-    yesterdayStart.setHours(0, 0, 0, 0);
-    const yesterdayEnd = new Date(yesterday);
-    yesterdayEnd.setHours(23, 59, 59, 999);
 
     // Get all users
     const users = await prisma.user.findMany();
@@ -17,6 +13,12 @@ export async function POST(req: NextRequest) {
 
     for (const user of users) {
       try {
+        // "Yesterday" is the user's previous calendar day in their own time zone
+        const timeZone = resolveTimeZone(user.timezone);
+        const todayStart = startOfDay(now, timeZone);
+        const yesterdayStart = addDays(todayStart, -1, timeZone);
+        const yesterdayEnd = new Date(todayStart.getTime() - 1);
+
         // Get yesterday's focus sessions
         const focusSessions = await prisma.focusSession.findMany({
           where: {
@@ -92,7 +94,7 @@ export async function POST(req: NextRequest) {
 
         // Create daily rollup
         const rollup = {
-          id: `rollup-${user.id}-${yesterdayStart.toISOString().split('T')[0]}`,
+          id: `rollup-${user.id}-${dayKey(yesterdayStart, timeZone)}`,
           userId: user.id,
           date: yesterdayStart,
           totalFocusTime,
@@ -185,7 +187,7 @@ export async function POST(req: NextRequest) {
       rollupsGenerated: rollups.length,
       usersUpdated: updatedUsers.length,
       systemStats,
-      date: yesterdayStart.toISOString().split('T')[0]
+      date: dayKey(addDays(now, -1, DEFAULT_TIME_ZONE), DEFAULT_TIME_ZONE)
     });
   } catch (error) {
     console.error('Failed to generate daily rollups:', error);
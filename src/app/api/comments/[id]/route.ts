@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { CommentManager, validateCommentBody } from '@/lib/comments';
+
+// Edits one of the caller's own comments
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { body } = await req.json();
+    const invalid = validateCommentBody(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const comment = await CommentManager.update(params.id, auth.userId, body);
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(CommentManager.toView(comment, { viewerId: auth.userId }));
+  } catch (error) {
+    console.error('Update comment error:', error);
+    return NextResponse.json({
+      error: 'Failed to update comment',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Deletes a comment the caller wrote or that is on one of their tasks
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const removed = await CommentManager.remove(params.id, auth.userId);
+    if (!removed) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete comment error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete comment',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { CommentManager, validateCommentBody } from '@/lib/comments';
+
+// A task's comment threads and the people who can be @mentioned on it
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+
+    const taskId = new URL(req.url).searchParams.get('taskId');
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+    }
+
+    const task = await CommentManager.getTask(taskId, auth.userId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const [comments, participants] = await Promise.all([
+      CommentManager.list(task, { viewerId: auth.userId }),
+      CommentManager.participants(task)
+    ]);
+
+    return NextResponse.json({
+      comments,
+      participants: participants.map(({ handle, name }) => ({ handle, name }))
+    });
+  } catch (error) {
+    console.error('List comments error:', error);
+    return NextResponse.json({
+      error: 'Failed to list comments',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { taskId, body, parentId } = await req.json();
+
+    if (typeof taskId !== 'string') {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+    }
+    const invalid = validateCommentBody(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+      return NextResponse.json({ error: 'parentId must be a string' }, { status: 400 });
+    }
+
+    const task = await CommentManager.getTask(taskId, auth.userId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const comment = await CommentManager.create(task, await CommentManager.authorFor(auth.userId), { body, parentId });
+    if (typeof comment === 'string') {
+      return NextResponse.json({ error: comment }, { status: 400 });
+    }
+
+    return NextResponse.json(CommentManager.toView(comment, { viewerId: auth.userId }), { status: 201 });
+  } catch (error) {
+    console.error('Create comment error:', error);
+    return NextResponse.json({
+      error: 'Failed to create comment',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { DependencyManager } from '@/lib/dependencies';
+
+// The tasks blocking `taskId` and the tasks it blocks
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+
+    const taskId = new URL(req.url).searchParams.get('taskId');
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+    }
+
+    const dependencies = await DependencyManager.listForTask(taskId, auth.userId);
+    if (!dependencies) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(dependencies);
+  } catch (error) {
+    console.error('List dependencies error:', error);
+    return NextResponse.json({
+      error: 'Failed to list dependencies',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { blockerId, blockedId } = await req.json();
+
+    if (typeof blockerId !== 'string' || typeof blockedId !== 'string') {
+      return NextResponse.json({ error: 'blockerId and blockedId are required' }, { status: 400 });
+    }
+    const dependency = await DependencyManager.addDependency(auth.userId, blockerId, blockedId);
+    if (!dependency) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+    if (dependency === 'cycle') {
+      return NextResponse.json({ error: 'this dependency would create a cycle' }, { status: 409 });
+    }
+
+    return NextResponse.json(dependency, { status: 201 });
+  } catch (error) {
+    console.error('Add dependency error:', error);
+    return NextResponse.json({
+      error: 'Failed to add dependency',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { searchParams } = new URL(req.url);
+    const blockerId = searchParams.get('blockerId');
+    const blockedId = searchParams.get('blockedId');
+
+    if (!blockerId || !blockedId) {
+      return NextResponse.json({ error: 'blockerId and blockedId are required' }, { status: 400 });
+    }
+
+    const removed = await DependencyManager.removeDependency(auth.userId, blockerId, blockedId);
+    if (!removed) {
+      return NextResponse.json({ error: 'Dependency not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove dependency error:', error);
+    return NextResponse.json({
+      error: 'Failed to remove dependency',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
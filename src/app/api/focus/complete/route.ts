@@ -1,10 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
 
 export async function POST(req: NextRequest) {
   try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'focus:write')) return forbidden('focus:write');
+    const { userId } = auth;
+
     const body = await req.json();
-    const { session, userId, sessionId, focusMinutes, sessionHash, startedAt } = body;
+    const { session, sessionId, focusMinutes, sessionHash, startedAt } = body;
 
     if (!sessionId || focusMinutes === undefined) {
       return NextResponse.json({ error: 'sessionId and focusMinutes are required' }, { status: 400 });
@@ -14,7 +21,7 @@ export async function POST(req: NextRequest) {
     const focusSession = await prisma.focusSession.create({
       data: {
         id: sessionId,
-        userId: userId || 'mock-user-id', // Fallback for demo
+        userId,
         taskId: session?.taskId,
         focus_minutes: focusMinutes,
         break_minutes: 0, // Will be calculated from preset
@@ -32,7 +39,7 @@ export async function POST(req: NextRequest) {
     if (session?.taskId) {
       try {
         await prisma.task.update({
-          where: { id: session.taskId },
+          where: { id: session.taskId, userId },
           data: {
             // Note: These fields may not exist in the current schema
             // focus_sessions_count: { increment: 1 },
@@ -1,14 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
 
 export async function GET(req: NextRequest) {
   try {
-    const url = new URL(req.url);
-    const userId = url.searchParams.get('userId');
-
-    if (!userId) {
-      return NextResponse.json({ error: 'userId required' }, { status: 400 });
-    }
+    const user = await getSessionUser(req);
+    if (!user) return unauthorized();
+    if (isSuspended(user)) return accountSuspended();
+    const userId = user.id;
 
     const presets = await prisma.focusPreset.findMany({
       where: { userId },
@@ -27,11 +26,16 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
+    const user = await getSessionUser(req);
+    if (!user) return unauthorized();
+    if (isSuspended(user)) return accountSuspended();
+    const userId = user.id;
+
     const body = await req.json();
-    const { userId, presets } = body;
+    const { presets } = body;
 
-    if (!userId || !presets) {
-      return NextResponse.json({ error: 'userId and presets required' }, { status: 400 });
+    if (!presets) {
+      return NextResponse.json({ error: 'presets required' }, { status: 400 });
     }
 
     // Delete existing presets for this user
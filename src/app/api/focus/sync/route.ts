@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
 
 export async function POST(req: NextRequest) {
   try {
+    const user = await getSessionUser(req);
+    if (!user) return unauthorized();
+    if (isSuspended(user)) return accountSuspended();
+    const userId = user.id;
+
     const body = await req.json();
     const { sessionId, startTime, duration, phase, taskId, isRunning, lastSyncTime } = body;
 
@@ -14,7 +20,7 @@ export async function POST(req: NextRequest) {
 
     // Check if session exists
     let session = await prisma.focusSession.findUnique({
-      where: { id: sessionId }
+      where: { id: sessionId, userId }
     });
 
     if (!session) {
@@ -22,7 +28,7 @@ export async function POST(req: NextRequest) {
       session = await prisma.focusSession.create({
         data: {
           id: sessionId,
-          userId: 'user-123', // Replace with actual user ID
+          userId,
           taskId,
           duration_min: duration,
           phase,
@@ -34,7 +40,7 @@ export async function POST(req: NextRequest) {
     } else {
       // Update existing session
       session = await prisma.focusSession.update({
-        where: { id: sessionId },
+        where: { id: sessionId, userId },
         data: {
           duration_min: duration,
           phase,
@@ -60,6 +66,11 @@ export async function POST(req: NextRequest) {
 
 export async function GET(req: NextRequest) {
   try {
+    const user = await getSessionUser(req);
+    if (!user) return unauthorized();
+    if (isSuspended(user)) return accountSuspended();
+    const userId = user.id;
+
     const url = new URL(req.url);
     const sessionId = url.searchParams.get('sessionId');
 
@@ -70,7 +81,7 @@ export async function GET(req: NextRequest) {
     }
 
     const session = await prisma.focusSession.findUnique({
-      where: { id: sessionId },
+      where: { id: sessionId, userId },
       include: { task: true }
     });
 
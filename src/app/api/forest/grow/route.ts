@@ -1,15 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
 import { getForestManager } from '@/lib/forest';
 
 export async function POST(req: NextRequest) {
   try {
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) return unauthorized();
+    if (isSuspended(sessionUser)) return accountSuspended();
+    const userId = sessionUser.id;
+
     const body = await req.json();
-    const { userId, sessionId, focusMinutes, sessionHash } = body;
+    const { sessionId, focusMinutes, sessionHash } = body;
 
-    if (!userId || !sessionId || !focusMinutes || !sessionHash) {
+    if (!sessionId || !focusMinutes || !sessionHash) {
       return NextResponse.json({ 
-        error: 'userId, sessionId, focusMinutes, and sessionHash required' 
+        error: 'sessionId, focusMinutes, and sessionHash required' 
       }, { status: 400 });
     }
 
@@ -1,16 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
+import { isFeatureEnabled } from '@/lib/featureFlags';
 import { getForestManager } from '@/lib/forest';
 import { canAffordSpecies } from '@/lib/gamification';
 
+// The shop is dark-launched per cohort behind the forest_shop flag
+function shopUnavailable() {
+  return NextResponse.json({ error: 'Forest shop is not available' }, { status: 404 });
+}
+
 export async function GET(req: NextRequest) {
   try {
-    const url = new URL(req.url);
-    const userId = url.searchParams.get('userId');
+    const sessionUser = await getSessionUser(req);
     
-    if (!userId) {
-      return NextResponse.json({ error: 'userId required' }, { status: 400 });
+    if (!sessionUser) {
+      return unauthorized();
+    }
+    if (isSuspended(sessionUser)) {
+      return accountSuspended();
     }
+    if (!await isFeatureEnabled('forest_shop', sessionUser)) {
+      return shopUnavailable();
+    }
+    const userId = sessionUser.id;
 
     // Get user data
     const user = await prisma.user.findUnique({
@@ -87,11 +100,17 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) return unauthorized();
+    if (isSuspended(sessionUser)) return accountSuspended();
+    if (!await isFeatureEnabled('forest_shop', sessionUser)) return shopUnavailable();
+    const userId = sessionUser.id;
+
     const body = await req.json();
-    const { userId, speciesId } = body;
+    const { speciesId } = body;
 
-    if (!userId || !speciesId) {
-      return NextResponse.json({ error: 'userId and speciesId required' }, { status: 400 });
+    if (!speciesId) {
+      return NextResponse.json({ error: 'speciesId required' }, { status: 400 });
     }
 
     const forestManager = getForestManager();
@@ -1,15 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
 import { getForestManager } from '@/lib/forest';
 import { getNextMilestone, getStreakMilestone } from '@/lib/gamification';
 
 export async function GET(req: NextRequest) {
-  const url = new URL(req.url);
-  const userId = url.searchParams.get('userId');
+  const sessionUser = await getSessionUser(req);
   
-  if (!userId) {
-    return NextResponse.json({ error: 'userId required' }, { status: 400 });
+  if (!sessionUser) {
+    return unauthorized();
   }
+  if (isSuspended(sessionUser)) {
+    return accountSuspended();
+  }
+  const userId = sessionUser.id;
 
   try {
     // Get user data
@@ -1,15 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
 import { getForestManager } from '@/lib/forest';
 
 export async function GET(req: NextRequest) {
   try {
-    const url = new URL(req.url);
-    const userId = url.searchParams.get('userId');
+    const sessionUser = await getSessionUser(req);
     
-    if (!userId) {
-      return NextResponse.json({ error: 'userId required' }, { status: 400 });
+    if (!sessionUser) {
+      return unauthorized();
     }
+    if (isSuspended(sessionUser)) {
+      return accountSuspended();
+    }
+    const userId = sessionUser.id;
 
     // Get user's trees with species information
     const trees = await prisma.treeInstance.findMany({
@@ -31,11 +35,16 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) return unauthorized();
+    if (isSuspended(sessionUser)) return accountSuspended();
+    const userId = sessionUser.id;
+
     const body = await req.json();
-    const { userId, speciesId } = body;
+    const { speciesId } = body;
 
-    if (!userId || !speciesId) {
-      return NextResponse.json({ error: 'userId and speciesId required' }, { status: 400 });
+    if (!speciesId) {
+      return NextResponse.json({ error: 'speciesId required' }, { status: 400 });
     }
 
     const forestManager = getForestManager();
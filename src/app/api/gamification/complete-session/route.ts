@@ -1,15 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
 import { calculatePoints, calculateStreak, validateSession, generateSessionHash } from '@/lib/gamification';
 import { getForestManager } from '@/lib/forest';
+import { resolveTimeZone } from '@/lib/timezone';
 
 export async function POST(req: NextRequest) {
   try {
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) return unauthorized();
+    if (isSuspended(sessionUser)) return accountSuspended();
+    const userId = sessionUser.id;
+
     const body = await req.json();
-    const { session, userId } = body;
+    const { session } = body;
 
-    if (!session || !userId) {
-      return NextResponse.json({ error: 'session and userId required' }, { status: 400 });
+    if (!session) {
+      return NextResponse.json({ error: 'session required' }, { status: 400 });
     }
 
     // Get user data
@@ -18,6 +25,7 @@ export async function POST(req: NextRequest) {
       select: { 
         points: true, 
         streak_days: true, 
+        timezone: true,
         created_at: true 
       }
     });
@@ -59,7 +67,9 @@ export async function POST(req: NextRequest) {
 
     const streakCalculation = calculateStreak(
       user.streak_days,
-      lastFocusSession?.started_at || null
+      lastFocusSession?.started_at || null,
+      new Date(),
+      resolveTimeZone(user.timezone)
     );
 
     // Create focus session record
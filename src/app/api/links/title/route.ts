@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { LinkTitleManager } from '@/lib/linkTitles';
+
+// The title of the page at `?url=`, for turning pasted links into [Title](url).
+// `title` is null when the page has none or can't be fetched.
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const url = new URL(req.url).searchParams.get('url');
+    if (!url || !/^https?:\/\/\S+$/i.test(url) || !URL.canParse(url)) {
+      return NextResponse.json({ error: 'url must be an http(s) address' }, { status: 400 });
+    }
+
+    return NextResponse.json({ url, title: await LinkTitleManager.titleFor(url) });
+  } catch (error) {
+    console.error('Link title error:', error);
+    return NextResponse.json({
+      error: 'Failed to look up link title',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
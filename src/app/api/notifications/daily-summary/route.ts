@@ -1,17 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
 import { dailySummaryService } from '@/lib/dailySummary';
 
 export async function POST(req: NextRequest) {
   try {
-    const body = await req.json();
-    const { userId, email, summary, content } = body;
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) return unauthorized();
+    if (isSuspended(sessionUser)) return accountSuspended();
+    const userId = sessionUser.id;
 
-    if (!userId) {
-      return NextResponse.json({ 
-        error: 'userId is required' 
-      }, { status: 400 });
-    }
+    const body = await req.json();
+    const { email, summary, content } = body;
 
     // If summary is provided, use it; otherwise generate one
     let dailySummary = summary;
@@ -94,14 +94,16 @@ export async function POST(req: NextRequest) {
 export async function GET(req: NextRequest) {
   try {
     const url = new URL(req.url);
-    const userId = url.searchParams.get('userId');
+    const sessionUser = await getSessionUser(req);
     const date = url.searchParams.get('date');
 
-    if (!userId) {
-      return NextResponse.json({ 
-        error: 'userId is required' 
-      }, { status: 400 });
+    if (!sessionUser) {
+      return unauthorized();
+    }
+    if (isSuspended(sessionUser)) {
+      return accountSuspended();
     }
+    const userId = sessionUser.id;
 
     const targetDate = date ? new Date(date) : new Date();
     const summary = await dailySummaryService.generateDailySummary(userId, targetDate);
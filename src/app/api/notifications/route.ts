@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
 
 export async function POST(req: NextRequest) {
   try {
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) return unauthorized();
+    if (isSuspended(sessionUser)) return accountSuspended();
+    const userId = sessionUser.id;
+
     const body = await req.json();
-    const { type, title, message, taskId, userId, scheduledFor } = body;
+    const { type, title, message, taskId, scheduledFor } = body;
 
-    if (!type || !title || !message || !taskId || !userId) {
+    if (!type || !title || !message || !taskId) {
       return NextResponse.json({ 
-        error: 'type, title, message, taskId, and userId are required' 
+        error: 'type, title, message, and taskId are required' 
       }, { status: 400 });
     }
 
@@ -40,13 +46,17 @@ export async function POST(req: NextRequest) {
 export async function GET(req: NextRequest) {
   try {
     const url = new URL(req.url);
-    const userId = url.searchParams.get('userId');
+    const sessionUser = await getSessionUser(req);
     const type = url.searchParams.get('type');
     const unreadOnly = url.searchParams.get('unreadOnly') === 'true';
 
-    if (!userId) {
-      return NextResponse.json({ error: 'userId required' }, { status: 400 });
+    if (!sessionUser) {
+      return unauthorized();
+    }
+    if (isSuspended(sessionUser)) {
+      return accountSuspended();
     }
+    const userId = sessionUser.id;
 
     const where: any = { userId };
     if (type) where.type = type;
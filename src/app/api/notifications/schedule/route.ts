@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
 
 export async function POST(req: NextRequest) {
   try {
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) return unauthorized();
+    if (isSuspended(sessionUser)) return accountSuspended();
+    const userId = sessionUser.id;
+
     const body = await req.json();
-    const { userId, type, scheduledAt, payload, channel = 'local', taskId, sessionId } = body;
+    const { type, scheduledAt, payload, channel = 'local', taskId, sessionId } = body;
 
-    if (!userId || !type || !scheduledAt || !payload) {
+    if (!type || !scheduledAt || !payload) {
       return NextResponse.json({ 
-        error: 'userId, type, scheduledAt, and payload are required' 
+        error: 'type, scheduledAt, and payload are required' 
       }, { status: 400 });
     }
 
@@ -37,13 +43,17 @@ export async function POST(req: NextRequest) {
 export async function GET(req: NextRequest) {
   try {
     const url = new URL(req.url);
-    const userId = url.searchParams.get('userId');
+    const sessionUser = await getSessionUser(req);
     const type = url.searchParams.get('type');
     const unsentOnly = url.searchParams.get('unsentOnly') === 'true';
 
-    if (!userId) {
-      return NextResponse.json({ error: 'userId required' }, { status: 400 });
+    if (!sessionUser) {
+      return unauthorized();
+    }
+    if (isSuspended(sessionUser)) {
+      return accountSuspended();
     }
+    const userId = sessionUser.id;
 
     const where: any = { userId };
     if (type) where.type = type;
@@ -67,6 +77,11 @@ export async function GET(req: NextRequest) {
 
 export async function DELETE(req: NextRequest) {
   try {
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) return unauthorized();
+    if (isSuspended(sessionUser)) return accountSuspended();
+    const userId = sessionUser.id;
+
     const body = await req.json();
     const { notificationId } = body;
 
@@ -77,7 +92,7 @@ export async function DELETE(req: NextRequest) {
     }
 
     await prisma.notification.delete({
-      where: { id: notificationId }
+      where: { id: notificationId, userId }
     });
 
     return NextResponse.json({ success: true });
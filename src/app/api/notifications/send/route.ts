@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
 
 export async function POST(req: NextRequest) {
   try {
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) return unauthorized();
+    if (isSuspended(sessionUser)) return accountSuspended();
+    const userId = sessionUser.id;
+
     const body = await req.json();
-    const { userId, payload, channel = 'local', subscription } = body;
+    const { payload, channel = 'local', subscription } = body;
 
-    if (!userId || !payload) {
+    if (!payload) {
       return NextResponse.json({ 
-        error: 'userId and payload are required' 
+        error: 'payload is required' 
       }, { status: 400 });
     }
 
@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
 
 export async function POST(req: NextRequest) {
   try {
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) return unauthorized();
+    if (isSuspended(sessionUser)) return accountSuspended();
+    const userId = sessionUser.id;
+
     const body = await req.json();
-    const { userId, subscription } = body;
+    const { subscription } = body;
 
-    if (!userId || !subscription) {
-      return NextResponse.json({ error: 'userId and subscription required' }, { status: 400 });
+    if (!subscription) {
+      return NextResponse.json({ error: 'subscription required' }, { status: 400 });
     }
 
     // Save or update push subscription
@@ -41,11 +47,16 @@ export async function POST(req: NextRequest) {
 
 export async function DELETE(req: NextRequest) {
   try {
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) return unauthorized();
+    if (isSuspended(sessionUser)) return accountSuspended();
+    const userId = sessionUser.id;
+
     const body = await req.json();
-    const { userId, endpoint } = body;
+    const { endpoint } = body;
 
-    if (!userId || !endpoint) {
-      return NextResponse.json({ error: 'userId and endpoint required' }, { status: 400 });
+    if (!endpoint) {
+      return NextResponse.json({ error: 'endpoint required' }, { status: 400 });
     }
 
     await prisma.pushSubscription.delete({
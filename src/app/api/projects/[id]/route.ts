@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { ProjectManager, isProjectColor } from '@/lib/projects';
+
+type Params = { params: { id: string } };
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+    const { userId } = auth;
+
+    const { name, color, icon, archived } = await req.json();
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json({ error: 'name cannot be empty' }, { status: 400 });
+    }
+    if (color !== undefined && !isProjectColor(color)) {
+      return NextResponse.json({ error: 'color must be a hex colour like #3B82F6' }, { status: 400 });
+    }
+    if (icon !== undefined && icon !== null && typeof icon !== 'string') {
+      return NextResponse.json({ error: 'icon must be a string' }, { status: 400 });
+    }
+    if (archived !== undefined && typeof archived !== 'boolean') {
+      return NextResponse.json({ error: 'archived must be a boolean' }, { status: 400 });
+    }
+
+    if (name !== undefined) {
+      const existing = await ProjectManager.findByName(userId, name.trim());
+      if (existing && existing.id !== params.id) {
+        return NextResponse.json({ error: 'a project with this name already exists' }, { status: 409 });
+      }
+    }
+
+    const project = await ProjectManager.updateProject(params.id, userId, {
+      name: name?.trim(),
+      color,
+      icon,
+      archived
+    });
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(project);
+  } catch (error) {
+    console.error('Update project error:', error);
+    return NextResponse.json({
+      error: 'Failed to update project',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const deleted = await ProjectManager.deleteProject(params.id, auth.userId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete project error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete project',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
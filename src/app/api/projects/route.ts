@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { ProjectManager, isProjectColor } from '@/lib/projects';
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+
+    const includeArchived = new URL(req.url).searchParams.get('includeArchived') === 'true';
+    const projects = await ProjectManager.listProjects(auth.userId, includeArchived);
+
+    return NextResponse.json({ projects });
+  } catch (error) {
+    console.error('List projects error:', error);
+    return NextResponse.json({
+      error: 'Failed to list projects',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+    const { userId } = auth;
+
+    const { name, color, icon } = await req.json();
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+    if (color !== undefined && !isProjectColor(color)) {
+      return NextResponse.json({ error: 'color must be a hex colour like #3B82F6' }, { status: 400 });
+    }
+    if (icon !== undefined && icon !== null && typeof icon !== 'string') {
+      return NextResponse.json({ error: 'icon must be a string' }, { status: 400 });
+    }
+
+    if (await ProjectManager.findByName(userId, name.trim())) {
+      return NextResponse.json({ error: 'a project with this name already exists' }, { status: 409 });
+    }
+
+    const project = await ProjectManager.createProject(userId, { name: name.trim(), color, icon });
+
+    return NextResponse.json(project, { status: 201 });
+  } catch (error) {
+    console.error('Create project error:', error);
+    return NextResponse.json({
+      error: 'Failed to create project',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
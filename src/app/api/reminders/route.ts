@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
 import { nextReminder } from '@/lib/reminders';
+import { UserSettingsManager } from '@/lib/userSettings';
 
 export async function POST(req: NextRequest) {
+  const sessionUser = await getSessionUser(req);
+  if (!sessionUser) return unauthorized();
+  if (isSuspended(sessionUser)) return accountSuspended();
+  const userId = sessionUser.id;
+
   const body = await req.json();
   const { taskId, snoozeMinutes } = body;
 
@@ -10,7 +17,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'taskId required' }, { status: 400 });
   }
 
-  const task = await prisma.task.findUnique({ where: { id: taskId } });
+  const task = await prisma.task.findUnique({ where: { id: taskId, userId } });
   if (!task) {
     return NextResponse.json({ error: 'Task not found' }, { status: 404 });
   }
@@ -23,7 +30,8 @@ export async function POST(req: NextRequest) {
     newReminderTime = current;
   } else if (task.reminder_time && task.reminder_frequency) {
     // Calculate next reminder based on frequency
-    const next = nextReminder(task.reminder_time.toISOString(), task.reminder_frequency);
+    const timeZone = await UserSettingsManager.getTimeZone(userId);
+    const next = nextReminder(task.reminder_time.toISOString(), task.reminder_frequency, timeZone);
     newReminderTime = next ? new Date(next) : null;
   }
 
@@ -52,12 +60,15 @@ export async function POST(req: NextRequest) {
 }
 
 export async function GET(req: NextRequest) {
-  const url = new URL(req.url);
-  const userId = url.searchParams.get('userId');
+  const sessionUser = await getSessionUser(req);
 
-  if (!userId) {
-    return NextResponse.json({ error: 'userId required' }, { status: 400 });
+  if (!sessionUser) {
+    return unauthorized();
+  }
+  if (isSuspended(sessionUser)) {
+    return accountSuspended();
   }
+  const userId = sessionUser.id;
 
   const now = new Date();
   const notifications = await prisma.notification.findMany({
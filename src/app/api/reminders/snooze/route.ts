@@ -1,13 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
 
 export async function POST(req: NextRequest){
+  const sessionUser = await getSessionUser(req);
+  if (!sessionUser) return unauthorized();
+  if (isSuspended(sessionUser)) return accountSuspended();
+  const userId = sessionUser.id;
   const { id, minutes } = await req.json();
   if (!id || !minutes) return NextResponse.json({ error: 'id and minutes required' }, { status: 400 });
-  const t = await prisma.task.findUnique({ where: { id } });
+  const t = await prisma.task.findUnique({ where: { id, userId } });
   if (!t || !t.reminder_time) return NextResponse.json({ ok: true });
   const newTime = new Date(t.reminder_time.getTime() + Number(minutes)*60_000);
-  await prisma.task.update({ where: { id }, data: { reminder_time: newTime } });
+  await prisma.task.update({ where: { id, userId }, data: { reminder_time: newTime } });
   return NextResponse.json({ ok: true });
 }
 
@@ -1,15 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { parseRRule, previewOccurrences } from '@/lib/rrule';
-
-export async function GET(req: NextRequest){
-  const url = new URL(req.url);
-  const start = url.searchParams.get('start');
-  const rule = url.searchParams.get('rule');
-  if (!start || !rule) return NextResponse.json({ error: 'start and rule required' }, { status: 400 });
-  const parsed = parseRRule(rule);
-  if (!parsed) return NextResponse.json({ error: 'invalid rule' }, { status: 400 });
-  const occ = previewOccurrences(start, parsed, 5);
-  return NextResponse.json({ occurrences: occ });
-}
+import { RRuleParser, isValidTimeZone } from '@/lib/rrule';
+
+const MAX_PREVIEW = 50;
+
+// Expands a rule for display. `rule` may be a bare RRULE value or full RFC 5545 text with its
+// own DTSTART/EXDATE/RDATE lines; `start` (read in `tz` when given) is used when it has no DTSTART.
+export async function GET(req: NextRequest) {
+  try {
+    const url = new URL(req.url);
+    const start = url.searchParams.get('start');
+    const rule = url.searchParams.get('rule');
+    const tz = url.searchParams.get('tz') || undefined;
+    const count = Math.min(MAX_PREVIEW, Math.max(1, parseInt(url.searchParams.get('count') || '5') || 5));
 
+    if (!start || !rule) return NextResponse.json({ error: 'start and rule required' }, { status: 400 });
+    if (tz && !isValidTimeZone(tz)) return NextResponse.json({ error: 'invalid tz' }, { status: 400 });
 
+    const startDate = new Date(start);
+    if (isNaN(startDate.getTime())) return NextResponse.json({ error: 'invalid start' }, { status: 400 });
+
+    const parsed = RRuleParser.parse(rule, startDate, tz);
+    if (!parsed) return NextResponse.json({ error: 'invalid rule' }, { status: 400 });
+
+    return NextResponse.json({
+      occurrences: RRuleParser.generate(parsed, count).map(date => date.toISOString()),
+      rule: RRuleParser.toString(parsed)
+    });
+  } catch (error) {
+    console.error('RRULE preview error:', error);
+    return NextResponse.json({
+      error: 'Failed to preview rule',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
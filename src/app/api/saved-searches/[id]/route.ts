@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { SavedSearchManager } from '@/lib/savedSearches';
+import { parseSearchQuery } from '@/lib/searchQuery';
+
+type Params = { params: { id: string } };
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { name, query } = await req.json();
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json({ error: 'name cannot be empty' }, { status: 400 });
+    }
+    if (query !== undefined) {
+      if (typeof query !== 'string' || !query.trim()) {
+        return NextResponse.json({ error: 'query cannot be empty' }, { status: 400 });
+      }
+      const { errors } = parseSearchQuery(query);
+      if (errors.length > 0) {
+        return NextResponse.json({ error: errors[0], errors }, { status: 400 });
+      }
+    }
+
+    const savedSearch = await SavedSearchManager.updateSavedSearch(params.id, auth.userId, {
+      name: name?.trim(),
+      query: query?.trim()
+    });
+    if (!savedSearch) {
+      return NextResponse.json({ error: 'Saved search not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(savedSearch);
+  } catch (error) {
+    console.error('Update saved search error:', error);
+    return NextResponse.json({
+      error: 'Failed to update saved search',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const deleted = await SavedSearchManager.deleteSavedSearch(params.id, auth.userId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Saved search not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete saved search error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete saved search',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { SavedSearchManager } from '@/lib/savedSearches';
+import { parseSearchQuery } from '@/lib/searchQuery';
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+
+    const savedSearches = await SavedSearchManager.listSavedSearches(auth.userId);
+
+    return NextResponse.json({ savedSearches });
+  } catch (error) {
+    console.error('List saved searches error:', error);
+    return NextResponse.json({
+      error: 'Failed to list saved searches',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { name, query } = await req.json();
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+    if (typeof query !== 'string' || !query.trim()) {
+      return NextResponse.json({ error: 'query is required' }, { status: 400 });
+    }
+    const { errors } = parseSearchQuery(query);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors[0], errors }, { status: 400 });
+    }
+
+    const savedSearch = await SavedSearchManager.createSavedSearch(auth.userId, { name: name.trim(), query: query.trim() });
+
+    return NextResponse.json(savedSearch, { status: 201 });
+  } catch (error) {
+    console.error('Create saved search error:', error);
+    return NextResponse.json({
+      error: 'Failed to create saved search',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
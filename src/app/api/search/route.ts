@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { SearchManager } from '@/lib/search';
+import { parseSearchQuery } from '@/lib/searchQuery';
+import { UserSettingsManager } from '@/lib/userSettings';
+
+// GET /api/search?q=tag:work "exact phrase" -excluded
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+    const { userId } = auth;
+
+    const q = new URL(req.url).searchParams.get('q')?.trim() ?? '';
+    if (!q) {
+      return NextResponse.json({ error: 'q is required' }, { status: 400 });
+    }
+
+    const timeZone = await UserSettingsManager.getTimeZone(userId);
+    const query = parseSearchQuery(q, new Date(), { timeZone });
+    if (query.errors.length > 0) {
+      return NextResponse.json({ error: query.errors[0], errors: query.errors }, { status: 400 });
+    }
+
+    const results = await SearchManager.search(userId, query, timeZone);
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Search error:', error);
+    return NextResponse.json({
+      error: 'Failed to search tasks',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
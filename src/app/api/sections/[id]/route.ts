@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { SectionManager, isTaskStatus } from '@/lib/sections';
+
+type Params = { params: { id: string } };
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { name, status } = await req.json();
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json({ error: 'name cannot be empty' }, { status: 400 });
+    }
+    if (status !== undefined && status !== null && !isTaskStatus(status)) {
+      return NextResponse.json({ error: 'status must be todo, in_progress, completed or null' }, { status: 400 });
+    }
+
+    const section = await SectionManager.updateSection(params.id, auth.userId, { name: name?.trim(), status });
+    if (!section) {
+      return NextResponse.json({ error: 'Section not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(section);
+  } catch (error) {
+    console.error('Update section error:', error);
+    return NextResponse.json({
+      error: 'Failed to update section',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const deleted = await SectionManager.deleteSection(params.id, auth.userId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Section not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete section error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete section',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { ProjectManager } from '@/lib/projects';
+import { SectionManager, isTaskStatus } from '@/lib/sections';
+
+const STATUS_ERROR = 'status must be todo, in_progress, completed or null';
+
+// `projectId=null` (or no projectId) is the inbox board
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+
+    const projectId = new URL(req.url).searchParams.get('projectId');
+    const sections = await SectionManager.listSections(auth.userId, projectId && projectId !== 'null' ? projectId : null);
+
+    return NextResponse.json({ sections });
+  } catch (error) {
+    console.error('List sections error:', error);
+    return NextResponse.json({
+      error: 'Failed to list sections',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+    const { userId } = auth;
+
+    const { name, projectId, status } = await req.json();
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+    if (status !== undefined && status !== null && !isTaskStatus(status)) {
+      return NextResponse.json({ error: STATUS_ERROR }, { status: 400 });
+    }
+    if (projectId && !(await ProjectManager.getProject(projectId, userId))) {
+      return NextResponse.json({ error: 'invalid projectId' }, { status: 400 });
+    }
+
+    const section = await SectionManager.createSection(userId, {
+      name: name.trim(),
+      projectId: projectId || null,
+      status
+    });
+
+    return NextResponse.json(section, { status: 201 });
+  } catch (error) {
+    console.error('Create section error:', error);
+    return NextResponse.json({
+      error: 'Failed to create section',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth';
+import { ShareLinkManager, getShareVisitor, shareAccessCookieName } from '@/lib/shareLinks';
+
+// Public: records a view for clients that render shared content themselves (e.g. embeds)
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const viewerId = await getSessionUserId(req);
+    const access = await ShareLinkManager.checkAccess(
+      params.id,
+      viewerId,
+      req.cookies.get(shareAccessCookieName(params.id))?.value
+    );
+
+    if (access.status !== 'ok') {
+      return NextResponse.json({ error: 'Share link not available' }, { status: 404 });
+    }
+
+    // Owners previewing their own link don't count as visitors
+    if (access.record.userId !== viewerId) {
+      const body = await req.json().catch(() => ({}));
+      await ShareLinkManager.recordAccess(access.record.id, getShareVisitor(req.headers), {
+        duration: typeof body.duration === 'number' ? body.duration : 0,
+        actions: Array.isArray(body.actions) ? body.actions.filter((a: unknown) => typeof a === 'string').slice(0, 20) : []
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Track share access error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to track access',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
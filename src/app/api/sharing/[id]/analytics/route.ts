@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId, unauthorized } from '@/lib/auth';
+import { ShareLinkManager } from '@/lib/shareLinks';
+import { UserSettingsManager } from '@/lib/userSettings';
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getSessionUserId(req);
+    if (!userId) return unauthorized();
+
+    const shareLink = await ShareLinkManager.getOwnedShareLink(params.id, userId);
+    if (!shareLink) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    const analytics = await ShareLinkManager.getShareAnalytics(shareLink.id, await UserSettingsManager.getTimeZone(userId));
+
+    return NextResponse.json(analytics);
+  } catch (error) {
+    console.error('Share analytics error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to fetch share analytics',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
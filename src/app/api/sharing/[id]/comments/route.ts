@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth';
+import { CommentManager, CommentTask, MAX_AUTHOR_NAME_LENGTH, validateCommentBody } from '@/lib/comments';
+import { ShareLinkManager, shareAccessCookieName } from '@/lib/shareLinks';
+
+type ShareCommentAccess =
+  | { error: NextResponse }
+  | { viewerId: string | null; task: CommentTask; ownerLabel?: string };
+
+// Comments are open to anyone who can see the link, while it allows them, on the tasks it shows
+async function resolveAccess(req: NextRequest, shareId: string, taskId: string | null): Promise<ShareCommentAccess> {
+  const viewerId = await getSessionUserId(req);
+  const access = await ShareLinkManager.checkAccess(shareId, viewerId, req.cookies.get(shareAccessCookieName(shareId))?.value);
+
+  if (access.status === 'not_found') {
+    return { error: NextResponse.json({ error: 'Share link not found' }, { status: 404 }) };
+  }
+  if (access.status === 'expired') {
+    return { error: NextResponse.json({ error: 'Share link has expired' }, { status: 410 }) };
+  }
+  if (access.status === 'password_required') {
+    return { error: NextResponse.json({ error: 'Password required' }, { status: 401 }) };
+  }
+
+  const settings = ShareLinkManager.getSettings(access.record);
+  if (!settings.allowComments) {
+    return { error: NextResponse.json({ error: 'Comments are turned off for this link' }, { status: 403 }) };
+  }
+
+  if (!taskId) {
+    return { error: NextResponse.json({ error: 'taskId is required' }, { status: 400 }) };
+  }
+  const task = await CommentManager.getTask(taskId, access.record.userId);
+  if (!task || !(await ShareLinkManager.sharesTask(access.record, taskId))) {
+    return { error: NextResponse.json({ error: 'Task not found' }, { status: 404 }) };
+  }
+
+  return { viewerId, task, ownerLabel: settings.showUserInfo ? undefined : 'Owner' };
+}
+
+// Public: a shared task's comment threads
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await resolveAccess(req, params.id, new URL(req.url).searchParams.get('taskId'));
+    if ('error' in access) return access.error;
+
+    const comments = await CommentManager.list(access.task, { viewerId: access.viewerId, ownerLabel: access.ownerLabel });
+
+    return NextResponse.json({ comments });
+  } catch (error) {
+    console.error('List shared comments error:', error);
+    return NextResponse.json({
+      error: 'Failed to list comments',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Public: comments on a shared task. Visitors who aren't signed in give a name.
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { taskId, body, parentId, name } = await req.json().catch(() => ({}));
+
+    const access = await resolveAccess(req, params.id, typeof taskId === 'string' ? taskId : null);
+    if ('error' in access) return access.error;
+
+    const invalid = validateCommentBody(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+      return NextResponse.json({ error: 'parentId must be a string' }, { status: 400 });
+    }
+
+    let author;
+    if (access.viewerId) {
+      author = await CommentManager.authorFor(access.viewerId);
+    } else {
+      const guestName = typeof name === 'string' ? name.trim() : '';
+      if (!guestName || guestName.length > MAX_AUTHOR_NAME_LENGTH) {
+        return NextResponse.json({ error: `name is required, up to ${MAX_AUTHOR_NAME_LENGTH} characters` }, { status: 400 });
+      }
+      author = { userId: null, name: guestName };
+    }
+
+    const comment = await CommentManager.create(access.task, author, { body, parentId }, params.id);
+    if (typeof comment === 'string') {
+      return NextResponse.json({ error: comment }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      CommentManager.toView(comment, { viewerId: access.viewerId, ownerLabel: access.ownerLabel }),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create shared comment error:', error);
+    return NextResponse.json({
+      error: 'Failed to create comment',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
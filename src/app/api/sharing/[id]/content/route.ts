@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth';
+import { ShareLinkManager, getShareVisitor, shareAccessCookieName } from '@/lib/shareLinks';
+
+// Public: unlocks and returns the content of a share link
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const viewerId = await getSessionUserId(req);
+    const body = await req.json().catch(() => ({}));
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    let access = await ShareLinkManager.checkAccess(
+      params.id,
+      viewerId,
+      req.cookies.get(shareAccessCookieName(params.id))?.value
+    );
+
+    if (access.status === 'not_found') {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+    if (access.status === 'expired') {
+      return NextResponse.json({ error: 'Share link has expired' }, { status: 410 });
+    }
+
+    let accessToken: { token: string; expiresAt: Date } | null = null;
+    if (access.status === 'password_required') {
+      if (!password || !(await ShareLinkManager.verifyPassword(access.record, password))) {
+        return NextResponse.json({ error: 'Incorrect password' }, { status: 401 });
+      }
+      accessToken = ShareLinkManager.createAccessToken(access.record);
+      access = { status: 'ok', record: access.record };
+    }
+
+    const view = await ShareLinkManager.getSharedContent(access.record);
+    if (access.record.userId !== viewerId) {
+      await ShareLinkManager.recordAccess(access.record.id, getShareVisitor(req.headers));
+    }
+
+    const response = NextResponse.json({ ...view, accessToken: accessToken?.token ?? null });
+    if (accessToken) {
+      response.cookies.set(shareAccessCookieName(params.id), accessToken.token, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        expires: accessToken.expiresAt
+      });
+    }
+
+    return response;
+  } catch (error) {
+    console.error('Shared content error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to access shared content',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/auth';
+import { ShareLinkManager, shareAccessCookieName } from '@/lib/shareLinks';
+
+// Public: downloads the shared content as JSON when the owner allows it
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const viewerId = await getSessionUserId(req);
+    const access = await ShareLinkManager.checkAccess(
+      params.id,
+      viewerId,
+      req.cookies.get(shareAccessCookieName(params.id))?.value
+    );
+
+    if (access.status === 'not_found') {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+    if (access.status === 'expired') {
+      return NextResponse.json({ error: 'Share link has expired' }, { status: 410 });
+    }
+    if (access.status === 'password_required') {
+      return NextResponse.json({ error: 'Password required' }, { status: 401 });
+    }
+
+    const isOwner = access.record.userId === viewerId;
+    if (!isOwner && !ShareLinkManager.getSettings(access.record).allowDownload) {
+      return NextResponse.json({ error: 'Downloads are disabled for this share' }, { status: 403 });
+    }
+
+    const { content, owner } = await ShareLinkManager.getSharedContent(access.record);
+    const filename = `${access.record.title.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'share'}.json`;
+
+    return new NextResponse(JSON.stringify({ ...content, owner, exportedAt: new Date().toISOString() }, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    });
+  } catch (error) {
+    console.error('Shared download error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to download shared content',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId, unauthorized } from '@/lib/auth';
+import { ShareLinkManager } from '@/lib/shareLinks';
+
+type Params = { params: { id: string } };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const userId = await getSessionUserId(req);
+    if (!userId) return unauthorized();
+
+    const shareLink = await ShareLinkManager.getOwnedShareLink(params.id, userId);
+    if (!shareLink) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...ShareLinkManager.toShareLink(shareLink),
+      isExpired: ShareLinkManager.isExpired(shareLink)
+    });
+  } catch (error) {
+    console.error('Get share error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to get share link',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: Params) {
+  try {
+    const userId = await getSessionUserId(req);
+    if (!userId) return unauthorized();
+
+    const shareLink = await ShareLinkManager.getOwnedShareLink(params.id, userId);
+    if (!shareLink) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    const { title, description, isPublic, password, expiresAt, filters, settings } = await req.json();
+
+    if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+      return NextResponse.json({ error: 'title cannot be empty' }, { status: 400 });
+    }
+
+    const updated = await ShareLinkManager.updateShareLink(shareLink, {
+      title: title?.trim(),
+      description,
+      isPublic,
+      password,
+      expiresAt,
+      filters,
+      settings
+    });
+
+    return NextResponse.json(ShareLinkManager.toShareLink(updated));
+  } catch (error) {
+    console.error('Update share error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to update share link',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const userId = await getSessionUserId(req);
+    if (!userId) return unauthorized();
+
+    const deleted = await ShareLinkManager.deleteShareLink(params.id, userId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete share error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to delete share link',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
+import { ShareLinkManager, isShareContentType } from '@/lib/shareLinks';
 
 export async function POST(req: NextRequest) {
   try {
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) return unauthorized();
+    if (isSuspended(sessionUser)) return accountSuspended();
+    const userId = sessionUser.id;
+
     const body = await req.json();
     const { content, settings } = body;
 
@@ -12,35 +18,29 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
-    // In a real app, you'd get the user ID from the session/token
-    const userId = 'user-123';
+    if (!isShareContentType(content.type)) {
+      return NextResponse.json({ error: 'Unsupported content type' }, { status: 400 });
+    }
 
-    // Create share link
-    const shareLink = await prisma.shareLink.create({
-      data: {
-        userId,
-        contentId: content.id,
-        contentType: content.type,
-        title: settings.title,
-        description: settings.description,
-        isPublic: settings.isPublic,
-        password: settings.password || null,
-        expiresAt: settings.expiresAt ? new Date(settings.expiresAt) : null,
-        accessCount: 0,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        settings: {
-          allowComments: settings.allowComments,
-          allowDownload: settings.allowDownload,
-          allowEmbedding: settings.allowEmbedding,
-          showUserInfo: settings.showUserInfo,
-          showTimestamps: settings.showTimestamps,
-          refreshInterval: settings.refreshInterval
-        }
+    // Only the filters are stored; content is rendered from live data when viewed
+    const shareLink = await ShareLinkManager.createShareLink(userId, content.type, {
+      title: settings.title || content.title,
+      description: settings.description || content.description,
+      isPublic: settings.isPublic,
+      password: settings.password || null,
+      expiresAt: settings.expiresAt || null,
+      filters: content.filters || {},
+      settings: {
+        allowComments: settings.allowComments,
+        allowDownload: settings.allowDownload,
+        allowEmbedding: settings.allowEmbedding,
+        showUserInfo: settings.showUserInfo,
+        showTimestamps: settings.showTimestamps,
+        refreshInterval: settings.refreshInterval
       }
     });
 
-    return NextResponse.json(shareLink, { status: 201 });
+    return NextResponse.json(ShareLinkManager.toShareLink(shareLink), { status: 201 });
   } catch (error) {
     console.error('Create share error:', error);
     return NextResponse.json({ 
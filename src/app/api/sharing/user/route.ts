@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId, unauthorized } from '@/lib/auth';
+import { ShareLinkManager } from '@/lib/shareLinks';
+
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getSessionUserId(req);
+    if (!userId) return unauthorized();
+
+    const { searchParams } = new URL(req.url);
+    const isPublic = searchParams.get('isPublic');
+
+    const result = await ShareLinkManager.getUserShares(userId, {
+      type: searchParams.get('type') || undefined,
+      isPublic: isPublic === null ? undefined : isPublic === 'true',
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '20')
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('List shares error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to fetch user shares',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
+import { TaskJournal, undoHeaders } from '@/lib/taskJournal';
 
 export async function POST(req: NextRequest) {
   try {
+    const user = await getSessionUser(req);
+    if (!user) return unauthorized();
+    if (isSuspended(user)) return accountSuspended();
+    const userId = user.id;
+
     const body = await req.json();
     const { ids, action } = body;
 
@@ -12,29 +19,30 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
-    if (action === 'complete') {
-      await prisma.task.updateMany({
-        where: { id: { in: ids } },
+    if (action !== 'complete' && action !== 'reopen') {
+      return NextResponse.json({ 
+        error: 'Invalid action. Use "complete" or "reopen"' 
+      }, { status: 400 });
+    }
+
+    const { batchId } = await TaskJournal.track(userId, action, ids, () => action === 'complete'
+      ? prisma.task.updateMany({
+        where: { id: { in: ids }, userId },
         data: { 
           status: 'done', 
           completed_at: new Date() 
         }
-      });
-    } else if (action === 'reopen') {
-      await prisma.task.updateMany({
-        where: { id: { in: ids } },
+      })
+      : prisma.task.updateMany({
+        where: { id: { in: ids }, userId },
         data: { 
           status: 'todo', 
           completed_at: null 
         }
-      });
-    } else {
-      return NextResponse.json({ 
-        error: 'Invalid action. Use "complete" or "reopen"' 
-      }, { status: 400 });
-    }
+      })
+    );
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true }, { headers: undoHeaders(batchId) });
   } catch (error) {
     console.error('Subtask bulk complete error:', error);
     return NextResponse.json({ 
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accountSuspended, getSessionUser, isSuspended, unauthorized } from '@/lib/auth';
+import { TaskJournal, undoHeaders } from '@/lib/taskJournal';
 
 export async function POST(req: NextRequest) {
   try {
+    const user = await getSessionUser(req);
+    if (!user) return unauthorized();
+    if (isSuspended(user)) return accountSuspended();
+    const userId = user.id;
+
     const body = await req.json();
     const { parentId, order } = body;
 
@@ -13,16 +20,16 @@ export async function POST(req: NextRequest) {
     }
 
     // Update order indices for all subtasks
-    await Promise.all(
+    const { batchId } = await TaskJournal.track(userId, 'reorder', order, () => Promise.all(
       order.map((subtaskId: string, index: number) =>
         prisma.task.update({
-          where: { id: subtaskId },
+          where: { id: subtaskId, userId },
           data: { order_index: index }
         })
       )
-    );
+    ));
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true }, { headers: undoHeaders(batchId) });
   } catch (error) {
     console.error('Subtask reorder error:', error);
     return NextResponse.json({ 
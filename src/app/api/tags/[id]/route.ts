@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { TagManager, isTagColor, normalizeTagName } from '@/lib/tags';
+
+type Params = { params: { id: string } };
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+    const { userId } = auth;
+
+    const { name, color } = await req.json();
+
+    if (name !== undefined && (typeof name !== 'string' || !normalizeTagName(name))) {
+      return NextResponse.json({ error: 'name cannot be empty' }, { status: 400 });
+    }
+    if (color !== undefined && !isTagColor(color)) {
+      return NextResponse.json({ error: 'color must be a hex colour like #6B7280' }, { status: 400 });
+    }
+
+    // Renaming onto another tag's name is a merge, which has its own endpoint
+    if (name !== undefined) {
+      const existing = await TagManager.findByName(userId, name);
+      if (existing && existing.id !== params.id) {
+        return NextResponse.json({ error: 'a tag with this name already exists', tagId: existing.id }, { status: 409 });
+      }
+    }
+
+    const tag = await TagManager.updateTag(params.id, userId, { name, color });
+    if (!tag) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(tag);
+  } catch (error) {
+    console.error('Update tag error:', error);
+    return NextResponse.json({
+      error: 'Failed to update tag',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const deleted = await TagManager.deleteTag(params.id, auth.userId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete tag error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete tag',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
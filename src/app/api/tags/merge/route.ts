@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { TagManager } from '@/lib/tags';
+
+// Moves every task from `sourceId` onto `targetId` and deletes the source tag
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { sourceId, targetId } = await req.json();
+
+    if (typeof sourceId !== 'string' || typeof targetId !== 'string') {
+      return NextResponse.json({ error: 'sourceId and targetId are required' }, { status: 400 });
+    }
+    if (sourceId === targetId) {
+      return NextResponse.json({ error: 'cannot merge a tag into itself' }, { status: 400 });
+    }
+
+    const tag = await TagManager.mergeTags(sourceId, targetId, auth.userId);
+    if (!tag) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(tag);
+  } catch (error) {
+    console.error('Merge tags error:', error);
+    return NextResponse.json({
+      error: 'Failed to merge tags',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
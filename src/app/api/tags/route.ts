@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { TagManager, isTagColor, normalizeTagName } from '@/lib/tags';
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+
+    const tags = await TagManager.listTags(auth.userId);
+
+    return NextResponse.json({ tags });
+  } catch (error) {
+    console.error('List tags error:', error);
+    return NextResponse.json({
+      error: 'Failed to list tags',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+    const { userId } = auth;
+
+    const { name, color } = await req.json();
+
+    if (typeof name !== 'string' || !normalizeTagName(name)) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+    if (color !== undefined && !isTagColor(color)) {
+      return NextResponse.json({ error: 'color must be a hex colour like #6B7280' }, { status: 400 });
+    }
+
+    if (await TagManager.findByName(userId, name)) {
+      return NextResponse.json({ error: 'a tag with this name already exists' }, { status: 409 });
+    }
+
+    const tag = await TagManager.createTag(userId, { name, color });
+
+    return NextResponse.json(tag, { status: 201 });
+  } catch (error) {
+    console.error('Create tag error:', error);
+    return NextResponse.json({
+      error: 'Failed to create tag',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { AttachmentManager, IMAGE_TYPES } from '@/lib/attachments';
+
+// RFC 6266 filename, with an ASCII fallback for older clients
+function contentDisposition(type: 'inline' | 'attachment', filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+// Downloads the file, or its thumbnail with `?thumbnail=1`. Images are shown inline;
+// everything else is sent as a download.
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+
+    const attachment = await AttachmentManager.get(params.id, auth.userId);
+    if (!attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    const thumbnail = new URL(req.url).searchParams.get('thumbnail') === '1';
+    const file = await AttachmentManager.read(attachment, thumbnail);
+    if (!file) {
+      return NextResponse.json({ error: thumbnail ? 'Thumbnail not found' : 'Attachment not found' }, { status: 404 });
+    }
+
+    const inline = IMAGE_TYPES.includes(attachment.mime_type);
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.mime_type,
+        'Content-Length': String(file.data.length),
+        'Content-Disposition': contentDisposition(inline ? 'inline' : 'attachment', attachment.filename),
+        'Content-Security-Policy': "default-src 'none'; sandbox",
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=3600'
+      }
+    });
+  } catch (error) {
+    console.error('Download attachment error:', error);
+    return NextResponse.json({
+      error: 'Failed to download attachment',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const removed = await AttachmentManager.remove(params.id, auth.userId);
+    if (!removed) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete attachment error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete attachment',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
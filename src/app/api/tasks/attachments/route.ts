@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { AttachmentManager, MAX_ATTACHMENT_BYTES, MAX_THUMBNAIL_BYTES, formatBytes } from '@/lib/attachments';
+
+// Room for the multipart boundaries and the other fields
+const MAX_REQUEST_BYTES = MAX_ATTACHMENT_BYTES + MAX_THUMBNAIL_BYTES + 64 * 1024;
+
+// The whole body, or null as soon as it runs past `limit` bytes. The declared length is
+// checked first, but the stream is what's actually buffered, so it's capped too.
+async function readBody(req: NextRequest, limit: number): Promise<Buffer | null> {
+  if (!req.body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = req.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// A task's attachments, oldest first
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+
+    const taskId = new URL(req.url).searchParams.get('taskId');
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+    }
+
+    const task = await AttachmentManager.getTask(taskId, auth.userId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ attachments: await AttachmentManager.list(task.id, auth.userId) });
+  } catch (error) {
+    console.error('List attachments error:', error);
+    return NextResponse.json({
+      error: 'Failed to list attachments',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Uploads one file as multipart/form-data: `taskId`, `file` and, for images, an optional
+// downscaled `thumbnail`
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const declared = req.headers.get('content-length');
+    const length = declared && /^\d+$/.test(declared) ? Number(declared) : NaN;
+    if (isNaN(length)) {
+      return NextResponse.json({ error: 'content-length is required' }, { status: 411 });
+    }
+    const tooLarge = NextResponse.json({ error: `file must be at most ${formatBytes(MAX_ATTACHMENT_BYTES)}` }, { status: 413 });
+    if (length > MAX_REQUEST_BYTES) return tooLarge;
+
+    const body = await readBody(req, MAX_REQUEST_BYTES);
+    if (!body) return tooLarge;
+
+    const form = await new Request(req.url, { method: 'POST', headers: req.headers, body }).formData().catch(() => null);
+    if (!form) {
+      return NextResponse.json({ error: 'body must be multipart/form-data' }, { status: 400 });
+    }
+
+    const taskId = form.get('taskId');
+    const file = form.get('file');
+    const thumbnail = form.get('thumbnail');
+    if (typeof taskId !== 'string') {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+    }
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'file is required' }, { status: 400 });
+    }
+
+    const task = await AttachmentManager.getTask(taskId, auth.userId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const attachment = await AttachmentManager.upload(auth.userId, task.id, {
+      filename: file.name,
+      data: Buffer.from(await file.arrayBuffer()),
+      thumbnail: thumbnail instanceof File ? Buffer.from(await thumbnail.arrayBuffer()) : null
+    });
+    if (typeof attachment === 'string') {
+      return NextResponse.json({ error: attachment }, { status: 400 });
+    }
+
+    return NextResponse.json(AttachmentManager.toView(attachment), { status: 201 });
+  } catch (error) {
+    console.error('Upload attachment error:', error);
+    return NextResponse.json({
+      error: 'Failed to upload attachment',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { BulkTaskManager, MAX_BULK_TASKS, parseBulkOperation } from '@/lib/bulkTasks';
+import { TaskJournal, undoHeaders } from '@/lib/taskJournal';
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const body = await req.json();
+    const { ids } = body;
+
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+      return NextResponse.json({ error: 'ids must be a non-empty array of task ids' }, { status: 400 });
+    }
+    if (ids.length > MAX_BULK_TASKS) {
+      return NextResponse.json({ error: `at most ${MAX_BULK_TASKS} tasks can be changed at once` }, { status: 400 });
+    }
+
+    const operation = parseBulkOperation(body);
+    if (typeof operation === 'string') {
+      return NextResponse.json({ error: operation }, { status: 400 });
+    }
+
+    const { result: results, batchId } = await TaskJournal.track(auth.userId, `bulk_${operation.action}`, ids, () =>
+      BulkTaskManager.apply(auth.userId, ids, operation)
+    );
+    const succeeded = results.filter(result => result.ok).length;
+
+    return NextResponse.json({ results, succeeded, failed: results.length - succeeded }, { headers: undoHeaders(batchId) });
+  } catch (error) {
+    console.error('Bulk task update error:', error);
+    return NextResponse.json({
+      error: 'Failed to update tasks',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
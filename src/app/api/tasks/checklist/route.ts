@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { TaskJournal, undoHeaders } from '@/lib/taskJournal';
+import { TaskManager } from '@/lib/taskManager';
+
+// Promotes checklist items in a task's description to subtasks. `lines` picks the items by
+// the source line they start on; every item is promoted when it's left out.
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { userId } = auth;
+
+    const { id, lines } = await req.json();
+
+    if (typeof id !== 'string') {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+    if (lines !== undefined && (!Array.isArray(lines) || !lines.every(line => Number.isInteger(line) && line >= 0))) {
+      return NextResponse.json({ error: 'lines must be an array of non-negative integers' }, { status: 400 });
+    }
+
+    const { result, batchId } = await TaskJournal.track(userId, 'promote', [id], () =>
+      TaskManager.promoteChecklist(id, userId, lines)
+    );
+    if (!result) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result, { headers: undoHeaders(batchId) });
+  } catch (error) {
+    console.error('Promote checklist error:', error);
+    return NextResponse.json({
+      error: 'Failed to promote checklist',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { TaskJournal } from '@/lib/taskJournal';
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+
+    const taskId = new URL(req.url).searchParams.get('id');
+
+    if (!taskId) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const history = await TaskJournal.history(taskId, auth.userId);
+
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error('Task history error:', error);
+    return NextResponse.json({
+      error: 'Failed to load task history',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { SectionManager } from '@/lib/sections';
+import { TaskJournal, undoHeaders } from '@/lib/taskJournal';
+import { TaskManager } from '@/lib/taskManager';
+
+// Drag-and-drop target for the board: puts a task at `order_index` in a section
+// (null for the unsectioned column), and optionally under a new parent
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { userId } = auth;
+
+    const { id, sectionId, order_index, parent_task_id } = await req.json();
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+    if (!Number.isInteger(order_index) || order_index < 0) {
+      return NextResponse.json({ error: 'order_index must be a non-negative integer' }, { status: 400 });
+    }
+    if (sectionId !== undefined && sectionId !== null && typeof sectionId !== 'string') {
+      return NextResponse.json({ error: 'sectionId must be a string or null' }, { status: 400 });
+    }
+    if (sectionId && !(await SectionManager.getSection(sectionId, userId))) {
+      return NextResponse.json({ error: 'invalid sectionId' }, { status: 400 });
+    }
+
+    const { batchId } = await TaskJournal.track(userId, 'move', [id], () =>
+      TaskManager.moveTask(id, userId, parent_task_id ?? null, order_index, sectionId)
+    );
+
+    return NextResponse.json({ success: true }, { headers: undoHeaders(batchId) });
+  } catch (error) {
+    console.error('Move task error:', error);
+    return NextResponse.json({
+      error: 'Failed to move task',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,14 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { TaskManager } from '@/lib/taskManager';
+import { ProjectManager } from '@/lib/projects';
+import { SectionManager } from '@/lib/sections';
+import { isEditScope } from '@/lib/taskSeries';
+import { TaskJournal, undoHeaders } from '@/lib/taskJournal';
+import { MAX_DESCRIPTION_LENGTH } from '@/lib/markdown';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
 
 export async function GET(req: NextRequest) {
   try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+    const { userId } = auth;
+
     const { searchParams } = new URL(req.url);
-    const userId = searchParams.get('userId');
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'userId is required' }, { status: 400 });
-    }
 
     const filters: any = {};
     
@@ -28,6 +35,9 @@ export async function GET(req: NextRequest) {
     const parentTaskId = searchParams.get('parentTaskId');
     if (parentTaskId) filters.parentTaskId = parentTaskId === 'null' ? null : parentTaskId;
 
+    const projectId = searchParams.get('projectId');
+    if (projectId) filters.projectId = projectId === 'null' ? null : projectId;
+
     const tasks = await TaskManager.getTasks(userId, filters);
     
     return NextResponse.json(tasks);
@@ -42,27 +52,58 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+    const { userId } = auth;
+
     const body = await req.json();
-    const { userId, title, description, priority, due_at, estimate_min, tags, recurrence_rule, reminder_time, reminder_frequency, parent_task_id } = body;
+    const { title, description, priority, due_at, all_day, estimate_min, tags, recurrence_rule, reminder_time, reminder_frequency, parent_task_id, projectId, sectionId } = body;
+
+    if (!title) {
+      return NextResponse.json({ error: 'title is required' }, { status: 400 });
+    }
+
+    if (description && String(description).length > MAX_DESCRIPTION_LENGTH) {
+      return NextResponse.json({ error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` }, { status: 400 });
+    }
+
+    if (recurrence_rule && !TaskManager.isValidRecurrenceRule(recurrence_rule)) {
+      return NextResponse.json({ error: 'invalid recurrence_rule' }, { status: 400 });
+    }
 
-    if (!userId || !title) {
-      return NextResponse.json({ error: 'userId and title are required' }, { status: 400 });
+    if (projectId && !(await ProjectManager.getProject(projectId, userId))) {
+      return NextResponse.json({ error: 'invalid projectId' }, { status: 400 });
     }
 
-    const task = await TaskManager.createTask(userId, {
+    if (parent_task_id && !(await TaskManager.getParentTask(parent_task_id, userId))) {
+      return NextResponse.json({ error: 'invalid parent_task_id' }, { status: 400 });
+    }
+
+    // A task added to a board column joins that column's project
+    const section = sectionId ? await SectionManager.getSection(sectionId, userId) : null;
+    if (sectionId && !section) {
+      return NextResponse.json({ error: 'invalid sectionId' }, { status: 400 });
+    }
+
+    const { result: task, batchId } = await TaskJournal.track(userId, 'create', [], () => TaskManager.createTask(userId, {
       title,
       description,
       priority,
       due_at: due_at ? new Date(due_at) : undefined,
+      all_day: all_day === true,
       estimate_min,
       tags,
       recurrence_rule,
       reminder_time: reminder_time ? new Date(reminder_time) : undefined,
       reminder_frequency,
-      parent_task_id
-    });
+      parent_task_id,
+      projectId: section ? section.projectId ?? undefined : projectId || undefined,
+      sectionId: section?.id
+    }), created => [created.id]);
 
-    return NextResponse.json(task, { status: 201 });
+    return NextResponse.json(task, { status: 201, headers: undoHeaders(batchId) });
   } catch (error) {
     console.error('Failed to create task:', error);
     return NextResponse.json({ 
@@ -74,27 +115,85 @@ export async function POST(req: NextRequest) {
 
 export async function PATCH(req: NextRequest) {
   try {
-  const body = await req.json();
-    const { id, userId, ...updateData } = body;
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+    const { userId } = auth;
+
+    const body = await req.json();
+    // Drop any client-supplied owner so a task can't be reassigned to another user
+    const { id, userId: _ownerId, scope, ...updateData } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
 
-    if (!id || !userId) {
-      return NextResponse.json({ error: 'id and userId are required' }, { status: 400 });
+    // Which occurrences of a recurring task the edit applies to
+    if (scope !== undefined && !isEditScope(scope)) {
+      return NextResponse.json({ error: 'scope must be this, following or all' }, { status: 400 });
     }
 
     // Handle special actions
     if (updateData.action === 'complete') {
-      const task = await TaskManager.completeTask(id, userId);
-    return NextResponse.json(task);
-  }
+      const { result: task, batchId } = await TaskJournal.track(userId, 'complete', [id], () => TaskManager.completeTask(id, userId));
+      return NextResponse.json(task, { headers: undoHeaders(batchId) });
+    }
 
     if (updateData.action === 'reopen') {
-      const task = await TaskManager.updateTask(id, userId, { status: 'todo' });
-    return NextResponse.json(task);
-  }
+      const { result: task, batchId } = await TaskJournal.track(userId, 'reopen', [id], () => TaskManager.updateTask(id, userId, { status: 'todo' }));
+      return NextResponse.json(task, { headers: undoHeaders(batchId) });
+    }
+
+    if (updateData.action === 'skip') {
+      const { result: next, batchId } = await TaskJournal.track(userId, 'skip', [id], () => TaskManager.skipOccurrence(id, userId));
+      return NextResponse.json({ success: true, next }, { headers: undoHeaders(batchId) });
+    }
+
+    if (updateData.description && String(updateData.description).length > MAX_DESCRIPTION_LENGTH) {
+      return NextResponse.json({ error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` }, { status: 400 });
+    }
+
+    if (updateData.recurrence_rule && !TaskManager.isValidRecurrenceRule(updateData.recurrence_rule)) {
+      return NextResponse.json({ error: 'invalid recurrence_rule' }, { status: 400 });
+    }
+
+    // An empty projectId moves the task back to the inbox
+    if (updateData.projectId !== undefined) {
+      updateData.projectId = updateData.projectId || null;
+      if (updateData.projectId && !(await ProjectManager.getProject(updateData.projectId, userId))) {
+        return NextResponse.json({ error: 'invalid projectId' }, { status: 400 });
+      }
+    }
+
+    // Series links are kept by the server; a client-chosen one could point into another user's series
+    if (updateData.seriesId !== undefined) {
+      return NextResponse.json({ error: 'seriesId cannot be changed' }, { status: 400 });
+    }
+
+    // An empty parent_task_id makes it a top-level task again; otherwise the parent has to be
+    // another of the caller's tasks
+    if (updateData.parent_task_id !== undefined) {
+      updateData.parent_task_id = updateData.parent_task_id || null;
+      if (updateData.parent_task_id && (updateData.parent_task_id === id
+        || !(await TaskManager.getParentTask(updateData.parent_task_id, userId)))) {
+        return NextResponse.json({ error: 'invalid parent_task_id' }, { status: 400 });
+      }
+    }
+
+    // A task moved to a board column joins that column's project
+    if (updateData.sectionId !== undefined) {
+      updateData.sectionId = updateData.sectionId || null;
+      const section = updateData.sectionId ? await SectionManager.getSection(updateData.sectionId, userId) : null;
+      if (updateData.sectionId && !section) {
+        return NextResponse.json({ error: 'invalid sectionId' }, { status: 400 });
+      }
+      if (section) updateData.projectId = section.projectId;
+    }
 
     // Regular update
-    const task = await TaskManager.updateTask(id, userId, updateData);
-    return NextResponse.json(task);
+    const { result: task, batchId } = await TaskJournal.track(userId, 'update', [id], () => TaskManager.updateTask(id, userId, updateData, scope));
+    return NextResponse.json(task, { headers: undoHeaders(batchId) });
   } catch (error) {
     console.error('Failed to update task:', error);
     return NextResponse.json({ 
@@ -106,17 +205,27 @@ export async function PATCH(req: NextRequest) {
 
 export async function DELETE(req: NextRequest) {
   try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+    const { userId } = auth;
+
     const { searchParams } = new URL(req.url);
     const taskId = searchParams.get('id');
-    const userId = searchParams.get('userId');
+    const scope = searchParams.get('scope') ?? 'this';
 
-    if (!taskId || !userId) {
-      return NextResponse.json({ error: 'id and userId are required' }, { status: 400 });
+    if (!taskId) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
     }
 
-    await TaskManager.deleteTask(taskId, userId);
-    
-    return NextResponse.json({ success: true });
+    if (!isEditScope(scope)) {
+      return NextResponse.json({ error: 'scope must be this, following or all' }, { status: 400 });
+    }
+
+    const { batchId } = await TaskJournal.track(userId, 'delete', [taskId], () => TaskManager.deleteTask(taskId, userId, scope));
+
+    return NextResponse.json({ success: true }, { headers: undoHeaders(batchId) });
   } catch (error) {
     console.error('Failed to delete task:', error);
     return NextResponse.json({ 
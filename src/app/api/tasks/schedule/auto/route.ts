@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { ScheduleManager } from '@/lib/scheduling';
+import { TaskJournal, undoHeaders } from '@/lib/taskJournal';
+import { isDayKey } from '@/lib/timezone';
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// "Auto-schedule my day": packs the open tasks due on `date` (YYYY-MM-DD, today when left
+// out) that aren't on the calendar into the free time between `from` and `to` (HH:MM),
+// highest priority first. Tasks that don't fit come back in `unscheduled`.
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { userId } = auth;
+
+    const { date, from, to } = await req.json().catch(() => ({}));
+
+    if (date !== undefined && !isDayKey(date)) {
+      return NextResponse.json({ error: 'date must be a date as YYYY-MM-DD' }, { status: 400 });
+    }
+    for (const [name, value] of [['from', from], ['to', to]]) {
+      if (value !== undefined && !(typeof value === 'string' && TIME.test(value))) {
+        return NextResponse.json({ error: `${name} must be a time as HH:MM` }, { status: 400 });
+      }
+    }
+    if (from && to && from >= to) {
+      return NextResponse.json({ error: 'from must be before to' }, { status: 400 });
+    }
+
+    const plan = await ScheduleManager.autoSchedule(userId, { date, from, to });
+
+    const { batchId } = await TaskJournal.track(userId, 'schedule', plan.scheduled.map(block => block.id), () =>
+      ScheduleManager.applySchedule(userId, plan.scheduled)
+    );
+
+    return NextResponse.json(plan, { headers: undoHeaders(batchId) });
+  } catch (error) {
+    console.error('Auto-schedule error:', error);
+    return NextResponse.json({
+      error: 'Failed to schedule day',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
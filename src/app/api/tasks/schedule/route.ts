@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { ScheduleManager } from '@/lib/scheduling';
+import { TaskJournal, undoHeaders } from '@/lib/taskJournal';
+import { UserSettingsManager } from '@/lib/userSettings';
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// The calendar's hour grid: tasks scheduled into or due between `start` and `end`
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+
+    const { userId } = auth;
+
+    const { searchParams } = new URL(req.url);
+    const start = parseDate(searchParams.get('start'));
+    const end = parseDate(searchParams.get('end'));
+    if (!start || !end || end < start) {
+      return NextResponse.json({ error: 'start and end must be dates, start first' }, { status: 400 });
+    }
+
+    const timeZone = await UserSettingsManager.getTimeZone(userId);
+    const tasks = await ScheduleManager.tasksBetween(userId, start, end, timeZone);
+
+    return NextResponse.json({ tasks });
+  } catch (error) {
+    console.error('Get schedule error:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch schedule',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Puts a task on the calendar from `scheduled_start` to `scheduled_end`, or takes it off
+// when both are null. The due date is left alone.
+export async function PATCH(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { userId } = auth;
+
+    const { id, scheduled_start, scheduled_end } = await req.json();
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    let start: Date | null = null;
+    let end: Date | null = null;
+    if (scheduled_start !== null || scheduled_end !== null) {
+      start = parseDate(scheduled_start);
+      end = parseDate(scheduled_end);
+      if (!start || !end) {
+        return NextResponse.json({ error: 'scheduled_start and scheduled_end must both be dates, or both null' }, { status: 400 });
+      }
+      if (end <= start) {
+        return NextResponse.json({ error: 'scheduled_end must be after scheduled_start' }, { status: 400 });
+      }
+    }
+
+    const { result: task, batchId } = await TaskJournal.track(userId, 'schedule', [id], () =>
+      ScheduleManager.setSchedule(id, userId, start, end)
+    );
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(task, { headers: undoHeaders(batchId) });
+  } catch (error) {
+    console.error('Schedule task error:', error);
+    return NextResponse.json({
+      error: 'Failed to schedule task',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
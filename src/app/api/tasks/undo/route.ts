@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { TaskJournal, undoHeaders } from '@/lib/taskJournal';
+
+// Undoes the change with `batchId` (from a task response's X-Undo-Batch header), or the
+// user's latest change when it's left out
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { batchId } = await req.json().catch(() => ({}));
+
+    if (batchId !== undefined && typeof batchId !== 'string') {
+      return NextResponse.json({ error: 'batchId must be a string' }, { status: 400 });
+    }
+
+    const result = await TaskJournal.undo(auth.userId, batchId);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Nothing to undo' }, { status: 404 });
+    }
+    if (!result.ok) {
+      return NextResponse.json({
+        error: result.reason === 'undone' ? 'already undone' : 'tasks have changed since; undo them one at a time from their history',
+        taskIds: result.taskIds
+      }, { status: 409 });
+    }
+
+    return NextResponse.json(result, { headers: undoHeaders(result.undoBatchId) });
+  } catch (error) {
+    console.error('Undo task change error:', error);
+    return NextResponse.json({
+      error: 'Failed to undo',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
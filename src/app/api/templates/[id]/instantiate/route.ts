@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { ProjectManager } from '@/lib/projects';
+import { undoHeaders } from '@/lib/taskJournal';
+import { TaskTemplateManager } from '@/lib/taskTemplates';
+import { isDayKey } from '@/lib/timezone';
+
+type Params = { params: { id: string } };
+
+// Creates the template's task and subtasks. `values` fills its {{variables}}; `start`
+// (YYYY-MM-DD) is the day its due dates count from, today when left out.
+export async function POST(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+    const { userId } = auth;
+
+    const { values, start, projectId } = await req.json();
+
+    if (values !== undefined && (!values || typeof values !== 'object' || Array.isArray(values)
+      || !Object.values(values).every(value => typeof value === 'string'))) {
+      return NextResponse.json({ error: 'values must map variable names to text' }, { status: 400 });
+    }
+    if (start !== undefined && !isDayKey(start)) {
+      return NextResponse.json({ error: 'start must be a date as YYYY-MM-DD' }, { status: 400 });
+    }
+    if (projectId && !(await ProjectManager.getProject(projectId, userId))) {
+      return NextResponse.json({ error: 'invalid projectId' }, { status: 400 });
+    }
+
+    const template = await TaskTemplateManager.getTemplate(params.id, userId);
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    const instantiated = await TaskTemplateManager.instantiate(template, userId, { values, start, projectId: projectId || undefined });
+    if (typeof instantiated === 'string') {
+      return NextResponse.json({ error: instantiated }, { status: 400 });
+    }
+
+    return NextResponse.json(instantiated.result, { status: 201, headers: undoHeaders(instantiated.batchId) });
+  } catch (error) {
+    console.error('Use template error:', error);
+    return NextResponse.json({
+      error: 'Failed to use template',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
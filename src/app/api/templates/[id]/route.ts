@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { validateTemplateDefinition, validateTemplateName } from '@/lib/taskTemplateDefinition';
+import { TaskTemplateManager } from '@/lib/taskTemplates';
+
+type Params = { params: { id: string } };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+
+    const template = await TaskTemplateManager.getTemplate(params.id, auth.userId);
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error('Get template error:', error);
+    return NextResponse.json({
+      error: 'Failed to get template',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { name, definition } = await req.json();
+
+    const nameError = name === undefined ? null : validateTemplateName(name);
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+    const definitionError = definition === undefined ? null : validateTemplateDefinition(definition);
+    if (definitionError) {
+      return NextResponse.json({ error: definitionError }, { status: 400 });
+    }
+
+    const template = await TaskTemplateManager.updateTemplate(params.id, auth.userId, {
+      name: name?.trim(),
+      definition
+    });
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+    if (typeof template === 'string') {
+      return NextResponse.json({ error: template }, { status: 409 });
+    }
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error('Update template error:', error);
+    return NextResponse.json({
+      error: 'Failed to update template',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const deleted = await TaskTemplateManager.deleteTemplate(params.id, auth.userId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete template error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete template',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { validateTemplateDefinition, validateTemplateName } from '@/lib/taskTemplateDefinition';
+import { TaskTemplateManager } from '@/lib/taskTemplates';
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+
+    const templates = await TaskTemplateManager.listTemplates(auth.userId);
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('List templates error:', error);
+    return NextResponse.json({
+      error: 'Failed to list templates',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Send `definition`, or `taskId` to save a task and its subtasks as the template
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+    const { userId } = auth;
+
+    const { name, definition, taskId } = await req.json();
+
+    const nameError = validateTemplateName(name);
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+    if ((definition === undefined) === (taskId === undefined)) {
+      return NextResponse.json({ error: 'send either definition or taskId' }, { status: 400 });
+    }
+
+    let templateDefinition = definition;
+    if (taskId !== undefined) {
+      templateDefinition = typeof taskId === 'string' ? await TaskTemplateManager.captureTask(taskId, userId) : null;
+      if (!templateDefinition) {
+        return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+      }
+    } else {
+      const definitionError = validateTemplateDefinition(definition);
+      if (definitionError) {
+        return NextResponse.json({ error: definitionError }, { status: 400 });
+      }
+    }
+
+    const template = await TaskTemplateManager.createTemplate(userId, { name: name.trim(), definition: templateDefinition });
+    if (typeof template === 'string') {
+      return NextResponse.json({ error: template }, { status: 409 });
+    }
+
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    console.error('Create template error:', error);
+    return NextResponse.json({
+      error: 'Failed to create template',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId, unauthorized } from '@/lib/auth';
+import { ApiTokenManager } from '@/lib/apiTokens';
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getSessionUserId(req);
+    if (!userId) return unauthorized();
+
+    const revoked = await ApiTokenManager.revokeToken(userId, params.id);
+    if (!revoked) {
+      return NextResponse.json({ error: 'API token not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Revoke API token error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to revoke API token',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId, unauthorized } from '@/lib/auth';
+import { API_TOKEN_SCOPES, ApiTokenManager, isApiTokenScope } from '@/lib/apiTokens';
+
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getSessionUserId(req);
+    if (!userId) return unauthorized();
+
+    const tokens = await ApiTokenManager.listTokens(userId);
+
+    return NextResponse.json({ tokens, availableScopes: API_TOKEN_SCOPES });
+  } catch (error) {
+    console.error('List API tokens error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to list API tokens',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    // Tokens can only be minted from a browser session, never by another token
+    const userId = await getSessionUserId(req);
+    if (!userId) return unauthorized();
+
+    const { name, scopes, expiresAt } = await req.json();
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'name required' }, { status: 400 });
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiTokenScope)) {
+      return NextResponse.json({ 
+        error: 'scopes must be a non-empty list of: ' + Object.keys(API_TOKEN_SCOPES).join(', ')
+      }, { status: 400 });
+    }
+
+    const expiry = expiresAt ? new Date(expiresAt) : null;
+    if (expiry && (isNaN(expiry.getTime()) || expiry <= new Date())) {
+      return NextResponse.json({ error: 'expiresAt must be a future date' }, { status: 400 });
+    }
+
+    const { token, apiToken } = await ApiTokenManager.createToken(userId, name.trim(), scopes, expiry);
+
+    return NextResponse.json({ token, apiToken }, { status: 201 });
+  } catch (error) {
+    console.error('Create API token error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to create API token',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId, unauthorized } from '@/lib/auth';
+import { isValidTimeZone } from '@/lib/rrule';
+import { UserSettings, UserSettingsManager } from '@/lib/userSettings';
+
+const NOTIFICATION_FIELDS = [
+  'notification_task_due',
+  'notification_focus_end',
+  'notification_daily_email',
+  'notification_task_unblocked',
+  'notification_task_comment'
+] as const;
+
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getSessionUserId(req);
+    if (!userId) return unauthorized();
+
+    const settings = await UserSettingsManager.getSettings(userId);
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Load settings error:', error);
+    return NextResponse.json({
+      error: 'Failed to load settings',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const userId = await getSessionUserId(req);
+    if (!userId) return unauthorized();
+
+    const body = await req.json();
+    const updates: Partial<UserSettings> = {};
+
+    if (body.timezone !== undefined) {
+      if (typeof body.timezone !== 'string' || !isValidTimeZone(body.timezone)) {
+        return NextResponse.json({ error: 'timezone must be an IANA time zone such as Europe/Berlin' }, { status: 400 });
+      }
+      updates.timezone = body.timezone;
+    }
+
+    for (const field of NOTIFICATION_FIELDS) {
+      if (body[field] === undefined) continue;
+      if (typeof body[field] !== 'boolean') {
+        return NextResponse.json({ error: `${field} must be a boolean` }, { status: 400 });
+      }
+      updates[field] = body[field];
+    }
+
+    const settings = await UserSettingsManager.updateSettings(userId, updates);
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Update settings error:', error);
+    return NextResponse.json({
+      error: 'Failed to update settings',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { validateDefinition } from '@/lib/smartViewDefinition';
+import { SmartViewManager } from '@/lib/smartViews';
+
+type Params = { params: { id: string } };
+
+// Send `{ reset: true }` to put a built-in view back to its defaults
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+    const { userId } = auth;
+
+    const { name, definition, pinned, reset } = await req.json();
+
+    if (reset === true) {
+      const existing = await SmartViewManager.getView(params.id, userId);
+      if (!existing) {
+        return NextResponse.json({ error: 'View not found' }, { status: 404 });
+      }
+      if (!existing.builtin) {
+        return NextResponse.json({ error: 'only built-in views can be reset' }, { status: 400 });
+      }
+      return NextResponse.json(await SmartViewManager.resetView(params.id, userId));
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json({ error: 'name cannot be empty' }, { status: 400 });
+    }
+    if (definition !== undefined) {
+      const definitionError = validateDefinition(definition);
+      if (definitionError) {
+        return NextResponse.json({ error: definitionError }, { status: 400 });
+      }
+    }
+    if (pinned !== undefined && typeof pinned !== 'boolean') {
+      return NextResponse.json({ error: 'pinned must be a boolean' }, { status: 400 });
+    }
+
+    const view = await SmartViewManager.updateView(params.id, userId, {
+      name: name?.trim(),
+      definition,
+      pinned
+    });
+    if (!view) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(view);
+  } catch (error) {
+    console.error('Update view error:', error);
+    return NextResponse.json({
+      error: 'Failed to update view',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+    const { userId } = auth;
+
+    const view = await SmartViewManager.getView(params.id, userId);
+    if (!view) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+    if (view.builtin) {
+      return NextResponse.json({ error: 'built-in views can be edited or unpinned but not deleted' }, { status: 400 });
+    }
+
+    await SmartViewManager.deleteView(params.id, userId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete view error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete view',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
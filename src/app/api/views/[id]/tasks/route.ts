@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { SmartViewManager } from '@/lib/smartViews';
+
+type Params = { params: { id: string } };
+
+// The view's tasks, sorted and grouped by its definition
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+    const { userId } = auth;
+
+    const view = await SmartViewManager.getView(params.id, userId);
+    if (!view) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    const groups = await SmartViewManager.runView(userId, view.definition);
+
+    return NextResponse.json({ view, groups });
+  } catch (error) {
+    console.error('Run view error:', error);
+    return NextResponse.json({
+      error: 'Failed to load view',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
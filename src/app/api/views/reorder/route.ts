@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { SmartViewManager } from '@/lib/smartViews';
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { order } = await req.json();
+
+    if (!Array.isArray(order) || !order.every(id => typeof id === 'string')) {
+      return NextResponse.json({ error: 'order must be an array of view ids' }, { status: 400 });
+    }
+
+    await SmartViewManager.reorderViews(auth.userId, order);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Reorder views error:', error);
+    return NextResponse.json({
+      error: 'Failed to reorder views',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
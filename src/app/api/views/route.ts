@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountSuspended, forbidden, getRequestAuth, hasScope, isSuspended, unauthorized } from '@/lib/auth';
+import { validateDefinition } from '@/lib/smartViewDefinition';
+import { SmartViewManager } from '@/lib/smartViews';
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:read')) return forbidden('tasks:read');
+
+    const views = await SmartViewManager.listViews(auth.userId);
+
+    return NextResponse.json({ views });
+  } catch (error) {
+    console.error('List views error:', error);
+    return NextResponse.json({
+      error: 'Failed to list views',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req);
+    if (!auth) return unauthorized();
+    if (isSuspended(auth)) return accountSuspended();
+    if (!hasScope(auth, 'tasks:write')) return forbidden('tasks:write');
+
+    const { name, definition, pinned } = await req.json();
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+    const definitionError = validateDefinition(definition);
+    if (definitionError) {
+      return NextResponse.json({ error: definitionError }, { status: 400 });
+    }
+    if (pinned !== undefined && typeof pinned !== 'boolean') {
+      return NextResponse.json({ error: 'pinned must be a boolean' }, { status: 400 });
+    }
+
+    const view = await SmartViewManager.createView(auth.userId, { name: name.trim(), definition, pinned });
+
+    return NextResponse.json(view, { status: 201 });
+  } catch (error) {
+    console.error('Create view error:', error);
+    return NextResponse.json({
+      error: 'Failed to create view',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
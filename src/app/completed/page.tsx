@@ -1,13 +1,9 @@
-import React from 'react';
-import TaskList from '@/components/TaskList';
+import { SmartView } from '@/components/SmartView';
 
 export default function CompletedPage() {
   return (
     <div className="container mx-auto px-4 py-8">
-      <TaskList view="completed" title="Completed Tasks" />
+      <SmartView builtin="completed" />
     </div>
   );
 }
-
-
-
@@ -10,7 +10,6 @@ import { getCurrentFocusPreset, getFocusPresets, addFocusPreset } from '@/lib/fo
 type Task = any;
 
 export default function FocusPage() {
-  const userId = 'demo-user';
   const [timer, setTimer] = useState<FocusTimer | null>(null);
   const [session, setSession] = useState<FocusSession | null>(null);
   const [selectedPreset, setSelectedPreset] = useState<FocusPreset>(DEFAULT_PRESETS[0]);
@@ -40,7 +39,6 @@ export default function FocusPage() {
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ 
               session, 
-              userId,
               sessionId: session.id,
               focusMinutes: session.totalFocusMinutes,
               sessionHash: session.sessionHash,
@@ -91,7 +89,7 @@ export default function FocusPage() {
     }
 
     // Load tasks
-    fetch(`/api/tasks?userId=${userId}&status=todo`)
+    fetch(`/api/tasks?status=todo`)
       .then(res => res.json())
       .then(setTasks)
       .catch(error => {
@@ -113,7 +111,7 @@ export default function FocusPage() {
     return () => {
       focusTimer.stop();
     };
-  }, [userId]);
+  }, []);
 
   // Integrity check interval
   useEffect(() => {
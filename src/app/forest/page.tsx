@@ -3,6 +3,7 @@
 import { useEffect, useState, useRef } from 'react';
 import { TreeSpecies, TreeInstance } from '@/lib/forest';
 import html2canvas from 'html2canvas';
+import { useFeatureFlag } from '@/lib/useFeatureFlag';
 
 type ForestStats = {
   total_trees: number;
@@ -71,8 +72,8 @@ export default function ForestPage() {
   const [calendarView, setCalendarView] = useState<CalendarView>('week');
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [trees, setTrees] = useState<TreeInstance[]>([]);
-  const [userId] = useState('user-123'); // Replace with actual user ID
   const [sharing, setSharing] = useState(false);
+  const shopEnabled = useFeatureFlag('forest_shop');
   
   const forestRef = useRef<HTMLDivElement>(null);
 
@@ -85,17 +86,16 @@ export default function ForestPage() {
       setLoading(true);
       
       // Load forest stats
-      const statsResponse = await fetch(`/api/forest/stats?userId=${userId}`);
+      const statsResponse = await fetch(`/api/forest/stats`);
       const statsData = await statsResponse.json();
       setStats(statsData);
 
-      // Load shop data
-      const shopResponse = await fetch(`/api/forest/shop?userId=${userId}`);
-      const shopData = await shopResponse.json();
-      setShopData(shopData);
+      // Load shop data (404 when the shop isn't enabled for this user)
+      const shopResponse = await fetch(`/api/forest/shop`);
+      setShopData(shopResponse.ok ? await shopResponse.json() : null);
 
       // Load trees for calendar
-      const treesResponse = await fetch(`/api/forest/trees?userId=${userId}`);
+      const treesResponse = await fetch(`/api/forest/trees`);
       const treesData = await treesResponse.json();
       setTrees(treesData);
     } catch (error) {
@@ -110,7 +110,7 @@ export default function ForestPage() {
       const response = await fetch('/api/forest/shop', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, speciesId })
+        body: JSON.stringify({ speciesId })
       });
 
       if (response.ok) {
@@ -320,16 +320,18 @@ export default function ForestPage() {
             >
               🌲 Forest
             </button>
-            <button
-              onClick={() => setActiveTab('shop')}
-              className={`flex-1 py-3 px-4 text-center font-medium ${
-                activeTab === 'shop'
-                  ? 'text-green-600 border-b-2 border-green-600'
-                  : 'text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              🛒 Shop
-            </button>
+            {shopEnabled && (
+              <button
+                onClick={() => setActiveTab('shop')}
+                className={`flex-1 py-3 px-4 text-center font-medium ${
+                  activeTab === 'shop'
+                    ? 'text-green-600 border-b-2 border-green-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                🛒 Shop
+              </button>
+            )}
             <button
               onClick={() => setActiveTab('stats')}
               className={`flex-1 py-3 px-4 text-center font-medium ${
@@ -564,7 +566,7 @@ export default function ForestPage() {
         )}
 
         {/* Shop Tab */}
-        {activeTab === 'shop' && shopData && (
+        {activeTab === 'shop' && shopEnabled && shopData && (
           <div className="space-y-6">
             {/* Points Display */}
             <div className="bg-white rounded-lg shadow-lg p-6">
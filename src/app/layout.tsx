@@ -7,6 +7,10 @@ import { AccessibilityProvider } from '@/components/AccessibilityProvider';
 import { AccessibilityHelp } from '@/components/AccessibilityHelp';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { PWAInitializer } from '@/components/PWAInitializer';
+import { SignOutButton } from '@/components/SignOutButton';
+import { ProjectSidebar } from '@/components/ProjectSidebar';
+import { PinnedViewsNav } from '@/components/PinnedViewsNav';
+import { UndoToast } from '@/components/UndoToast';
 
 export const metadata: Metadata = {
   title: 'BlitzitApp - Focus Timer & Task Manager',
@@ -87,26 +91,32 @@ export default function RootLayout({ children }: { children: React.ReactNode })
                 <span className="text-lg font-semibold">BlitzitApp</span>
               </div>
               <nav role="navigation" aria-label="Main navigation" className="flex items-center gap-3 text-sm">
-                <a className="hover:text-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 focus:rounded px-1" href="/today">Today</a>
-                <a className="hover:text-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 focus:rounded px-1" href="/upcoming">Upcoming</a>
-                <a className="hover:text-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 focus:rounded px-1" href="/overdue">Overdue</a>
-                <a className="hover:text-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 focus:rounded px-1" href="/completed">Completed</a>
+                <PinnedViewsNav />
+                <a className="hover:text-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 focus:rounded px-1" href="/views">Views</a>
+                <a className="hover:text-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 focus:rounded px-1" href="/search">Search</a>
                 <a className="hover:text-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 focus:rounded px-1" href="/focus">Focus</a>
                 <a className="hover:text-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 focus:rounded px-1" href="/analytics">Analytics</a>
                 <a className="hover:text-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 focus:rounded px-1" href="/forest">Forest</a>
                 <a className="hover:text-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 focus:rounded px-1" href="/settings">Settings</a>
+                <SignOutButton />
               </nav>
             </div>
           </header>
           
-          <main id="main-content" role="main" className="mx-auto max-w-6xl px-4 py-6" tabIndex={-1}>
-            {children}
-          </main>
+          <div className="mx-auto flex max-w-6xl gap-6 px-4 py-6">
+            <aside className="hidden w-56 shrink-0 md:block">
+              <ProjectSidebar />
+            </aside>
+            <main id="main-content" role="main" className="min-w-0 flex-1" tabIndex={-1}>
+              {children}
+            </main>
+          </div>
           
           {/* Global floating components */}
           <FloatingQuickAdd userId="demo-user" />
           <FocusMiniTimer userId="demo-user" />
           <AccessibilityHelp />
+          <UndoToast />
           </AccessibilityProvider>
         </ErrorBoundary>
       </body>
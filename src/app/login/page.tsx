@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { safeRedirectPath } from '@/lib/safeRedirect';
+
+type Mode = 'signin' | 'register' | 'magic';
+
+const inputClass = 'w-full rounded border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500 dark:border-gray-700 dark:bg-gray-900';
+
+export default function LoginPage() {
+  const searchParams = useSearchParams();
+  const next = safeRedirectPath(searchParams.get('next'));
+
+  const [mode, setMode] = useState<Mode>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(
+    searchParams.get('error') === 'invalid_link' ? 'That sign-in link is invalid or has expired.' : null
+  );
+  const [message, setMessage] = useState<string | null>(null);
+  const [devLink, setDevLink] = useState<string | null>(null);
+
+  function switchMode(newMode: Mode) {
+    setMode(newMode);
+    setError(null);
+    setMessage(null);
+    setDevLink(null);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      if (mode === 'magic') {
+        const res = await fetch('/api/auth/magic-link', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ email, next })
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to send sign-in link');
+
+        setMessage('Check your email for a sign-in link.');
+        setDevLink(data.devLink || null);
+        return;
+      }
+
+      const res = await fetch(mode === 'register' ? '/api/auth/register' : '/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'register' ? { email, password, name } : { email, password })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Sign in failed');
+
+      window.location.href = next;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-sm space-y-6 py-10">
+      <h1 className="text-2xl font-bold">
+        {mode === 'register' ? 'Create your account' : 'Sign in to BlitzitApp'}
+      </h1>
+
+      <div role="tablist" aria-label="Sign-in method" className="flex gap-2 text-sm">
+        {([
+          ['signin', 'Password'],
+          ['magic', 'Email link'],
+          ['register', 'Sign up']
+        ] as const).map(([value, label]) => (
+          <button
+            key={value}
+            role="tab"
+            aria-selected={mode === value}
+            onClick={() => switchMode(value)}
+            className={`rounded px-3 py-1 focus:outline-none focus:ring-2 focus:ring-brand-500 ${
+              mode === value ? 'bg-brand-500 text-white' : 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {mode === 'register' && (
+          <div className="space-y-1">
+            <label htmlFor="name" className="block text-sm font-medium">Name</label>
+            <input id="name" type="text" value={name} onChange={e => setName(e.target.value)} className={inputClass} autoComplete="name" />
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <label htmlFor="email" className="block text-sm font-medium">Email</label>
+          <input id="email" type="email" required value={email} onChange={e => setEmail(e.target.value)} className={inputClass} autoComplete="email" />
+        </div>
+
+        {mode !== 'magic' && (
+          <div className="space-y-1">
+            <label htmlFor="password" className="block text-sm font-medium">Password</label>
+            <input
+              id="password"
+              type="password"
+              required
+              minLength={mode === 'register' ? 8 : undefined}
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              className={inputClass}
+              autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+            />
+          </div>
+        )}
+
+        {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+        {message && <p role="status" className="text-sm text-green-600">{message}</p>}
+        {devLink && (
+          <p className="break-all text-xs text-gray-500">
+            Development link: <a className="underline" href={devLink}>{devLink}</a>
+          </p>
+        )}
+
+        <button
+          type="submit"
+          disabled={busy}
+          className="w-full rounded bg-brand-500 px-4 py-2 text-sm font-medium text-white hover:bg-brand-600 disabled:opacity-50"
+        >
+          {busy ? 'Please wait...' : mode === 'magic' ? 'Send sign-in link' : mode === 'register' ? 'Create account' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
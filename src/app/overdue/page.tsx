@@ -1,12 +1,9 @@
-import React from 'react';
-import TaskList from '@/components/TaskList';
+import { SmartView } from '@/components/SmartView';
 
 export default function OverduePage() {
   return (
     <div className="container mx-auto px-4 py-8">
-      <TaskList view="overdue" title="Overdue Tasks" />
+      <SmartView builtin="overdue" />
     </div>
   );
 }
-
-
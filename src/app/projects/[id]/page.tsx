@@ -0,0 +1,5 @@
+import { ProjectView } from '@/components/ProjectView';
+
+export default function ProjectPage({ params }: { params: { id: string } }) {
+  return <ProjectView projectId={params.id === 'inbox' ? null : params.id} />;
+}
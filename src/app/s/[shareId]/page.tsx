@@ -0,0 +1,204 @@
+import { cookies, headers } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { AuthManager } from '@/lib/auth';
+import { CommentManager } from '@/lib/comments';
+import { SESSION_ID_HEADER, USER_ID_HEADER } from '@/lib/sessionToken';
+import { ShareLinkManager, getShareVisitor, shareAccessCookieName } from '@/lib/shareLinks';
+import { displayDue } from '@/lib/timezone';
+import { SharePasswordForm } from '@/components/SharePasswordForm';
+import { SharedTaskComments } from '@/components/SharedTaskComments';
+
+export const dynamic = 'force-dynamic';
+
+async function getViewerId(): Promise<string | null> {
+  const headerList = headers();
+  const sessionId = headerList.get(SESSION_ID_HEADER);
+  const userId = headerList.get(USER_ID_HEADER);
+  if (!sessionId || !userId) return null;
+
+  const user = await AuthManager.getSessionUser(sessionId, userId);
+  return user?.id ?? null;
+}
+
+function formatDate(value: string | Date | null | undefined): string {
+  return value ? new Date(value).toLocaleDateString() : '';
+}
+
+type ShareComments = { shareId: string; counts: Record<string, number>; askName: boolean };
+
+function TaskListContent({ tasks, showTimestamps, comments }: { tasks: any[]; showTimestamps: boolean; comments?: ShareComments }) {
+  if (tasks.length === 0) {
+    return <p className="text-gray-500">No tasks match this list.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+      {tasks.map(task => (
+        <li key={task.id} className="py-3">
+          <div className="flex items-center justify-between gap-3">
+            <span className={task.status === 'done' || task.status === 'completed' ? 'line-through text-gray-500' : ''}>
+              {task.title}
+            </span>
+            <span className="text-xs text-gray-500">
+              {task.priority}
+              {task.due_at && ` · due ${formatDate(displayDue(task.due_at, task.all_day))}`}
+              {showTimestamps && task.completed_at && ` · done ${formatDate(task.completed_at)}`}
+            </span>
+          </div>
+          {task.tags.length > 0 && (
+            <div className="mt-1 flex flex-wrap gap-1">
+              {task.tags.map((tag: string) => (
+                <span key={tag} className="rounded bg-gray-100 px-2 py-0.5 text-xs dark:bg-gray-800">#{tag}</span>
+              ))}
+            </div>
+          )}
+          {task.subtasks.length > 0 && (
+            <ul className="mt-2 ml-4 space-y-1 text-sm text-gray-600 dark:text-gray-400">
+              {task.subtasks.map((subtask: any) => (
+                <li key={subtask.id}>
+                  {subtask.status === 'done' || subtask.status === 'completed' ? '☑' : '☐'} {subtask.title}
+                </li>
+              ))}
+            </ul>
+          )}
+          {comments && (
+            <SharedTaskComments
+              shareId={comments.shareId}
+              taskId={task.id}
+              count={comments.counts[task.id] ?? 0}
+              askName={comments.askName}
+            />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function StatGrid({ stats }: { stats: Array<[string, string | number]> }) {
+  return (
+    <dl className="grid grid-cols-2 gap-4 md:grid-cols-4">
+      {stats.map(([label, value]) => (
+        <div key={label} className="rounded-lg bg-gray-50 p-4 dark:bg-gray-900">
+          <dt className="text-sm text-gray-500">{label}</dt>
+          <dd className="text-2xl font-semibold">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+export default async function SharedContentPage({ params }: { params: { shareId: string } }) {
+  const viewerId = await getViewerId();
+  const access = await ShareLinkManager.checkAccess(
+    params.shareId,
+    viewerId,
+    cookies().get(shareAccessCookieName(params.shareId))?.value
+  );
+
+  if (access.status === 'not_found') {
+    notFound();
+  }
+
+  if (access.status === 'expired') {
+    return (
+      <div className="mx-auto max-w-xl space-y-2 py-10 text-center">
+        <h1 className="text-2xl font-bold">This link has expired</h1>
+        <p className="text-gray-600 dark:text-gray-400">Ask the owner to share it again.</p>
+      </div>
+    );
+  }
+
+  if (access.status === 'password_required') {
+    return (
+      <div className="mx-auto max-w-sm space-y-4 py-10">
+        <h1 className="text-2xl font-bold">{access.record.title}</h1>
+        <SharePasswordForm shareId={access.record.id} />
+      </div>
+    );
+  }
+
+  const isOwner = access.record.userId === viewerId;
+  if (!isOwner) {
+    await ShareLinkManager.recordAccess(access.record.id, getShareVisitor(headers()));
+  }
+
+  const { share, content, owner } = await ShareLinkManager.getSharedContent(access.record);
+  const { settings } = share;
+  const data = content.data;
+  const comments = content.type === 'task_list' && settings.allowComments
+    ? {
+      shareId: share.id,
+      counts: await CommentManager.counts(access.record.userId, data.map((task: any) => task.id)),
+      askName: !viewerId
+    }
+    : undefined;
+
+  return (
+    <article className="mx-auto max-w-3xl space-y-6">
+      <header className="space-y-1">
+        <h1 className="text-3xl font-bold">{share.title}</h1>
+        {share.description && <p className="text-gray-600 dark:text-gray-400">{share.description}</p>}
+        <p className="text-sm text-gray-500">
+          {owner?.name && <>Shared by {owner.name}</>}
+          {owner?.name && settings.showTimestamps && ' · '}
+          {settings.showTimestamps && <>Updated {formatDate(share.updatedAt)}</>}
+        </p>
+        {isOwner && (
+          <p className="text-xs text-yellow-700">You are previewing your own share link.</p>
+        )}
+      </header>
+
+      {content.type === 'task_list' && (
+        <TaskListContent tasks={data} showTimestamps={settings.showTimestamps} comments={comments} />
+      )}
+
+      {content.type === 'analytics' && (
+        <StatGrid stats={[
+          ['Tasks', data.totalTasks],
+          ['Completed', data.completedTasks],
+          ['Completion rate', `${data.completionRate}%`],
+          ['Focus minutes', data.totalFocusMinutes],
+          ['Focus sessions', data.focusSessions],
+          ['Streak (days)', data.streakDays],
+          ['Points', data.points]
+        ]} />
+      )}
+
+      {content.type === 'forest' && (
+        data.trees.length === 0 ? (
+          <p className="text-gray-500">No trees planted yet.</p>
+        ) : (
+          <ul className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            {data.trees.map((tree: any) => (
+              <li key={tree.id} className="rounded-lg bg-green-50 p-4 text-center dark:bg-green-900/20">
+                <div className="text-3xl" aria-hidden="true">🌳</div>
+                <div className="font-medium">{tree.species}</div>
+                <div className="text-xs text-gray-500">Stage {tree.stage + 1} of {tree.maxStage}</div>
+                {tree.planted_at && <div className="text-xs text-gray-500">Planted {formatDate(tree.planted_at)}</div>}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      {content.type === 'focus_stats' && (
+        <StatGrid stats={[
+          ['Sessions', data.totalSessions],
+          ['Minutes', data.totalMinutes],
+          ['Pomodoros', data.totalPomodoros],
+          ['Last session', data.lastSessionAt ? formatDate(data.lastSessionAt) : '—']
+        ]} />
+      )}
+
+      {(settings.allowDownload || isOwner) && (
+        <a
+          href={`/api/sharing/${share.id}/download`}
+          className="inline-block rounded bg-brand-500 px-4 py-2 text-sm font-medium text-white hover:bg-brand-600"
+        >
+          Download data
+        </a>
+      )}
+    </article>
+  );
+}
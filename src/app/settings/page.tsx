@@ -1,6 +1,11 @@
 "use client";
 
 import { NotificationSettings } from '@/components/NotificationSettings';
+import { TimeZoneSettings } from '@/components/TimeZoneSettings';
+import { TagSettings } from '@/components/TagSettings';
+import { TaskTemplateSettings } from '@/components/TaskTemplateSettings';
+import { ApiTokenSettings } from '@/components/ApiTokenSettings';
+import { AccountDataSettings } from '@/components/AccountDataSettings';
 
 export default function SettingsPage() {
   const userId = 'demo-user';
@@ -12,14 +17,21 @@ export default function SettingsPage() {
       <div className="space-y-6">
         {/* Notification Settings */}
         <NotificationSettings userId={userId} />
+
+        {/* Where the user's days start and end */}
+        <TimeZoneSettings />
+
+        {/* Rename, recolour, merge and delete tags */}
+        <TagSettings />
+
+        {/* Multi-step tasks to create in one go */}
+        <TaskTemplateSettings />
+
+        {/* Personal API tokens */}
+        <ApiTokenSettings />
         
-        {/* Future settings sections can be added here */}
-        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 space-y-4">
-          <h2 className="text-xl font-semibold">Account Settings</h2>
-          <p className="text-gray-600 dark:text-gray-400">
-            Additional account settings will be available here in future updates.
-          </p>
-        </div>
+        {/* Data export and account deletion */}
+        <AccountDataSettings />
         
         <div className="bg-white dark:bg-gray-800 rounded-lg p-6 space-y-4">
           <h2 className="text-xl font-semibold">Focus Preferences</h2>
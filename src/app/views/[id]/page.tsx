@@ -0,0 +1,9 @@
+import { SmartView } from '@/components/SmartView';
+
+export default function SmartViewPage({ params }: { params: { id: string } }) {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <SmartView viewId={params.id} />
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from 'react';
+import { SmartViewDefinition, viewPath } from '@/lib/smartViewDefinition';
+import { notifySmartViewsChanged, saveSmartView, useSmartViews } from '@/lib/useSmartViews';
+
+const NEW_VIEW: SmartViewDefinition = {
+  filter: { status: ['todo', 'in_progress'] },
+  sort: [{ field: 'due_at', direction: 'asc' }],
+  group: 'none'
+};
+
+export default function ViewsPage() {
+  const { views, setViews, loading } = useSmartViews();
+  const [error, setError] = useState<string | null>(null);
+
+  async function create() {
+    const name = prompt('Name the new view', 'New view');
+    if (!name?.trim()) return;
+    try {
+      const view = await saveSmartView(null, { name: name.trim(), definition: NEW_VIEW });
+      window.location.href = viewPath(view);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create view');
+    }
+  }
+
+  async function togglePinned(viewId: string, pinned: boolean) {
+    setError(null);
+    try {
+      await saveSmartView(viewId, { pinned });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update view');
+    }
+  }
+
+  async function move(index: number, offset: number) {
+    const next = views.slice();
+    const [view] = next.splice(index, 1);
+    next.splice(index + offset, 0, view);
+    setViews(next);
+
+    await fetch('/api/views/reorder', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ order: next.map(v => v.id) })
+    });
+    notifySmartViewsChanged();
+  }
+
+  return (
+    <div className="container mx-auto space-y-6 px-4 py-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Views</h1>
+        <button onClick={create} className="rounded bg-brand-500 px-4 py-2 text-sm text-white hover:bg-brand-600">
+          New view
+        </button>
+      </div>
+      <p className="text-sm text-gray-500">
+        Pinned views appear in the navigation in this order. Built-in views can be edited and reset but not deleted.
+      </p>
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+
+      <ul className="divide-y rounded-lg border dark:divide-gray-800 dark:border-gray-800" aria-busy={loading}>
+        {views.map((view, index) => (
+          <li key={view.id} className="flex items-center gap-3 p-3">
+            <a href={viewPath(view)} className="flex-1 font-medium hover:text-brand-500">{view.name}</a>
+            {view.builtin && <span className="text-xs text-gray-500">Built-in</span>}
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={view.pinned} onChange={e => togglePinned(view.id, e.target.checked)} />
+              Pinned
+            </label>
+            <button
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="px-2 disabled:opacity-30"
+              aria-label={`Move ${view.name} up`}
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => move(index, 1)}
+              disabled={index === views.length - 1}
+              className="px-2 disabled:opacity-30"
+              aria-label={`Move ${view.name} down`}
+            >
+              ↓
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
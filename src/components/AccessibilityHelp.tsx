@@ -24,6 +24,8 @@ export function AccessibilityHelp() {
     { key: 'Space', description: 'Activate buttons and checkboxes' },
     { key: 'Escape', description: 'Close modals and dialogs' },
     { key: 'Ctrl/Cmd + Enter', description: 'Submit forms (in modals)' },
+    { key: 'Space / Enter', description: 'Pick up or drop a task on the board' },
+    { key: 'Arrow keys', description: 'Move a picked-up task between positions and sections' },
   ];
 
   const accessibilityFeatures = [
@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+
+interface ExportHistoryEntry {
+  id: string;
+  exportType: string;
+  status: string;
+  fileSize: number | null;
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+function formatSize(bytes: number | null): string {
+  if (bytes === null) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: 'text-green-600',
+  pending: 'text-yellow-600',
+  failed: 'text-red-600'
+};
+
+export function AccountDataSettings() {
+  const [exports, setExports] = useState<ExportHistoryEntry[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [confirmEmail, setConfirmEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadHistory() {
+    const res = await fetch('/api/account/export');
+    if (!res.ok) return;
+    const data = await res.json();
+    setExports(data.exports);
+  }
+
+  useEffect(() => { loadHistory(); }, []);
+
+  async function downloadData() {
+    setExporting(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/account/export', { method: 'POST' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export account');
+      }
+
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'blitzapp_account.json';
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export account');
+    } finally {
+      setExporting(false);
+      await loadHistory();
+    }
+  }
+
+  async function deleteAccount(e: React.FormEvent) {
+    e.preventDefault();
+    if (!confirm('Delete your account and all of its data? This cannot be undone.')) return;
+
+    setDeleting(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/account', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ confirmEmail, password: password || undefined })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to delete account');
+
+      window.location.href = '/login';
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete account');
+      setDeleting(false);
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 space-y-4">
+      <h2 className="text-xl font-semibold">Your Data</h2>
+      <p className="text-gray-600 dark:text-gray-400">
+        Download everything tied to your account as a JSON archive: tasks and subtasks, focus sessions,
+        points and streak history, trees, notifications, devices and past exports.
+      </p>
+
+      <button
+        onClick={downloadData}
+        disabled={exporting}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+      >
+        {exporting ? 'Preparing...' : 'Download my data'}
+      </button>
+
+      {exports.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium mb-2">Export history</h3>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            {exports.map(entry => (
+              <li key={entry.id} className="flex items-center justify-between py-2">
+                <span>
+                  {entry.exportType} · {new Date(entry.createdAt).toLocaleString()}
+                </span>
+                <span className="text-gray-500">
+                  <span className={STATUS_STYLES[entry.status] || ''} title={entry.errorMessage || undefined}>
+                    {entry.status}
+                  </span>
+                  {' · '}{formatSize(entry.fileSize)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <form onSubmit={deleteAccount} className="space-y-3 border-t border-gray-200 pt-4 dark:border-gray-700">
+        <h3 className="font-medium text-red-600">Delete account</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Permanently removes your account and everything in it. Download your data first if you want to keep it.
+        </p>
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="email"
+            required
+            placeholder="Type your email to confirm"
+            value={confirmEmail}
+            onChange={e => setConfirmEmail(e.target.value)}
+            className="flex-1 min-w-[12rem] rounded border border-gray-300 px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+            aria-label="Confirm email"
+          />
+          <input
+            type="password"
+            placeholder="Password (if you have one)"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className="flex-1 min-w-[12rem] rounded border border-gray-300 px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+            aria-label="Password"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={deleting || !confirmEmail.trim()}
+          className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+        >
+          {deleting ? 'Deleting...' : 'Delete my account'}
+        </button>
+      </form>
+
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
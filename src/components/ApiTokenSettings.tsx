@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+
+interface ApiToken {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: string[];
+  last_used_at: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : 'Never';
+}
+
+export function ApiTokenSettings() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<Record<string, string>>({});
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [expiresAt, setExpiresAt] = useState('');
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function load() {
+    const res = await fetch('/api/tokens');
+    if (!res.ok) return;
+    const data = await res.json();
+    setTokens(data.tokens);
+    setAvailableScopes(data.availableScopes);
+  }
+
+  useEffect(() => { load(); }, []);
+
+  function toggleScope(scope: string) {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  }
+
+  async function createToken(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    setNewToken(null);
+
+    try {
+      const res = await fetch('/api/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to create token');
+
+      setNewToken(data.token);
+      setName('');
+      setScopes([]);
+      setExpiresAt('');
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create token');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function revokeToken(id: string) {
+    if (!confirm('Revoke this token? Scripts using it will stop working.')) return;
+
+    const res = await fetch(`/api/tokens/${id}`, { method: 'DELETE' });
+    if (res.ok) {
+      setTokens(prev => prev.filter(t => t.id !== id));
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 space-y-4">
+      <h2 className="text-xl font-semibold">API Tokens</h2>
+      <p className="text-gray-600 dark:text-gray-400">
+        Personal access tokens let scripts call the API with <code>Authorization: Bearer &lt;token&gt;</code>.
+      </p>
+
+      <form onSubmit={createToken} className="space-y-3">
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="text"
+            required
+            placeholder="Token name, e.g. CI import"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            className="flex-1 min-w-[12rem] rounded border border-gray-300 px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+            aria-label="Token name"
+          />
+          <input
+            type="date"
+            value={expiresAt}
+            onChange={e => setExpiresAt(e.target.value)}
+            className="rounded border border-gray-300 px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+            aria-label="Expiry date (optional)"
+          />
+        </div>
+
+        <fieldset className="flex flex-wrap gap-4 text-sm">
+          <legend className="sr-only">Scopes</legend>
+          {Object.entries(availableScopes).map(([scope, description]) => (
+            <label key={scope} className="flex items-center gap-2" title={description}>
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              <code>{scope}</code>
+            </label>
+          ))}
+        </fieldset>
+
+        <button
+          type="submit"
+          disabled={busy || !name.trim() || scopes.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {busy ? 'Creating...' : 'Create Token'}
+        </button>
+      </form>
+
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+
+      {newToken && (
+        <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg space-y-2">
+          <p className="text-sm font-medium text-green-800 dark:text-green-300">
+            Copy your new token now. You won&apos;t be able to see it again.
+          </p>
+          <code className="block break-all text-sm">{newToken}</code>
+        </div>
+      )}
+
+      {tokens.length === 0 ? (
+        <p className="text-sm text-gray-500">No active tokens.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {tokens.map(token => (
+            <li key={token.id} className="flex items-center justify-between py-3">
+              <div>
+                <p className="font-medium">
+                  {token.name} <code className="text-xs text-gray-500">{token.token_prefix}…</code>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {token.scopes.join(', ')} · Last used: {formatDate(token.last_used_at)}
+                  {token.expires_at && ` · Expires: ${formatDate(token.expires_at)}`}
+                </p>
+              </div>
+              <button
+                onClick={() => revokeToken(token.id)}
+                className="px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
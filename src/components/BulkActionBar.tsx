@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from 'react';
+import { useAccessibility } from './AccessibilityProvider';
+import { localAllDayDate } from '@/lib/timezone';
+import { notifyProjectsChanged, useProjects } from '@/lib/useProjects';
+import { offerUndo, undoBatchFrom } from '@/lib/useUndo';
+
+type BulkResult = {
+  results: Array<{ id: string; ok: boolean; error?: string }>;
+  succeeded: number;
+  failed: number;
+  undoBatchId: string | null;
+};
+
+type Props = {
+  selectedIds: string[];
+  onDone: () => void;
+  onClear: () => void;
+};
+
+const selectClass = 'rounded border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-900';
+
+async function bulkUpdate(ids: string[], operation: Record<string, unknown>): Promise<BulkResult> {
+  const res = await fetch('/api/tasks/bulk', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ids, ...operation })
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to update tasks');
+  return { ...data, undoBatchId: undoBatchFrom(res) };
+}
+
+// Days from today, as an all-day date in the local calendar
+function dayFromToday(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return localAllDayDate(date).toISOString();
+}
+
+// Actions for the tasks picked in a multi-select list
+export function BulkActionBar({ selectedIds, onDone, onClear }: Props) {
+  const { projects } = useProjects();
+  const { announceToScreenReader } = useAccessibility();
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [tag, setTag] = useState('');
+
+  const count = selectedIds.length;
+  // The last result stays up after the changed tasks drop out of the list
+  if (count === 0) {
+    return message ? <p role="status" className="text-sm text-gray-500">{message}</p> : null;
+  }
+
+  async function run(label: string, operation: Record<string, unknown>) {
+    setBusy(true);
+    try {
+      const { succeeded, failed, undoBatchId } = await bulkUpdate(selectedIds, operation);
+      const summary = `${label} ${succeeded} task${succeeded === 1 ? '' : 's'}${failed ? `, ${failed} could not be changed` : ''}`;
+      setMessage(summary);
+      announceToScreenReader(summary);
+      offerUndo(summary, undoBatchId);
+      if (operation.action === 'move' || operation.action === 'delete' || operation.action === 'complete') notifyProjectsChanged();
+      onDone();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to update tasks');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function reschedule(value: string) {
+    if (value === 'none') return run('Cleared the due date of', { action: 'reschedule', due_at: null });
+    const dueAt = value.startsWith('+')
+      ? dayFromToday(parseInt(value.slice(1), 10))
+      : localAllDayDate(new Date(`${value}T00:00:00`)).toISOString();
+    return run('Rescheduled', { action: 'reschedule', due_at: dueAt, all_day: true });
+  }
+
+  function retag(mode: 'add' | 'remove') {
+    const names = tag.split(',').map(name => name.trim()).filter(Boolean);
+    if (names.length === 0) return;
+    setTag('');
+    return run(mode === 'add' ? 'Tagged' : 'Untagged', { action: 'retag', [mode]: names });
+  }
+
+  function remove() {
+    if (!confirm(`Delete ${count} task${count === 1 ? '' : 's'}? Their subtasks are deleted too.`)) return;
+    return run('Deleted', { action: 'delete' });
+  }
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Selected tasks"
+      aria-busy={busy}
+      className="sticky top-0 z-10 flex flex-wrap items-center gap-2 rounded-lg border bg-white p-3 text-sm shadow-sm dark:border-gray-800 dark:bg-gray-900"
+    >
+      <span className="font-medium">{count} selected</span>
+      <button onClick={() => run('Completed', { action: 'complete' })} disabled={busy} className="rounded border px-3 py-1 hover:bg-gray-50 dark:hover:bg-gray-800">
+        Complete
+      </button>
+      <select
+        value=""
+        onChange={e => e.target.value && reschedule(e.target.value)}
+        disabled={busy}
+        className={selectClass}
+        aria-label="Reschedule"
+      >
+        <option value="">Reschedule...</option>
+        <option value="+0">Today</option>
+        <option value="+1">Tomorrow</option>
+        <option value="+7">Next week</option>
+        <option value="none">No due date</option>
+      </select>
+      <input
+        type="date"
+        onChange={e => e.target.value && reschedule(e.target.value)}
+        disabled={busy}
+        className={selectClass}
+        aria-label="Reschedule to date"
+      />
+      <select
+        value=""
+        onChange={e => e.target.value && run('Moved', { action: 'move', projectId: e.target.value === 'inbox' ? null : e.target.value })}
+        disabled={busy}
+        className={selectClass}
+        aria-label="Move to project"
+      >
+        <option value="">Move to...</option>
+        <option value="inbox">Inbox</option>
+        {projects.map(project => <option key={project.id} value={project.id}>{project.name}</option>)}
+      </select>
+      <select
+        value=""
+        onChange={e => e.target.value && run('Reprioritized', { action: 'reprioritize', priority: e.target.value })}
+        disabled={busy}
+        className={selectClass}
+        aria-label="Set priority"
+      >
+        <option value="">Priority...</option>
+        <option value="high">High</option>
+        <option value="medium">Medium</option>
+        <option value="low">Low</option>
+      </select>
+      <span className="flex items-center gap-1">
+        <input
+          value={tag}
+          onChange={e => setTag(e.target.value)}
+          placeholder="tag"
+          className={`${selectClass} w-24`}
+          aria-label="Tags to add or remove"
+        />
+        <button onClick={() => retag('add')} disabled={busy || !tag.trim()} className="rounded border px-2 py-1 disabled:opacity-50">
+          + Tag
+        </button>
+        <button onClick={() => retag('remove')} disabled={busy || !tag.trim()} className="rounded border px-2 py-1 disabled:opacity-50">
+          − Tag
+        </button>
+      </span>
+      <button onClick={remove} disabled={busy} className="rounded border px-3 py-1 text-red-600 hover:bg-red-50">
+        Delete
+      </button>
+      <button onClick={onClear} className="ml-auto text-gray-500 hover:text-gray-800">
+        Clear selection
+      </button>
+      {message && <p role="status" className="w-full text-xs text-gray-500">{message}</p>}
+    </div>
+  );
+}
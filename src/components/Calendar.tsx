@@ -1,8 +1,11 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { TaskManager, TaskWithSubtasks } from '@/lib/taskManager';
+import React, { useState, useEffect, useRef } from 'react';
+import type { TaskWithSubtasks } from '@/lib/taskManager';
 import TaskEditModal from './TaskEditModal';
+import { blockFor, blockMinutes, collidingIds, layoutBlocks, snapMinutes, SNAP_MIN, TimeBlock } from '@/lib/timeBlocks';
+import { displayDue } from '@/lib/timezone';
+import { offerUndo, undoBatchFrom, useTasksChanged } from '@/lib/useUndo';
 
 // Date utility functions (since date-fns is not installed)
 const format = (date: Date, formatStr: string): string => {
@@ -11,6 +14,10 @@ const format = (date: Date, formatStr: string): string => {
            date.getHours() === 12 ? '12p' : 
            date.getHours() > 12 ? `${date.getHours() - 12}p` : `${date.getHours()}a`;
   }
+  if (formatStr === 'h:mma') {
+    const hour = date.getHours() % 12 || 12;
+    return `${hour}:${date.getMinutes().toString().padStart(2, '0')}${date.getHours() < 12 ? 'a' : 'p'}`;
+  }
   if (formatStr === 'EEE') {
     const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
     return days[date.getDay()];
@@ -18,6 +25,10 @@ const format = (date: Date, formatStr: string): string => {
   if (formatStr === 'd') {
     return date.getDate().toString();
   }
+  if (formatStr === 'EEE MMM d') {
+    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+    return `${format(date, 'EEE')} ${months[date.getMonth()]} ${date.getDate()}`;
+  }
   if (formatStr === 'MMM d, yyyy') {
     const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
     return `${months[date.getMonth()]} ${date.getDate()}, ${date.getFullYear()}`;
@@ -112,8 +123,23 @@ const subMonths = (date: Date, months: number): Date => {
   return addMonths(date, -months);
 };
 
+const startOfDay = (date: Date): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+// Pixels per hour on the week and day grids
+const HOUR_HEIGHT = 48;
+const DAY_MINUTES = 24 * 60;
+// The grids open scrolled to the start of a working day
+const FIRST_VISIBLE_HOUR = 8;
+
+// Minutes since local midnight, by the clock rather than elapsed time so DST days line up
+const minutesIntoDay = (date: Date): number => date.getHours() * 60 + date.getMinutes();
+
+const isDone = (task: TaskWithSubtasks) => task.status === 'completed' || task.status === 'done';
+
 interface CalendarProps {
-  view: 'week' | 'month';
+  view: 'day' | 'week' | 'month';
   onTaskUpdate?: () => void;
 }
 
@@ -121,6 +147,16 @@ interface CalendarTask extends TaskWithSubtasks {
   displayDate: Date;
   isOverdue: boolean;
   isDueToday: boolean;
+  // Where it sits on the hour grid: when it's scheduled, or its due time and estimate
+  block: TimeBlock | null;
+}
+
+// A block being stretched by its bottom edge, and its length so far
+interface ResizeState {
+  taskId: string;
+  startY: number;
+  initialMinutes: number;
+  minutes: number;
 }
 
 export default function Calendar({ view, onTaskUpdate }: CalendarProps) {
@@ -133,44 +169,61 @@ export default function Calendar({ view, onTaskUpdate }: CalendarProps) {
     isDragging: boolean;
     taskId: string | null;
     startDate: Date | null;
+    // How far into the block it was picked up, so a dropped block keeps its place under the pointer
+    grabMinutes: number;
   }>({
     isDragging: false,
     taskId: null,
-    startDate: null
+    startDate: null,
+    grabMinutes: 0
   });
-
-  // Mock user ID for now - replace with actual auth
-  const userId = 'mock-user-id';
+  const [resize, setResize] = useState<ResizeState | null>(null);
+  const [workday, setWorkday] = useState({ from: '09:00', to: '18:00' });
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     loadTasks();
   }, [currentDate, view]);
 
+  const visibleRange = (): { start: Date; end: Date } => {
+    if (view === 'day') {
+      const start = startOfDay(currentDate);
+      return { start, end: new Date(addDays(start, 1).getTime() - 1) };
+    }
+    if (view === 'week') {
+      // Monday start
+      return { start: startOfWeek(currentDate, { weekStartsOn: 1 }), end: endOfWeek(currentDate, { weekStartsOn: 1 }) };
+    }
+    return { start: startOfMonth(currentDate), end: new Date(addDays(endOfMonth(currentDate), 1).getTime() - 1) };
+  };
+
+  // No spinner after the first load, so the grid keeps its scroll while blocks move
   const loadTasks = async () => {
-    setIsLoading(true);
     try {
-      let startDate: Date;
-      let endDate: Date;
-
-      if (view === 'week') {
-        startDate = startOfWeek(currentDate, { weekStartsOn: 1 }); // Monday start
-        endDate = endOfWeek(currentDate, { weekStartsOn: 1 });
-      } else {
-        startDate = startOfMonth(currentDate);
-        endDate = endOfMonth(currentDate);
-      }
-
-      const allTasks = await TaskManager.getTasks(userId, {
-        dueDate: { start: startDate, end: endDate }
+      const { start, end } = visibleRange();
+      const params = new URLSearchParams({ start: start.toISOString(), end: end.toISOString() });
+      const res = await fetch(`/api/tasks/schedule?${params}`);
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+      const allTasks: TaskWithSubtasks[] = (await res.json()).tasks;
+
+      const calendarTasks: CalendarTask[] = allTasks.map(task => {
+        const displayDate = task.due_at ? displayDue(task.due_at, task.all_day) : new Date();
+        // An all-day task isn't overdue until its day is over
+        const overdueAfter = task.all_day
+          ? new Date(displayDate.getFullYear(), displayDate.getMonth(), displayDate.getDate() + 1)
+          : displayDate;
+
+        return {
+          ...task,
+          displayDate,
+          isOverdue: task.due_at ? overdueAfter < new Date() && task.status !== 'completed' : false,
+          isDueToday: task.due_at ? isSameDay(displayDate, new Date()) : false,
+          block: blockFor(task)
+        };
       });
 
-      const calendarTasks: CalendarTask[] = allTasks.map(task => ({
-        ...task,
-        displayDate: task.due_at ? new Date(task.due_at) : new Date(),
-        isOverdue: task.due_at ? new Date(task.due_at) < new Date() && task.status !== 'completed' : false,
-        isDueToday: task.due_at ? isSameDay(new Date(task.due_at), new Date()) : false
-      }));
-
       setTasks(calendarTasks);
     } catch (error) {
       console.error('Failed to load tasks:', error);
@@ -178,50 +231,191 @@ export default function Calendar({ view, onTaskUpdate }: CalendarProps) {
       setIsLoading(false);
     }
   };
+  useTasksChanged(loadTasks);
+
+  useEffect(() => {
+    if (!isLoading && gridRef.current) gridRef.current.scrollTop = FIRST_VISIBLE_HOUR * HOUR_HEIGHT;
+  }, [view, isLoading]);
 
   const navigateDate = (direction: 'prev' | 'next') => {
-    if (view === 'week') {
+    if (view === 'day') {
+      setCurrentDate(prev => direction === 'next' ? addDays(prev, 1) : subDays(prev, 1));
+    } else if (view === 'week') {
       setCurrentDate(prev => direction === 'next' ? addWeeks(prev, 1) : subWeeks(prev, 1));
     } else {
       setCurrentDate(prev => direction === 'next' ? addMonths(prev, 1) : subMonths(prev, 1));
     }
   };
 
+  // Goes through the API so a mis-drag can be undone from the toast
   const handleTaskDrop = async (taskId: string, newDate: Date) => {
     try {
-      await TaskManager.updateTask(taskId, userId, {
-        due_at: newDate
+      const res = await fetch('/api/tasks', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: taskId, due_at: newDate.toISOString() })
       });
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
       
       setDragState({
         isDragging: false,
         taskId: null,
-        startDate: null
+        startDate: null,
+        grabMinutes: 0
       });
       
       loadTasks();
       onTaskUpdate?.();
+      const title = tasks.find(task => task.id === taskId)?.title ?? 'task';
+      offerUndo(`Moved "${title}" to ${format(newDate, 'MMM d, yyyy')}`, undoBatchFrom(res));
     } catch (error) {
       console.error('Failed to update task date:', error);
     }
   };
 
+  // Scheduling leaves the due date alone; nulls take the task off the grid
+  const saveSchedule = async (task: CalendarTask, start: Date | null, end: Date | null, message: string) => {
+    try {
+      const res = await fetch('/api/tasks/schedule', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: task.id, scheduled_start: start?.toISOString() ?? null, scheduled_end: end?.toISOString() ?? null })
+      });
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+
+      loadTasks();
+      onTaskUpdate?.();
+      offerUndo(message, undoBatchFrom(res));
+    } catch (error) {
+      console.error('Failed to schedule task:', error);
+    }
+  };
+
+  // Drops on the hour grid schedule the task at the snapped time under the pointer, keeping
+  // its length
+  const handleGridDrop = (e: React.DragEvent<HTMLDivElement>, day: Date) => {
+    e.preventDefault();
+    const task = tasks.find(t => t.id === dragState.taskId);
+    setDragState({ isDragging: false, taskId: null, startDate: null, grabMinutes: 0 });
+    if (!task) return;
+
+    const length = task.block
+      ? Math.round((task.block.end.getTime() - task.block.start.getTime()) / 60000)
+      : blockMinutes(task);
+    const pointer = (e.clientY - e.currentTarget.getBoundingClientRect().top) / HOUR_HEIGHT * 60;
+    const minute = Math.min(Math.max(snapMinutes(pointer - dragState.grabMinutes), 0), DAY_MINUTES - Math.min(length, DAY_MINUTES));
+    const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minute);
+    const end = new Date(start.getTime() + length * 60000);
+    if (task.scheduled_start && new Date(task.scheduled_start).getTime() === start.getTime()) return;
+
+    saveSchedule(task, start, end, `Scheduled "${task.title}" for ${format(start, 'EEE MMM d')} at ${format(start, 'h:mma')}`);
+  };
+
+  // A scheduled block's end moves; one placed by its due time gets a new estimate instead
+  const finishResize = async (state: ResizeState) => {
+    const task = tasks.find(t => t.id === state.taskId);
+    if (!task?.block || state.minutes === state.initialMinutes) return;
+
+    if (task.scheduled_start) {
+      const end = new Date(task.block.start.getTime() + state.minutes * 60000);
+      saveSchedule(task, task.block.start, end, `"${task.title}" now ends at ${format(end, 'h:mma')}`);
+      return;
+    }
+    try {
+      const res = await fetch('/api/tasks', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: task.id, estimate_min: state.minutes })
+      });
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+
+      loadTasks();
+      onTaskUpdate?.();
+      offerUndo(`Estimated "${task.title}" at ${state.minutes}m`, undoBatchFrom(res));
+    } catch (error) {
+      console.error('Failed to update task estimate:', error);
+    }
+  };
+
+  // The handle captures the pointer, so the drag keeps reporting wherever the pointer goes
+  const startResize = (e: React.PointerEvent<HTMLDivElement>, task: CalendarTask) => {
+    if (!task.block) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const minutes = Math.round((task.block.end.getTime() - task.block.start.getTime()) / 60000);
+    setResize({ taskId: task.id, startY: e.clientY, initialMinutes: minutes, minutes });
+  };
+
+  const moveResize = (e: React.PointerEvent) => {
+    if (!resize) return;
+    const dragged = snapMinutes((e.clientY - resize.startY) / HOUR_HEIGHT * 60);
+    setResize({ ...resize, minutes: Math.max(SNAP_MIN, resize.initialMinutes + dragged) });
+  };
+
+  const endResize = () => {
+    if (!resize) return;
+    finishResize(resize);
+    setResize(null);
+  };
+
+  // Packs today's open tasks into the free time between the workday's hours, most
+  // important first
+  const autoScheduleDay = async () => {
+    setIsScheduling(true);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/tasks/schedule/auto', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(workday)
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || `Request failed (${res.status})`);
+
+      const { scheduled, unscheduled }: { scheduled: TimeBlock[]; unscheduled: string[] } = body;
+      if (scheduled.length > 0) {
+        offerUndo(`Scheduled ${scheduled.length} task${scheduled.length === 1 ? '' : 's'} for today`, undoBatchFrom(res));
+      }
+      if (unscheduled.length > 0) {
+        const titles = unscheduled.map(id => tasks.find(task => task.id === id)?.title).filter(Boolean);
+        setNotice(`${unscheduled.length} task${unscheduled.length === 1 ? '' : 's'} didn't fit today${titles.length > 0 ? `: ${titles.join(', ')}` : ''}`);
+      } else if (scheduled.length === 0) {
+        setNotice('Nothing left to schedule today');
+      }
+
+      setCurrentDate(new Date());
+      loadTasks();
+      onTaskUpdate?.();
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : 'Failed to schedule day');
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
   const handleTaskClick = (task: TaskWithSubtasks) => {
     setSelectedTask(task);
     setIsEditModalOpen(true);
   };
 
-  const handleDragStart = (e: React.DragEvent, task: CalendarTask) => {
+  const handleDragStart = (e: React.DragEvent, task: CalendarTask, grabMinutes: number = 0) => {
     setDragState({
       isDragging: true,
       taskId: task.id,
-      startDate: task.displayDate
+      startDate: task.displayDate,
+      grabMinutes
     });
     
     e.dataTransfer.setData('text/plain', task.id);
     e.dataTransfer.effectAllowed = 'move';
   };
 
+  // Covers drops outside any target, which never reach a drop handler
+  const handleDragEnd = () => {
+    setDragState(prev => prev.isDragging ? { isDragging: false, taskId: null, startDate: null, grabMinutes: 0 } : prev);
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     e.dataTransfer.dropEffect = 'move';
@@ -235,67 +429,168 @@ export default function Calendar({ view, onTaskUpdate }: CalendarProps) {
     }
   };
 
-  const renderWeekView = () => {
-    const weekStart = startOfWeek(currentDate, { weekStartsOn: 1 });
-    const weekDays = eachDayOfInterval({
-      start: weekStart,
-      end: endOfWeek(currentDate, { weekStartsOn: 1 })
-    });
+  const renderBlock = (task: CalendarTask, day: Date, colliding: Set<string>, lane: { lane: number; lanes: number }) => {
+    const block = task.block as TimeBlock;
+    const dayStart = startOfDay(day);
+    const minutes = resize?.taskId === task.id
+      ? resize.minutes
+      : Math.round((block.end.getTime() - block.start.getTime()) / 60000);
+    const end = new Date(block.start.getTime() + minutes * 60000);
+    // Blocks running past midnight are cut at the edge of each day they cover
+    const top = block.start < dayStart ? 0 : minutesIntoDay(block.start);
+    const bottom = end >= addDays(dayStart, 1) ? DAY_MINUTES : minutesIntoDay(end);
+    const overlaps = colliding.has(task.id);
+    const scheduled = !!task.scheduled_start;
 
-  return (
-      <div className="grid grid-cols-8 gap-1">
-        {/* Header */}
-        <div className="p-2 font-medium text-gray-600 bg-gray-50 rounded">Time</div>
-        {weekDays.map(day => (
-          <div key={day.toISOString()} className="p-2 font-medium text-center bg-gray-50 rounded">
-            <div className="text-sm font-semibold">{format(day, 'EEE')}</div>
-            <div className={`text-lg ${isSameDay(day, new Date()) ? 'text-blue-600 font-bold' : 'text-gray-900'}`}>
-              {format(day, 'd')}
+    return (
+      <div
+        key={task.id}
+        draggable={!resize}
+        onDragStart={(e) => handleDragStart(e, task, (e.clientY - e.currentTarget.getBoundingClientRect().top) / HOUR_HEIGHT * 60)}
+        onDragEnd={handleDragEnd}
+        onClick={() => handleTaskClick(task)}
+        title={[
+          task.blocked ? 'Blocked: waiting on another task' : null,
+          overlaps ? 'Overlaps another task' : null,
+          scheduled ? null : 'Placed at its due time; drag to schedule it'
+        ].filter(Boolean).join('\n') || undefined}
+        style={{
+          top: top * HOUR_HEIGHT / 60,
+          height: Math.max(bottom - top, SNAP_MIN) * HOUR_HEIGHT / 60,
+          left: `${lane.lane / lane.lanes * 100}%`,
+          width: `${100 / lane.lanes}%`
+        }}
+        className={`group absolute overflow-hidden rounded px-1.5 py-0.5 text-xs cursor-pointer transition-shadow hover:shadow-md hover:z-10 border-l-4 ${
+          scheduled ? '' : 'border border-dashed'
+        } ${
+          isDone(task) ? 'bg-gray-50 border-gray-300 text-gray-400 line-through' :
+          task.blocked ? 'bg-gray-100 border-gray-400 text-gray-500' :
+          task.isOverdue ? 'bg-red-100 border-red-500' :
+          task.isDueToday ? 'bg-blue-100 border-blue-500' :
+          'bg-green-100 border-green-500'
+        } ${overlaps ? 'ring-2 ring-red-500 ring-inset' : ''}`}
+      >
+        <div className="font-medium truncate">{task.blocked && '🔒 '}{overlaps && '⚠ '}{task.title}</div>
+        <div className="text-gray-600 truncate">
+          {format(block.start, 'h:mma')}–{format(end, 'h:mma')}
+          {!scheduled && ' · due'}
         </div>
+        {scheduled && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              saveSchedule(task, null, null, `Took "${task.title}" off the calendar`);
+            }}
+            className="absolute top-0 right-1 hidden text-gray-500 hover:text-gray-800 group-hover:block"
+            aria-label={`Unschedule ${task.title}`}
+          >
+            ×
+          </button>
+        )}
+        <div
+          onPointerDown={(e) => startResize(e, task)}
+          onPointerMove={moveResize}
+          onPointerUp={endResize}
+          onPointerCancel={() => setResize(null)}
+          onClick={(e) => e.stopPropagation()}
+          className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize hover:bg-black/10"
+          aria-label={`Resize ${task.title}`}
+        />
       </div>
-        ))}
+    );
+  };
+
+  // The week and day views: an hour grid with tasks as blocks as long as they take, and
+  // all-day or untimed tasks in a strip above it
+  const renderTimeGrid = (days: Date[]) => {
+    const columns = { gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` };
+    const open = tasks.filter(task => task.block && !isDone(task));
+    // Only open tasks can clash; a finished one has stopped taking up time
+    const colliding = collidingIds(open.map(task => task.block as TimeBlock));
+
+    return (
+      <div>
+        {/* Header */}
+        <div className="grid gap-1 border-b" style={columns}>
+          <div className="p-2 font-medium text-gray-600 bg-gray-50 rounded">Time</div>
+          {days.map(day => (
+            <div key={day.toISOString()} className="p-2 font-medium text-center bg-gray-50 rounded">
+              <div className="text-sm font-semibold">{format(day, 'EEE')}</div>
+              <div className={`text-lg ${isSameDay(day, new Date()) ? 'text-blue-600 font-bold' : 'text-gray-900'}`}>
+                {format(day, 'd')}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* All day */}
+        <div className="grid gap-1 border-b" style={columns}>
+          <div className="p-2 text-xs text-gray-500 bg-gray-50">All day</div>
+          {days.map(day => (
+            <div key={day.toISOString()} className="p-1 space-y-1 min-h-[2rem]">
+              {tasks
+                .filter(task => !task.block && task.due_at && isSameDay(task.displayDate, day))
+                .map(task => (
+                  <div
+                    key={task.id}
+                    draggable
+                    onDragStart={(e) => handleDragStart(e, task)}
+                    onDragEnd={handleDragEnd}
+                    onClick={() => handleTaskClick(task)}
+                    title={task.blocked ? 'Blocked: waiting on another task' : 'Drag onto the grid to schedule it'}
+                    className={`p-1 rounded text-xs cursor-pointer truncate transition-all hover:shadow-md border-l-4 ${
+                      isDone(task) ? 'bg-gray-50 border-gray-300 text-gray-400 line-through' :
+                      task.blocked ? 'bg-gray-100 border-gray-400 text-gray-500' :
+                      task.isOverdue ? 'bg-red-100 border-red-500' :
+                      task.isDueToday ? 'bg-blue-100 border-blue-500' :
+                      'bg-green-100 border-green-500'
+                    }`}
+                  >
+                    {task.blocked && '🔒 '}{task.title}
+                    {task.estimate_min && task.estimate_min > 0 && (
+                      <span className="ml-1 text-gray-600">{task.estimate_min}m</span>
+                    )}
+                  </div>
+                ))}
+            </div>
+          ))}
+        </div>
 
         {/* Time slots */}
-        {Array.from({ length: 24 }, (_, hour) => (
-          <React.Fragment key={hour}>
-            <div className="p-2 text-xs text-gray-500 bg-gray-50 border-t">
-              {format(new Date(new Date().setHours(hour)), 'ha')}
+        <div ref={gridRef} className="max-h-[640px] overflow-y-auto">
+          <div className="grid gap-1" style={columns}>
+            <div>
+              {Array.from({ length: 24 }, (_, hour) => (
+                <div key={hour} style={{ height: HOUR_HEIGHT }} className="px-2 text-xs text-gray-500 bg-gray-50 border-t">
+                  {format(new Date(new Date().setHours(hour)), 'ha')}
+                </div>
+              ))}
             </div>
-            {weekDays.map(day => (
-              <div
-                key={`${day.toISOString()}-${hour}`}
-                className="min-h-[60px] p-1 border-t border-gray-100 relative"
-                onDragOver={handleDragOver}
-                onDrop={(e) => handleDrop(e, new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour))}
-              >
-                {tasks
-                  .filter(task => {
-                    const taskHour = task.displayDate.getHours();
-                    const taskDay = task.displayDate.getDate();
-                    return taskHour === hour && taskDay === day.getDate();
-                  })
-                  .map(task => (
-                    <div
-                      key={task.id}
-                      draggable
-                      onDragStart={(e) => handleDragStart(e, task)}
-                      onClick={() => handleTaskClick(task)}
-                      className={`p-2 mb-1 rounded text-xs cursor-pointer transition-all hover:shadow-md ${
-                        task.isOverdue ? 'bg-red-100 border-l-4 border-red-500' :
-                        task.isDueToday ? 'bg-blue-100 border-l-4 border-blue-500' :
-                        'bg-green-100 border-l-4 border-green-500'
-                      }`}
-                    >
-                      <div className="font-medium truncate">{task.title}</div>
-                      {task.estimate_min && task.estimate_min > 0 && (
-                        <div className="text-gray-600">{task.estimate_min}m</div>
-                      )}
-                    </div>
+            {days.map(day => {
+              const dayStart = startOfDay(day);
+              const dayEnd = addDays(dayStart, 1);
+              const dayTasks = tasks.filter(task => task.block && task.block.start < dayEnd && task.block.end > dayStart);
+              const lanes = layoutBlocks(dayTasks.map(task => task.block as TimeBlock));
+
+              return (
+                <div
+                  key={day.toISOString()}
+                  className="relative"
+                  style={{ height: 24 * HOUR_HEIGHT }}
+                  onDragOver={handleDragOver}
+                  onDrop={(e) => handleGridDrop(e, day)}
+                >
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <div key={hour} style={{ height: HOUR_HEIGHT }} className="border-t border-gray-100" />
                   ))}
-              </div>
-            ))}
-          </React.Fragment>
-        ))}
+                  {dayTasks.map(task =>
+                    renderBlock(task, day, colliding, lanes.get(task.id) ?? { lane: 0, lanes: 1 })
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
       </div>
     );
   };
@@ -320,8 +615,8 @@ export default function Calendar({ view, onTaskUpdate }: CalendarProps) {
         {weeks.map((week, weekIndex) => (
           <div key={weekIndex} className="grid grid-cols-7 gap-1">
             {eachDayOfInterval({ start: week, end: addDays(week, 6) }).map(day => {
-              const dayTasks = tasks.filter(task => 
-                task.displayDate && isSameDay(new Date(task.displayDate), day)
+              const dayTasks = tasks.filter(task =>
+                task.due_at && isSameDay(task.displayDate, day)
               );
               const isCurrentMonth = isSameMonth(day, currentDate);
               const isToday = isSameDay(day, new Date());
@@ -349,13 +644,15 @@ export default function Calendar({ view, onTaskUpdate }: CalendarProps) {
                         draggable
                         onDragStart={(e) => handleDragStart(e, task)}
                         onClick={() => handleTaskClick(task)}
+                        title={task.blocked ? 'Blocked: waiting on another task' : undefined}
                         className={`p-2 rounded text-xs cursor-pointer transition-all hover:shadow-md ${
+                          task.blocked ? 'bg-gray-100 border-l-2 border-gray-400 text-gray-500' :
                           task.isOverdue ? 'bg-red-100 border-l-2 border-red-500' :
                           task.isDueToday ? 'bg-blue-100 border-l-2 border-blue-500' :
                           'bg-green-100 border-l-2 border-green-500'
                         }`}
                       >
-                        <div className="font-medium truncate">{task.title}</div>
+                        <div className="font-medium truncate">{task.blocked && '🔒 '}{task.title}</div>
                         {task.estimate_min && task.estimate_min > 0 && (
                           <div className="text-gray-600">{task.estimate_min}m</div>
                         )}
@@ -400,7 +697,9 @@ export default function Calendar({ view, onTaskUpdate }: CalendarProps) {
           </button>
           
           <h2 className="text-2xl font-bold text-gray-900">
-            {view === 'week' 
+            {view === 'day'
+              ? format(currentDate, 'EEE MMM d')
+              : view === 'week'
               ? `Week of ${format(startOfWeek(currentDate, { weekStartsOn: 1 }), 'MMM d, yyyy')}`
               : format(currentDate, 'MMMM yyyy')
             }
@@ -417,6 +716,33 @@ export default function Calendar({ view, onTaskUpdate }: CalendarProps) {
         </div>
 
         <div className="flex items-center gap-2">
+          {view !== 'month' && (
+            <>
+              <input
+                type="time"
+                value={workday.from}
+                onChange={e => setWorkday({ ...workday, from: e.target.value })}
+                className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg"
+                aria-label="Workday starts"
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="time"
+                value={workday.to}
+                onChange={e => setWorkday({ ...workday, to: e.target.value })}
+                className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg"
+                aria-label="Workday ends"
+              />
+              <button
+                onClick={autoScheduleDay}
+                disabled={isScheduling || !workday.from || !workday.to || workday.from >= workday.to}
+                title="Fit today's unscheduled tasks into the free time between these hours, highest priority first"
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+              >
+                {isScheduling ? 'Scheduling...' : 'Auto-schedule my day'}
+              </button>
+            </>
+          )}
           <button
             onClick={() => setCurrentDate(new Date())}
             className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
@@ -426,9 +752,23 @@ export default function Calendar({ view, onTaskUpdate }: CalendarProps) {
         </div>
       </div>
 
+      {notice && (
+        <p role="status" className="text-sm text-gray-600">
+          {notice}
+          <button onClick={() => setNotice(null)} className="ml-2 text-gray-400 hover:text-gray-600" aria-label="Dismiss">×</button>
+        </p>
+      )}
+
       {/* Calendar Grid */}
       <div className="bg-white rounded-lg shadow overflow-hidden">
-        {view === 'week' ? renderWeekView() : renderMonthView()}
+        {view === 'day'
+          ? renderTimeGrid([startOfDay(currentDate)])
+          : view === 'week'
+          ? renderTimeGrid(eachDayOfInterval({
+              start: startOfWeek(currentDate, { weekStartsOn: 1 }),
+              end: endOfWeek(currentDate, { weekStartsOn: 1 })
+            }))
+          : renderMonthView()}
       </div>
 
       {/* Task Edit Modal */}
@@ -449,7 +789,7 @@ export default function Calendar({ view, onTaskUpdate }: CalendarProps) {
       {dragState.isDragging && (
         <div className="fixed inset-0 pointer-events-none z-50">
           <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-blue-600 text-white px-4 py-2 rounded-lg shadow-lg">
-            Drop task to reschedule
+            {view === 'month' ? 'Drop task to reschedule' : 'Drop task to schedule it'}
           </div>
         </div>
       )}
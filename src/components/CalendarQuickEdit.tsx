@@ -2,6 +2,8 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { useAccessibility } from './AccessibilityProvider';
+import { EditScopePicker } from './EditScopePicker';
+import type { EditScope } from '@/lib/taskSeries';
 
 type Task = {
   id: string;
@@ -10,11 +12,12 @@ type Task = {
   tags: string[];
   due_at?: string;
   estimate_min?: number;
+  recurrence_rule?: string | null;
 };
 
 type Props = {
   task: Task;
-  onSave: (taskId: string, updates: Partial<Task>) => Promise<void>;
+  onSave: (taskId: string, updates: Partial<Task>, scope?: EditScope) => Promise<void>;
   onClose: () => void;
   position: { x: number; y: number };
 };
@@ -26,6 +29,7 @@ export function CalendarQuickEdit({ task, onSave, onClose, position }: Props) {
   const [estimate, setEstimate] = useState(task.estimate_min?.toString() || '');
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [scope, setScope] = useState<EditScope>('this');
   
   const containerRef = useRef<HTMLDivElement>(null);
   const titleInputRef = useRef<HTMLInputElement>(null);
@@ -64,7 +68,7 @@ export function CalendarQuickEdit({ task, onSave, onClose, position }: Props) {
         estimate_min: estimate ? parseInt(estimate) : undefined
       };
 
-      await onSave(task.id, updates);
+      await onSave(task.id, updates, task.recurrence_rule ? scope : undefined);
       announceToScreenReader('Task updated successfully');
       onClose();
     } catch (error) {
@@ -186,6 +190,11 @@ export function CalendarQuickEdit({ task, onSave, onClose, position }: Props) {
           />
         </div>
 
+        {/* Recurring tasks: which occurrences to change */}
+        {task.recurrence_rule && (
+          <EditScopePicker value={scope} onChange={setScope} name={`quick-edit-scope-${task.id}`} />
+        )}
+
         {/* Current Tags Display */}
         {task.tags.length > 0 && (
           <div>
@@ -0,0 +1,207 @@
+"use client";
+
+import { useState } from 'react';
+import { Markdown } from './Markdown';
+
+export type CommentView = {
+  id: string;
+  parentId: string | null;
+  author_name: string;
+  byOwner: boolean;
+  mine: boolean;
+  body: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  created_at: string;
+  replies: CommentView[];
+};
+
+// Replies past this depth line up with their parent instead of indenting further
+const MAX_INDENT = 3;
+
+type ComposerProps = {
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+  initialBody?: string;
+  submitLabel?: string;
+  placeholder?: string;
+  disabled?: boolean;
+};
+
+// Markdown textarea with a preview tab
+export function CommentComposer({
+  onSubmit,
+  onCancel,
+  initialBody = '',
+  submitLabel = 'Comment',
+  placeholder = 'Write a comment... Markdown and @mentions work',
+  disabled = false
+}: ComposerProps) {
+  const [body, setBody] = useState(initialBody);
+  const [preview, setPreview] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit() {
+    if (!body.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onSubmit(body);
+      setBody('');
+      setPreview(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save comment');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-3 text-xs" role="tablist">
+        <button type="button" role="tab" aria-selected={!preview} onClick={() => setPreview(false)} className={preview ? 'text-gray-500' : 'font-semibold'}>
+          Write
+        </button>
+        <button type="button" role="tab" aria-selected={preview} onClick={() => setPreview(true)} className={preview ? 'font-semibold' : 'text-gray-500'}>
+          Preview
+        </button>
+      </div>
+      {preview ? (
+        <div className="min-h-[4rem] rounded-lg border border-gray-200 p-2 text-sm">
+          {body.trim() ? <Markdown source={body} /> : <p className="text-gray-400">Nothing to preview</p>}
+        </div>
+      ) : (
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              submit();
+            }
+          }}
+          rows={3}
+          placeholder={placeholder}
+          aria-label={placeholder}
+          className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      )}
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={submit}
+          disabled={busy || disabled || !body.trim()}
+          className="px-3 py-1 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {busy ? 'Saving...' : submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+type ThreadProps = {
+  comments: CommentView[];
+  onReply?: (parentId: string, body: string) => Promise<void>;
+  onEdit?: (commentId: string, body: string) => Promise<void>;
+  // Left out where the viewer can't delete; otherwise called for comments they may delete
+  onDelete?: (commentId: string) => Promise<void>;
+  canDelete?: (comment: CommentView) => boolean;
+  depth?: number;
+};
+
+export function CommentThread({ comments, onReply, onEdit, onDelete, canDelete = comment => comment.mine, depth = 0 }: ThreadProps) {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+
+  return (
+    <ul className="space-y-3">
+      {comments.map(comment => (
+        <li key={comment.id} className="text-sm">
+          <div className="rounded-lg border border-gray-200 p-3">
+            {comment.deleted_at ? (
+              <p className="italic text-gray-400">Comment deleted</p>
+            ) : (
+              <>
+                <div className="mb-1 flex items-center gap-2 text-xs text-gray-500">
+                  <span className="font-medium text-gray-800">{comment.author_name}</span>
+                  {comment.byOwner && <span className="rounded bg-gray-100 px-1">Owner</span>}
+                  <time dateTime={comment.created_at}>{new Date(comment.created_at).toLocaleString()}</time>
+                  {comment.edited_at && <span>(edited)</span>}
+                </div>
+                {editing === comment.id && onEdit ? (
+                  <CommentComposer
+                    initialBody={comment.body}
+                    submitLabel="Save"
+                    onSubmit={async body => {
+                      await onEdit(comment.id, body);
+                      setEditing(null);
+                    }}
+                    onCancel={() => setEditing(null)}
+                  />
+                ) : (
+                  <Markdown source={comment.body} />
+                )}
+                <div className="mt-2 flex gap-3 text-xs">
+                  {onReply && (
+                    <button type="button" onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)} className="text-blue-600 hover:text-blue-800">
+                      Reply
+                    </button>
+                  )}
+                  {onEdit && comment.mine && editing !== comment.id && (
+                    <button type="button" onClick={() => setEditing(comment.id)} className="text-gray-600 hover:text-gray-800">
+                      Edit
+                    </button>
+                  )}
+                  {onDelete && canDelete(comment) && (
+                    <button
+                      type="button"
+                      onClick={() => confirm('Delete this comment?') && onDelete(comment.id)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+
+          {replyingTo === comment.id && onReply && (
+            <div className="mt-2 ml-4">
+              <CommentComposer
+                submitLabel="Reply"
+                placeholder={`Reply to ${comment.author_name}...`}
+                onSubmit={async body => {
+                  await onReply(comment.id, body);
+                  setReplyingTo(null);
+                }}
+                onCancel={() => setReplyingTo(null)}
+              />
+            </div>
+          )}
+
+          {comment.replies.length > 0 && (
+            <div className={`mt-2 ${depth < MAX_INDENT ? 'ml-4 border-l border-gray-200 pl-3' : ''}`}>
+              <CommentThread
+                comments={comment.replies}
+                onReply={onReply}
+                onEdit={onEdit}
+                onDelete={onDelete}
+                canDelete={canDelete}
+                depth={depth + 1}
+              />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+
+type DependencyTask = { id: string; title: string; status: string };
+
+const isDone = (task: DependencyTask) => task.status === 'completed' || task.status === 'done';
+
+// "Blocked by" and "Blocking" lists for one task, with a picker to add blockers
+export function DependenciesPanel({ taskId }: { taskId: string }) {
+  const [blockers, setBlockers] = useState<DependencyTask[]>([]);
+  const [dependants, setDependants] = useState<DependencyTask[]>([]);
+  const [candidates, setCandidates] = useState<DependencyTask[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const [dependenciesRes, tasksRes] = await Promise.all([
+      fetch(`/api/dependencies?taskId=${taskId}`),
+      fetch('/api/tasks?parentTaskId=null&status=todo,in_progress')
+    ]);
+    if (dependenciesRes.ok) {
+      const data = await dependenciesRes.json();
+      setBlockers(data.blockers);
+      setDependants(data.dependants);
+    }
+    if (tasksRes.ok) setCandidates(await tasksRes.json());
+  }, [taskId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function addBlocker(blockerId: string) {
+    if (!blockerId) return;
+    setError(null);
+    const res = await fetch('/api/dependencies', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ blockerId, blockedId: taskId })
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      setError(data.error || 'Failed to add dependency');
+    }
+    await load();
+  }
+
+  async function removeBlocker(blockerId: string) {
+    await fetch(`/api/dependencies?blockerId=${blockerId}&blockedId=${taskId}`, { method: 'DELETE' });
+    await load();
+  }
+
+  const options = candidates.filter(task => task.id !== taskId && !blockers.some(blocker => blocker.id === task.id));
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-medium text-gray-900">Dependencies</h3>
+
+      <div>
+        <div className="text-sm font-medium text-gray-700 mb-1">Blocked by</div>
+        {blockers.length === 0 && <p className="text-sm text-gray-500">Nothing; this task can start any time.</p>}
+        <ul className="space-y-1 text-sm">
+          {blockers.map(blocker => (
+            <li key={blocker.id} className="flex items-center gap-2">
+              <span className={isDone(blocker) ? 'line-through text-gray-400' : ''}>{blocker.title}</span>
+              <button
+                type="button"
+                onClick={() => removeBlocker(blocker.id)}
+                className="text-red-600 hover:text-red-800"
+                aria-label={`Remove ${blocker.title} as a blocker`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+        <select
+          value=""
+          onChange={(e) => addBlocker(e.target.value)}
+          className="mt-2 w-full p-2 border border-gray-300 rounded-lg text-sm"
+          aria-label="Add a blocking task"
+        >
+          <option value="">Add a task this one waits on...</option>
+          {options.map(task => (
+            <option key={task.id} value={task.id}>{task.title}</option>
+          ))}
+        </select>
+        {error && <p role="alert" className="mt-1 text-sm text-red-600">{error}</p>}
+      </div>
+
+      {dependants.length > 0 && (
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-1">Blocking</div>
+          <ul className="space-y-1 text-sm text-gray-600">
+            {dependants.map(dependant => <li key={dependant.id}>{dependant.title}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import type { EditScope } from '@/lib/taskSeries';
+
+const OPTIONS: { value: EditScope; label: string }[] = [
+  { value: 'this', label: 'Only this occurrence' },
+  { value: 'following', label: 'This and following' },
+  { value: 'all', label: 'All occurrences' }
+];
+
+type Props = {
+  value: EditScope;
+  onChange: (scope: EditScope) => void;
+  // Rule changes can't apply to a single occurrence
+  disableThis?: boolean;
+  name?: string;
+};
+
+export function EditScopePicker({ value, onChange, disableThis = false, name = 'edit-scope' }: Props) {
+  return (
+    <fieldset className="space-y-1">
+      <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        Apply changes to
+      </legend>
+      {OPTIONS.map(option => {
+        const disabled = option.value === 'this' && disableThis;
+        return (
+          <label key={option.value} className={`flex items-center gap-2 text-sm ${disabled ? 'opacity-50' : ''}`}>
+            <input
+              type="radio"
+              name={name}
+              value={option.value}
+              checked={value === option.value}
+              disabled={disabled}
+              onChange={() => onChange(option.value)}
+              className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+            />
+            {option.label}
+          </label>
+        );
+      })}
+    </fieldset>
+  );
+}
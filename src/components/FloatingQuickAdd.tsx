@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from 'react';
-import { QuickAdd } from './QuickAdd';
+import QuickAdd from './QuickAdd';
 
 export function FloatingQuickAdd({ userId, onAdded }: { userId: string; onAdded?: () => void }) {
   const [open, setOpen] = useState(false);
@@ -12,7 +12,7 @@ export function FloatingQuickAdd({ userId, onAdded }: { userId: string; onAdded?
       )}
       {open && (
         <div className="fixed bottom-20 right-6 z-50 w-[480px] max-w-[calc(100%-2rem)] rounded-lg bg-white p-3 shadow-xl dark:bg-gray-900">
-          <QuickAdd userId={userId} onAdded={()=>{ onAdded?.(); setOpen(false); }} />
+          <QuickAdd onTaskCreated={()=>{ onAdded?.(); setOpen(false); }} />
         </div>
       )}
       <button aria-label="Quick Add" className="fixed bottom-6 right-6 z-50 rounded-full bg-brand-500 p-4 text-white shadow-lg" onClick={()=>setOpen(true)}>
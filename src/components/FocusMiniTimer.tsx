@@ -6,6 +6,7 @@ import { playFocusSound, stopFocusSound, getCurrentFocusSound, getAvailableFocus
 import { startAntiDistraction, stopAntiDistraction } from '@/lib/antiDistraction';
 import { startIntegrityGuard, stopIntegrityGuard, checkSessionIntegrity } from '@/lib/integrityGuards';
 import { getCurrentFocusPreset, getFocusPresets } from '@/lib/focusPresets';
+import { useFeatureFlag } from '@/lib/useFeatureFlag';
 
 type Props = {
   userId: string;
@@ -24,6 +25,7 @@ export function FocusMiniTimer({ userId }: Props) {
   const [position, setPosition] = useState({ x: 24, y: 24 });
   
   const dragRef = useRef<HTMLDivElement>(null);
+  const miniTimerEnabled = useFeatureFlag('focus_mini_timer', true);
 
   useEffect(() => {
     const focusTimer = new FocusTimer(
@@ -44,7 +46,6 @@ export function FocusMiniTimer({ userId }: Props) {
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify({ 
                 session, 
-                userId,
                 sessionId: session.id,
                 focusMinutes: session.totalFocusMinutes,
                 sessionHash: session.sessionHash,
@@ -116,7 +117,7 @@ export function FocusMiniTimer({ userId }: Props) {
   useEffect(() => {
     if (session?.taskId) {
       // Fetch task title
-      fetch(`/api/tasks?userId=${userId}&id=${session.taskId}`)
+      fetch(`/api/tasks?id=${session.taskId}`)
         .then(res => res.json())
         .then(tasks => {
           if (tasks.length > 0) {
@@ -255,6 +256,8 @@ export function FocusMiniTimer({ userId }: Props) {
 
   const availableSounds = getAvailableFocusSounds();
 
+  if (!miniTimerEnabled) return null;
+
   return (
     <div 
       ref={dragRef}
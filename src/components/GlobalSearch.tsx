@@ -1,186 +1,166 @@
 "use client";
 
-import { useState, useEffect, useRef } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useAccessibility } from './AccessibilityProvider';
+import { splitHighlights } from '@/lib/searchQuery';
+import { deleteSavedSearch, saveSearch, searchHref, useSavedSearches } from '@/lib/useSavedSearches';
 
-type SearchFilters = {
-  query: string;
-  status: string[];
-  priority: string[];
-  tags: string[];
-  dueDate: string;
-  estimateRange: string;
+type SearchResult = {
+  task: {
+    id: string;
+    title: string;
+    status: string;
+    priority: string;
+    due_at: string | null;
+    all_day: boolean;
+    tags_json: string;
+  };
+  title: string;
+  snippet: string | null;
 };
 
 type Props = {
-  onFiltersChange: (filters: SearchFilters) => void;
+  initialQuery?: string;
   className?: string;
 };
 
-export function GlobalSearch({ onFiltersChange, className = '' }: Props) {
-  const [isExpanded, setIsExpanded] = useState(false);
-  const [filters, setFilters] = useState<SearchFilters>({
-    query: '',
-    status: [],
-    priority: [],
-    tags: [],
-    dueDate: '',
-    estimateRange: ''
-  });
-  
-  const searchRef = useRef<HTMLInputElement>(null);
+const EXAMPLES = ['tag:work', 'priority:high', 'due:<friday', 'is:overdue', '"exact phrase"', '-excluded'];
+
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((part, index) => part.match
+        ? <mark key={index} className="rounded bg-yellow-200 px-0.5 dark:bg-yellow-700 dark:text-white">{part.text}</mark>
+        : <span key={index}>{part.text}</span>
+      )}
+    </>
+  );
+}
+
+// Search box for the task query language, with ranked, highlighted results and saving
+// the query as a sidebar smart list
+export function GlobalSearch({ initialQuery = '', className = '' }: Props) {
+  const [input, setInput] = useState(initialQuery);
+  const [query, setQuery] = useState(initialQuery);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { savedSearches } = useSavedSearches();
   const { announceToScreenReader } = useAccessibility();
 
-  useEffect(() => {
-    onFiltersChange(filters);
-  }, [filters, onFiltersChange]);
+  const saved = savedSearches.find(search => search.query === query);
 
-  const handleSearch = (query: string) => {
-    setFilters(prev => ({ ...prev, query }));
-    announceToScreenReader(`Searching for: ${query}`);
-  };
+  const run = useCallback(async (q: string) => {
+    if (!q.trim()) {
+      setResults([]);
+      setError(null);
+      return;
+    }
 
-  const toggleFilter = (type: keyof SearchFilters, value: string) => {
-    setFilters(prev => {
-      const currentValues = prev[type] as string[];
-      if (currentValues.includes(value)) {
-        return { ...prev, [type]: currentValues.filter(v => v !== value) };
-      } else {
-        return { ...prev, [type]: [...currentValues, value] };
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/search?q=${encodeURIComponent(q)}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setResults([]);
+        setError(data.error || 'Search failed');
+        return;
       }
-    });
-  };
+      setError(null);
+      setResults(data.results);
+      announceToScreenReader(`${data.results.length} result${data.results.length === 1 ? '' : 's'} for ${q}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [announceToScreenReader]);
 
-  const clearAllFilters = () => {
-    setFilters({
-      query: '',
-      status: [],
-      priority: [],
-      tags: [],
-      dueDate: '',
-      estimateRange: ''
-    });
-    announceToScreenReader('All filters cleared');
-  };
+  useEffect(() => {
+    run(query);
+  }, [query, run]);
 
-  const hasActiveFilters = Object.values(filters).some(value => 
-    Array.isArray(value) ? value.length > 0 : Boolean(value)
-  );
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    const q = input.trim();
+    setQuery(q);
+    window.history.replaceState(null, '', q ? searchHref(q) : '/search');
+  }
+
+  async function toggleSaved() {
+    if (saved) {
+      await deleteSavedSearch(saved.id);
+      announceToScreenReader(`Removed ${saved.name} from smart lists`);
+      return;
+    }
+
+    const name = prompt('Name this smart list', query);
+    if (!name?.trim()) return;
+    try {
+      await saveSearch(null, { name: name.trim(), query });
+      announceToScreenReader(`Saved ${name.trim()} as a smart list`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save search');
+    }
+  }
 
   return (
-    <div className={`relative ${className}`}>
-      {/* Search Bar */}
-      <div className="relative">
+    <div className={`space-y-4 ${className}`}>
+      <form onSubmit={submit} className="flex gap-2" role="search">
         <input
-          ref={searchRef}
-          type="text"
-          value={filters.query}
-          onChange={e => handleSearch(e.target.value)}
-          placeholder="Search tasks, descriptions, tags..."
-          className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 dark:bg-gray-700 dark:text-white"
+          type="search"
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder='Search tasks, e.g. tag:work due:<friday "status report"'
+          className="flex-1 rounded-lg border border-gray-300 px-4 py-2 focus:outline-none focus:ring-2 focus:ring-brand-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+          aria-label="Search tasks"
+          aria-describedby="search-syntax"
         />
-        <svg className="absolute left-3 top-2.5 w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-        </svg>
-        
-        <button
-          onClick={() => setIsExpanded(!isExpanded)}
-          className="absolute right-2 top-2 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-          aria-label={isExpanded ? 'Hide filters' : 'Show filters'}
-        >
-          <svg className={`w-5 h-5 transition-transform ${isExpanded ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-          </svg>
+        <button type="submit" className="rounded-lg bg-brand-500 px-4 py-2 text-white hover:bg-brand-600">
+          Search
         </button>
-      </div>
-
-      {/* Advanced Filters */}
-      {isExpanded && (
-        <div className="absolute top-full left-0 right-0 mt-2 p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-10">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            {/* Status Filter */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Status
-              </label>
-              <div className="space-y-2">
-                {['todo', 'in_progress', 'done'].map(status => (
-                  <label key={status} className="flex items-center">
-                    <input
-                      type="checkbox"
-                      checked={filters.status.includes(status)}
-                      onChange={() => toggleFilter('status', status)}
-                      className="rounded border-gray-300 text-brand-600 focus:ring-brand-500"
-                    />
-                    <span className="ml-2 text-sm text-gray-700 dark:text-gray-300 capitalize">
-                      {status.replace('_', ' ')}
-                    </span>
-                  </label>
-                ))}
-              </div>
-            </div>
+        {query && !error && (
+          <button
+            type="button"
+            onClick={toggleSaved}
+            className="rounded-lg border border-gray-300 px-4 py-2 text-sm dark:border-gray-600"
+          >
+            {saved ? 'Remove smart list' : 'Save as smart list'}
+          </button>
+        )}
+      </form>
 
-            {/* Priority Filter */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Priority
-              </label>
-              <div className="space-y-2">
-                {['low', 'medium', 'high'].map(priority => (
-                  <label key={priority} className="flex items-center">
-                    <input
-                      type="checkbox"
-                      checked={filters.priority.includes(priority)}
-                      onChange={() => toggleFilter('priority', priority)}
-                      className="rounded border-gray-300 text-brand-600 focus:ring-brand-500"
-                    />
-                    <span className="ml-2 text-sm text-gray-700 dark:text-gray-300 capitalize">
-                      {priority}
-                    </span>
-                  </label>
-                ))}
-              </div>
-            </div>
+      <p id="search-syntax" className="text-xs text-gray-500">
+        Filters: {EXAMPLES.map(example => <code key={example} className="mr-2">{example}</code>)}
+        <span>Also status:, project: and is:open, completed, blocked or recurring.</span>
+      </p>
 
-            {/* Due Date Filter */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Due Date
-              </label>
-              <select
-                value={filters.dueDate}
-                onChange={e => setFilters(prev => ({ ...prev, dueDate: e.target.value }))}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500 dark:bg-gray-700 dark:text-white"
-              >
-                <option value="">Any time</option>
-                <option value="today">Today</option>
-                <option value="overdue">Overdue</option>
-                <option value="upcoming">Upcoming</option>
-                <option value="this_week">This week</option>
-                <option value="this_month">This month</option>
-              </select>
-            </div>
-          </div>
-
-          {/* Action Buttons */}
-          <div className="flex justify-between items-center mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
-            <button
-              onClick={clearAllFilters}
-              className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
-            >
-              Clear all filters
-            </button>
-            
-            <div className="text-sm text-gray-500 dark:text-gray-400">
-              {hasActiveFilters && (
-                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-brand-100 text-brand-800 dark:bg-brand-900 dark:text-brand-200">
-                  Filters active
-                </span>
-              )}
-            </div>
-          </div>
-        </div>
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+
+      {query && !error && !loading && results.length === 0 && (
+        <p className="text-sm text-gray-500">No tasks match.</p>
       )}
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-800" aria-busy={loading}>
+        {results.map(({ task, title, snippet }) => (
+          <li key={task.id} className="py-3 text-sm">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className={`font-medium ${task.status === 'completed' || task.status === 'done' ? 'text-gray-400 line-through' : ''}`}>
+                  <Highlighted text={title} />
+                </div>
+                {snippet && (
+                  <div className="mt-1 text-gray-600 dark:text-gray-400">
+                    <Highlighted text={snippet} />
+                  </div>
+                )}
+                <div className="mt-1 text-xs text-gray-500">
+                  {task.due_at ? new Date(task.due_at).toLocaleString() : 'No due date'}
+                </div>
+              </div>
+              <span className="shrink-0 text-xs uppercase text-gray-500">{task.priority}</span>
+            </div>
+          </li>
+        ))}
+      </ul>
     </div>
   );
 }
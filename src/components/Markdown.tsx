@@ -0,0 +1,95 @@
+"use client";
+
+import { Fragment, type ReactNode } from 'react';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/markdown';
+
+function renderInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'strike':
+        return <s key={index}>{renderInline(node.children)}</s>;
+      case 'code':
+        return <code key={index} className="rounded bg-gray-100 px-1 font-mono text-[0.9em] dark:bg-gray-800">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-blue-600 underline hover:text-blue-800">
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'mention':
+        return <span key={index} className="rounded bg-blue-50 px-0.5 font-medium text-blue-700">@{node.handle}</span>;
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+}
+
+// Makes checklist items interactive; without these they render as read-only checkboxes
+export type ChecklistHandlers = {
+  onToggle?: (line: number) => void;
+  onPromote?: (line: number) => void;
+};
+
+function renderBlocks(blocks: MarkdownBlock[], handlers: ChecklistHandlers): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'heading': {
+        const Heading = `h${block.level + 2}` as 'h3' | 'h4' | 'h5';
+        return <Heading key={index} className="font-semibold">{renderInline(block.children)}</Heading>;
+      }
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List key={index} className={block.ordered ? 'list-decimal pl-5' : 'list-disc pl-5'}>
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex} className={item.checked === null ? undefined : 'group list-none -ml-5 flex items-start gap-2'}>
+                {item.checked !== null && (
+                  <input
+                    type="checkbox"
+                    checked={item.checked}
+                    onChange={() => handlers.onToggle?.(item.line)}
+                    readOnly={!handlers.onToggle}
+                    disabled={!handlers.onToggle}
+                    className="mt-1"
+                  />
+                )}
+                <span>{renderInline(item.children)}</span>
+                {item.checked !== null && handlers.onPromote && (
+                  <button
+                    type="button"
+                    onClick={() => handlers.onPromote?.(item.line)}
+                    className="ml-auto shrink-0 text-xs text-blue-600 opacity-0 hover:text-blue-800 focus:opacity-100 group-hover:opacity-100"
+                  >
+                    Make subtask
+                  </button>
+                )}
+              </li>
+            ))}
+          </List>
+        );
+      }
+      case 'code':
+        return <pre key={index} className="overflow-x-auto rounded bg-gray-100 p-2 font-mono text-xs dark:bg-gray-800">{block.text}</pre>;
+      case 'quote':
+        return <blockquote key={index} className="border-l-4 border-gray-200 pl-3 text-gray-600">{renderBlocks(block.children, handlers)}</blockquote>;
+    }
+  });
+}
+
+type Props = ChecklistHandlers & {
+  source: string;
+  className?: string;
+};
+
+// Renders markdown from `src/lib/markdown.ts`; user text only ever becomes React text nodes
+export function Markdown({ source, className = '', onToggle, onPromote }: Props) {
+  return <div className={`space-y-2 break-words ${className}`}>{renderBlocks(parseMarkdown(source), { onToggle, onPromote })}</div>;
+}
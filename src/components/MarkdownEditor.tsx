@@ -0,0 +1,126 @@
+"use client";
+
+import { useRef, useState } from 'react';
+import { Markdown, type ChecklistHandlers } from './Markdown';
+
+type Mode = 'write' | 'split' | 'preview';
+
+const MODES: Array<{ value: Mode; label: string }> = [
+  { value: 'write', label: 'Write' },
+  { value: 'split', label: 'Split' },
+  { value: 'preview', label: 'Preview' }
+];
+
+const titles = new Map<string, string | null>();
+
+async function fetchLinkTitle(url: string): Promise<string | null> {
+  if (titles.has(url)) return titles.get(url) ?? null;
+  const res = await fetch(`/api/links/title?url=${encodeURIComponent(url)}`);
+  const title: string | null = res.ok ? (await res.json()).title : null;
+  titles.set(url, title);
+  return title;
+}
+
+type Props = ChecklistHandlers & {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  rows?: number;
+  placeholder?: string;
+  className?: string;
+};
+
+// Markdown textarea with write, side-by-side and preview modes. A link pasted on its own
+// is looked up and rewritten as [Page title](url) once the title arrives.
+export function MarkdownEditor({
+  id,
+  value,
+  onChange,
+  rows = 4,
+  placeholder = 'Markdown works: **bold**, lists, - [ ] checklists, links',
+  className = '',
+  onToggle,
+  onPromote
+}: Props) {
+  const [mode, setMode] = useState<Mode>('write');
+  const [titling, setTitling] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // The latest value, for the title lookup that finishes after later edits
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  async function handlePaste(e: React.ClipboardEvent<HTMLTextAreaElement>) {
+    const url = e.clipboardData.getData('text/plain').trim();
+    const { selectionStart: start, selectionEnd: end } = e.currentTarget;
+    // Leave links being pasted into markdown link syntax alone
+    if (!/^https?:\/\/\S+$/i.test(url) || /\]\($|\($/.test(value.slice(0, start))) return;
+
+    e.preventDefault();
+    const pasted = value.slice(0, start) + url + value.slice(end);
+    onChange(pasted);
+    requestAnimationFrame(() => textareaRef.current?.setSelectionRange(start + url.length, start + url.length));
+
+    setTitling(true);
+    try {
+      const title = await fetchLinkTitle(url);
+      const current = valueRef.current;
+      // Only when the link is still where it was pasted
+      if (!title || current.slice(start, start + url.length) !== url) return;
+
+      const link = `[${title.replace(/\[/g, '(').replace(/\]/g, ')')}](${url})`;
+      onChange(current.slice(0, start) + link + current.slice(start + url.length));
+    } catch {
+      // The bare link stays
+    } finally {
+      setTitling(false);
+    }
+  }
+
+  const editor = (
+    <textarea
+      ref={textareaRef}
+      id={id}
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      onPaste={handlePaste}
+      rows={rows}
+      placeholder={placeholder}
+      className={`w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500 dark:bg-gray-700 dark:text-white ${className}`}
+    />
+  );
+  const preview = (
+    <div className="min-h-[6rem] rounded-md border border-gray-200 dark:border-gray-600 p-3 text-sm">
+      {value.trim()
+        ? <Markdown source={value} onToggle={onToggle} onPromote={onPromote} />
+        : <p className="text-gray-400">Nothing to preview</p>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3 text-xs" role="tablist" aria-label="Description view">
+        {MODES.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            role="tab"
+            aria-selected={mode === option.value}
+            onClick={() => setMode(option.value)}
+            className={mode === option.value ? 'font-semibold' : 'text-gray-500'}
+          >
+            {option.label}
+          </button>
+        ))}
+        {titling && <span className="ml-auto text-gray-400" role="status">Fetching link title...</span>}
+      </div>
+      {mode === 'write' && editor}
+      {mode === 'preview' && preview}
+      {mode === 'split' && (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          {editor}
+          {preview}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,8 +2,19 @@
 
 import { useEffect, useMemo, useState } from 'react';
 import { CalendarQuickEdit } from './CalendarQuickEdit';
+import type { EditScope } from '@/lib/taskSeries';
+import { displayDue, localAllDayDate } from '@/lib/timezone';
 
-type Task = { id: string; title: string; due_at: string | null };
+type Task = {
+  id: string;
+  title: string;
+  due_at: string | null;
+  all_day?: boolean;
+  priority: string;
+  tags_json: string;
+  estimate_min?: number;
+  recurrence_rule?: string | null;
+};
 
 function startOfMonth(d: Date) { return new Date(d.getFullYear(), d.getMonth(), 1); }
 function endOfMonth(d: Date) { return new Date(d.getFullYear(), d.getMonth()+1, 0); }
@@ -18,13 +29,15 @@ export function MonthCalendar({ userId }: { userId: string }) {
   const days = useMemo(()=>Array.from({length:42},(_,i)=>{ const x=new Date(start); x.setDate(start.getDate()+i); return x; }),[anchor]);
 
   async function load() {
-    const res = await fetch(`/api/tasks?userId=${userId}`);
+    const res = await fetch(`/api/tasks`);
     setTasks(await res.json());
   }
   useEffect(()=>{ load(); },[anchor]);
 
   async function reschedule(id: string, date: Date) {
-    await fetch('/api/tasks', { method:'PATCH', headers:{'Content-Type':'application/json'}, body: JSON.stringify({ id, due_at: date.toISOString() }) });
+    const allDay = tasks.find(t => t.id === id)?.all_day;
+    const dueAt = allDay ? localAllDayDate(date) : date;
+    await fetch('/api/tasks', { method:'PATCH', headers:{'Content-Type':'application/json'}, body: JSON.stringify({ id, due_at: dueAt.toISOString() }) });
     await load();
   }
 
@@ -45,7 +58,7 @@ export function MonthCalendar({ userId }: { userId: string }) {
             <div key={i} className={`min-h-[110px] rounded border p-2 text-xs ${inMonth? '' : 'opacity-60'}`} onDragOver={e=>e.preventDefault()} onDrop={e=>{const id=e.dataTransfer.getData('text/plain'); reschedule(id, day);}}>
               <div className="mb-1 font-semibold">{day.getDate()}</div>
               <div className="space-y-1">
-                {tasks.filter(t=>t.due_at && new Date(t.due_at).toDateString()===day.toDateString()).slice(0,3).map(t=> (
+                {tasks.filter(t=>t.due_at && displayDue(t.due_at, t.all_day).toDateString()===day.toDateString()).slice(0,3).map(t=> (
                   <TaskChip key={t.id} task={t} onRescheduled={(d)=>reschedule(t.id, d)} onSaved={load} />
                 ))}
               </div>
@@ -57,19 +70,33 @@ export function MonthCalendar({ userId }: { userId: string }) {
   );
 }
 
-function TaskChip({ task, onRescheduled, onSaved }: { task: any; onRescheduled: (d: Date)=>void; onSaved: ()=>void }){
-  const [edit, setEdit] = useState(false);
+function TaskChip({ task, onRescheduled, onSaved }: { task: Task; onRescheduled: (d: Date)=>void; onSaved: ()=>void }){
+  const [edit, setEdit] = useState<{ x: number; y: number } | null>(null);
+
+  async function save(id: string, updates: { title?: string; priority?: string; tags?: string[]; estimate_min?: number }, scope?: EditScope) {
+    const res = await fetch('/api/tasks', { method:'PATCH', headers:{'Content-Type':'application/json'}, body: JSON.stringify({ id, ...updates, scope }) });
+    if (!res.ok) throw new Error('Failed to update task');
+    onSaved();
+  }
+
   return (
     <>
       <div
         draggable
         onDragStart={e=>{e.dataTransfer.setData('text/plain', task.id);}}
-        onDoubleClick={()=>setEdit(true)}
+        onDoubleClick={e=>setEdit({ x: e.clientX, y: e.clientY })}
         className="cursor-grab rounded bg-brand-500/10 px-2 py-1 hover:bg-brand-500/20"
       >
-        {task.title}
+        {task.recurrence_rule && <span aria-label="Recurring" title="Recurring">↻ </span>}{task.title}
       </div>
-      {edit && <CalendarQuickEdit taskId={task.id} initialTitle={task.title} initialDue={task.due_at} onClose={()=>setEdit(false)} onSaved={onSaved} />}
+      {edit && (
+        <CalendarQuickEdit
+          task={{ ...task, tags: JSON.parse(task.tags_json || '[]'), due_at: task.due_at ?? undefined }}
+          onSave={save}
+          onClose={()=>setEdit(null)}
+          position={edit}
+        />
+      )}
     </>
   );
 }
@@ -16,6 +16,8 @@ export default function NotificationSettings({ userId, userEmail }: Notification
     taskDue: true,
     focusEnd: true,
     dailyEmail: false,
+    taskUnblocked: true,
+    taskComment: true,
     pushNotifications: false
   });
   const [loading, setLoading] = useState(false);
@@ -100,10 +102,11 @@ export default function NotificationSettings({ userId, userEmail }: Notification
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId,
           notification_task_due: newSettings.taskDue,
           notification_focus_end: newSettings.focusEnd,
-          notification_daily_email: newSettings.dailyEmail
+          notification_daily_email: newSettings.dailyEmail,
+          notification_task_unblocked: newSettings.taskUnblocked,
+          notification_task_comment: newSettings.taskComment
         })
       });
     } catch (error) {
@@ -227,6 +230,40 @@ export default function NotificationSettings({ userId, userEmail }: Notification
             </label>
           </div>
 
+          <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+            <div>
+              <p className="font-medium text-gray-800">Unblocked Tasks</p>
+              <p className="text-sm text-gray-600">Get notified when the last task blocking another one is completed</p>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.taskUnblocked}
+                onChange={(e) => updateSettings('taskUnblocked', e.target.checked)}
+                disabled={loading || permission !== 'granted'}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+            <div>
+              <p className="font-medium text-gray-800">Comments</p>
+              <p className="text-sm text-gray-600">Get notified when someone @mentions you or comments on your task through a share link</p>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.taskComment}
+                onChange={(e) => updateSettings('taskComment', e.target.checked)}
+                disabled={loading || permission !== 'granted'}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+            </label>
+          </div>
+
           <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
             <div>
               <p className="font-medium text-gray-800">Daily Email Summary</p>
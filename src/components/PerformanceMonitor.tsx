@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { pwaManager, PWAPerformanceMetrics } from '@/lib/pwa';
 import { performanceBudgetManager, type PerformanceBudget, type PerformanceViolation } from '@/lib/performanceBudgets';
+import { useFeatureFlag } from '@/lib/useFeatureFlag';
 
 interface PerformanceMonitorProps {
   showDetails?: boolean;
@@ -15,6 +16,7 @@ export default function PerformanceMonitor({ showDetails = false }: PerformanceM
   const [budget, setBudget] = useState<PerformanceBudget | null>(null);
   const [violations, setViolations] = useState<PerformanceViolation[]>([]);
   const [showBudgetSettings, setShowBudgetSettings] = useState(false);
+  const monitorEnabled = useFeatureFlag('performance_monitor', true);
 
   useEffect(() => {
     // Load initial metrics
@@ -121,6 +123,8 @@ export default function PerformanceMonitor({ showDetails = false }: PerformanceM
     }
   };
 
+  if (!monitorEnabled) return null;
+
   if (!showDetails) {
     // Compact view
     const score = getPerformanceScore();
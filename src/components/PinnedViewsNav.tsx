@@ -0,0 +1,19 @@
+"use client";
+
+import { viewPath } from '@/lib/smartViewDefinition';
+import { useSmartViews } from '@/lib/useSmartViews';
+
+const linkClass = 'hover:text-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 focus:rounded px-1';
+
+// Header links for the views the user pinned, in their chosen order
+export function PinnedViewsNav() {
+  const { views } = useSmartViews();
+
+  return (
+    <>
+      {views.filter(view => view.pinned).map(view => (
+        <a key={view.id} className={linkClass} href={viewPath(view)}>{view.name}</a>
+      ))}
+    </>
+  );
+}
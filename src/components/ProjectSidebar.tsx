@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from 'react';
+import { notifyProjectsChanged, saveProject, useProjects } from '@/lib/useProjects';
+import { notifySavedSearchesChanged, searchHref, useSavedSearches } from '@/lib/useSavedSearches';
+
+const linkClass = 'flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-brand-500 dark:hover:bg-gray-800';
+
+export function ProjectSidebar() {
+  const [showArchived, setShowArchived] = useState(false);
+  const { projects, setProjects } = useProjects(showArchived);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState('#3B82F6');
+  const [error, setError] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const { savedSearches, setSavedSearches } = useSavedSearches();
+  const [searchDragIndex, setSearchDragIndex] = useState<number | null>(null);
+
+  async function create() {
+    if (!name.trim()) return;
+    setError(null);
+    try {
+      await saveProject(null, { name: name.trim(), color });
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create project');
+    }
+  }
+
+  async function drop(to: number) {
+    if (dragIndex === null || dragIndex === to) return;
+    const next = projects.slice();
+    const [moved] = next.splice(dragIndex, 1);
+    next.splice(to, 0, moved);
+    setProjects(next);
+    setDragIndex(null);
+
+    await fetch('/api/projects/reorder', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ order: next.map(project => project.id) })
+    });
+    notifyProjectsChanged();
+  }
+
+  async function dropSearch(to: number) {
+    if (searchDragIndex === null || searchDragIndex === to) return;
+    const next = savedSearches.slice();
+    const [moved] = next.splice(searchDragIndex, 1);
+    next.splice(to, 0, moved);
+    setSavedSearches(next);
+    setSearchDragIndex(null);
+
+    await fetch('/api/saved-searches/reorder', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ order: next.map(search => search.id) })
+    });
+    notifySavedSearchesChanged();
+  }
+
+  return (
+    <nav aria-label="Projects and smart lists" className="space-y-3">
+      <a className={linkClass} href="/projects/inbox">
+        <span aria-hidden="true">📥</span>
+        <span className="flex-1">Inbox</span>
+      </a>
+
+      <div>
+        <div className="px-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">Projects</div>
+        <ul className="space-y-0.5">
+          {projects.map((project, index) => (
+            <li
+              key={project.id}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={e => e.preventDefault()}
+              onDrop={() => drop(index)}
+            >
+              <a className={`${linkClass} ${project.archived_at ? 'opacity-50' : ''}`} href={`/projects/${project.id}`}>
+                <span className="inline-block h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: project.color }} aria-hidden="true" />
+                {project.icon && <span aria-hidden="true">{project.icon}</span>}
+                <span className="flex-1 truncate">{project.name}</span>
+                {project.openTaskCount > 0 && (
+                  <span className="text-xs text-gray-500">{project.openTaskCount}</span>
+                )}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="flex items-center gap-1 px-2">
+        <input
+          type="color"
+          value={color}
+          onChange={e => setColor(e.target.value)}
+          className="h-6 w-6 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+          aria-label="New project colour"
+        />
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') create(); }}
+          placeholder="New project"
+          className="min-w-0 flex-1 rounded border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-900"
+          aria-label="New project name"
+        />
+      </div>
+      {error && <p role="alert" className="px-2 text-xs text-red-600">{error}</p>}
+
+      <label className="flex items-center gap-2 px-2 text-xs text-gray-500">
+        <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} />
+        Show archived
+      </label>
+
+      <div>
+        <div className="px-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">Smart lists</div>
+        {savedSearches.length === 0 && (
+          <p className="px-2 text-xs text-gray-500">Save a search to pin it here.</p>
+        )}
+        <ul className="space-y-0.5">
+          {savedSearches.map((search, index) => (
+            <li
+              key={search.id}
+              draggable
+              onDragStart={() => setSearchDragIndex(index)}
+              onDragOver={e => e.preventDefault()}
+              onDrop={() => dropSearch(index)}
+            >
+              <a className={linkClass} href={searchHref(search.query)} title={search.query}>
+                <span aria-hidden="true">🔍</span>
+                <span className="flex-1 truncate">{search.name}</span>
+              </a>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </nav>
+  );
+}
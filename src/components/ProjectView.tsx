@@ -0,0 +1,147 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import QuickAdd from './QuickAdd';
+import { TaskBoard } from './TaskBoard';
+import { displayDue } from '@/lib/timezone';
+import { notifyProjectsChanged, saveProject, useProjects } from '@/lib/useProjects';
+import { offerUndo, undoBatchFrom, useTasksChanged } from '@/lib/useUndo';
+
+// `projectId` null shows the inbox: open tasks that aren't in any project
+export function ProjectView({ projectId }: { projectId: string | null }) {
+  const { projects, loading } = useProjects(true);
+  const project = projectId ? projects.find(p => p.id === projectId) ?? null : null;
+  const [tasks, setTasks] = useState<any[]>([]);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [layout, setLayout] = useState<'list' | 'board'>('list');
+  // Bumped when a task is added so the board reloads its columns
+  const [boardVersion, setBoardVersion] = useState(0);
+
+  const loadTasks = useCallback(async () => {
+    const params = new URLSearchParams({
+      projectId: projectId ?? 'null',
+      parentTaskId: 'null',
+      status: 'todo,in_progress'
+    });
+    const res = await fetch(`/api/tasks?${params.toString()}`);
+    if (res.ok) setTasks(await res.json());
+  }, [projectId]);
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks]);
+  useTasksChanged(loadTasks);
+
+  const savedName = project?.name;
+  useEffect(() => {
+    if (savedName) setName(savedName);
+  }, [savedName]);
+
+  async function update(data: Parameters<typeof saveProject>[1]) {
+    if (!projectId) return;
+    setError(null);
+    try {
+      await saveProject(projectId, data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update project');
+      if (project) setName(project.name);
+    }
+  }
+
+  async function remove() {
+    if (!projectId || !confirm('Delete this project? Its tasks move to the inbox.')) return;
+    const res = await fetch(`/api/projects/${projectId}`, { method: 'DELETE' });
+    if (res.ok) {
+      notifyProjectsChanged();
+      window.location.href = '/projects/inbox';
+    }
+  }
+
+  async function complete(task: { id: string; title: string }) {
+    const res = await fetch('/api/tasks', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: task.id, action: 'complete' })
+    });
+    await loadTasks();
+    notifyProjectsChanged();
+    if (res.ok) offerUndo(`Completed "${task.title}"`, undoBatchFrom(res));
+  }
+
+  if (projectId && !loading && !project) {
+    return <p className="text-gray-500">Project not found.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        {project ? (
+          <>
+            <input
+              type="color"
+              value={project.color}
+              onChange={e => update({ color: e.target.value })}
+              className="h-8 w-8 cursor-pointer rounded border-0 bg-transparent p-0"
+              aria-label="Project colour"
+            />
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onBlur={() => name.trim() && name.trim() !== project.name && update({ name: name.trim() })}
+              className="min-w-0 flex-1 bg-transparent text-3xl font-bold focus:outline-none"
+              aria-label="Project name"
+            />
+            <button
+              onClick={() => update({ archived: !project.archived_at })}
+              className="rounded border px-3 py-1 text-sm hover:bg-gray-50 dark:hover:bg-gray-800"
+            >
+              {project.archived_at ? 'Unarchive' : 'Archive'}
+            </button>
+            <button onClick={remove} className="rounded border px-3 py-1 text-sm text-red-600 hover:bg-red-50">
+              Delete
+            </button>
+          </>
+        ) : (
+          <h1 className="flex-1 text-3xl font-bold">{projectId ? '' : 'Inbox'}</h1>
+        )}
+        <div role="group" aria-label="Layout" className="flex overflow-hidden rounded border text-sm">
+          {(['list', 'board'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setLayout(option)}
+              aria-pressed={layout === option}
+              className={`px-3 py-1 capitalize ${layout === option ? 'bg-brand-500 text-white' : 'hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+
+      <QuickAdd
+        projectId={projectId ?? undefined}
+        onTaskCreated={() => { loadTasks(); setBoardVersion(v => v + 1); notifyProjectsChanged(); }}
+        placeholder={`Add a task to ${project?.name ?? 'the inbox'}...`}
+      />
+
+      {layout === 'board' ? (
+        <TaskBoard key={boardVersion} projectId={projectId} />
+      ) : (
+        <ul className="space-y-2">
+          {tasks.length === 0 && <li className="py-12 text-center text-gray-500">No open tasks</li>}
+          {tasks.map(task => (
+            <li key={task.id} className="flex items-center gap-3 rounded-lg border bg-white p-3 dark:border-gray-800 dark:bg-gray-900">
+              <input type="checkbox" onChange={() => complete(task)} aria-label={`Complete ${task.title}`} />
+              <span className="flex-1">{task.title}</span>
+              {task.due_at && (
+                <span className="text-sm text-gray-500">{displayDue(task.due_at, task.all_day).toLocaleDateString()}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
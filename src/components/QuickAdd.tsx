@@ -1,31 +1,65 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
-import { TaskParser, ParsedTask } from '@/lib/taskParser';
-import { TaskManager } from '@/lib/taskManager';
+import { parseQuickAdd, QuickAddParse } from '@/lib/quickAdd';
+import { useRecurrencePreview } from '@/lib/useRecurrencePreview';
+import { useTimeZone } from '@/lib/useTimeZone';
+import { displayDue } from '@/lib/timezone';
+import { findTemplate, parseTemplateCommand } from '@/lib/taskTemplateDefinition';
+import { instantiateTemplate, useTaskTemplates } from '@/lib/useTaskTemplates';
+import { QuickAddHighlight } from './QuickAddHighlight';
+import { TemplateFields } from './TemplateFields';
 
 interface QuickAddProps {
   onTaskCreated?: () => void;
   parentTaskId?: string;
+  projectId?: string;
   placeholder?: string;
   className?: string;
 }
 
+async function createTask(body: Record<string, unknown>): Promise<{ id: string }> {
+  const res = await fetch('/api/tasks', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to create task');
+  return data;
+}
+
 export default function QuickAdd({ 
   onTaskCreated, 
   parentTaskId, 
+  projectId,
   placeholder = "Add a task... (e.g., 'Pay bills tomorrow 5pm #finance 30m')",
   className = ""
 }: QuickAddProps) {
   const [input, setInput] = useState('');
   const [isExpanded, setIsExpanded] = useState(false);
-  const [parsedTask, setParsedTask] = useState<ParsedTask | null>(null);
+  const [parsedTask, setParsedTask] = useState<QuickAddParse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [templateStart, setTemplateStart] = useState('');
+  const [templateError, setTemplateError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-
-  // Mock user ID for now - replace with actual auth
-  const userId = 'mock-user-id';
+  const timeZone = useTimeZone();
+  const { templates } = useTaskTemplates();
+  // "/template release version=2.4" creates a template's tasks rather than a single task
+  const command = parentTaskId ? null : parseTemplateCommand(input);
+  const template = command ? findTemplate(templates, command.name) : null;
+  const suggestions = command && !template
+    ? templates.filter(t => t.name.toLowerCase().startsWith(command.name.toLowerCase())).slice(0, 5)
+    : [];
+  // All-day series repeat at UTC midnight, like the dates they're made of
+  const upcoming = useRecurrencePreview(
+    parsedTask?.recurrence_rule,
+    parsedTask?.due_at ? new Date(parsedTask.due_at) : undefined,
+    3,
+    parsedTask?.all_day ? 'UTC' : timeZone
+  );
 
   useEffect(() => {
     if (isExpanded && inputRef.current) {
@@ -35,15 +69,53 @@ export default function QuickAdd({
 
   const handleInputChange = (value: string) => {
     setInput(value);
-    
-    // Parse input in real-time
-    if (value.trim().length > 10) {
-      const parsed = TaskParser.parse(value);
-      setParsedTask(parsed);
-      setShowPreview(true);
-    } else {
-      setShowPreview(false);
+    setTemplateError(null);
+
+    if (!parentTaskId && parseTemplateCommand(value)) {
       setParsedTask(null);
+      setShowPreview(false);
+      return;
+    }
+    
+    // Parse input in real-time; recognized phrases are highlighted as you type
+    const parsed = value.trim() ? parseQuickAdd(value, new Date(), { timeZone }) : null;
+    setParsedTask(parsed);
+    setShowPreview(!!parsed && value.trim().length > 10);
+  };
+
+  const resetTemplate = () => {
+    setTemplateValues({});
+    setTemplateStart('');
+    setTemplateError(null);
+  };
+
+  const submitTemplate = async () => {
+    if (!command) return;
+    if (!template) {
+      setTemplateError(command.name ? `No template named "${command.name}"` : 'Type the name of a template');
+      return;
+    }
+
+    // A field edited by hand wins over the value typed inline
+    const values = { ...command.values, ...templateValues };
+    const missing = template.variables.find(name => !values[name]?.trim());
+    if (missing) {
+      setTemplateError(`Fill in {{${missing}}}`);
+      document.getElementById(`quickadd-var-${missing}`)?.focus();
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await instantiateTemplate(template, { values, start: templateStart || undefined, projectId });
+      setInput('');
+      resetTemplate();
+      setIsExpanded(false);
+      onTaskCreated?.();
+    } catch (error) {
+      setTemplateError(error instanceof Error ? error.message : 'Failed to use template');
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -51,24 +123,28 @@ export default function QuickAdd({
     e.preventDefault();
     
     if (!input.trim()) return;
+    if (command) {
+      await submitTemplate();
+      return;
+    }
 
     setIsLoading(true);
     
     try {
-      if (parsedTask && showPreview) {
-        // Use parsed task data
-        await TaskManager.createTask(userId, {
-          title: parsedTask.title,
-          description: parsedTask.description,
-          priority: parsedTask.priority,
-          due_at: parsedTask.dueDate,
-          estimate_min: parsedTask.estimateMinutes,
-          tags: parsedTask.tags,
-          parent_task_id: parentTaskId
-        });
-      } else {
-        // Use natural language parsing
-        await TaskManager.createTaskFromNaturalLanguage(userId, input);
+      const task = parsedTask ?? parseQuickAdd(input, new Date(), { timeZone });
+      const created = await createTask({
+        title: task.title,
+        priority: task.priority,
+        due_at: task.due_at,
+        all_day: task.all_day,
+        estimate_min: task.estimate_min,
+        tags: task.tags,
+        recurrence_rule: task.recurrence_rule,
+        parent_task_id: parentTaskId,
+        projectId
+      });
+      for (const title of task.subtasks) {
+        await createTask({ title, parent_task_id: created.id });
       }
 
       setInput('');
@@ -90,6 +166,7 @@ export default function QuickAdd({
       setInput('');
       setParsedTask(null);
       setShowPreview(false);
+      resetTemplate();
     }
   };
 
@@ -136,6 +213,13 @@ export default function QuickAdd({
     <div className={`space-y-3 ${className}`}>
       <form onSubmit={handleSubmit} className="space-y-3">
         <div className="relative">
+          {parsedTask && (
+            <QuickAddHighlight
+              input={input}
+              tokens={parsedTask.tokens}
+              className="absolute inset-0 p-3 pr-12 border border-transparent rounded-lg text-gray-900"
+            />
+          )}
       <input
             ref={inputRef}
             type="text"
@@ -143,7 +227,7 @@ export default function QuickAdd({
             onChange={(e) => handleInputChange(e.target.value)}
             onKeyDown={handleKeyDown}
             placeholder={placeholder}
-            className="w-full p-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            className={`relative w-full p-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${parsedTask ? 'bg-transparent text-transparent caret-gray-900' : ''}`}
             disabled={isLoading}
           />
           <button
@@ -164,6 +248,38 @@ export default function QuickAdd({
           </button>
         </div>
 
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-gray-500">Templates:</span>
+            {suggestions.map(suggestion => (
+              <button
+                key={suggestion.id}
+                type="button"
+                onClick={() => {
+                  handleInputChange(`/template ${suggestion.name}`);
+                  inputRef.current?.focus();
+                }}
+                className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700"
+              >
+                {suggestion.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {command && template && (
+          <TemplateFields
+            template={template}
+            values={{ ...command.values, ...templateValues }}
+            onValuesChange={setTemplateValues}
+            start={templateStart}
+            onStartChange={setTemplateStart}
+            idPrefix="quickadd"
+          />
+        )}
+
+        {templateError && <p role="alert" className="text-sm text-red-600">{templateError}</p>}
+
         {showPreview && parsedTask && (
           <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
             <h4 className="font-medium text-blue-900 mb-2">Task Preview:</h4>
@@ -173,13 +289,30 @@ export default function QuickAdd({
                 <span className="font-medium">{parsedTask.title}</span>
               </div>
               
-              {parsedTask.dueDate && (
+              {parsedTask.due_at && (
                 <div className="flex items-center justify-between">
                   <span className="text-gray-600">Due:</span>
-                  <span className="font-medium">{formatDate(parsedTask.dueDate)}</span>
+                  <span className="font-medium">{formatDate(displayDue(parsedTask.due_at, parsedTask.all_day))}</span>
                 </div>
               )}
               
+              {parsedTask.recurrence_rule && (
+                <div className="flex items-start justify-between">
+                  <span className="text-gray-600">Repeats:</span>
+                  <span className="text-right">
+                    <span className="block font-mono text-xs">{parsedTask.recurrence_rule}</span>
+                    {upcoming.length > 0 && (
+                      <span className="block text-xs text-gray-500">
+                        Next: {upcoming.map(date => parsedTask.all_day
+                          ? displayDue(date, true).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })
+                          : date.toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone })
+                        ).join(' · ')}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              )}
+
               {parsedTask.priority && (
                 <div className="flex items-center justify-between">
                   <span className="text-gray-600">Priority:</span>
@@ -189,10 +322,10 @@ export default function QuickAdd({
                 </div>
               )}
               
-              {parsedTask.estimateMinutes && (
+              {parsedTask.estimate_min !== undefined && (
                 <div className="flex items-center justify-between">
                   <span className="text-gray-600">Estimate:</span>
-                  <span className="font-medium">{parsedTask.estimateMinutes} min</span>
+                  <span className="font-medium">{parsedTask.estimate_min} min</span>
                 </div>
               )}
               
@@ -208,6 +341,17 @@ export default function QuickAdd({
                   </div>
                 </div>
               )}
+
+              {parsedTask.subtasks.length > 0 && (
+                <div className="flex items-start justify-between">
+                  <span className="text-gray-600">Subtasks:</span>
+                  <ul className="text-right">
+                    {parsedTask.subtasks.map((subtask, index) => (
+                      <li key={index}>{subtask}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -218,7 +362,7 @@ export default function QuickAdd({
             disabled={!input.trim() || isLoading}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
           >
-            {isLoading ? 'Creating...' : 'Add Task'}
+            {isLoading ? 'Creating...' : command ? 'Use Template' : 'Add Task'}
           </button>
           <button
             type="button"
@@ -227,6 +371,7 @@ export default function QuickAdd({
               setInput('');
               setParsedTask(null);
               setShowPreview(false);
+              resetTemplate();
             }}
             className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
           >
@@ -240,7 +385,11 @@ export default function QuickAdd({
         <p>• "Pay bills tomorrow 5pm #finance 30m" → Due tomorrow at 5pm, tagged #finance, 30 min estimate</p>
         <p>• "Review proposal urgent #work" → High priority, tagged #work</p>
         <p>• "Call mom next monday 2pm" → Due next Monday at 2pm</p>
-        <p>• "Weekly report #work" → Tagged #work</p>
+        <p>• &quot;Standup every weekday 9am&quot; → Repeats Monday to Friday at 9am</p>
+        <p>• &quot;Rent monthly on the 15th #finance&quot; → Repeats on the 15th of each month</p>
+        <p>• &quot;Ship release Oct 3 !high 2h&quot; → Due Oct 3, high priority, 2 hour estimate</p>
+        <p>• &quot;Plan trip friday + book flights + pack&quot; → Due Friday with two subtasks</p>
+        <p>• &quot;/template release version=2.4&quot; → Your release template&apos;s task and subtasks, with {'{{version}}'} filled in</p>
       </div>
     </div>
   );
@@ -0,0 +1,41 @@
+"use client";
+
+import type { QuickAddToken, QuickAddTokenKind } from '@/lib/quickAdd';
+
+const KIND_STYLES: Record<Exclude<QuickAddTokenKind, 'text'>, string> = {
+  date: 'bg-blue-100 text-blue-800',
+  time: 'bg-blue-100 text-blue-800',
+  recurrence: 'bg-purple-100 text-purple-800',
+  tag: 'bg-green-100 text-green-800',
+  priority: 'bg-red-100 text-red-800',
+  estimate: 'bg-amber-100 text-amber-800',
+  subtask: 'bg-gray-200 text-gray-700'
+};
+
+type Props = {
+  input: string;
+  tokens: QuickAddToken[];
+  className?: string;
+};
+
+// Renders the input text with recognized phrases marked. Laid over a transparent <input>
+// with the same font and padding, the marks line up with what the user typed.
+export function QuickAddHighlight({ input, tokens, className = '' }: Props) {
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+
+  for (const token of tokens) {
+    if (token.start > offset) parts.push(input.slice(offset, token.start));
+    parts.push(token.kind === 'text'
+      ? token.text
+      : <mark key={token.start} className={`rounded ${KIND_STYLES[token.kind]}`} title={token.kind}>{token.text}</mark>);
+    offset = token.end;
+  }
+  if (offset < input.length) parts.push(input.slice(offset));
+
+  return (
+    <div aria-hidden="true" className={`pointer-events-none overflow-hidden whitespace-pre ${className}`}>
+      {parts}
+    </div>
+  );
+}
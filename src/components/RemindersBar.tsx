@@ -8,7 +8,7 @@ export function RemindersBar({ userId }: { userId: string }) {
   const [items, setItems] = useState<ReminderItem[]>([]);
 
   async function load(){
-    const res = await fetch(`/api/reminders?userId=${userId}`);
+    const res = await fetch(`/api/reminders`);
     if (res.ok) setItems(await res.json());
   }
   useEffect(()=>{ load(); const iv = setInterval(load, 60_000); return ()=>clearInterval(iv); },[]);
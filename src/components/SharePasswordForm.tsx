@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+export function SharePasswordForm({ shareId }: { shareId: string }) {
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/sharing/${shareId}/content`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password })
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to unlock share');
+      }
+
+      // The unlock cookie is set now, so the server page can render the content
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock share');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <label htmlFor="share-password" className="block text-sm font-medium">
+        This share is password protected
+      </label>
+      <input
+        id="share-password"
+        type="password"
+        required
+        value={password}
+        onChange={e => setPassword(e.target.value)}
+        className="w-full rounded border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500 dark:border-gray-700 dark:bg-gray-900"
+      />
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={busy}
+        className="rounded bg-brand-500 px-4 py-2 text-sm font-medium text-white hover:bg-brand-600 disabled:opacity-50"
+      >
+        {busy ? 'Unlocking...' : 'View share'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { CommentComposer, CommentThread, type CommentView } from './CommentThread';
+
+type Props = {
+  shareId: string;
+  taskId: string;
+  count: number;
+  // Visitors who aren't signed in sign their comments with a name
+  askName: boolean;
+};
+
+const NAME_KEY = 'blitz_share_comment_name';
+
+// Comments under one task of a shared list, loaded when opened
+export function SharedTaskComments({ shareId, taskId, count, askName }: Props) {
+  const [open, setOpen] = useState(false);
+  const [comments, setComments] = useState<CommentView[]>([]);
+  const [total, setTotal] = useState(count);
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (askName) setName(localStorage.getItem(NAME_KEY) ?? '');
+  }, [askName]);
+
+  const load = useCallback(async () => {
+    const res = await fetch(`/api/sharing/${shareId}/comments?taskId=${taskId}`);
+    if (!res.ok) return;
+    const data: { comments: CommentView[] } = await res.json();
+    setComments(data.comments);
+    const countAll = (list: CommentView[]): number =>
+      list.reduce((sum, comment) => sum + (comment.deleted_at ? 0 : 1) + countAll(comment.replies), 0);
+    setTotal(countAll(data.comments));
+  }, [shareId, taskId]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  async function add(body: string, parentId?: string) {
+    if (askName && !name.trim()) throw new Error('Add your name first');
+    if (askName) localStorage.setItem(NAME_KEY, name.trim());
+
+    const res = await fetch(`/api/sharing/${shareId}/comments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ taskId, body, parentId, name: askName ? name.trim() : undefined })
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to post comment');
+    }
+    await load();
+  }
+
+  return (
+    <div className="mt-2 text-sm">
+      <button type="button" onClick={() => setOpen(!open)} aria-expanded={open} className="text-blue-600 hover:text-blue-800">
+        {open ? 'Hide comments' : total > 0 ? `Comments (${total})` : 'Comment'}
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-3">
+          <CommentThread comments={comments} onReply={(parentId, body) => add(body, parentId)} />
+          {askName && (
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={60}
+              placeholder="Your name"
+              aria-label="Your name"
+              className="w-full max-w-xs p-2 border border-gray-300 rounded-lg text-sm dark:border-gray-700 dark:bg-gray-900"
+            />
+          )}
+          <CommentComposer onSubmit={body => add(body)} placeholder="Write a comment... Markdown works" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { sharingManager, ShareLink, ShareableContent } from '@/lib/sharing';
+import { AccessibleBarChart } from '@/components/charts/AccessibleBarChart';
+
+type ShareAnalytics = Awaited<ReturnType<typeof sharingManager.getShareAnalytics>>;
 
 interface SharingProps {
   className?: string;
@@ -12,6 +15,9 @@ export default function Sharing({ className = '' }: SharingProps) {
   const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedContent, setSelectedContent] = useState<ShareableContent | null>(null);
+  const [analyticsShareId, setAnalyticsShareId] = useState<string>('');
+  const [analytics, setAnalytics] = useState<ShareAnalytics | null>(null);
+  const [analyticsLoading, setAnalyticsLoading] = useState(false);
   const [shareSettings, setShareSettings] = useState({
     title: '',
     description: '',
@@ -27,16 +33,33 @@ export default function Sharing({ className = '' }: SharingProps) {
   });
 
   useEffect(() => {
-    if (activeTab === 'manage') {
+    if (activeTab === 'manage' || activeTab === 'analytics') {
       loadUserShares();
     }
   }, [activeTab]);
 
+  useEffect(() => {
+    if (!analyticsShareId) {
+      setAnalytics(null);
+      return;
+    }
+
+    setAnalyticsLoading(true);
+    sharingManager.getShareAnalytics(analyticsShareId)
+      .then(setAnalytics)
+      .catch(error => {
+        console.error('Failed to load share analytics:', error);
+        setAnalytics(null);
+      })
+      .finally(() => setAnalyticsLoading(false));
+  }, [analyticsShareId]);
+
   const loadUserShares = async () => {
     setLoading(true);
     try {
       const result = await sharingManager.getUserShares();
       setShareLinks(result.shares);
+      setAnalyticsShareId(current => current || result.shares[0]?.id || '');
     } catch (error) {
       console.error('Failed to load shares:', error);
     } finally {
@@ -345,7 +368,7 @@ export default function Sharing({ className = '' }: SharingProps) {
                           }`}>
                             {share.isPublic ? 'Public' : 'Private'}
                           </span>
-                          {share.password && (
+                          {share.hasPassword && (
                             <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
                               Password Protected
                             </span>
@@ -384,9 +407,87 @@ export default function Sharing({ className = '' }: SharingProps) {
         {activeTab === 'analytics' && (
           <div>
             <h3 className="text-lg font-medium text-gray-900 mb-4">Share Analytics</h3>
-            <div className="text-center py-8">
-              <p className="text-gray-500">Analytics will be available for shares with access tracking enabled.</p>
-            </div>
+            {shareLinks.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500">Create a share link to start collecting analytics.</p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div>
+                  <label htmlFor="analytics-share" className="block text-sm font-medium text-gray-700 mb-2">
+                    Share link
+                  </label>
+                  <select
+                    id="analytics-share"
+                    value={analyticsShareId}
+                    onChange={(e) => setAnalyticsShareId(e.target.value)}
+                    className="w-full md:w-1/2 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {shareLinks.map((share) => (
+                      <option key={share.id} value={share.id}>{share.title}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {analyticsLoading ? (
+                  <div className="text-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                    <p className="mt-2 text-gray-600">Loading...</p>
+                  </div>
+                ) : analytics && (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="bg-gray-50 rounded-lg p-4">
+                        <div className="text-sm text-gray-600">Total views</div>
+                        <div className="text-2xl font-bold text-gray-900">{analytics.totalAccesses}</div>
+                      </div>
+                      <div className="bg-gray-50 rounded-lg p-4">
+                        <div className="text-sm text-gray-600">Unique visitors</div>
+                        <div className="text-2xl font-bold text-gray-900">{analytics.uniqueVisitors}</div>
+                      </div>
+                      <div className="bg-gray-50 rounded-lg p-4">
+                        <div className="text-sm text-gray-600">Top referrer</div>
+                        <div className="text-2xl font-bold text-gray-900 truncate">
+                          {analytics.topReferrers[0]?.referrer || '—'}
+                        </div>
+                      </div>
+                    </div>
+
+                    <AccessibleBarChart
+                      title="Views over the last 30 days"
+                      description="Number of times this share link was viewed each day"
+                      data={analytics.accessTrends.map((day) => ({
+                        id: day.date,
+                        label: new Date(day.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+                        value: day.count,
+                        color: '#3B82F6',
+                        description: `${day.count} views on ${new Date(day.date).toLocaleDateString()}`,
+                        clickable: false
+                      }))}
+                      maxValue={Math.max(1, ...analytics.accessTrends.map((day) => day.count))}
+                      showLegend={false}
+                    />
+
+                    {analytics.topReferrers.length > 0 && (
+                      <AccessibleBarChart
+                        title="Top referrers"
+                        description="Sites that sent visitors to this share link"
+                        data={analytics.topReferrers.map((ref) => ({
+                          id: ref.referrer,
+                          label: ref.referrer,
+                          value: ref.count,
+                          color: '#10B981',
+                          description: `${ref.count} views from ${ref.referrer}`,
+                          clickable: false
+                        }))}
+                        orientation="horizontal"
+                        showLegend={false}
+                      />
+                    )}
+                  </>
+                )}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,20 @@
+"use client";
+
+export function SignOutButton() {
+  async function signOut() {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      window.location.href = '/login';
+    }
+  }
+
+  return (
+    <button
+      onClick={signOut}
+      className="hover:text-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 focus:rounded px-1"
+    >
+      Sign out
+    </button>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { BulkActionBar } from './BulkActionBar';
+import QuickAdd from './QuickAdd';
+import { SmartViewEditor } from './SmartViewEditor';
+import type { BuiltinView } from '@/lib/smartViewDefinition';
+import { displayDue } from '@/lib/timezone';
+import { notifySmartViewsChanged, saveSmartView, useSmartViews } from '@/lib/useSmartViews';
+import { taskRowId, useTaskSelection } from '@/lib/useTaskSelection';
+import { offerUndo, undoBatchFrom, useTasksChanged } from '@/lib/useUndo';
+
+type ViewTask = {
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  due_at: string | null;
+  all_day: boolean;
+  blocked: boolean;
+  project: { name: string; color: string } | null;
+  _count: { subtasks: number };
+};
+
+type ViewGroup = {
+  key: string;
+  label: string;
+  color?: string;
+  tasks: ViewTask[];
+};
+
+const PRIORITY_STYLES: Record<string, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-green-100 text-green-800'
+};
+
+// One smart view's tasks, with its settings editable in place. Built-in views are looked up
+// by key, since their ids differ per user.
+export function SmartView({ builtin, viewId }: { builtin?: BuiltinView; viewId?: string }) {
+  const { views, loading } = useSmartViews();
+  const view = views.find(v => builtin ? v.builtin === builtin : v.id === viewId);
+  const [groups, setGroups] = useState<ViewGroup[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  // Tag groups can list a task more than once; it's selected once
+  const selection = useTaskSelection(Array.from(new Set(groups.flatMap(group => group.tasks.map(task => task.id)))));
+
+  const id = view?.id;
+  // Refetch whenever the definition is saved, here or in another tab of the app
+  const definitionKey = JSON.stringify(view?.definition);
+
+  const loadTasks = useCallback(async () => {
+    if (!id) return;
+    const res = await fetch(`/api/views/${id}/tasks`);
+    if (res.ok) setGroups((await res.json()).groups);
+  }, [id]);
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks, definitionKey]);
+  useTasksChanged(loadTasks);
+
+  async function update(data: Parameters<typeof saveSmartView>[1]) {
+    if (!id) return;
+    setError(null);
+    try {
+      await saveSmartView(id, data);
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update view');
+    }
+  }
+
+  async function remove() {
+    if (!id || !confirm('Delete this view? Its tasks are not affected.')) return;
+    const res = await fetch(`/api/views/${id}`, { method: 'DELETE' });
+    if (res.ok) {
+      notifySmartViewsChanged();
+      window.location.href = '/views';
+    }
+  }
+
+  async function complete(task: ViewTask) {
+    const res = await fetch('/api/tasks', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: task.id, action: 'complete' })
+    });
+    await loadTasks();
+    if (res.ok) offerUndo(`Completed "${task.title}"`, undoBatchFrom(res));
+  }
+
+  function toggleSelecting() {
+    if (selecting) selection.clear();
+    setSelecting(!selecting);
+  }
+
+  // In select mode a click anywhere on the row that isn't a control picks the task
+  function rowClick(e: React.MouseEvent, taskId: string) {
+    if (!selecting || (e.target as HTMLElement).closest('button, input, a')) return;
+    selection.toggle(taskId, { range: e.shiftKey });
+  }
+
+  if (!loading && !view) {
+    return <p className="text-gray-500">View not found.</p>;
+  }
+  if (!view) return null;
+
+  const total = groups.reduce((sum, group) => sum + group.tasks.length, 0);
+  // Row ids must be unique, so a task listed under several tags takes its id from the first
+  const firstGroupOf = new Map<string, ViewGroup>();
+  for (const group of groups) {
+    for (const task of group.tasks) if (!firstGroupOf.has(task.id)) firstGroupOf.set(task.id, group);
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <h1 className="flex-1 text-3xl font-bold">{view.name}</h1>
+        <button
+          onClick={() => update({ pinned: !view.pinned })}
+          aria-pressed={view.pinned}
+          className="rounded border px-3 py-1 text-sm hover:bg-gray-50 dark:hover:bg-gray-800"
+        >
+          {view.pinned ? 'Unpin' : 'Pin to navigation'}
+        </button>
+        {total > 0 && (
+          <button
+            onClick={toggleSelecting}
+            aria-pressed={selecting}
+            className="rounded border px-3 py-1 text-sm hover:bg-gray-50 dark:hover:bg-gray-800"
+          >
+            {selecting ? 'Done selecting' : 'Select'}
+          </button>
+        )}
+        <button
+          onClick={() => setEditing(value => !value)}
+          aria-expanded={editing}
+          className="rounded border px-3 py-1 text-sm hover:bg-gray-50 dark:hover:bg-gray-800"
+        >
+          Edit view
+        </button>
+      </div>
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+
+      {editing && (
+        <SmartViewEditor
+          key={definitionKey}
+          name={view.name}
+          definition={view.definition}
+          pinned={view.pinned}
+          builtin={view.builtin !== null}
+          onSave={data => saveSmartView(view.id, data).then(() => setEditing(false))}
+          onCancel={() => setEditing(false)}
+          onReset={() => update({ reset: true })}
+          onDelete={remove}
+        />
+      )}
+
+      <QuickAdd onTaskCreated={loadTasks} placeholder={`Add a task to ${view.name.toLowerCase()}...`} />
+
+      {selecting && (
+        <>
+          <BulkActionBar selectedIds={selection.selectedIds} onDone={loadTasks} onClear={selection.clear} />
+          <p className="text-xs text-gray-500">
+            Shift-click selects a range. In the list, use the arrow keys or j/k to move, Shift to extend, Space or x to select, Ctrl+A for all and Escape to clear.
+          </p>
+        </>
+      )}
+
+      {total === 0 && <p className="py-12 text-center text-gray-500">No tasks in this view</p>}
+
+      <div
+        className="space-y-6 focus:outline-none"
+        role={selecting ? 'listbox' : undefined}
+        aria-label={selecting ? `${view.name}, select tasks` : undefined}
+        aria-multiselectable={selecting || undefined}
+        aria-activedescendant={selecting && selection.focusedId ? taskRowId(selection.focusedId) : undefined}
+        tabIndex={selecting ? 0 : undefined}
+        onKeyDown={selecting ? selection.onKeyDown : undefined}
+      >
+        {groups.filter(group => group.tasks.length > 0).map(group => (
+          <section key={group.key} aria-label={group.label || view.name} className="space-y-2">
+            {group.label && (
+              <h2 className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-gray-500">
+                {group.color && <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: group.color }} aria-hidden="true" />}
+                {group.label}
+                <span className="font-normal">({group.tasks.length})</span>
+              </h2>
+            )}
+            <ul className="space-y-2">
+              {group.tasks.map(task => {
+                const done = task.status === 'completed' || task.status === 'done';
+                const picked = selecting && selection.isSelected(task.id);
+                return (
+                  <li
+                    key={`${group.key}-${task.id}`}
+                    id={group === firstGroupOf.get(task.id) ? taskRowId(task.id) : undefined}
+                    role={selecting ? 'option' : undefined}
+                    aria-selected={selecting ? picked : undefined}
+                    onClick={e => rowClick(e, task.id)}
+                    className={`flex items-center gap-3 rounded-lg border p-3 dark:border-gray-800 ${
+                      picked ? 'border-brand-500 bg-brand-50 dark:bg-gray-800' : 'bg-white dark:bg-gray-900'
+                    } ${selecting && selection.focusedId === task.id ? 'ring-2 ring-brand-500' : ''}`}
+                  >
+                    {selecting ? (
+                      <input
+                        type="checkbox"
+                        checked={picked}
+                        onChange={e => selection.toggle(task.id, { range: (e.nativeEvent as MouseEvent).shiftKey })}
+                        aria-label={`Select ${task.title}`}
+                      />
+                    ) : (
+                      <input
+                        type="checkbox"
+                        checked={done}
+                        disabled={done}
+                        onChange={() => complete(task)}
+                        aria-label={`Complete ${task.title}`}
+                      />
+                    )}
+                    <span className={`flex-1 ${done ? 'text-gray-400 line-through' : ''}`}>{task.title}</span>
+                    {task.blocked && <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">Blocked</span>}
+                    {task._count.subtasks > 0 && (
+                      <span className="text-xs text-gray-500">{task._count.subtasks} subtask{task._count.subtasks === 1 ? '' : 's'}</span>
+                    )}
+                    {task.project && <span className="text-xs text-gray-500">{task.project.name}</span>}
+                    <span className={`rounded-full px-2 py-0.5 text-xs ${PRIORITY_STYLES[task.priority] ?? 'bg-gray-100 text-gray-800'}`}>
+                      {task.priority}
+                    </span>
+                    {task.due_at && (
+                      <span className="text-sm text-gray-500">{displayDue(task.due_at, task.all_day).toLocaleDateString()}</span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
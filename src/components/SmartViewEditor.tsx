@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from 'react';
+import {
+  GROUP_BY,
+  GROUP_LABELS,
+  SORT_FIELDS,
+  SORT_LABELS,
+  SmartViewDefinition,
+  SmartViewFilter,
+  SmartViewSort
+} from '@/lib/smartViewDefinition';
+import { useProjects } from '@/lib/useProjects';
+
+type DueMode = 'any' | 'range' | 'overdue' | 'none';
+
+const STATUS_OPTIONS = [['todo', 'To do'], ['in_progress', 'In progress'], ['completed', 'Completed']];
+const PRIORITY_OPTIONS = [['high', 'High'], ['medium', 'Medium'], ['low', 'Low']];
+const INBOX = '';
+
+const inputClass = 'rounded border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-900';
+
+type Props = {
+  name: string;
+  definition: SmartViewDefinition;
+  pinned: boolean;
+  builtin: boolean;
+  onSave: (data: { name: string; definition: SmartViewDefinition; pinned: boolean }) => Promise<void>;
+  onCancel: () => void;
+  onReset?: () => void;
+  onDelete?: () => void;
+};
+
+function dueMode(filter: SmartViewFilter): DueMode {
+  if (filter.overdue) return 'overdue';
+  if (filter.noDueDate) return 'none';
+  return filter.due ? 'range' : 'any';
+}
+
+function toggle(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+}
+
+function dayNumber(value: string): number | undefined {
+  return value === '' ? undefined : parseInt(value, 10);
+}
+
+// Form for a smart view's filter, sort and group settings
+export function SmartViewEditor({ name: initialName, definition, pinned: initialPinned, builtin, onSave, onCancel, onReset, onDelete }: Props) {
+  const { projects } = useProjects(true);
+  const { filter } = definition;
+
+  const [name, setName] = useState(initialName);
+  const [pinned, setPinned] = useState(initialPinned);
+  const [status, setStatus] = useState<string[]>(filter.status ?? []);
+  const [priority, setPriority] = useState<string[]>(filter.priority ?? []);
+  const [tags, setTags] = useState((filter.tags ?? []).join(', '));
+  const [projectIds, setProjectIds] = useState<string[]>((filter.projectIds ?? []).map(id => id ?? INBOX));
+  const [due, setDue] = useState<DueMode>(dueMode(filter));
+  const [dueFrom, setDueFrom] = useState(filter.due?.from?.toString() ?? '0');
+  const [dueTo, setDueTo] = useState(filter.due?.to?.toString() ?? '7');
+  const [completedWithin, setCompletedWithin] = useState(filter.completedWithinDays?.toString() ?? '');
+  const [topLevelOnly, setTopLevelOnly] = useState(filter.topLevelOnly ?? false);
+  const [sort, setSort] = useState<SmartViewSort[]>(definition.sort.length > 0 ? definition.sort : [{ field: 'due_at', direction: 'asc' }]);
+  const [group, setGroup] = useState(definition.group);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  function setSortAt(index: number, entry: SmartViewSort | null) {
+    setSort(prev => {
+      const next = prev.slice();
+      if (entry) next[index] = entry;
+      else next.splice(index, 1);
+      return next;
+    });
+  }
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    const nextFilter: SmartViewFilter = {};
+    if (status.length) nextFilter.status = status;
+    if (priority.length) nextFilter.priority = priority;
+    const tagList = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+    if (tagList.length) nextFilter.tags = tagList;
+    if (projectIds.length) nextFilter.projectIds = projectIds.map(id => id === INBOX ? null : id);
+    if (due === 'range') nextFilter.due = { from: dayNumber(dueFrom), to: dayNumber(dueTo) };
+    if (due === 'overdue') nextFilter.overdue = true;
+    if (due === 'none') nextFilter.noDueDate = true;
+    if (completedWithin) nextFilter.completedWithinDays = parseInt(completedWithin, 10);
+    if (topLevelOnly) nextFilter.topLevelOnly = true;
+
+    setBusy(true);
+    setError(null);
+    try {
+      await onSave({ name: name.trim(), definition: { filter: nextFilter, sort, group }, pinned });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save view');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-4 rounded-lg border border-gray-200 p-4 dark:border-gray-800" aria-label="Edit view">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          required
+          className={`${inputClass} flex-1 min-w-[12rem]`}
+          aria-label="View name"
+        />
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={pinned} onChange={e => setPinned(e.target.checked)} />
+          Pin to navigation
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <fieldset className="space-y-1 text-sm">
+          <legend className="mb-1 font-medium">Status</legend>
+          {STATUS_OPTIONS.map(([value, label]) => (
+            <label key={value} className="flex items-center gap-2">
+              <input type="checkbox" checked={status.includes(value)} onChange={() => setStatus(prev => toggle(prev, value))} />
+              {label}
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset className="space-y-1 text-sm">
+          <legend className="mb-1 font-medium">Priority</legend>
+          {PRIORITY_OPTIONS.map(([value, label]) => (
+            <label key={value} className="flex items-center gap-2">
+              <input type="checkbox" checked={priority.includes(value)} onChange={() => setPriority(prev => toggle(prev, value))} />
+              {label}
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset className="space-y-1 text-sm">
+          <legend className="mb-1 font-medium">Projects</legend>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={projectIds.includes(INBOX)} onChange={() => setProjectIds(prev => toggle(prev, INBOX))} />
+            Inbox
+          </label>
+          {projects.map(project => (
+            <label key={project.id} className="flex items-center gap-2">
+              <input type="checkbox" checked={projectIds.includes(project.id)} onChange={() => setProjectIds(prev => toggle(prev, project.id))} />
+              {project.name}
+            </label>
+          ))}
+        </fieldset>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          Tags
+          <input value={tags} onChange={e => setTags(e.target.value)} placeholder="work, errands" className={inputClass} />
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={topLevelOnly} onChange={e => setTopLevelOnly(e.target.checked)} />
+          Hide subtasks
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          Due
+          <select value={due} onChange={e => setDue(e.target.value as DueMode)} className={inputClass}>
+            <option value="any">Any time</option>
+            <option value="range">Within a range of days</option>
+            <option value="overdue">Overdue</option>
+            <option value="none">No due date</option>
+          </select>
+        </label>
+        {due === 'range' && (
+          <>
+            <label className="flex items-center gap-2">
+              from day
+              <input type="number" value={dueFrom} onChange={e => setDueFrom(e.target.value)} className={`${inputClass} w-20`} />
+            </label>
+            <label className="flex items-center gap-2">
+              to day
+              <input type="number" value={dueTo} onChange={e => setDueTo(e.target.value)} className={`${inputClass} w-20`} />
+            </label>
+            <span className="text-xs text-gray-500">0 is today, 1 tomorrow, -1 yesterday; leave one blank for no limit</span>
+          </>
+        )}
+        <label className="flex items-center gap-2">
+          Completed in the last
+          <input type="number" min={1} value={completedWithin} onChange={e => setCompletedWithin(e.target.value)} className={`${inputClass} w-20`} />
+          days
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        {sort.map((entry, index) => (
+          <span key={index} className="flex items-center gap-1">
+            {index === 0 ? 'Sort by' : 'then'}
+            <select
+              value={entry.field}
+              onChange={e => setSortAt(index, { ...entry, field: e.target.value as SmartViewSort['field'] })}
+              className={inputClass}
+              aria-label={index === 0 ? 'Sort by' : `Then sort by (${index + 1})`}
+            >
+              {SORT_FIELDS.map(field => <option key={field} value={field}>{SORT_LABELS[field]}</option>)}
+            </select>
+            <select
+              value={entry.direction}
+              onChange={e => setSortAt(index, { ...entry, direction: e.target.value as SmartViewSort['direction'] })}
+              className={inputClass}
+              aria-label="Sort direction"
+            >
+              <option value="asc">ascending</option>
+              <option value="desc">descending</option>
+            </select>
+            {index > 0 && (
+              <button type="button" onClick={() => setSortAt(index, null)} className="px-1 text-red-600" aria-label="Remove this sort">
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+        {sort.length < 3 && (
+          <button type="button" onClick={() => setSortAt(sort.length, { field: 'priority', direction: 'desc' })} className="text-brand-600">
+            + Add sort
+          </button>
+        )}
+        <label className="flex items-center gap-2">
+          Group by
+          <select value={group} onChange={e => setGroup(e.target.value as SmartViewDefinition['group'])} className={inputClass}>
+            {GROUP_BY.map(option => <option key={option} value={option}>{GROUP_LABELS[option]}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <button type="submit" disabled={busy || !name.trim()} className="rounded bg-brand-500 px-4 py-2 text-sm text-white disabled:opacity-50">
+          {busy ? 'Saving...' : 'Save view'}
+        </button>
+        <button type="button" onClick={onCancel} className="rounded border px-4 py-2 text-sm">
+          Cancel
+        </button>
+        {builtin && onReset && (
+          <button type="button" onClick={onReset} className="rounded border px-4 py-2 text-sm">
+            Reset to default
+          </button>
+        )}
+        {!builtin && onDelete && (
+          <button type="button" onClick={onDelete} className="rounded border px-4 py-2 text-sm text-red-600">
+            Delete view
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
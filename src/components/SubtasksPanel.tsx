@@ -7,7 +7,7 @@ export function SubtasksPanel({ parentId, userId }: { parentId: string; userId:
   const [text, setText] = useState("");
 
   async function load() {
-    const res = await fetch(`/api/tasks?userId=${userId}`);
+    const res = await fetch(`/api/tasks`);
     const data = await res.json();
     const children = data.filter((t: any) => t.parent_task_id === parentId);
     children.sort((a:any,b:any)=> (a.order_index??0)-(b.order_index??0));
@@ -19,7 +19,7 @@ export function SubtasksPanel({ parentId, userId }: { parentId: string; userId:
     if (!text.trim()) return;
     await fetch('/api/tasks', {
       method: 'POST', headers: { 'Content-Type':'application/json' },
-      body: JSON.stringify({ userId, title: text.trim(), parent_task_id: parentId, status:'todo', priority:'medium' })
+      body: JSON.stringify({ title: text.trim(), parent_task_id: parentId, status:'todo', priority:'medium' })
     });
     setText("");
     await load();
@@ -0,0 +1,130 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+
+interface Tag {
+  id: string;
+  name: string;
+  color: string;
+  taskCount: number;
+}
+
+export function TagSettings() {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    const res = await fetch('/api/tags');
+    if (!res.ok) return;
+    const data = await res.json();
+    setTags(data.tags);
+  }
+
+  useEffect(() => { load(); }, []);
+
+  async function updateTag(tag: Tag, data: Partial<{ name: string; color: string }>) {
+    setError(null);
+    const res = await fetch(`/api/tags/${tag.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data)
+    });
+    const body = await res.json().catch(() => ({}));
+
+    // Renaming onto an existing tag offers to merge the two
+    if (res.status === 409 && body.tagId) {
+      const target = tags.find(t => t.id === body.tagId);
+      if (target) await mergeTag(tag, target);
+      else await load();
+      return;
+    }
+    if (!res.ok) setError(body.error || 'Failed to update tag');
+    await load();
+  }
+
+  async function mergeTag(source: Tag, target: Tag | undefined) {
+    if (!target) return;
+    if (!confirm(`Merge "${source.name}" into "${target.name}"? Its ${source.taskCount} task(s) will be tagged "${target.name}" instead.`)) {
+      await load();
+      return;
+    }
+
+    setError(null);
+    const res = await fetch('/api/tags/merge', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sourceId: source.id, targetId: target.id })
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      setError(body.error || 'Failed to merge tags');
+    }
+    await load();
+  }
+
+  async function deleteTag(tag: Tag) {
+    if (!confirm(`Delete "${tag.name}"? It will be removed from ${tag.taskCount} task(s).`)) return;
+
+    const res = await fetch(`/api/tags/${tag.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      setTags(prev => prev.filter(t => t.id !== tag.id));
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 space-y-4">
+      <h2 className="text-xl font-semibold">Tags</h2>
+      <p className="text-gray-600 dark:text-gray-400">
+        Rename, recolour, merge or delete the tags on your tasks. Changes apply to every tagged task.
+      </p>
+
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+
+      {tags.length === 0 ? (
+        <p className="text-sm text-gray-500">No tags yet. Add one to a task with #name.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {tags.map(tag => (
+            <li key={tag.id} className="flex flex-wrap items-center gap-3 py-3">
+              <input
+                type="color"
+                value={tag.color}
+                onChange={e => updateTag(tag, { color: e.target.value })}
+                className="h-8 w-8 cursor-pointer rounded border border-gray-300 dark:border-gray-700"
+                aria-label={`Colour for ${tag.name}`}
+              />
+              <input
+                key={tag.name}
+                defaultValue={tag.name}
+                onBlur={e => e.target.value.trim() && e.target.value.trim() !== tag.name && updateTag(tag, { name: e.target.value })}
+                onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="flex-1 min-w-[8rem] rounded border border-gray-300 px-3 py-1 text-sm dark:border-gray-700 dark:bg-gray-900"
+                aria-label={`Rename ${tag.name}`}
+              />
+              <span className="text-xs text-gray-500">{tag.taskCount} task{tag.taskCount === 1 ? '' : 's'}</span>
+              <select
+                value=""
+                onChange={e => mergeTag(tag, tags.find(t => t.id === e.target.value))}
+                disabled={tags.length < 2}
+                className="rounded border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-900"
+                aria-label={`Merge ${tag.name} into another tag`}
+              >
+                <option value="">Merge into...</option>
+                {tags.filter(t => t.id !== tag.id).map(t => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => deleteTag(tag)}
+                className="text-sm text-red-600 hover:text-red-800"
+                aria-label={`Delete ${tag.name}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
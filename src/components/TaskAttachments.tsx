@@ -0,0 +1,259 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useTasksChanged } from '@/lib/useUndo';
+
+export type AttachmentView = {
+  id: string;
+  taskId: string;
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  has_thumbnail: boolean;
+  created_at: string;
+};
+
+// Mirrors the limits in lib/attachments, which can't be imported here since it pulls in Prisma
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const MAX_THUMBNAIL_BYTES = 256 * 1024;
+const THUMBNAIL_SIZE = 320;
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Downscaled copy of a large image, drawn in the browser since the server has no image
+// library. Small images are left alone; the server uses them as their own thumbnail.
+async function makeThumbnail(file: File): Promise<Blob | null> {
+  if (!file.type.startsWith('image/') || file.size <= MAX_THUMBNAIL_BYTES) return null;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise(resolve => canvas.toBlob(resolve, 'image/webp', 0.8));
+  } catch {
+    return null;
+  }
+}
+
+export async function uploadAttachment(taskId: string, file: File): Promise<AttachmentView> {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}`);
+  }
+
+  const form = new FormData();
+  form.append('taskId', taskId);
+  form.append('file', file);
+  const thumbnail = await makeThumbnail(file);
+  if (thumbnail) form.append('thumbnail', thumbnail, 'thumbnail');
+
+  const res = await fetch('/api/tasks/attachments', { method: 'POST', body: form });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(`${file.name}: ${data.error || `upload failed (${res.status})`}`);
+  return data;
+}
+
+type DropZoneProps = {
+  onFiles: (files: File[]) => void;
+  disabled?: boolean;
+};
+
+// File input that also takes files dropped on it
+function DropZone({ onFiles, disabled = false }: DropZoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [over, setOver] = useState(false);
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setOver(true);
+      }}
+      onDragLeave={() => setOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setOver(false);
+        if (!disabled) onFiles(Array.from(e.dataTransfer.files));
+      }}
+      className={`rounded-lg border-2 border-dashed p-3 text-center text-sm ${over ? 'border-blue-400 bg-blue-50' : 'border-gray-300'}`}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          onFiles(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+      >
+        Choose files
+      </button>
+      <span className="text-gray-500"> or drop them here (up to {formatBytes(MAX_ATTACHMENT_BYTES)} each)</span>
+    </div>
+  );
+}
+
+function FileIcon({ name }: { name: string }) {
+  const dot = name.lastIndexOf('.');
+  return (
+    <span className="flex h-12 w-12 shrink-0 items-center justify-center rounded bg-gray-100 text-[10px] font-semibold uppercase text-gray-500">
+      {dot === -1 ? 'file' : name.slice(dot + 1, dot + 5)}
+    </span>
+  );
+}
+
+type PickerProps = {
+  files: File[];
+  onChange: (files: File[]) => void;
+};
+
+// Files chosen while creating a task, uploaded once the task exists
+export function AttachmentPicker({ files, onChange }: PickerProps) {
+  const [previews, setPreviews] = useState<Array<string | null>>([]);
+
+  useEffect(() => {
+    const urls = files.map(file => (file.type.startsWith('image/') ? URL.createObjectURL(file) : null));
+    setPreviews(urls);
+    return () => urls.forEach(url => url && URL.revokeObjectURL(url));
+  }, [files]);
+
+  return (
+    <div className="space-y-2">
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center gap-3 p-2 bg-gray-50 dark:bg-gray-700 rounded">
+              {previews[index] ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={previews[index] as string} alt="" className="h-12 w-12 shrink-0 rounded object-cover" />
+              ) : (
+                <FileIcon name={file.name} />
+              )}
+              <span className="flex-1 truncate text-sm">{file.name}</span>
+              <span className="text-xs text-gray-500">{formatBytes(file.size)}</span>
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                className="text-red-500 hover:text-red-700"
+                aria-label={`Remove ${file.name}`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <DropZone onFiles={added => onChange([...files, ...added])} />
+    </div>
+  );
+}
+
+// A saved task's attachments, with upload, download and delete
+export function TaskAttachments({ taskId }: { taskId: string }) {
+  const [attachments, setAttachments] = useState<AttachmentView[]>([]);
+  const [uploading, setUploading] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await fetch(`/api/tasks/attachments?taskId=${taskId}`);
+    if (res.ok) setAttachments((await res.json()).attachments);
+  }, [taskId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+  useTasksChanged(load);
+
+  async function upload(files: File[]) {
+    setError(null);
+    setUploading(files.length);
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        await uploadAttachment(taskId, file);
+      } catch (err) {
+        failures.push(err instanceof Error ? err.message : `${file.name}: upload failed`);
+      }
+      setUploading(count => count - 1);
+    }
+    if (failures.length > 0) setError(failures.join('; '));
+    await load();
+  }
+
+  async function remove(attachment: AttachmentView) {
+    if (!confirm(`Delete ${attachment.filename}?`)) return;
+    const res = await fetch(`/api/tasks/attachments/${attachment.id}`, { method: 'DELETE' });
+    if (!res.ok) setError(`Failed to delete ${attachment.filename}`);
+    await load();
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-medium text-gray-900">Attachments</h3>
+
+      {attachments.length > 0 && (
+        <ul className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="flex items-center gap-3 rounded-lg border border-gray-200 p-2">
+              {attachment.has_thumbnail ? (
+                <a href={`/api/tasks/attachments/${attachment.id}`} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={`/api/tasks/attachments/${attachment.id}?thumbnail=1`}
+                    alt={attachment.filename}
+                    loading="lazy"
+                    className="h-12 w-12 rounded object-cover"
+                  />
+                </a>
+              ) : (
+                <FileIcon name={attachment.filename} />
+              )}
+              <div className="min-w-0 flex-1">
+                <a
+                  href={`/api/tasks/attachments/${attachment.id}`}
+                  download={attachment.filename}
+                  className="block truncate text-sm text-blue-600 hover:text-blue-800"
+                >
+                  {attachment.filename}
+                </a>
+                <p className="text-xs text-gray-500">
+                  {formatBytes(attachment.size_bytes)}
+                  {attachment.width && attachment.height ? ` · ${attachment.width}×${attachment.height}` : ''}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => remove(attachment)}
+                className="text-xs text-red-600 hover:text-red-800"
+                aria-label={`Delete ${attachment.filename}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <DropZone onFiles={upload} disabled={uploading > 0} />
+      {uploading > 0 && <p className="text-sm text-gray-500" role="status">Uploading {uploading} file{uploading === 1 ? '' : 's'}...</p>}
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
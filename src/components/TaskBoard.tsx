@@ -0,0 +1,298 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccessibility } from './AccessibilityProvider';
+
+type BoardSection = { id: string; name: string; status: string | null };
+type BoardTask = { id: string; title: string; status: string; sectionId: string | null; order_index: number; priority: string };
+type Column = { key: string; section: BoardSection | null; taskIds: string[] };
+type Grab = { taskId: string; layout: Column[] };
+
+const UNSECTIONED = '';
+const STATUS_LABELS: Record<string, string> = { todo: 'To do', in_progress: 'In progress', completed: 'Completed' };
+
+const isDone = (task: BoardTask) => task.status === 'completed' || task.status === 'done';
+
+// Completed tasks only show in a column mapped to the completed status
+function buildColumns(sections: BoardSection[], tasks: BoardTask[]): Column[] {
+  return [null, ...sections].map(section => {
+    const key = section?.id ?? UNSECTIONED;
+    const showDone = section?.status === 'completed';
+    const taskIds = tasks
+      .filter(task => (task.sectionId ?? UNSECTIONED) === key && isDone(task) === showDone)
+      .sort((a, b) => a.order_index - b.order_index)
+      .map(task => task.id);
+    return { key, section, taskIds };
+  });
+}
+
+function locate(columns: Column[], taskId: string): { column: number; index: number } {
+  const column = columns.findIndex(col => col.taskIds.includes(taskId));
+  return { column, index: column < 0 ? -1 : columns[column].taskIds.indexOf(taskId) };
+}
+
+function moveWithin(columns: Column[], taskId: string, toColumn: number, toIndex: number): Column[] {
+  const next = columns.map(col => ({ ...col, taskIds: col.taskIds.filter(id => id !== taskId) }));
+  const target = next[toColumn].taskIds;
+  target.splice(Math.max(0, Math.min(toIndex, target.length)), 0, taskId);
+  return next;
+}
+
+// Kanban view of a project's top-level tasks. Cards can be dragged with the mouse, or
+// picked up with Space/Enter, moved with the arrow keys and dropped with Space/Enter.
+export function TaskBoard({ projectId }: { projectId: string | null }) {
+  const { announceToScreenReader, setFocusToElement } = useAccessibility();
+  const [sections, setSections] = useState<BoardSection[]>([]);
+  const [tasks, setTasks] = useState<BoardTask[]>([]);
+  const [columns, setColumns] = useState<Column[]>([]);
+  const [grab, setGrab] = useState<Grab | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [newSection, setNewSection] = useState('');
+
+  const projectParam = projectId ?? 'null';
+
+  const load = useCallback(async () => {
+    const [sectionsRes, tasksRes] = await Promise.all([
+      fetch(`/api/sections?projectId=${projectParam}`),
+      fetch(`/api/tasks?projectId=${projectParam}&parentTaskId=null`)
+    ]);
+    const loadedSections = sectionsRes.ok ? (await sectionsRes.json()).sections : [];
+    const loadedTasks = tasksRes.ok ? await tasksRes.json() : [];
+    setSections(loadedSections);
+    setTasks(loadedTasks);
+    setColumns(buildColumns(loadedSections, loadedTasks));
+  }, [projectParam]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const taskTitle = (taskId: string) => tasks.find(task => task.id === taskId)?.title ?? 'Task';
+  const columnName = (column: Column) => column.section?.name ?? 'No section';
+
+  async function persistMove(taskId: string, layout: Column[]) {
+    const { column, index } = locate(layout, taskId);
+    await fetch('/api/tasks/move', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: taskId, sectionId: layout[column].section?.id ?? null, order_index: index })
+    });
+    await load();
+  }
+
+  function dropAt(toColumn: number, toIndex: number) {
+    if (!dragId) return;
+    const next = moveWithin(columns, dragId, toColumn, toIndex);
+    setColumns(next);
+    setDragId(null);
+    persistMove(dragId, next);
+  }
+
+  function handleCardKeyDown(event: React.KeyboardEvent, taskId: string) {
+    const title = taskTitle(taskId);
+
+    if (!grab) {
+      if (event.key === ' ' || event.key === 'Enter') {
+        event.preventDefault();
+        setGrab({ taskId, layout: columns });
+        announceToScreenReader(`Picked up ${title}. Use the arrow keys to move it, Space to drop or Escape to cancel.`, 'assertive');
+      }
+      return;
+    }
+    if (grab.taskId !== taskId) return;
+
+    const { column, index } = locate(columns, taskId);
+    let next: Column[] | null = null;
+
+    switch (event.key) {
+      case 'ArrowUp':
+        next = index > 0 ? moveWithin(columns, taskId, column, index - 1) : null;
+        break;
+      case 'ArrowDown':
+        next = index < columns[column].taskIds.length - 1 ? moveWithin(columns, taskId, column, index + 1) : null;
+        break;
+      case 'ArrowLeft':
+        next = column > 0 ? moveWithin(columns, taskId, column - 1, index) : null;
+        break;
+      case 'ArrowRight':
+        next = column < columns.length - 1 ? moveWithin(columns, taskId, column + 1, index) : null;
+        break;
+      case ' ':
+      case 'Enter': {
+        event.preventDefault();
+        const to = columns[column];
+        setGrab(null);
+        announceToScreenReader(`Dropped ${title} in ${columnName(to)}, position ${index + 1} of ${to.taskIds.length}.`);
+        persistMove(taskId, columns);
+        return;
+      }
+      case 'Tab':
+        // Leaving the card puts it back rather than keeping it held
+        setColumns(grab.layout);
+        setGrab(null);
+        return;
+      case 'Escape':
+        event.preventDefault();
+        setColumns(grab.layout);
+        setGrab(null);
+        announceToScreenReader(`Move cancelled. ${title} is back where it was.`);
+        setTimeout(() => setFocusToElement(`board-task-${taskId}`), 0);
+        return;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    if (!next) return;
+    setColumns(next);
+    const moved = locate(next, taskId);
+    announceToScreenReader(`${columnName(next[moved.column])}, position ${moved.index + 1} of ${next[moved.column].taskIds.length}.`);
+    // Moving to another column remounts the card, so put focus back on it
+    setTimeout(() => setFocusToElement(`board-task-${taskId}`), 0);
+  }
+
+  async function saveSection(sectionId: string | null, data: Partial<{ name: string; status: string | null }>) {
+    await fetch(sectionId ? `/api/sections/${sectionId}` : '/api/sections', {
+      method: sectionId ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(sectionId ? data : { ...data, projectId })
+    });
+    await load();
+  }
+
+  async function deleteSection(section: BoardSection) {
+    if (!confirm(`Delete the "${section.name}" section? Its tasks move to No section.`)) return;
+    await fetch(`/api/sections/${section.id}`, { method: 'DELETE' });
+    await load();
+  }
+
+  async function shiftSection(index: number, offset: number) {
+    const order = sections.map(section => section.id);
+    const [moved] = order.splice(index, 1);
+    order.splice(index + offset, 0, moved);
+    await fetch('/api/sections/reorder', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ order })
+    });
+    await load();
+  }
+
+  async function addSection() {
+    if (!newSection.trim()) return;
+    await saveSection(null, { name: newSection.trim() });
+    setNewSection('');
+  }
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4" role="region" aria-label="Task board">
+      {columns.map((column, columnIndex) => {
+        const section = column.section;
+        const sectionIndex = columnIndex - 1;
+        return (
+          <section
+            key={column.key || 'unsectioned'}
+            aria-label={columnName(column)}
+            className="flex w-72 shrink-0 flex-col rounded-lg bg-gray-50 p-3 dark:bg-gray-900"
+            onDragOver={e => e.preventDefault()}
+            onDrop={() => dropAt(columnIndex, column.taskIds.length)}
+          >
+            <header className="mb-3 space-y-2">
+              {section ? (
+                <>
+                  <div className="flex items-center gap-1">
+                    <input
+                      defaultValue={section.name}
+                      onBlur={e => e.target.value.trim() && e.target.value.trim() !== section.name && saveSection(section.id, { name: e.target.value.trim() })}
+                      className="min-w-0 flex-1 bg-transparent font-semibold focus:outline-none"
+                      aria-label="Section name"
+                    />
+                    <button
+                      onClick={() => shiftSection(sectionIndex, -1)}
+                      disabled={sectionIndex === 0}
+                      className="px-1 text-gray-500 disabled:opacity-30"
+                      aria-label={`Move ${section.name} left`}
+                    >
+                      ←
+                    </button>
+                    <button
+                      onClick={() => shiftSection(sectionIndex, 1)}
+                      disabled={sectionIndex === sections.length - 1}
+                      className="px-1 text-gray-500 disabled:opacity-30"
+                      aria-label={`Move ${section.name} right`}
+                    >
+                      →
+                    </button>
+                    <button onClick={() => deleteSection(section)} className="px-1 text-red-500" aria-label={`Delete ${section.name}`}>
+                      ×
+                    </button>
+                  </div>
+                  <select
+                    value={section.status ?? ''}
+                    onChange={e => saveSection(section.id, { status: e.target.value || null })}
+                    className="w-full rounded border border-gray-300 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-900"
+                    aria-label={`Status for tasks in ${section.name}`}
+                  >
+                    <option value="">Keeps task status</option>
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>Sets status: {label}</option>
+                    ))}
+                  </select>
+                </>
+              ) : (
+                <h2 className="font-semibold text-gray-500">No section</h2>
+              )}
+            </header>
+
+            <ul className="flex-1 space-y-2">
+              {column.taskIds.map((taskId, index) => {
+                const task = tasks.find(t => t.id === taskId);
+                if (!task) return null;
+                const grabbed = grab?.taskId === taskId;
+                return (
+                  <li key={taskId}>
+                    <div
+                      id={`board-task-${taskId}`}
+                      role="button"
+                      tabIndex={0}
+                      draggable
+                      aria-roledescription="draggable task"
+                      aria-describedby="board-instructions"
+                      aria-pressed={grabbed}
+                      onDragStart={() => setDragId(taskId)}
+                      onDragOver={e => e.preventDefault()}
+                      onDrop={e => { e.stopPropagation(); dropAt(columnIndex, index); }}
+                      onKeyDown={e => handleCardKeyDown(e, taskId)}
+                      className={`cursor-grab rounded border bg-white p-3 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-brand-500 dark:border-gray-800 dark:bg-gray-800 ${grabbed ? 'ring-2 ring-brand-500' : ''}`}
+                    >
+                      <span className={isDone(task) ? 'text-gray-400 line-through' : ''}>{task.title}</span>
+                      {task.status !== 'todo' && !isDone(task) && (
+                        <span className="ml-2 text-xs text-gray-500">{STATUS_LABELS[task.status] ?? task.status}</span>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        );
+      })}
+
+      <div className="w-72 shrink-0">
+        <input
+          value={newSection}
+          onChange={e => setNewSection(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') addSection(); }}
+          placeholder="Add section"
+          className="w-full rounded border border-gray-300 px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+          aria-label="New section name"
+        />
+      </div>
+
+      <p id="board-instructions" className="sr-only">
+        Press Space or Enter to pick up a task. Use the arrow keys to move it between positions and sections,
+        then press Space or Enter to drop it, or Escape to cancel.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { CommentComposer, CommentThread, type CommentView } from './CommentThread';
+import { useTasksChanged } from '@/lib/useUndo';
+
+type ActivityEntry = {
+  id: string;
+  type: 'created' | 'restored' | 'rescheduled' | 'completed' | 'reopened' | 'focus';
+  created_at: string;
+  data: { from?: string | null; to?: string | null; all_day?: boolean; minutes?: number; pomodoros?: number };
+};
+
+type FeedItem =
+  | { kind: 'activity'; at: string; entry: ActivityEntry }
+  | { kind: 'comment'; at: string; comment: CommentView };
+
+function formatDue(value: string | null | undefined, allDay?: boolean): string {
+  if (!value) return 'no date';
+  const date = new Date(value);
+  // All-day dates are stored as UTC midnight
+  return allDay ? date.toLocaleDateString(undefined, { timeZone: 'UTC' }) : date.toLocaleString();
+}
+
+function describeActivity(entry: ActivityEntry): string {
+  switch (entry.type) {
+    case 'created':
+      return 'Created the task';
+    case 'restored':
+      return 'Restored the task';
+    case 'rescheduled':
+      return `Rescheduled from ${formatDue(entry.data.from, entry.data.all_day)} to ${formatDue(entry.data.to, entry.data.all_day)}`;
+    case 'completed':
+      return 'Completed the task';
+    case 'reopened':
+      return 'Reopened the task';
+    case 'focus':
+      return `Focused for ${entry.data.minutes ?? 0} min${entry.data.pomodoros ? ` (${entry.data.pomodoros} pomodoro${entry.data.pomodoros === 1 ? '' : 's'})` : ''}`;
+  }
+}
+
+async function commentsApi(path: string, method: 'POST' | 'PATCH' | 'DELETE', body?: object): Promise<void> {
+  const res = await fetch(path, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed (${res.status})`);
+  }
+}
+
+// Comment threads interleaved with what happened to the task, oldest first
+export function TaskCommentsPanel({ taskId }: { taskId: string }) {
+  const [comments, setComments] = useState<CommentView[]>([]);
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [participants, setParticipants] = useState<Array<{ handle: string; name: string }>>([]);
+  const [showActivity, setShowActivity] = useState(true);
+
+  const load = useCallback(async () => {
+    const [commentsRes, activityRes] = await Promise.all([
+      fetch(`/api/comments?taskId=${taskId}`),
+      fetch(`/api/tasks/activity?id=${taskId}`)
+    ]);
+    if (commentsRes.ok) {
+      const data = await commentsRes.json();
+      setComments(data.comments);
+      setParticipants(data.participants);
+    }
+    if (activityRes.ok) setActivity((await activityRes.json()).activity);
+  }, [taskId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+  useTasksChanged(load);
+
+  async function add(body: string, parentId?: string) {
+    await commentsApi('/api/comments', 'POST', { taskId, body, parentId });
+    await load();
+  }
+
+  async function edit(commentId: string, body: string) {
+    await commentsApi(`/api/comments/${commentId}`, 'PATCH', { body });
+    await load();
+  }
+
+  async function remove(commentId: string) {
+    await commentsApi(`/api/comments/${commentId}`, 'DELETE');
+    await load();
+  }
+
+  const feed: FeedItem[] = [
+    ...(showActivity ? activity.map(entry => ({ kind: 'activity' as const, at: entry.created_at, entry })) : []),
+    ...comments.map(comment => ({ kind: 'comment' as const, at: comment.created_at, comment }))
+  ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">Comments</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={showActivity} onChange={(e) => setShowActivity(e.target.checked)} />
+          Show activity
+        </label>
+      </div>
+
+      {feed.length === 0 && <p className="text-sm text-gray-500">No comments yet.</p>}
+      <ol className="space-y-3">
+        {feed.map(item => item.kind === 'activity' ? (
+          <li key={item.entry.id} className="flex items-center gap-2 text-xs text-gray-500">
+            <span className="h-1.5 w-1.5 rounded-full bg-gray-300" aria-hidden="true" />
+            <span>{describeActivity(item.entry)}</span>
+            <time dateTime={item.at}>· {new Date(item.at).toLocaleString()}</time>
+          </li>
+        ) : (
+          <li key={item.comment.id}>
+            {/* The owner can delete any comment on their task */}
+            <CommentThread
+              comments={[item.comment]}
+              onReply={(parentId, body) => add(body, parentId)}
+              onEdit={edit}
+              onDelete={remove}
+              canDelete={() => true}
+            />
+          </li>
+        ))}
+      </ol>
+
+      <CommentComposer onSubmit={body => add(body)} />
+      {participants.length > 1 && (
+        <p className="text-xs text-gray-500">
+          Can be mentioned: {participants.map(participant => `@${participant.handle}`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,20 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { TaskManager, TaskWithSubtasks } from '@/lib/taskManager';
+import type { TaskWithSubtasks } from '@/lib/taskManager';
+import type { EditScope } from '@/lib/taskSeries';
 import { RRuleParser, RecurrenceRule } from '@/lib/rrule';
+import { allDayDate, allDayKey } from '@/lib/timezone';
+import { checklistItems, toggleChecklistItem } from '@/lib/markdown';
+import { EditScopePicker } from './EditScopePicker';
+import { DependenciesPanel } from './DependenciesPanel';
+import { TaskHistoryPanel } from './TaskHistoryPanel';
+import { TaskCommentsPanel } from './TaskCommentsPanel';
+import { TaskAttachments } from './TaskAttachments';
+import { MarkdownEditor } from './MarkdownEditor';
+import { useProjects } from '@/lib/useProjects';
+import { offerUndo, undoBatchFrom } from '@/lib/useUndo';
+import { saveTaskTemplate } from '@/lib/useTaskTemplates';
 
 interface TaskEditModalProps {
   task?: TaskWithSubtasks | null;
@@ -17,8 +29,10 @@ interface TaskFormData {
   description: string;
   priority: 'low' | 'medium' | 'high';
   due_at: string;
+  all_day: boolean;
   estimate_min: number;
   tags: string[];
+  projectId: string;
   recurrence_rule: string;
   reminder_time: string;
   reminder_frequency: 'once' | 'hourly' | 'daily' | 'weekly' | 'custom';
@@ -29,13 +43,37 @@ const defaultFormData: TaskFormData = {
   description: '',
   priority: 'medium',
   due_at: '',
+  all_day: false,
   estimate_min: 0,
   tags: [],
+  projectId: '',
   recurrence_rule: '',
   reminder_time: '',
   reminder_frequency: 'once'
 };
 
+// An all-day date is sent as UTC midnight so it stays on that date in every zone
+function dueAtValue(formData: TaskFormData): string | undefined {
+  if (!formData.due_at) return undefined;
+  return formData.all_day
+    ? allDayDate(formData.due_at.slice(0, 10)).toISOString()
+    : new Date(formData.due_at).toISOString();
+}
+
+// `suffix` is a query string or sub-route of /api/tasks. `undoMessage` offers the change
+// for undo in a toast once it's made.
+async function tasksApi(method: 'GET' | 'POST' | 'PATCH' | 'DELETE', body?: object, suffix = '', undoMessage?: string): Promise<any> {
+  const res = await fetch(`/api/tasks${suffix}`, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  if (undoMessage) offerUndo(undoMessage, undoBatchFrom(res));
+  return data;
+}
+
 export default function TaskEditModal({ 
   task, 
   isOpen, 
@@ -50,9 +88,17 @@ export default function TaskEditModal({
   const [newTag, setNewTag] = useState('');
   const [showSubtasks, setShowSubtasks] = useState(false);
   const [subtasks, setSubtasks] = useState<TaskWithSubtasks[]>([]);
-
-  // Mock user ID for now - replace with actual auth
-  const userId = 'mock-user-id';
+  const [scope, setScope] = useState<EditScope>('this');
+  // The description as saved, which checklist line numbers refer to when promoting items
+  const [savedDescription, setSavedDescription] = useState('');
+  const [templateNote, setTemplateNote] = useState<string | null>(null);
+  const { projects } = useProjects();
+
+  const isRecurring = !!task?.recurrence_rule;
+  const recurrenceValue = showRecurrence ? formData.recurrence_rule : '';
+  const ruleChanged = !!task && recurrenceValue !== (task.recurrence_rule || '');
+  // A new rule belongs to the series, so it can't be saved for one occurrence only
+  const effectiveScope: EditScope = ruleChanged && scope === 'this' ? 'following' : scope;
 
   useEffect(() => {
     if (task) {
@@ -60,21 +106,27 @@ export default function TaskEditModal({
         title: task.title,
         description: task.description || '',
         priority: task.priority as any,
-        due_at: task.due_at ? new Date(task.due_at).toISOString().slice(0, 16) : '',
+        due_at: task.due_at
+          ? task.all_day ? allDayKey(new Date(task.due_at)) : new Date(task.due_at).toISOString().slice(0, 16)
+          : '',
+        all_day: task.all_day,
         estimate_min: task.estimate_min || 0,
         tags: JSON.parse(task.tags_json),
+        projectId: task.projectId || '',
         recurrence_rule: task.recurrence_rule || '',
         reminder_time: task.reminder_time ? new Date(task.reminder_time).toISOString().slice(0, 16) : '',
         reminder_frequency: (task.reminder_frequency as any) || 'once'
       });
       
       if (task.recurrence_rule) {
-        const rule = RRuleParser.parse(task.recurrence_rule);
+        const rule = RRuleParser.parse(task.recurrence_rule, task.due_at ? new Date(task.due_at) : new Date());
         setRecurrenceRule(rule);
         setShowRecurrence(true);
       }
       
       setSubtasks(task.subtasks || []);
+      setSavedDescription(task.description || '');
+      setScope('this');
     } else {
       setFormData({ ...defaultFormData });
       setRecurrenceRule(null);
@@ -92,29 +144,36 @@ export default function TaskEditModal({
     
     try {
       if (task) {
-        // Update existing task
-        await TaskManager.updateTask(task.id, userId, {
+        // Update existing task; the rule is only sent when it changed so an
+        // "only this occurrence" edit doesn't touch the series
+        await tasksApi('PATCH', {
+          id: task.id,
           title: formData.title,
           description: formData.description,
           priority: formData.priority,
-          due_at: formData.due_at ? new Date(formData.due_at) : undefined,
+          due_at: dueAtValue(formData),
+          all_day: formData.all_day,
           estimate_min: formData.estimate_min,
           tags: formData.tags,
-          recurrence_rule: formData.recurrence_rule,
-          reminder_time: formData.reminder_time ? new Date(formData.reminder_time) : undefined,
-          reminder_frequency: formData.reminder_frequency
+          projectId: formData.projectId,
+          ...(ruleChanged ? { recurrence_rule: recurrenceValue } : {}),
+          reminder_time: formData.reminder_time ? new Date(formData.reminder_time).toISOString() : undefined,
+          reminder_frequency: formData.reminder_frequency,
+          ...(isRecurring ? { scope: effectiveScope } : {})
         });
       } else {
         // Create new task
-        await TaskManager.createTask(userId, {
+        await tasksApi('POST', {
           title: formData.title,
           description: formData.description,
           priority: formData.priority,
-          due_at: formData.due_at ? new Date(formData.due_at) : undefined,
+          due_at: dueAtValue(formData),
+          all_day: formData.all_day,
           estimate_min: formData.estimate_min,
           tags: formData.tags,
-          recurrence_rule: formData.recurrence_rule,
-          reminder_time: formData.reminder_time ? new Date(formData.reminder_time) : undefined,
+          projectId: formData.projectId || undefined,
+          recurrence_rule: recurrenceValue || undefined,
+          reminder_time: formData.reminder_time ? new Date(formData.reminder_time).toISOString() : undefined,
           reminder_frequency: formData.reminder_frequency,
           parent_task_id: parentTaskId
         });
@@ -129,6 +188,35 @@ export default function TaskEditModal({
     }
   };
 
+  const handleSkip = async () => {
+    if (!task) return;
+
+    setIsLoading(true);
+    try {
+      await tasksApi('PATCH', { id: task.id, action: 'skip' }, '', `Skipped "${task.title}"`);
+      onSave();
+      onClose();
+    } catch (error) {
+      console.error('Failed to skip occurrence:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Saves the task as last saved, with its subtasks, for /template in QuickAdd
+  const handleSaveAsTemplate = async () => {
+    if (!task) return;
+    const name = prompt('Name this template', task.title);
+    if (!name?.trim()) return;
+
+    try {
+      await saveTaskTemplate(null, { name: name.trim(), taskId: task.id });
+      setTemplateNote(`Saved as template "${name.trim()}"`);
+    } catch (error) {
+      setTemplateNote(error instanceof Error ? error.message : 'Failed to save template');
+    }
+  };
+
   const handleAddTag = () => {
     if (newTag.trim() && !formData.tags.includes(newTag.trim())) {
       setFormData(prev => ({
@@ -150,7 +238,7 @@ export default function TaskEditModal({
     const newRule: RecurrenceRule = {
       ...recurrenceRule,
       [field]: value,
-      startDate: new Date()
+      startDate: formData.due_at ? new Date(formData.due_at) : new Date()
     } as RecurrenceRule;
 
     setRecurrenceRule(newRule);
@@ -164,13 +252,13 @@ export default function TaskEditModal({
     if (!task) return;
     
     try {
-      await TaskManager.createTask(userId, {
+      await tasksApi('POST', {
         title: 'New subtask',
         parent_task_id: task.id
       });
       
       // Refresh subtasks
-      const updatedTask = await TaskManager.getTasks(userId, { parentTaskId: task.id });
+      const updatedTask = await tasksApi('GET', undefined, `?parentTaskId=${task.id}`);
       setSubtasks(updatedTask);
     } catch (error) {
       console.error('Failed to add subtask:', error);
@@ -179,18 +267,19 @@ export default function TaskEditModal({
 
   const updateSubtask = async (subtaskId: string, data: Partial<TaskFormData>) => {
     try {
-      await TaskManager.updateTask(subtaskId, userId, {
+      await tasksApi('PATCH', {
+        id: subtaskId,
         title: data.title,
         description: data.description,
         priority: data.priority,
-        due_at: data.due_at ? new Date(data.due_at) : undefined,
+        due_at: data.due_at ? new Date(data.due_at).toISOString() : undefined,
         estimate_min: data.estimate_min,
         tags: data.tags
       });
       
       // Refresh subtasks
       if (task) {
-        const updatedTask = await TaskManager.getTasks(userId, { parentTaskId: task.id });
+        const updatedTask = await tasksApi('GET', undefined, `?parentTaskId=${task.id}`);
         setSubtasks(updatedTask);
       }
     } catch (error) {
@@ -198,13 +287,31 @@ export default function TaskEditModal({
     }
   };
 
-  const deleteSubtask = async (subtaskId: string) => {
+  // Turns checklist items in the saved description into subtasks; all of them without `lines`
+  const promoteChecklist = async (lines?: number[]) => {
+    if (!task) return;
+
     try {
-      await TaskManager.deleteTask(subtaskId, userId);
+      const result = await tasksApi('POST', { id: task.id, lines }, '/checklist', 'Made checklist items into subtasks');
+      const description = result.task.description || '';
+      setFormData(prev => ({ ...prev, description }));
+      setSavedDescription(description);
+
+      const updatedTask = await tasksApi('GET', undefined, `?parentTaskId=${task.id}`);
+      setSubtasks(updatedTask);
+      setShowSubtasks(true);
+    } catch (error) {
+      console.error('Failed to promote checklist:', error);
+    }
+  };
+
+  const deleteSubtask = async (subtask: TaskWithSubtasks) => {
+    try {
+      await tasksApi('DELETE', undefined, `?id=${subtask.id}`, `Deleted "${subtask.title}"`);
       
       // Refresh subtasks
       if (task) {
-        const updatedTask = await TaskManager.getTasks(userId, { parentTaskId: task.id });
+        const updatedTask = await tasksApi('GET', undefined, `?parentTaskId=${task.id}`);
         setSubtasks(updatedTask);
       }
     } catch (error) {
@@ -212,6 +319,8 @@ export default function TaskEditModal({
     }
   };
 
+  const canPromote = !!task && formData.description === savedDescription;
+
   if (!isOpen) return null;
 
   return (
@@ -252,12 +361,22 @@ export default function TaskEditModal({
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Description
                 </label>
-                <textarea
+                <MarkdownEditor
                   value={formData.description}
-                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  onChange={description => setFormData(prev => ({ ...prev, description }))}
                   rows={3}
-                  className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  onToggle={line => setFormData(prev => ({ ...prev, description: toggleChecklistItem(prev.description, line) }))}
+                  onPromote={canPromote ? line => promoteChecklist([line]) : undefined}
                 />
+                {task && checklistItems(formData.description).length > 0 && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {canPromote ? (
+                      <button type="button" onClick={() => promoteChecklist()} className="text-blue-600 hover:text-blue-800">
+                        Make every checklist item a subtask
+                      </button>
+                    ) : 'Save the description to turn its checklist items into subtasks'}
+                  </p>
+                )}
         </div>
 
               <div className="grid grid-cols-2 gap-4">
@@ -296,11 +415,27 @@ export default function TaskEditModal({
                     Due Date
                   </label>
                   <input
-                    type="datetime-local"
+                    type={formData.all_day ? 'date' : 'datetime-local'}
                     value={formData.due_at}
                     onChange={(e) => setFormData(prev => ({ ...prev, due_at: e.target.value }))}
                     className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   />
+                  <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.all_day}
+                      onChange={(e) => {
+                        const allDay = e.target.checked;
+                        setFormData(prev => ({
+                          ...prev,
+                          all_day: allDay,
+                          due_at: prev.due_at && (allDay ? prev.due_at.slice(0, 10) : `${prev.due_at.slice(0, 10)}T09:00`)
+                        }));
+                      }}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    All day
+                  </label>
           </div>
 
               <div>
@@ -334,6 +469,23 @@ export default function TaskEditModal({
               </div>
             </div>
 
+            {/* Project */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Project
+              </label>
+              <select
+                value={formData.projectId}
+                onChange={(e) => setFormData(prev => ({ ...prev, projectId: e.target.value }))}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Inbox</option>
+                {projects.map(project => (
+                  <option key={project.id} value={project.id}>{project.name}</option>
+                ))}
+              </select>
+            </div>
+
             {/* Tags */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -496,7 +648,7 @@ export default function TaskEditModal({
                         <div className="flex gap-2 mt-2">
                           <button
                             type="button"
-                            onClick={() => deleteSubtask(subtask.id)}
+                            onClick={() => deleteSubtask(subtask)}
                             className="text-red-600 hover:text-red-800 text-sm"
                           >
                             Delete
@@ -516,6 +668,25 @@ export default function TaskEditModal({
               </div>
             )}
 
+            {/* Tasks this one waits on */}
+            {task && <DependenciesPanel taskId={task.id} />}
+
+            {/* Specs, screenshots and other files */}
+            {task && <TaskAttachments taskId={task.id} />}
+
+            {/* Discussion and what happened to the task */}
+            {task && <TaskCommentsPanel taskId={task.id} />}
+
+            {/* Past changes, each undoable */}
+            {task && <TaskHistoryPanel taskId={task.id} />}
+
+            {/* Which occurrences of a recurring task the save applies to */}
+            {isRecurring && (
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <EditScopePicker value={effectiveScope} onChange={setScope} disableThis={ruleChanged} />
+              </div>
+            )}
+
             {/* Actions */}
             <div className="flex gap-3 pt-4">
               <button
@@ -525,6 +696,26 @@ export default function TaskEditModal({
               >
                 {isLoading ? 'Saving...' : (task ? 'Update Task' : 'Create Task')}
               </button>
+              {isRecurring && task?.status !== 'completed' && (
+                <button
+                  type="button"
+                  onClick={handleSkip}
+                  disabled={isLoading}
+                  className="px-6 py-3 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Skip this occurrence
+                </button>
+              )}
+              {task && !task.parent_task_id && (
+                <button
+                  type="button"
+                  onClick={handleSaveAsTemplate}
+                  disabled={isLoading}
+                  className="px-6 py-3 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Save as template
+                </button>
+              )}
               <button
                 type="button"
                 onClick={onClose}
@@ -533,6 +724,7 @@ export default function TaskEditModal({
                 Cancel
               </button>
         </div>
+            {templateNote && <p role="status" className="text-sm text-gray-600">{templateNote}</p>}
           </form>
         </div>
       </div>
@@ -0,0 +1,124 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { undoChange, useTasksChanged } from '@/lib/useUndo';
+
+type HistoryEntry = {
+  id: string;
+  batchId: string;
+  action: string;
+  created_at: string;
+  undone_at: string | null;
+  kind: 'created' | 'deleted' | 'updated';
+  changes: Array<{ field: string; before: unknown; after: unknown }>;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  due_at: 'due',
+  all_day: 'all day',
+  tags_json: 'tags',
+  projectId: 'project',
+  sectionId: 'section',
+  parent_task_id: 'parent task',
+  estimate_min: 'estimate',
+  reminder_time: 'reminder',
+  recurrence_rule: 'repeats',
+  scheduled_start: 'scheduled from',
+  scheduled_end: 'scheduled until'
+};
+
+function describeAction(action: string): string {
+  if (action.startsWith('bulk_')) return `${action.slice(5)} (bulk)`;
+  return action;
+}
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return 'none';
+  if (field === 'due_at' || field === 'reminder_time' || field.startsWith('scheduled_')) return new Date(value as string).toLocaleString();
+  if (field === 'tags_json') {
+    const tags: string[] = JSON.parse(value as string);
+    return tags.length ? tags.map(tag => `#${tag}`).join(' ') : 'none';
+  }
+  return String(value);
+}
+
+// Past changes to one task from the change journal, newest first, each undoable while the
+// task still matches what that change left behind
+export function TaskHistoryPanel({ taskId }: { taskId: string }) {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await fetch(`/api/tasks/history?id=${taskId}`);
+    if (res.ok) setEntries((await res.json()).history);
+  }, [taskId]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+  useTasksChanged(load);
+
+  async function undo(batchId: string) {
+    setError(null);
+    try {
+      await undoChange(batchId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo');
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">History</h3>
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+          className="text-blue-600 hover:text-blue-800 transition-colors"
+        >
+          {open ? 'Hide' : 'Show'} History
+        </button>
+      </div>
+
+      {open && (
+        <div className="space-y-2 text-sm">
+          {error && <p role="alert" className="text-red-600">{error}</p>}
+          {entries.length === 0 && <p className="text-gray-500">No changes recorded in the last 30 days.</p>}
+          <ol className="space-y-2">
+            {entries.map(entry => (
+              <li key={entry.id} className={`p-3 border border-gray-200 rounded-lg ${entry.undone_at ? 'opacity-60' : ''}`}>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium capitalize">{describeAction(entry.action)}</span>
+                  <time dateTime={entry.created_at} className="flex-1 text-gray-500">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </time>
+                  {entry.undone_at ? (
+                    <span className="text-gray-500">Undone</span>
+                  ) : (
+                    // Undoing an undo puts the change back
+                    <button type="button" onClick={() => undo(entry.batchId)} className="text-blue-600 hover:text-blue-800">
+                      {entry.action === 'undo' ? 'Redo' : 'Undo'}
+                    </button>
+                  )}
+                </div>
+                {entry.kind !== 'updated' ? (
+                  <p className="text-gray-600">Task {entry.kind}</p>
+                ) : (
+                  <ul className="text-gray-600">
+                    {entry.changes.map(change => (
+                      <li key={change.field}>
+                        {FIELD_LABELS[change.field] ?? change.field}: {formatValue(change.field, change.before)} → {formatValue(change.field, change.after)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,12 @@
 import React, { useState, useEffect } from 'react';
 import { TaskManager, TaskWithSubtasks, TaskFilters } from '@/lib/taskManager';
 import QuickAdd from './QuickAdd';
+import { displayDue } from '@/lib/timezone';
 import TaskEditModal from './TaskEditModal';
+import { Markdown } from './Markdown';
+import { BulkActionBar } from './BulkActionBar';
+import { taskRowId, useTaskSelection } from '@/lib/useTaskSelection';
+import { offerUndo, undoBatchFrom, useTasksChanged } from '@/lib/useUndo';
 
 interface TaskListViewProps {
   view: 'today' | 'upcoming' | 'overdue' | 'completed';
@@ -29,6 +34,9 @@ export default function TaskListView({ view, title, onTaskUpdate }: TaskListView
     selectedTask: null,
     isEditModalOpen: false
   });
+  // Multi-select mode for acting on many tasks at once
+  const [selecting, setSelecting] = useState(false);
+  const selection = useTaskSelection(state.tasks.map(task => task.id));
 
   // Mock user ID for now - replace with actual auth
   const userId = 'mock-user-id';
@@ -85,12 +93,20 @@ export default function TaskListView({ view, title, onTaskUpdate }: TaskListView
       setState(prev => ({ ...prev, isLoading: false }));
     }
   };
+  useTasksChanged(loadTasks);
 
+  // Completing and deleting go through the API so the change is journaled and can be undone
   const handleTaskComplete = async (taskId: string) => {
     try {
-      await TaskManager.completeTask(taskId, userId);
+      const res = await fetch('/api/tasks', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: taskId, action: 'complete' })
+      });
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
       loadTasks();
       onTaskUpdate?.();
+      offerUndo(`Completed "${titleOf(taskId)}"`, undoBatchFrom(res));
     } catch (error) {
       console.error('Failed to complete task:', error);
     }
@@ -99,15 +115,19 @@ export default function TaskListView({ view, title, onTaskUpdate }: TaskListView
   const handleTaskDelete = async (taskId: string) => {
     if (confirm('Are you sure you want to delete this task?')) {
       try {
-        await TaskManager.deleteTask(taskId, userId);
+        const res = await fetch(`/api/tasks?id=${encodeURIComponent(taskId)}`, { method: 'DELETE' });
+        if (!res.ok) throw new Error(`Request failed (${res.status})`);
         loadTasks();
         onTaskUpdate?.();
+        offerUndo(`Deleted "${titleOf(taskId)}"`, undoBatchFrom(res));
       } catch (error) {
         console.error('Failed to delete task:', error);
       }
     }
   };
 
+  const titleOf = (taskId: string) => state.tasks.find(task => task.id === taskId)?.title ?? 'task';
+
   const handleTaskEdit = (task: TaskWithSubtasks) => {
     setState(prev => ({ ...prev, selectedTask: task, isEditModalOpen: true }));
   };
@@ -144,11 +164,11 @@ export default function TaskListView({ view, title, onTaskUpdate }: TaskListView
     }
   };
 
-  const formatDueDate = (dueDate: Date | null) => {
+  const formatDueDate = (dueDate: Date | undefined, allDay: boolean) => {
     if (!dueDate) return 'No due date';
     
     const now = new Date();
-    const due = new Date(dueDate);
+    const due = displayDue(dueDate, allDay);
     const diffTime = due.getTime() - now.getTime();
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
     
@@ -237,12 +257,38 @@ export default function TaskListView({ view, title, onTaskUpdate }: TaskListView
     </div>
   );
 
+  const toggleSelecting = () => {
+    if (selecting) selection.clear();
+    setSelecting(!selecting);
+  };
+
+  // In select mode a click anywhere on the row that isn't a control picks the task
+  const handleRowClick = (e: React.MouseEvent, taskId: string) => {
+    if (!selecting || (e.target as HTMLElement).closest('button, input, a')) return;
+    selection.toggle(taskId, { range: e.shiftKey });
+  };
+
   const renderTask = (task: TaskWithSubtasks) => (
     <div
       key={task.id}
-      className="bg-white p-4 rounded-lg shadow-sm border hover:shadow-md transition-shadow"
+      id={taskRowId(task.id)}
+      role={selecting ? 'option' : undefined}
+      aria-selected={selecting ? selection.isSelected(task.id) : undefined}
+      onClick={e => handleRowClick(e, task.id)}
+      className={`bg-white p-4 rounded-lg shadow-sm border hover:shadow-md transition-shadow ${
+        selecting && selection.isSelected(task.id) ? 'border-blue-400 bg-blue-50' : ''
+      } ${selecting && selection.focusedId === task.id ? 'ring-2 ring-blue-500' : ''}`}
     >
       <div className="flex items-start justify-between">
+        {selecting && (
+          <input
+            type="checkbox"
+            checked={selection.isSelected(task.id)}
+            onChange={e => selection.toggle(task.id, { range: (e.nativeEvent as MouseEvent).shiftKey })}
+            className="mt-1.5 mr-3 w-4 h-4"
+            aria-label={`Select ${task.title}`}
+          />
+        )}
         <div className="flex-1">
           <div className="flex items-center gap-3 mb-2">
             <h3 className="text-lg font-medium text-gray-900">{task.title}</h3>
@@ -252,14 +298,19 @@ export default function TaskListView({ view, title, onTaskUpdate }: TaskListView
             <span className={`px-2 py-1 text-xs font-medium rounded-full border ${getStatusColor(task.status)}`}>
               {task.status.replace('_', ' ')}
             </span>
+            {task.blocked && (
+              <span className="px-2 py-1 text-xs font-medium rounded-full border bg-gray-100 text-gray-700 border-gray-300" title="Waiting on another task">
+                blocked
+              </span>
+            )}
           </div>
           
           {task.description && (
-            <p className="text-gray-600 mb-3">{task.description}</p>
+            <Markdown source={task.description} className="text-gray-600 mb-3" />
           )}
           
           <div className="flex items-center gap-4 text-sm text-gray-500 mb-3">
-            <span>Due: {formatDueDate(task.due_at)}</span>
+            <span>Due: {formatDueDate(task.due_at, task.all_day)}</span>
             {task.estimate_min && task.estimate_min > 0 && (
               <span>Estimate: {task.estimate_min}m</span>
             )}
@@ -365,8 +416,17 @@ export default function TaskListView({ view, title, onTaskUpdate }: TaskListView
       {/* Header */}
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold text-gray-900">{title}</h1>
-        <div className="text-sm text-gray-600">
+        <div className="flex items-center gap-3 text-sm text-gray-600">
           {state.tasks.length} task{state.tasks.length !== 1 ? 's' : ''}
+          {state.tasks.length > 0 && (
+            <button
+              onClick={toggleSelecting}
+              aria-pressed={selecting}
+              className="px-3 py-1 border rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              {selecting ? 'Done selecting' : 'Select'}
+            </button>
+          )}
         </div>
       </div>
 
@@ -382,8 +442,32 @@ export default function TaskListView({ view, title, onTaskUpdate }: TaskListView
       {/* Filters */}
       {renderFilters()}
 
+      {selecting && (
+        <>
+          <BulkActionBar
+            selectedIds={selection.selectedIds}
+            onDone={() => {
+              loadTasks();
+              onTaskUpdate?.();
+            }}
+            onClear={selection.clear}
+          />
+          <p className="text-xs text-gray-500">
+            Shift-click selects a range. In the list, use the arrow keys or j/k to move, Shift to extend, Space or x to select, Ctrl+A for all and Escape to clear.
+          </p>
+        </>
+      )}
+
       {/* Task List */}
-      <div className="space-y-4">
+      <div
+        className="space-y-4 focus:outline-none"
+        role={selecting ? 'listbox' : undefined}
+        aria-label={selecting ? `${title}, select tasks` : undefined}
+        aria-multiselectable={selecting || undefined}
+        aria-activedescendant={selecting && selection.focusedId ? taskRowId(selection.focusedId) : undefined}
+        tabIndex={selecting ? 0 : undefined}
+        onKeyDown={selecting ? selection.onKeyDown : undefined}
+      >
         {state.tasks.length === 0 ? (
           <div className="text-center py-12">
             <div className="text-gray-400 mb-4">
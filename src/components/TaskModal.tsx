@@ -3,6 +3,12 @@
 import { useState, useEffect, useRef } from 'react';
 import { useAccessibility } from './AccessibilityProvider';
 import { generateRRuleString, previewOccurrences } from '@/lib/rrule';
+import { checklistItems, removeChecklistItems, toggleChecklistItem } from '@/lib/markdown';
+import type { TaskTemplateDefinition } from '@/lib/taskTemplateDefinition';
+import { instantiateTemplate, saveTaskTemplate, useTaskTemplates } from '@/lib/useTaskTemplates';
+import { AttachmentPicker, uploadAttachment } from './TaskAttachments';
+import { MarkdownEditor } from './MarkdownEditor';
+import { TemplateFields } from './TemplateFields';
 
 type Subtask = {
   id?: string;
@@ -28,7 +34,12 @@ export function TaskModal({ userId, onClose, onCreated, parentTaskId }: Props) {
   const [recurrence, setRecurrence] = useState("");
   const [subtasks, setSubtasks] = useState<Subtask[]>([]);
   const [newSubtask, setNewSubtask] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
   const [busy, setBusy] = useState(false);
+  const [templateId, setTemplateId] = useState('');
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [templateStart, setTemplateStart] = useState('');
+  const [templateError, setTemplateError] = useState<string | null>(null);
   const [showAdvancedRecurrence, setShowAdvancedRecurrence] = useState(false);
   
   // Advanced recurrence options
@@ -43,6 +54,8 @@ export function TaskModal({ userId, onClose, onCreated, parentTaskId }: Props) {
   const modalRef = useRef<HTMLDivElement>(null);
   const titleInputRef = useRef<HTMLInputElement>(null);
   const { trapFocus, releaseFocusTrap, announceToScreenReader } = useAccessibility();
+  const { templates } = useTaskTemplates();
+  const template = templates.find(t => t.id === templateId) ?? null;
 
   useEffect(() => {
     trapFocus(modalRef);
@@ -98,6 +111,15 @@ export function TaskModal({ userId, onClose, onCreated, parentTaskId }: Props) {
     setSubtasks(newSubtasks);
   };
 
+  // A checklist item in the description becomes a subtask of the new task
+  const promoteChecklistItem = (line: number) => {
+    const item = checklistItems(description).find(entry => entry.line === line);
+    if (!item?.text) return;
+
+    setSubtasks([...subtasks, { title: item.text.replace(/\s+/g, ' '), order_index: subtasks.length }]);
+    setDescription(removeChecklistItems(description, [item]));
+  };
+
   // Generate RRULE string from advanced options
   const generateRecurrenceRule = () => {
     const rule: any = {
@@ -117,16 +139,68 @@ export function TaskModal({ userId, onClose, onCreated, parentTaskId }: Props) {
   // Preview recurrence occurrences
   const previewRecurrence = () => {
     if (!due) return [];
-    
-    const rule = generateRecurrenceRule();
-    const parsed = rule ? { freq: recurrenceFreq, interval: recurrenceInterval } : null;
-    
-    if (parsed) {
-      return previewOccurrences(due, parsed, 5);
-    }
-    return [];
+    return previewOccurrences(due, generateRecurrenceRule(), 5);
   };
 
+  async function createFromTemplate() {
+    if (!template) return;
+
+    const missing = template.variables.find(name => !templateValues[name]?.trim());
+    if (missing) {
+      setTemplateError(`Fill in {{${missing}}}`);
+      document.getElementById(`modal-template-var-${missing}`)?.focus();
+      return;
+    }
+
+    setBusy(true);
+    setTemplateError(null);
+    try {
+      await instantiateTemplate(template, { values: templateValues, start: templateStart || undefined });
+      announceToScreenReader(`Created tasks from ${template.name}`);
+      onCreated?.();
+      onClose();
+    } catch (error) {
+      setTemplateError(error instanceof Error ? error.message : 'Failed to use template');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // The form as a template. The due date is kept as days from today, so the template's
+  // task falls due as far ahead of whichever day it's used.
+  async function saveAsTemplate() {
+    if (!title.trim()) {
+      announceToScreenReader('Please enter a task title', 'assertive');
+      titleInputRef.current?.focus();
+      return;
+    }
+    const name = prompt('Name this template', title.trim());
+    if (!name?.trim()) return;
+
+    const today = new Date();
+    const dueDay = due ? new Date(`${due.slice(0, 10)}T00:00`) : null;
+    const definition: TaskTemplateDefinition = {
+      title: title.trim(),
+      description: description.trim() || undefined,
+      priority,
+      estimate_min: estimate || undefined,
+      tags: tags ? tags.split(',').map(s => s.trim()).filter(Boolean) : undefined,
+      due: dueDay ? {
+        days: Math.round((dueDay.getTime() - new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime()) / 86400000),
+        time: due.slice(11, 16) || undefined
+      } : undefined,
+      recurrence_rule: (showAdvancedRecurrence ? generateRecurrenceRule() : recurrence) || undefined,
+      subtasks: subtasks.filter(subtask => subtask.title.trim()).map(subtask => ({ title: subtask.title.trim() }))
+    };
+
+    try {
+      await saveTaskTemplate(null, { name: name.trim(), definition });
+      announceToScreenReader(`Saved template ${name.trim()}`);
+    } catch (error) {
+      announceToScreenReader(error instanceof Error ? error.message : 'Failed to save template', 'assertive');
+    }
+  }
+
   async function createTask() {
     if (!title.trim()) {
       announceToScreenReader('Please enter a task title', 'assertive');
@@ -139,7 +213,6 @@ export function TaskModal({ userId, onClose, onCreated, parentTaskId }: Props) {
     try {
       // Create main task
       const taskData = {
-        userId,
         title: title.trim(),
         description: description.trim() || undefined,
         priority,
@@ -171,7 +244,6 @@ export function TaskModal({ userId, onClose, onCreated, parentTaskId }: Props) {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
                 ...subtask,
-        userId,
                 parent_task_id: createdTask.id,
                 priority: 'medium',
                 status: 'todo'
@@ -181,7 +253,20 @@ export function TaskModal({ userId, onClose, onCreated, parentTaskId }: Props) {
         );
       }
 
-      announceToScreenReader('Task created successfully');
+      // Upload attachments one at a time; a refused file doesn't undo the task
+      const failed: string[] = [];
+      for (const file of files) {
+        try {
+          await uploadAttachment(createdTask.id, file);
+        } catch (error) {
+          console.error('Attachment upload error:', error);
+          failed.push(file.name);
+        }
+      }
+
+      announceToScreenReader(failed.length > 0
+        ? `Task created, but ${failed.length} attachment${failed.length === 1 ? '' : 's'} could not be uploaded: ${failed.join(', ')}`
+        : 'Task created successfully', failed.length > 0 ? 'assertive' : 'polite');
       onCreated?.();
       onClose();
     } catch (error) {
@@ -229,7 +314,42 @@ export function TaskModal({ userId, onClose, onCreated, parentTaskId }: Props) {
             </button>
           </div>
 
-          <div className="space-y-4">
+          {!parentTaskId && templates.length > 0 && (
+            <div className="mb-4 space-y-3">
+              <label htmlFor="template" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Start from a template
+              </label>
+              <select
+                id="template"
+                value={templateId}
+                onChange={e => {
+                  setTemplateId(e.target.value);
+                  setTemplateValues({});
+                  setTemplateError(null);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500 dark:bg-gray-700 dark:text-white"
+              >
+                <option value="">No template</option>
+                {templates.map(t => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+              {template && (
+                <TemplateFields
+                  template={template}
+                  values={templateValues}
+                  onValuesChange={setTemplateValues}
+                  start={templateStart}
+                  onStartChange={setTemplateStart}
+                  idPrefix="modal-template"
+                />
+              )}
+              {templateError && <p role="alert" className="text-sm text-red-600">{templateError}</p>}
+            </div>
+          )}
+
+          {/* Hidden rather than unmounted, so the form comes back as it was */}
+          <div className="space-y-4" hidden={!!template}>
             {/* Title */}
             <div>
               <label htmlFor="title" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -252,13 +372,14 @@ export function TaskModal({ userId, onClose, onCreated, parentTaskId }: Props) {
               <label htmlFor="description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Description
               </label>
-              <textarea
+              <MarkdownEditor
                 id="description"
                 value={description}
-                onChange={e => setDescription(e.target.value)}
+                onChange={setDescription}
                 rows={3}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500 dark:bg-gray-700 dark:text-white"
-                placeholder="Additional details..."
+                placeholder="Additional details... Markdown and - [ ] checklists work"
+                onToggle={line => setDescription(toggleChecklistItem(description, line))}
+                onPromote={parentTaskId ? undefined : promoteChecklistItem}
               />
             </div>
 
@@ -378,6 +499,14 @@ export function TaskModal({ userId, onClose, onCreated, parentTaskId }: Props) {
               </div>
             )}
 
+            {/* Attachments */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Attachments
+              </label>
+              <AttachmentPicker files={files} onChange={setFiles} />
+            </div>
+
             {/* Reminder */}
             <div>
               <label htmlFor="reminder" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -545,6 +674,16 @@ export function TaskModal({ userId, onClose, onCreated, parentTaskId }: Props) {
           </div>
 
           <div className="flex justify-end gap-3 mt-6">
+            {!parentTaskId && !template && (
+              <button
+                type="button"
+                onClick={saveAsTemplate}
+                disabled={!title.trim()}
+                className="mr-auto px-4 py-2 text-sm text-brand-600 hover:text-brand-700 dark:text-brand-400 disabled:opacity-50"
+              >
+                Save as template
+              </button>
+            )}
             <button
               onClick={onClose}
               className="px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-500"
@@ -552,11 +691,11 @@ export function TaskModal({ userId, onClose, onCreated, parentTaskId }: Props) {
               Cancel
             </button>
             <button
-              onClick={createTask}
-              disabled={busy || !title.trim()}
+              onClick={template ? createFromTemplate : createTask}
+              disabled={busy || (!template && !title.trim())}
               className="px-6 py-2 bg-brand-500 text-white rounded-md hover:bg-brand-600 focus:outline-none focus:ring-2 focus:ring-brand-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {busy ? 'Creating...' : 'Create Task'}
+              {busy ? 'Creating...' : template ? 'Create from Template' : 'Create Task'}
             </button>
         </div>
         </div>
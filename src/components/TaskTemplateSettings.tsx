@@ -0,0 +1,263 @@
+"use client";
+
+import { useState } from 'react';
+import type { TaskTemplateDefinition, TemplateTask } from '@/lib/taskTemplateDefinition';
+import { deleteTaskTemplate, saveTaskTemplate, TaskTemplateSummary, useTaskTemplates } from '@/lib/useTaskTemplates';
+import { describeDue } from './TemplateFields';
+
+// A template task as its form fields hold it
+type TaskDraft = {
+  title: string;
+  description: string;
+  priority: 'low' | 'medium' | 'high';
+  estimate: string;
+  tags: string;
+  dueDays: string; // Empty for no due date
+  dueTime: string; // Empty for all day
+};
+
+type Draft = TaskDraft & {
+  name: string;
+  recurrence: string;
+  subtasks: TaskDraft[];
+};
+
+const INPUT = 'rounded border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-900';
+
+function toTaskDraft(task?: TemplateTask): TaskDraft {
+  return {
+    title: task?.title ?? '',
+    description: task?.description ?? '',
+    priority: task?.priority ?? 'medium',
+    estimate: task?.estimate_min ? String(task.estimate_min) : '',
+    tags: task?.tags?.join(', ') ?? '',
+    dueDays: task?.due ? String(task.due.days) : '',
+    dueTime: task?.due?.time ?? ''
+  };
+}
+
+function fromTaskDraft(draft: TaskDraft): TemplateTask {
+  const tags = draft.tags.split(',').map(tag => tag.trim()).filter(Boolean);
+  return {
+    title: draft.title.trim(),
+    description: draft.description.trim() || undefined,
+    priority: draft.priority,
+    estimate_min: draft.estimate ? Number(draft.estimate) : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    due: draft.dueDays.trim() ? { days: Number(draft.dueDays), time: draft.dueTime || undefined } : undefined
+  };
+}
+
+function toDraft(template?: TaskTemplateSummary): Draft {
+  return {
+    ...toTaskDraft(template?.definition),
+    name: template?.name ?? '',
+    recurrence: template?.definition.recurrence_rule ?? '',
+    subtasks: template?.definition.subtasks.map(toTaskDraft) ?? []
+  };
+}
+
+function fromDraft(draft: Draft): TaskTemplateDefinition {
+  return {
+    ...fromTaskDraft(draft),
+    recurrence_rule: draft.recurrence.trim() || undefined,
+    subtasks: draft.subtasks.filter(subtask => subtask.title.trim()).map(fromTaskDraft)
+  };
+}
+
+type TaskFieldsProps = {
+  draft: TaskDraft;
+  onChange: (draft: TaskDraft) => void;
+  label: string;
+};
+
+// Estimate, tags and relative due date, shared by the parent task and its subtasks
+function TaskFields({ draft, onChange, label }: TaskFieldsProps) {
+  const set = (field: keyof TaskDraft) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    onChange({ ...draft, [field]: e.target.value });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input value={draft.title} onChange={set('title')} placeholder="Title, e.g. Release {{version}}" className={`${INPUT} flex-1 min-w-[12rem]`} aria-label={`${label} title`} />
+      <select value={draft.priority} onChange={set('priority')} className={INPUT} aria-label={`${label} priority`}>
+        <option value="low">Low</option>
+        <option value="medium">Medium</option>
+        <option value="high">High</option>
+      </select>
+      <input type="number" min="0" value={draft.estimate} onChange={set('estimate')} placeholder="min" className={`${INPUT} w-20`} aria-label={`${label} estimate in minutes`} />
+      <input value={draft.tags} onChange={set('tags')} placeholder="tags" className={`${INPUT} w-32`} aria-label={`${label} tags`} />
+      <input type="number" value={draft.dueDays} onChange={set('dueDays')} placeholder="due +days" className={`${INPUT} w-24`} aria-label={`${label} due, in days after the template is used`} />
+      <input type="time" value={draft.dueTime} onChange={set('dueTime')} disabled={!draft.dueDays.trim()} className={INPUT} aria-label={`${label} due time`} />
+    </div>
+  );
+}
+
+type EditorProps = {
+  template?: TaskTemplateSummary;
+  onDone: () => void;
+};
+
+function TemplateEditor({ template, onDone }: EditorProps) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(template));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  async function save() {
+    setError(null);
+    setSaving(true);
+    try {
+      await saveTaskTemplate(template?.id ?? null, { name: draft.name.trim(), definition: fromDraft(draft) });
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const setSubtask = (index: number, subtask: TaskDraft) =>
+    setDraft({ ...draft, subtasks: draft.subtasks.map((s, i) => (i === index ? subtask : s)) });
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+      <input
+        value={draft.name}
+        onChange={e => setDraft({ ...draft, name: e.target.value })}
+        placeholder="Template name, used as /template name"
+        className={`${INPUT} w-full`}
+        aria-label="Template name"
+      />
+      <TaskFields draft={draft} onChange={task => setDraft({ ...draft, ...task })} label="Task" />
+      <textarea
+        value={draft.description}
+        onChange={e => setDraft({ ...draft, description: e.target.value })}
+        rows={3}
+        placeholder="Description (markdown, {{variables}} work here too)"
+        className={`${INPUT} w-full`}
+        aria-label="Task description"
+      />
+      <input
+        value={draft.recurrence}
+        onChange={e => setDraft({ ...draft, recurrence: e.target.value })}
+        placeholder="Repeats, e.g. FREQ=MONTHLY;BYMONTHDAY=1"
+        className={`${INPUT} w-full font-mono`}
+        aria-label="Recurrence rule"
+      />
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Subtasks</p>
+        {draft.subtasks.map((subtask, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <div className="flex-1">
+              <TaskFields draft={subtask} onChange={next => setSubtask(index, next)} label={`Subtask ${index + 1}`} />
+            </div>
+            <button
+              type="button"
+              onClick={() => setDraft({ ...draft, subtasks: draft.subtasks.filter((_, i) => i !== index) })}
+              className="text-sm text-red-600 hover:text-red-800"
+              aria-label={`Remove subtask ${index + 1}`}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setDraft({ ...draft, subtasks: [...draft.subtasks, toTaskDraft()] })}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Add subtask
+        </button>
+      </div>
+
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={save}
+          disabled={saving || !draft.name.trim() || !draft.title.trim()}
+          className="rounded bg-blue-600 px-4 py-1.5 text-sm text-white hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {saving ? 'Saving...' : 'Save template'}
+        </button>
+        <button type="button" onClick={onDone} className="text-sm text-gray-600 hover:text-gray-800">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function TaskTemplateSettings() {
+  const { templates } = useTaskTemplates();
+  // The template being edited, or 'new'
+  const [editing, setEditing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function remove(template: TaskTemplateSummary) {
+    if (!confirm(`Delete the "${template.name}" template? Tasks made from it are kept.`)) return;
+    setError(null);
+    try {
+      await deleteTaskTemplate(template.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 space-y-4">
+      <h2 className="text-xl font-semibold">Task Templates</h2>
+      <p className="text-gray-600 dark:text-gray-400">
+        Workflows you repeat, like a release checklist. Use one with /template name in the quick add box or
+        from the new task form; {'{{placeholders}}'} are asked for each time, and due dates count from the day
+        it&apos;s used. Save a task and its subtasks as a template from the task editor.
+      </p>
+
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+
+      {templates.length === 0 && editing !== 'new' && (
+        <p className="text-sm text-gray-500">No templates yet.</p>
+      )}
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {templates.map(template => (
+          <li key={template.id} className="py-3">
+            {editing === template.id ? (
+              <TemplateEditor template={template} onDone={() => setEditing(null)} />
+            ) : (
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex-1 min-w-[12rem]">
+                  <p className="font-medium">{template.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {template.definition.title}
+                    {describeDue(template.definition.due) && ` · due ${describeDue(template.definition.due)}`}
+                    {` · ${template.definition.subtasks.length} subtask${template.definition.subtasks.length === 1 ? '' : 's'}`}
+                    {template.variables.length > 0 && ` · asks for ${template.variables.join(', ')}`}
+                  </p>
+                </div>
+                <button onClick={() => setEditing(template.id)} className="text-sm text-blue-600 hover:text-blue-800">
+                  Edit
+                </button>
+                <button
+                  onClick={() => remove(template)}
+                  className="text-sm text-red-600 hover:text-red-800"
+                  aria-label={`Delete ${template.name}`}
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {editing === 'new' ? (
+        <TemplateEditor onDone={() => setEditing(null)} />
+      ) : (
+        <button onClick={() => setEditing('new')} className="text-sm text-blue-600 hover:text-blue-800">
+          New template
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import type { TaskTemplateSummary } from '@/lib/useTaskTemplates';
+import type { TemplateDue } from '@/lib/taskTemplateDefinition';
+
+type Props = {
+  template: TaskTemplateSummary;
+  values: Record<string, string>;
+  onValuesChange: (values: Record<string, string>) => void;
+  start: string; // YYYY-MM-DD, or empty for today
+  onStartChange: (start: string) => void;
+  idPrefix?: string;
+};
+
+// "+4 days at 17:00", counted from the day the template is used
+export function describeDue(due: TemplateDue | undefined): string | null {
+  if (!due) return null;
+  const day = due.days === 0 ? 'on the day' : `${due.days > 0 ? '+' : '-'}${Math.abs(due.days)} day${Math.abs(due.days) === 1 ? '' : 's'}`;
+  return due.time ? `${day} at ${due.time}` : day;
+}
+
+// Asks for a template's {{variables}} and the day its due dates count from, and lists what
+// it will create
+export function TemplateFields({ template, values, onValuesChange, start, onStartChange, idPrefix = 'template' }: Props) {
+  const { definition } = template;
+
+  return (
+    <div className="space-y-3 rounded-md border border-gray-200 dark:border-gray-600 p-3 text-sm">
+      {template.variables.length > 0 && (
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {template.variables.map(name => (
+            <label key={name} htmlFor={`${idPrefix}-var-${name}`} className="block">
+              <span className="block text-xs font-medium text-gray-600 dark:text-gray-300">{name}</span>
+              <input
+                id={`${idPrefix}-var-${name}`}
+                type="text"
+                value={values[name] ?? ''}
+                onChange={e => onValuesChange({ ...values, [name]: e.target.value })}
+                className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+                placeholder={`{{${name}}}`}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <label htmlFor={`${idPrefix}-start`} className="block">
+        <span className="block text-xs font-medium text-gray-600 dark:text-gray-300">Due dates count from</span>
+        <input
+          id={`${idPrefix}-start`}
+          type="date"
+          value={start}
+          onChange={e => onStartChange(e.target.value)}
+          className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+        />
+        {!start && <span className="ml-2 text-xs text-gray-500">Today</span>}
+      </label>
+
+      <div>
+        <p className="font-medium">
+          {definition.title}
+          {describeDue(definition.due) && <span className="ml-2 text-xs text-gray-500">due {describeDue(definition.due)}</span>}
+          {definition.recurrence_rule && <span className="ml-2 font-mono text-xs text-gray-500">{definition.recurrence_rule}</span>}
+        </p>
+        {definition.subtasks.length > 0 && (
+          <ul className="mt-1 list-disc pl-5 text-gray-600 dark:text-gray-300">
+            {definition.subtasks.map((subtask, index) => (
+              <li key={index}>
+                {subtask.title}
+                {subtask.estimate_min ? <span className="ml-2 text-xs text-gray-500">{subtask.estimate_min} min</span> : null}
+                {describeDue(subtask.due) && <span className="ml-2 text-xs text-gray-500">due {describeDue(subtask.due)}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { browserTimeZone, clearTimeZoneCache } from '@/lib/useTimeZone';
+
+function availableTimeZones(current: string): string[] {
+  const zones = Intl.supportedValuesOf('timeZone');
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
+export function TimeZoneSettings() {
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  const [saved, setSaved] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const detected = useMemo(browserTimeZone, []);
+  const zones = useMemo(() => availableTimeZones(timeZone || detected), [timeZone, detected]);
+
+  useEffect(() => {
+    fetch('/api/users/settings')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => {
+        if (!data?.settings) return;
+        setTimeZone(data.settings.timezone);
+        setSaved(data.settings.timezone);
+      });
+  }, []);
+
+  async function save(value: string) {
+    setBusy(true);
+    setError(null);
+    setTimeZone(value);
+
+    try {
+      const res = await fetch('/api/users/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timezone: value })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update time zone');
+
+      setSaved(data.settings.timezone);
+      clearTimeZoneCache();
+    } catch (err) {
+      setTimeZone(saved);
+      setError(err instanceof Error ? err.message : 'Failed to update time zone');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 space-y-4">
+      <h2 className="text-xl font-semibold">Time Zone</h2>
+      <p className="text-gray-600 dark:text-gray-400">
+        Decides when your day starts for Today, streaks, analytics and quick-add dates.
+        All-day tasks keep their date wherever you are.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={timeZone ?? ''}
+          onChange={e => save(e.target.value)}
+          disabled={busy || timeZone === null}
+          className="rounded border border-gray-300 px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+          aria-label="Time zone"
+        >
+          {timeZone === null && <option value="">Loading...</option>}
+          {zones.map(zone => (
+            <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+          ))}
+        </select>
+
+        {timeZone !== null && timeZone !== detected && (
+          <button
+            onClick={() => save(detected)}
+            disabled={busy}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Use this device&apos;s zone ({detected.replace(/_/g, ' ')})
+          </button>
+        )}
+      </div>
+
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { notifyProjectsChanged } from '@/lib/useProjects';
+import { onUndoOffer, undoChange, type UndoOffer } from '@/lib/useUndo';
+
+const VISIBLE_MS = 8000;
+
+// "Undo" for the latest task change, shown for a few seconds after it's made. It's a status
+// region, so screen readers read out each message as it appears.
+export function UndoToast() {
+  const [offer, setOffer] = useState<UndoOffer | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => onUndoOffer(next => {
+    setOffer(next);
+    setStatus(null);
+  }), []);
+
+  useEffect(() => {
+    if (!offer && !status) return;
+    const timer = setTimeout(() => {
+      setOffer(null);
+      setStatus(null);
+    }, VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [offer, status]);
+
+  if (!offer && !status) return null;
+
+  async function undo() {
+    if (!offer) return;
+    setBusy(true);
+    try {
+      await undoChange(offer.batchId);
+      notifyProjectsChanged();
+      setStatus('Undone');
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to undo');
+    } finally {
+      setOffer(null);
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 z-50 flex -translate-x-1/2 items-center gap-4 rounded-lg bg-gray-900 px-4 py-3 text-sm text-white shadow-lg dark:bg-gray-100 dark:text-gray-900"
+    >
+      <span>{offer ? offer.message : status}</span>
+      {offer && (
+        <button onClick={undo} disabled={busy} className="font-semibold text-brand-300 hover:underline dark:text-brand-600">
+          Undo
+        </button>
+      )}
+      <button
+        onClick={() => {
+          setOffer(null);
+          setStatus(null);
+        }}
+        aria-label="Dismiss"
+        className="text-gray-400 hover:text-white dark:hover:text-gray-900"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+// Account Management
+// Server-side operations on a whole user account: full data export and hard deletion
+
+import { prisma } from './prisma';
+import { AttachmentManager } from './attachments';
+import { ExportRecordManager } from './exportRecords';
+
+// Bump when the archive layout changes so importers can tell versions apart
+export const ACCOUNT_EXPORT_VERSION = 1;
+export const ACCOUNT_EXPORT_FORMAT = 'blitzapp.account-export';
+
+export interface AccountExportArchive {
+  format: typeof ACCOUNT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  user: Record<string, unknown>;
+  counts: Record<string, number>;
+  data: Record<string, unknown[]>;
+}
+
+function parseJson(value: string | null): unknown {
+  if (value === null) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+export class AccountManager {
+  // Collects every row tied to the user. Secrets (password, token and push key hashes)
+  // are left out; the rest is exported as stored, with *_json columns decoded.
+  static async buildExport(userId: string): Promise<AccountExportArchive | null> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return null;
+
+    const [
+      tasks,
+      taskSeries,
+      projects,
+      sections,
+      tags,
+      savedSearches,
+      smartViews,
+      taskDependencies,
+      taskChanges,
+      taskComments,
+      taskActivity,
+      taskAttachments,
+      taskTemplates,
+      focusSessions,
+      focusPresets,
+      pointsLedger,
+      streakLedger,
+      treeInstances,
+      notifications,
+      pushSubscriptions,
+      exportRecords,
+      shareLinks,
+      apiTokens
+    ] = await Promise.all([
+      prisma.task.findMany({ where: { userId }, orderBy: { created_at: 'asc' } }),
+      prisma.taskSeries.findMany({ where: { userId }, include: { exceptions: true }, orderBy: { created_at: 'asc' } }),
+      prisma.project.findMany({ where: { userId }, orderBy: { order_index: 'asc' } }),
+      prisma.section.findMany({ where: { userId }, orderBy: { order_index: 'asc' } }),
+      prisma.tag.findMany({ where: { userId }, orderBy: { name: 'asc' } }),
+      prisma.savedSearch.findMany({ where: { userId }, orderBy: { order_index: 'asc' } }),
+      prisma.smartView.findMany({ where: { userId }, orderBy: { order_index: 'asc' } }),
+      prisma.taskDependency.findMany({ where: { blocker: { userId } }, orderBy: { created_at: 'asc' } }),
+      prisma.taskChange.findMany({ where: { userId }, orderBy: { created_at: 'asc' } }),
+      prisma.taskComment.findMany({ where: { userId }, orderBy: { created_at: 'asc' } }),
+      prisma.taskActivity.findMany({ where: { userId }, orderBy: { created_at: 'asc' } }),
+      prisma.taskAttachment.findMany({ where: { userId }, orderBy: { created_at: 'asc' } }),
+      prisma.taskTemplate.findMany({ where: { userId }, orderBy: { name: 'asc' } }),
+      prisma.focusSession.findMany({ where: { userId }, orderBy: { started_at: 'asc' } }),
+      prisma.focusPreset.findMany({ where: { userId }, orderBy: { created_at: 'asc' } }),
+      prisma.pointsLedger.findMany({ where: { userId }, orderBy: { created_at: 'asc' } }),
+      prisma.streakLedger.findMany({ where: { userId }, orderBy: { created_at: 'asc' } }),
+      prisma.treeInstance.findMany({ where: { userId }, orderBy: { planted_at: 'asc' } }),
+      prisma.notification.findMany({ where: { userId }, orderBy: { scheduled_at: 'asc' } }),
+      prisma.pushSubscription.findMany({ where: { userId }, orderBy: { created_at: 'asc' } }),
+      prisma.exportRecord.findMany({ where: { userId }, orderBy: { created_at: 'asc' } }),
+      prisma.shareLink.findMany({ where: { userId }, orderBy: { created_at: 'asc' } }),
+      prisma.apiToken.findMany({ where: { userId }, orderBy: { created_at: 'asc' } })
+    ]);
+
+    // Attachments carry their file as base64; storage keys are internal and left out
+    const attachmentFiles: Record<string, unknown>[] = [];
+    for (const row of taskAttachments) {
+      const { storage_key, thumbnail_key, ...attachment } = row;
+      const file = await AttachmentManager.read(row);
+      attachmentFiles.push({ ...attachment, content_base64: file ? file.data.toString('base64') : null });
+    }
+
+    // Top-level tasks carry their subtasks; orphaned subtasks stay top-level
+    const taskIds = new Set(tasks.map(task => task.id));
+    const toTask = (task: typeof tasks[number]) => {
+      // description_text is derived from the description and left out
+      const { tags_json, description_text, ...rest } = task;
+      return { ...rest, tags: parseJson(tags_json) };
+    };
+    const taskTree = tasks
+      .filter(task => !task.parent_task_id || !taskIds.has(task.parent_task_id))
+      .map(task => ({
+        ...toTask(task),
+        subtasks: tasks.filter(subtask => subtask.parent_task_id === task.id).map(toTask)
+      }));
+
+    const data: Record<string, unknown[]> = {
+      tasks: taskTree,
+      taskSeries: taskSeries.map(({ tags_json, ...series }) => ({ ...series, tags: parseJson(tags_json) })),
+      projects,
+      sections,
+      tags,
+      savedSearches,
+      smartViews: smartViews.map(({ definition_json, ...view }) => ({ ...view, definition: parseJson(definition_json) })),
+      taskDependencies,
+      taskChanges: taskChanges.map(({ before_json, after_json, ...change }) => ({
+        ...change,
+        before: parseJson(before_json),
+        after: parseJson(after_json)
+      })),
+      taskComments: taskComments.map(({ mentions_json, ...comment }) => ({ ...comment, mentions: parseJson(mentions_json) })),
+      taskActivity: taskActivity.map(({ data_json, ...event }) => ({ ...event, data: parseJson(data_json) })),
+      taskAttachments: attachmentFiles,
+      taskTemplates: taskTemplates.map(({ definition_json, ...template }) => ({ ...template, definition: parseJson(definition_json) })),
+      focusSessions,
+      focusPresets,
+      pointsLedger: pointsLedger.map(({ meta_json, ...entry }) => ({ ...entry, meta: parseJson(meta_json) })),
+      streakLedger,
+      treeInstances: treeInstances.map(({ last_growth_session_ids, ...tree }) => ({
+        ...tree,
+        last_growth_session_ids: parseJson(last_growth_session_ids)
+      })),
+      notifications: notifications.map(({ payload_json, ...notification }) => ({
+        ...notification,
+        payload: parseJson(payload_json)
+      })),
+      pushSubscriptions: pushSubscriptions.map(({ p256dh, auth, ...subscription }) => subscription),
+      exportRecords: exportRecords.map(record => ({
+        ...record,
+        filters: parseJson(record.filters),
+        date_range: parseJson(record.date_range)
+      })),
+      shareLinks: shareLinks.map(({ password_hash, filters_json, settings_json, ...share }) => ({
+        ...share,
+        has_password: !!password_hash,
+        filters: parseJson(filters_json),
+        settings: parseJson(settings_json)
+      })),
+      apiTokens: apiTokens.map(({ token_hash, scopes_json, ...token }) => ({
+        ...token,
+        scopes: parseJson(scopes_json)
+      }))
+    };
+
+    const { password_hash, ...profile } = user;
+
+    return {
+      format: ACCOUNT_EXPORT_FORMAT,
+      version: ACCOUNT_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      user: { ...profile, has_password: !!password_hash },
+      counts: Object.fromEntries(
+        Object.entries(data).map(([key, rows]) => [key, key === 'tasks' ? tasks.length : rows.length])
+      ),
+      data
+    };
+  }
+
+  // Builds the archive as pretty-printed JSON, tracked as an 'account' ExportRecord.
+  // The record is created before the build, so the archive lists this export as pending.
+  static async exportAccount(userId: string): Promise<{ exportId: string; json: string }> {
+    const { exportId, content } = await ExportRecordManager.track(userId, 'account', {}, async () => {
+      const archive = await this.buildExport(userId);
+      if (!archive) throw new Error('User not found');
+      return JSON.stringify(archive, null, 2);
+    });
+
+    return { exportId, json: content };
+  }
+
+  // Permanently removes a user and everything they own.
+  // Relations don't cascade in the schema, so children are deleted first, in one transaction.
+  // Attachment files are removed once their rows are gone.
+  static async deleteAccount(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return false;
+
+    // Feature flag allow/deny lists reference users by id without a relation
+    const flags = await prisma.featureFlag.findMany({
+      where: { OR: [{ allow_list_json: { contains: userId } }, { deny_list_json: { contains: userId } }] }
+    });
+    const withoutUser = (json: string) => {
+      const ids = parseJson(json);
+      return JSON.stringify(Array.isArray(ids) ? ids.filter(id => id !== userId) : []);
+    };
+
+    const attachments = await prisma.taskAttachment.findMany({
+      where: { userId },
+      select: { storage_key: true, thumbnail_key: true }
+    });
+
+    await prisma.$transaction([
+      ...flags.map(flag => prisma.featureFlag.update({
+        where: { id: flag.id },
+        data: { allow_list_json: withoutUser(flag.allow_list_json), deny_list_json: withoutUser(flag.deny_list_json) }
+      })),
+      prisma.magicLinkToken.deleteMany({ where: { email: user.email } }),
+      prisma.shareAccessLog.deleteMany({ where: { share: { userId } } }),
+      prisma.shareLink.deleteMany({ where: { userId } }),
+      prisma.apiToken.deleteMany({ where: { userId } }),
+      prisma.session.deleteMany({ where: { userId } }),
+      prisma.pushSubscription.deleteMany({ where: { userId } }),
+      prisma.notification.deleteMany({ where: { userId } }),
+      prisma.exportRecord.deleteMany({ where: { userId } }),
+      prisma.treeInstance.deleteMany({ where: { userId } }),
+      prisma.pointsLedger.deleteMany({ where: { userId } }),
+      prisma.streakLedger.deleteMany({ where: { userId } }),
+      prisma.focusSession.deleteMany({ where: { userId } }),
+      prisma.focusPreset.deleteMany({ where: { userId } }),
+      prisma.taskDependency.deleteMany({ where: { blocker: { userId } } }),
+      prisma.taskChange.deleteMany({ where: { userId } }),
+      prisma.taskComment.deleteMany({ where: { userId } }),
+      // Their comments on other people's shared tasks stay, signed with the name they used
+      prisma.taskComment.updateMany({ where: { authorId: userId }, data: { authorId: null } }),
+      prisma.taskActivity.deleteMany({ where: { userId } }),
+      prisma.taskAttachment.deleteMany({ where: { userId } }),
+      prisma.taskTag.deleteMany({ where: { tag: { userId } } }),
+      // Detach subtasks first so the self-relation doesn't block the delete
+      prisma.task.updateMany({ where: { userId }, data: { parent_task_id: null } }),
+      prisma.task.deleteMany({ where: { userId } }),
+      prisma.taskSeriesException.deleteMany({ where: { series: { userId } } }),
+      prisma.taskSeries.deleteMany({ where: { userId } }),
+      prisma.section.deleteMany({ where: { userId } }),
+      prisma.tag.deleteMany({ where: { userId } }),
+      prisma.savedSearch.deleteMany({ where: { userId } }),
+      prisma.smartView.deleteMany({ where: { userId } }),
+      prisma.taskTemplate.deleteMany({ where: { userId } }),
+      prisma.project.deleteMany({ where: { userId } }),
+      prisma.user.delete({ where: { id: userId } })
+    ]);
+    await AttachmentManager.deleteFiles(attachments);
+
+    return true;
+  }
+}
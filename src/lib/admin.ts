@@ -37,7 +37,8 @@ export interface FeatureFlag {
   description: string;
   enabled: boolean;
   enabledFor: 'all' | 'admins' | 'specific_users' | 'percentage';
-  targetUsers?: string[];
+  targetUsers?: string[]; // Always enabled, whatever enabledFor says
+  excludedUsers?: string[]; // Never enabled; wins over targetUsers
   targetPercentage?: number;
   createdAt: Date;
   updatedAt: Date;
@@ -46,7 +47,7 @@ export interface FeatureFlag {
 
 export interface AdminAction {
   id: string;
-  type: 'user_suspension' | 'user_activation' | 'feature_flag_change' | 'system_maintenance';
+  type: 'user_suspension' | 'user_activation' | 'user_update' | 'user_deletion' | 'feature_flag_change' | 'system_maintenance';
   targetId: string;
   targetType: 'user' | 'feature' | 'system';
   action: string;
@@ -207,15 +208,15 @@ export class AdminManager {
     if (!response.ok) throw new Error('Failed to delete feature flag');
   }
 
-  // Check if feature is enabled for current user
-  async isFeatureEnabled(featureName: string): Promise<boolean> {
+  // Check if feature is enabled for current user, falling back if the check fails
+  async isFeatureEnabled(featureName: string, fallback = false): Promise<boolean> {
     try {
-      const response = await fetch(`/api/admin/feature-flags/${featureName}/check`);
-      if (!response.ok) return false;
+      const response = await fetch(`/api/admin/feature-flags/${encodeURIComponent(featureName)}/check`);
+      if (!response.ok) return fallback;
       const result = await response.json();
       return result.enabled;
     } catch (error) {
-      return false;
+      return fallback;
     }
   }
 
@@ -0,0 +1,333 @@
+// Admin Service
+// Server-side user management, audit logging and system statistics for /api/admin/*
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { User as UserRecord } from '@prisma/client';
+import { prisma } from './prisma';
+import { AccountManager } from './account';
+import { ApiTokenManager } from './apiTokens';
+import { AuthManager, AuthUser, getSessionUser, isAdminRole } from './auth';
+import type { AdminAction, User, UserStats } from './admin';
+
+export type AdminActionType = AdminAction['type'];
+
+const USER_ROLES = ['user', 'admin', 'super_admin'];
+const USER_STATUSES = ['active', 'suspended', 'pending'];
+
+// Resolves the signed-in user if they are an active admin
+export async function getAdminUser(req: NextRequest): Promise<AuthUser | null> {
+  const user = await getSessionUser(req);
+  if (!user || user.status !== 'active' || !isAdminRole(user.role)) return null;
+  return user;
+}
+
+export function adminRequired(): NextResponse {
+  return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+}
+
+export function isUserRole(value: unknown): value is User['role'] {
+  return typeof value === 'string' && USER_ROLES.includes(value);
+}
+
+export function isUserStatus(value: unknown): value is User['status'] {
+  return typeof value === 'string' && USER_STATUSES.includes(value);
+}
+
+export class AdminService {
+  // Admins may act on regular users; only super admins may act on other admins
+  static canManage(admin: AuthUser, target: { id: string; role: string }): boolean {
+    if (admin.id === target.id) return false;
+    return admin.role === 'super_admin' || !isAdminRole(target.role);
+  }
+
+  static async logAction(admin: AuthUser, action: {
+    type: AdminActionType;
+    targetId: string;
+    targetType: AdminAction['targetType'];
+    action: string;
+    reason?: string | null;
+    metadata?: any;
+  }): Promise<void> {
+    await prisma.adminAction.create({
+      data: {
+        type: action.type,
+        target_id: action.targetId,
+        target_type: action.targetType,
+        action: action.action,
+        reason: action.reason || null,
+        performed_by: admin.id,
+        metadata_json: action.metadata !== undefined ? JSON.stringify(action.metadata) : null
+      }
+    });
+  }
+
+  static async getUserStats(userIds: string[]): Promise<Map<string, UserStats>> {
+    const [tasks, completed, sessions, trees, users] = await Promise.all([
+      prisma.task.groupBy({ by: ['userId'], where: { userId: { in: userIds } }, _count: { _all: true } }),
+      prisma.task.groupBy({
+        by: ['userId'],
+        where: { userId: { in: userIds }, status: { in: ['done', 'completed'] } },
+        _count: { _all: true }
+      }),
+      prisma.focusSession.groupBy({
+        by: ['userId'],
+        where: { userId: { in: userIds }, status: 'completed' },
+        _count: { _all: true },
+        _sum: { duration_min: true }
+      }),
+      prisma.treeInstance.groupBy({ by: ['userId'], where: { userId: { in: userIds } }, _count: { _all: true } }),
+      prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, streak_days: true, points: true }
+      })
+    ]);
+
+    const stats = new Map<string, UserStats>();
+    for (const user of users) {
+      const focus = sessions.find(s => s.userId === user.id);
+      stats.set(user.id, {
+        totalTasks: tasks.find(t => t.userId === user.id)?._count._all ?? 0,
+        completedTasks: completed.find(t => t.userId === user.id)?._count._all ?? 0,
+        focusSessions: focus?._count._all ?? 0,
+        totalFocusTime: focus?._sum.duration_min ?? 0,
+        streakDays: user.streak_days,
+        points: user.points,
+        treesPlanted: trees.find(t => t.userId === user.id)?._count._all ?? 0
+      });
+    }
+
+    return stats;
+  }
+
+  static toAdminUser(user: UserRecord, stats?: UserStats): User {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name || '',
+      role: isUserRole(user.role) ? user.role : 'user',
+      status: isUserStatus(user.status) ? user.status : 'active',
+      createdAt: user.created_at,
+      lastLoginAt: user.last_login_at ?? undefined,
+      preferences: {
+        theme: 'auto',
+        notifications: user.notification_task_due,
+        emailDigest: user.notification_daily_email,
+        timezone: 'UTC',
+        language: 'en'
+      },
+      stats: stats ?? {
+        totalTasks: 0,
+        completedTasks: 0,
+        focusSessions: 0,
+        totalFocusTime: 0,
+        streakDays: user.streak_days,
+        points: user.points,
+        treesPlanted: 0
+      }
+    };
+  }
+
+  static async getUser(userId: string): Promise<User | null> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return null;
+
+    const stats = await this.getUserStats([user.id]);
+    return this.toAdminUser(user, stats.get(user.id));
+  }
+
+  static async listUsers(filters: {
+    role?: string;
+    status?: string;
+    search?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<{ users: User[]; total: number; page: number; totalPages: number }> {
+    const page = Math.max(1, filters.page || 1);
+    const limit = Math.min(100, Math.max(1, filters.limit || 20));
+    const where: any = {};
+
+    if (filters.role) where.role = filters.role;
+    if (filters.status) where.status = filters.status;
+    if (filters.search) {
+      where.OR = [
+        { email: { contains: filters.search } },
+        { name: { contains: filters.search } }
+      ];
+    }
+
+    const [records, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        orderBy: { created_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.user.count({ where })
+    ]);
+
+    const stats = await this.getUserStats(records.map(user => user.id));
+
+    return {
+      users: records.map(user => this.toAdminUser(user, stats.get(user.id))),
+      total,
+      page,
+      totalPages: Math.max(1, Math.ceil(total / limit))
+    };
+  }
+
+  static async setStatus(admin: AuthUser, target: UserRecord, status: 'active' | 'suspended', reason?: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: target.id },
+      data: {
+        status,
+        suspended_at: status === 'suspended' ? new Date() : null,
+        suspension_reason: status === 'suspended' ? reason || null : null
+      }
+    });
+
+    // Suspension ends whatever access the user already has, not just new sign-ins
+    if (status === 'suspended') {
+      await AuthManager.revokeUserSessions(target.id);
+      await ApiTokenManager.revokeAllTokens(target.id);
+    }
+
+    await this.logAction(admin, {
+      type: status === 'suspended' ? 'user_suspension' : 'user_activation',
+      targetId: target.id,
+      targetType: 'user',
+      action: status === 'suspended' ? `Suspended ${target.email}` : `Activated ${target.email}`,
+      reason,
+      metadata: { previousStatus: target.status }
+    });
+  }
+
+  static async deleteUser(admin: AuthUser, target: UserRecord, reason?: string): Promise<void> {
+    await AccountManager.deleteAccount(target.id);
+
+    await this.logAction(admin, {
+      type: 'user_deletion',
+      targetId: target.id,
+      targetType: 'user',
+      action: `Deleted ${target.email}`,
+      reason,
+      metadata: { email: target.email, role: target.role }
+    });
+  }
+
+  static async getAdminActions(filters: {
+    type?: string;
+    targetType?: string;
+    performedBy?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<{ actions: AdminAction[]; total: number; page: number; totalPages: number }> {
+    const page = Math.max(1, filters.page || 1);
+    const limit = Math.min(100, Math.max(1, filters.limit || 20));
+    const where: any = {};
+
+    if (filters.type) where.type = filters.type;
+    if (filters.targetType) where.target_type = filters.targetType;
+    if (filters.performedBy) where.performed_by = filters.performedBy;
+
+    const [records, total] = await Promise.all([
+      prisma.adminAction.findMany({
+        where,
+        orderBy: { performed_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.adminAction.count({ where })
+    ]);
+
+    // Show who performed each action by email where the admin still exists
+    const admins = await prisma.user.findMany({
+      where: { id: { in: Array.from(new Set(records.map(r => r.performed_by))) } },
+      select: { id: true, email: true }
+    });
+    const adminEmails = new Map(admins.map(a => [a.id, a.email]));
+
+    return {
+      actions: records.map(record => ({
+        id: record.id,
+        type: record.type as AdminActionType,
+        targetId: record.target_id,
+        targetType: record.target_type as AdminAction['targetType'],
+        action: record.action,
+        reason: record.reason ?? undefined,
+        performedBy: adminEmails.get(record.performed_by) || record.performed_by,
+        performedAt: record.performed_at,
+        metadata: record.metadata_json ? JSON.parse(record.metadata_json) : undefined
+      })),
+      total,
+      page,
+      totalPages: Math.max(1, Math.ceil(total / limit))
+    };
+  }
+
+  static async getSystemStats(): Promise<{
+    totalUsers: number;
+    activeUsers: number;
+    totalTasks: number;
+    totalFocusSessions: number;
+    systemUptime: number;
+    lastMaintenance: Date | null;
+  }> {
+    const [totalUsers, activeUsers, totalTasks, totalFocusSessions, lastMaintenance] = await Promise.all([
+      prisma.user.count(),
+      prisma.user.count({ where: { status: 'active' } }),
+      prisma.task.count(),
+      prisma.focusSession.count(),
+      prisma.adminAction.findFirst({
+        where: { type: 'system_maintenance' },
+        orderBy: { performed_at: 'desc' }
+      })
+    ]);
+
+    return {
+      totalUsers,
+      activeUsers,
+      totalTasks,
+      totalFocusSessions,
+      systemUptime: Math.floor(process.uptime()),
+      lastMaintenance: lastMaintenance?.performed_at ?? null
+    };
+  }
+
+  // Runs a maintenance task and returns a short summary of what was done
+  static async runMaintenance(type: string): Promise<Record<string, number | string>> {
+    const now = new Date();
+
+    switch (type) {
+      case 'database': {
+        const [sessions, magicLinks, apiTokens] = await prisma.$transaction([
+          prisma.session.deleteMany({
+            where: { OR: [{ expires_at: { lt: now } }, { revoked_at: { not: null } }] }
+          }),
+          prisma.magicLinkToken.deleteMany({
+            where: { OR: [{ expires_at: { lt: now } }, { consumed_at: { not: null } }] }
+          }),
+          prisma.apiToken.deleteMany({
+            where: { OR: [{ expires_at: { lt: now } }, { revoked_at: { not: null } }] }
+          })
+        ]);
+
+        return {
+          expiredSessions: sessions.count,
+          usedMagicLinks: magicLinks.count,
+          revokedApiTokens: apiTokens.count
+        };
+      }
+
+      case 'cache':
+        // There is no server-side cache yet; clients refresh via the service worker
+        return { status: 'nothing to clear' };
+
+      case 'restart':
+        // Restarts are handled by the process manager, not the app itself
+        return { status: 'recorded; restart the server process to apply' };
+
+      default:
+        throw new Error(`Unknown maintenance type: ${type}`);
+    }
+  }
+}
@@ -0,0 +1,152 @@
+// Personal API Tokens
+// User-managed bearer tokens for scripts and CI jobs, stored hashed with per-token scopes
+
+import { createHash, randomBytes } from 'crypto';
+import { prisma } from './prisma';
+
+export const API_TOKEN_SCOPES = {
+  'tasks:read': 'Read tasks',
+  'tasks:write': 'Create, update and delete tasks',
+  'focus:write': 'Record completed focus sessions',
+  'analytics:read': 'Read analytics and exports'
+} as const;
+
+export type ApiTokenScope = keyof typeof API_TOKEN_SCOPES;
+
+const TOKEN_PREFIX = 'blz_';
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+
+// Don't touch last_used_at on every request from a busy script
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface ApiTokenSummary {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: ApiTokenScope[];
+  last_used_at: Date | null;
+  expires_at: Date | null;
+  created_at: Date;
+}
+
+export interface ApiTokenAuth {
+  tokenId: string;
+  userId: string;
+  status: string; // Owner's account status
+  scopes: ApiTokenScope[];
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(API_TOKEN_SCOPES, value);
+}
+
+function parseScopes(scopesJson: string): ApiTokenScope[] {
+  try {
+    const parsed = JSON.parse(scopesJson);
+    return Array.isArray(parsed) ? parsed.filter(isApiTokenScope) : [];
+  } catch {
+    return [];
+  }
+}
+
+function toSummary(record: {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes_json: string;
+  last_used_at: Date | null;
+  expires_at: Date | null;
+  created_at: Date;
+}): ApiTokenSummary {
+  return {
+    id: record.id,
+    name: record.name,
+    token_prefix: record.token_prefix,
+    scopes: parseScopes(record.scopes_json),
+    last_used_at: record.last_used_at,
+    expires_at: record.expires_at,
+    created_at: record.created_at
+  };
+}
+
+export class ApiTokenManager {
+  // Returns the plaintext token once; only its hash is stored
+  static async createToken(
+    userId: string,
+    name: string,
+    scopes: ApiTokenScope[],
+    expiresAt?: Date | null
+  ): Promise<{ token: string; apiToken: ApiTokenSummary }> {
+    const token = TOKEN_PREFIX + randomBytes(32).toString('base64url');
+
+    const record = await prisma.apiToken.create({
+      data: {
+        userId,
+        name,
+        token_prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+        token_hash: hashToken(token),
+        scopes_json: JSON.stringify(Array.from(new Set(scopes))),
+        expires_at: expiresAt ?? null
+      }
+    });
+
+    return { token, apiToken: toSummary(record) };
+  }
+
+  static async listTokens(userId: string): Promise<ApiTokenSummary[]> {
+    const records = await prisma.apiToken.findMany({
+      where: { userId, revoked_at: null },
+      orderBy: { created_at: 'desc' }
+    });
+
+    return records.map(toSummary);
+  }
+
+  static async revokeToken(userId: string, tokenId: string): Promise<boolean> {
+    const result = await prisma.apiToken.updateMany({
+      where: { id: tokenId, userId, revoked_at: null },
+      data: { revoked_at: new Date() }
+    });
+
+    return result.count > 0;
+  }
+
+  static async revokeAllTokens(userId: string): Promise<void> {
+    await prisma.apiToken.updateMany({
+      where: { userId, revoked_at: null },
+      data: { revoked_at: new Date() }
+    });
+  }
+
+  // Resolves a bearer token, or null if it's unknown, revoked or expired
+  static async authenticate(token: string): Promise<ApiTokenAuth | null> {
+    if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+    const record = await prisma.apiToken.findUnique({
+      where: { token_hash: hashToken(token) },
+      include: { user: { select: { status: true } } }
+    });
+
+    if (!record || record.revoked_at) return null;
+    if (record.expires_at && record.expires_at <= new Date()) return null;
+
+    const now = new Date();
+    if (!record.last_used_at || now.getTime() - record.last_used_at.getTime() > LAST_USED_RESOLUTION_MS) {
+      await prisma.apiToken.update({
+        where: { id: record.id },
+        data: { last_used_at: now }
+      });
+    }
+
+    return {
+      tokenId: record.id,
+      userId: record.userId,
+      status: record.user.status,
+      scopes: parseScopes(record.scopes_json)
+    };
+  }
+}
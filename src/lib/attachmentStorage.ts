@@ -0,0 +1,70 @@
+// Attachment Storage
+// Where attachment bytes are kept. AttachmentManager only talks to the AttachmentStorage
+// interface; local disk is the default and another backend can be swapped in at startup.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface AttachmentStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  // null when nothing is stored under the key
+  get(key: string): Promise<Buffer | null>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+}
+
+// Keys are generated by AttachmentManager; anything else is refused rather than resolved
+const KEY_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_.-]+)*$/;
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+// One file per key under a root directory, with the key's segments as subdirectories
+export class LocalDiskStorage implements AttachmentStorage {
+  constructor(private readonly root: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.pathFor(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.pathFor(key));
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+    }
+  }
+
+  private pathFor(key: string): string {
+    if (!KEY_PATTERN.test(key) || key.split('/').some(segment => segment === '..' || segment === '.')) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(this.root, ...key.split('/'));
+  }
+}
+
+let storage: AttachmentStorage | null = null;
+
+export function getAttachmentStorage(): AttachmentStorage {
+  if (!storage) {
+    storage = new LocalDiskStorage(process.env.ATTACHMENTS_DIR || path.join(process.cwd(), 'uploads', 'attachments'));
+  }
+  return storage;
+}
+
+// Replaces the backend, e.g. with an object store client
+export function setAttachmentStorage(backend: AttachmentStorage): void {
+  storage = backend;
+}
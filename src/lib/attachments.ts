@@ -0,0 +1,279 @@
+// Task Attachments
+// Files attached to tasks: size limits, content sniffing to decide the MIME type, image
+// dimensions and thumbnails, with the bytes kept in AttachmentStorage
+
+import { randomUUID } from 'crypto';
+import type { TaskAttachment } from '@prisma/client';
+import { getAttachmentStorage } from './attachmentStorage';
+import { prisma } from './prisma';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_THUMBNAIL_BYTES = 256 * 1024;
+// Longest side of an uploaded thumbnail, as TaskAttachments draws them
+export const MAX_THUMBNAIL_SIZE = 320;
+export const MAX_ATTACHMENTS_PER_TASK = 20;
+export const ATTACHMENT_QUOTA_BYTES = 100 * 1024 * 1024;
+
+// Served inline (and shown as previews); everything else is sent as a download
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export interface AttachmentView {
+  id: string;
+  taskId: string;
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  has_thumbnail: boolean;
+  created_at: Date;
+}
+
+export interface AttachmentUpload {
+  filename: string;
+  data: Buffer;
+  thumbnail?: Buffer | null;
+}
+
+const startsWith = (data: Buffer, bytes: number[], offset = 0) =>
+  data.length >= offset + bytes.length && bytes.every((byte, i) => data[offset + i] === byte);
+const ascii = (data: Buffer, start: number, end: number) => data.subarray(start, end).toString('latin1');
+
+// Container formats whose real type is only told apart by the extension
+const ZIP_TYPES: Record<string, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odt: 'application/vnd.oasis.opendocument.text',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet'
+};
+const TEXT_TYPES: Record<string, string> = {
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json'
+};
+
+function extensionOf(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? '' : filename.slice(dot + 1).toLowerCase();
+}
+
+function looksLikeText(data: Buffer): boolean {
+  const sample = data.subarray(0, 8192);
+  if (sample.includes(0)) return false;
+  // A cut in the middle of a multi-byte character at the end of the sample is fine
+  const decoded = new TextDecoder('utf-8', { fatal: false }).decode(sample);
+  return (decoded.match(/�/g)?.length ?? 0) <= 1;
+}
+
+// The MIME type from the file's leading bytes, whatever the upload claimed.
+// Returns null for content that isn't accepted at all.
+export function sniffMimeType(data: Buffer, filename = ''): string | null {
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (ascii(data, 0, 6) === 'GIF87a' || ascii(data, 0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(data, 0, 5) === '%PDF-') return 'application/pdf';
+  if (startsWith(data, [0x50, 0x4b, 0x03, 0x04])) return ZIP_TYPES[extensionOf(filename)] ?? 'application/zip';
+  if (startsWith(data, [0x1f, 0x8b])) return 'application/gzip';
+  if (ascii(data, 4, 8) === 'ftyp') return 'video/mp4';
+  if (ascii(data, 0, 3) === 'ID3' || startsWith(data, [0xff, 0xfb])) return 'audio/mpeg';
+  // Windows and Linux executables
+  if (ascii(data, 0, 2) === 'MZ' || startsWith(data, [0x7f, 0x45, 0x4c, 0x46])) return null;
+  // Markup is stored as plain text, so it's never rendered as a page from our origin
+  if (looksLikeText(data)) return TEXT_TYPES[extensionOf(filename)] ?? 'text/plain';
+  return 'application/octet-stream';
+}
+
+// Width and height read from an image's header, or null when they can't be found
+export function imageDimensions(data: Buffer, mimeType: string): { width: number; height: number } | null {
+  try {
+    switch (mimeType) {
+      case 'image/png':
+        return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+      case 'image/gif':
+        return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+      case 'image/webp': {
+        const chunk = ascii(data, 12, 16);
+        if (chunk === 'VP8X') return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+        if (chunk === 'VP8L') {
+          const bits = data.readUInt32LE(21);
+          return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        if (chunk === 'VP8 ') return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+        return null;
+      }
+      case 'image/jpeg': {
+        // Walk the segments up to the start-of-frame marker
+        let offset = 2;
+        while (offset + 9 < data.length) {
+          if (data[offset] !== 0xff) return null;
+          const marker = data[offset + 1];
+          const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+          if (isFrame) return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+          offset += 2 + data.readUInt16BE(offset + 2);
+        }
+        return null;
+      }
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+// Keeps the base name only, without control characters
+export function cleanFilename(filename: string): string {
+  const base = filename.split(/[\\/]/).pop() ?? '';
+  // eslint-disable-next-line no-control-regex
+  const cleaned = base.replace(/[\u0000-\u001f\u007f]/g, '').trim();
+  return cleaned.slice(-200) || 'attachment';
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export class AttachmentManager {
+  static async getTask(taskId: string, userId: string): Promise<{ id: string } | null> {
+    return prisma.task.findFirst({ where: { id: taskId, userId }, select: { id: true } });
+  }
+
+  // Oldest first
+  static async list(taskId: string, userId: string): Promise<AttachmentView[]> {
+    const rows = await prisma.taskAttachment.findMany({ where: { taskId, userId }, orderBy: { created_at: 'asc' } });
+    return rows.map(row => this.toView(row));
+  }
+
+  static async get(attachmentId: string, userId: string): Promise<TaskAttachment | null> {
+    return prisma.taskAttachment.findFirst({ where: { id: attachmentId, userId } });
+  }
+
+  // The stored bytes of the file or its thumbnail; null if there is none. Thumbnails are
+  // encoded by the browser that uploaded them, so their type is sniffed on the way out.
+  static async read(attachment: TaskAttachment, thumbnail = false): Promise<{ data: Buffer; mime_type: string } | null> {
+    const key = thumbnail ? attachment.thumbnail_key : attachment.storage_key;
+    const data = key ? await getAttachmentStorage().get(key) : null;
+    if (!data) return null;
+
+    const mimeType = thumbnail && key !== attachment.storage_key ? sniffMimeType(data) : attachment.mime_type;
+    return { data, mime_type: mimeType ?? 'application/octet-stream' };
+  }
+
+  // Returns a message instead when the file is refused
+  static async upload(userId: string, taskId: string, upload: AttachmentUpload): Promise<TaskAttachment | string> {
+    const { data } = upload;
+    if (data.length === 0) return 'file is empty';
+    if (data.length > MAX_ATTACHMENT_BYTES) return `file must be at most ${formatBytes(MAX_ATTACHMENT_BYTES)}`;
+
+    const filename = cleanFilename(upload.filename);
+    const mimeType = sniffMimeType(data, filename);
+    if (!mimeType) return 'this type of file can\'t be attached';
+
+    const [count, used] = await Promise.all([
+      prisma.taskAttachment.count({ where: { taskId, userId } }),
+      prisma.taskAttachment.aggregate({ where: { userId }, _sum: { size_bytes: true } })
+    ]);
+    if (count >= MAX_ATTACHMENTS_PER_TASK) return `a task can have at most ${MAX_ATTACHMENTS_PER_TASK} attachments`;
+    if ((used._sum.size_bytes ?? 0) + data.length > ATTACHMENT_QUOTA_BYTES) {
+      return `attachments are limited to ${formatBytes(ATTACHMENT_QUOTA_BYTES)} per account`;
+    }
+
+    const isImage = IMAGE_TYPES.includes(mimeType);
+    let thumbnail: Buffer | null = null;
+    if (isImage && upload.thumbnail) {
+      if (upload.thumbnail.length > MAX_THUMBNAIL_BYTES) return `thumbnail must be at most ${formatBytes(MAX_THUMBNAIL_BYTES)}`;
+      const thumbnailType = sniffMimeType(upload.thumbnail);
+      if (!thumbnailType || !['image/png', 'image/jpeg', 'image/webp'].includes(thumbnailType)) {
+        return 'thumbnail must be a PNG, JPEG or WebP image';
+      }
+      // A thumbnail comes from the browser, so it has to read as a small image, not just start like one
+      const size = imageDimensions(upload.thumbnail, thumbnailType);
+      if (!size || size.width > MAX_THUMBNAIL_SIZE || size.height > MAX_THUMBNAIL_SIZE) {
+        return `thumbnail must be an image at most ${MAX_THUMBNAIL_SIZE}px on each side`;
+      }
+      thumbnail = upload.thumbnail;
+    }
+
+    const id = randomUUID();
+    const storageKey = `${userId}/${id}`;
+    // Small images are their own thumbnail
+    const thumbnailKey = thumbnail ? `${storageKey}.thumb` : isImage && data.length <= MAX_THUMBNAIL_BYTES ? storageKey : null;
+    const dimensions = isImage ? imageDimensions(data, mimeType) : null;
+
+    const storage = getAttachmentStorage();
+    await storage.put(storageKey, data);
+    if (thumbnail) await storage.put(`${storageKey}.thumb`, thumbnail);
+
+    try {
+      return await prisma.taskAttachment.create({
+        data: {
+          id,
+          userId,
+          taskId,
+          filename,
+          mime_type: mimeType,
+          size_bytes: data.length,
+          storage_key: storageKey,
+          thumbnail_key: thumbnailKey,
+          width: dimensions?.width ?? null,
+          height: dimensions?.height ?? null
+        }
+      });
+    } catch (error) {
+      await this.deleteFiles([{ storage_key: storageKey, thumbnail_key: thumbnailKey }]);
+      throw error;
+    }
+  }
+
+  static async remove(attachmentId: string, userId: string): Promise<boolean> {
+    const attachment = await this.get(attachmentId, userId);
+    if (!attachment) return false;
+
+    await prisma.taskAttachment.delete({ where: { id: attachmentId } });
+    await this.deleteFiles([attachment]);
+    return true;
+  }
+
+  // For tasks that are gone for good
+  static async removeForTasks(userId: string, taskIds: string[]): Promise<void> {
+    if (taskIds.length === 0) return;
+
+    const attachments = await prisma.taskAttachment.findMany({ where: { userId, taskId: { in: taskIds } } });
+    if (attachments.length === 0) return;
+
+    await prisma.taskAttachment.deleteMany({ where: { id: { in: attachments.map(attachment => attachment.id) } } });
+    await this.deleteFiles(attachments);
+  }
+
+  // Files are removed after their rows, so a failure here leaves orphaned bytes rather
+  // than rows pointing at nothing
+  static async deleteFiles(attachments: Array<Pick<TaskAttachment, 'storage_key' | 'thumbnail_key'>>): Promise<void> {
+    const storage = getAttachmentStorage();
+    const keys = new Set(attachments.flatMap(attachment => [attachment.storage_key, attachment.thumbnail_key ?? attachment.storage_key]));
+    for (const key of Array.from(keys)) {
+      try {
+        await storage.delete(key);
+      } catch (error) {
+        console.error('Delete attachment file error:', error);
+      }
+    }
+  }
+
+  static toView(row: TaskAttachment): AttachmentView {
+    return {
+      id: row.id,
+      taskId: row.taskId,
+      filename: row.filename,
+      mime_type: row.mime_type,
+      size_bytes: row.size_bytes,
+      width: row.width,
+      height: row.height,
+      has_thumbnail: !!row.thumbnail_key,
+      created_at: row.created_at
+    };
+  }
+}
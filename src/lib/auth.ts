@@ -0,0 +1,362 @@
+// Authentication System
+// Email/password and magic-link sign-in backed by server-side sessions
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { prisma } from './prisma';
+import { ApiTokenManager, ApiTokenScope } from './apiTokens';
+import {
+  SESSION_COOKIE,
+  SESSION_ID_HEADER,
+  SESSION_MAX_AGE_SECONDS,
+  USER_ID_HEADER,
+  signSessionToken
+} from './sessionToken';
+
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const MIN_PASSWORD_LENGTH = 8;
+
+export type UserRole = 'user' | 'admin' | 'super_admin';
+export type UserStatus = 'active' | 'suspended' | 'pending';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+  auth_provider: string;
+  role: string;
+  status: string;
+}
+
+const authUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  auth_provider: true,
+  role: true,
+  status: true
+};
+
+// Comma-separated emails promoted to super_admin when they sign in,
+// so a fresh install has someone who can reach the admin console
+function isBootstrapSuperAdmin(email: string): boolean {
+  return (process.env.SUPER_ADMIN_EMAILS || '')
+    .split(',')
+    .map(normalizeEmail)
+    .filter(Boolean)
+    .includes(email);
+}
+
+function scryptAsync(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, 64, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Opt-in for local development only: the magic-link endpoint returns the link itself
+// instead of relying on the email going out
+export function devLinksEnabled(): boolean {
+  return process.env.AUTH_DEV_LINKS === 'true';
+}
+
+// Where emailed links point. Taken from configuration, never from the request's Host header,
+// which the requester controls and could aim a real sign-in token at their own server.
+function appUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export class AuthManager {
+  static isValidPassword(password: unknown): password is string {
+    return typeof password === 'string' && password.length >= MIN_PASSWORD_LENGTH;
+  }
+
+  // Stored as "salt:hash" (hex)
+  static async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16).toString('hex');
+    const hash = await scryptAsync(password, salt);
+    return `${salt}:${hash.toString('hex')}`;
+  }
+
+  static async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [salt, hash] = stored.split(':');
+    if (!salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scryptAsync(password, salt);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  // Null when the email is already taken, with or without a password. An account without
+  // one gets it from setPassword() once its owner is signed in.
+  static async register(email: string, password: string, name?: string): Promise<AuthUser | null> {
+    const normalized = normalizeEmail(email);
+    const existing = await prisma.user.findUnique({ where: { email: normalized } });
+    if (existing) return null;
+
+    return await prisma.user.create({
+      data: {
+        email: normalized,
+        name,
+        auth_provider: 'email',
+        password_hash: await this.hashPassword(password)
+      },
+      select: authUserSelect
+    });
+  }
+
+  // For a signed-in user. Replacing an existing password needs the current one.
+  // Returns false when `currentPassword` doesn't match.
+  static async setPassword(userId: string, password: string, currentPassword?: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { password_hash: true } });
+    if (!user) return false;
+    if (user.password_hash && !(currentPassword && await this.verifyPassword(currentPassword, user.password_hash))) {
+      return false;
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { password_hash: await this.hashPassword(password) }
+    });
+    return true;
+  }
+
+  static async signInWithPassword(email: string, password: string): Promise<AuthUser | null> {
+    const user = await prisma.user.findUnique({
+      where: { email: normalizeEmail(email) }
+    });
+
+    if (!user?.password_hash) return null;
+    if (!(await this.verifyPassword(password, user.password_hash))) return null;
+
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      auth_provider: user.auth_provider,
+      role: user.role,
+      status: user.status
+    };
+  }
+
+  // Creates a single-use token and queues the sign-in email.
+  // Returns the link so callers can surface it when AUTH_DEV_LINKS is on.
+  static async requestMagicLink(email: string, next?: string): Promise<string> {
+    const normalized = normalizeEmail(email);
+    const token = randomBytes(32).toString('hex');
+
+    await prisma.magicLinkToken.create({
+      data: {
+        email: normalized,
+        token_hash: sha256(token),
+        expires_at: new Date(Date.now() + MAGIC_LINK_TTL_MS)
+      }
+    });
+
+    const params = new URLSearchParams({ token });
+    if (next) params.set('next', next);
+    const link = `${appUrl()}/api/auth/magic-link/verify?${params}`;
+
+    const user = await prisma.user.findUnique({ where: { email: normalized } });
+    if (user) {
+      await prisma.notification.create({
+        data: {
+          userId: user.id,
+          type: 'magic_link',
+          channel: 'email',
+          payload_json: JSON.stringify({
+            title: 'Your BlitzitApp sign-in link',
+            message: `Sign in to BlitzitApp: ${link}`
+          }),
+          scheduled_at: new Date()
+        }
+      });
+    }
+
+    return link;
+  }
+
+  // Consumes a magic-link token, creating the account on first sign-in
+  static async consumeMagicLink(token: string): Promise<AuthUser | null> {
+    const record = await prisma.magicLinkToken.findUnique({
+      where: { token_hash: sha256(token) }
+    });
+
+    if (!record || record.consumed_at || record.expires_at <= new Date()) {
+      return null;
+    }
+
+    // Guard against the same link being used twice concurrently
+    const consumed = await prisma.magicLinkToken.updateMany({
+      where: { id: record.id, consumed_at: null },
+      data: { consumed_at: new Date() }
+    });
+    if (consumed.count === 0) return null;
+
+    return await prisma.user.upsert({
+      where: { email: record.email },
+      update: {},
+      create: {
+        email: record.email,
+        auth_provider: 'magic_link'
+      },
+      select: authUserSelect
+    });
+  }
+
+  static async createSession(userId: string, userAgent?: string | null): Promise<{ token: string; expiresAt: Date }> {
+    const expiresAt = new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000);
+
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        user_agent: userAgent || null,
+        expires_at: expiresAt
+      }
+    });
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { last_login_at: new Date() }
+    });
+
+    if (user.role !== 'super_admin' && isBootstrapSuperAdmin(user.email)) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { role: 'super_admin' }
+      });
+    }
+
+    const token = await signSessionToken({
+      sid: session.id,
+      uid: userId,
+      exp: expiresAt.getTime()
+    });
+
+    return { token, expiresAt };
+  }
+
+  static async revokeSession(sessionId: string): Promise<void> {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revoked_at: null },
+      data: { revoked_at: new Date() }
+    });
+  }
+
+  // Signs the user out everywhere
+  static async revokeUserSessions(userId: string): Promise<void> {
+    await prisma.session.updateMany({
+      where: { userId, revoked_at: null },
+      data: { revoked_at: new Date() }
+    });
+  }
+
+  // Returns the user for a live session, or null if it was revoked or has expired
+  static async getSessionUser(sessionId: string, userId: string): Promise<AuthUser | null> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { user: { select: authUserSelect } }
+    });
+
+    if (!session || session.userId !== userId) return null;
+    if (session.revoked_at || session.expires_at <= new Date()) return null;
+
+    return session.user;
+  }
+}
+
+// Resolves the signed-in user for an API request.
+// Middleware verifies the cookie signature and forwards the ids as headers;
+// here we make sure the session still exists and hasn't been revoked.
+export async function getSessionUser(req: NextRequest): Promise<AuthUser | null> {
+  const sessionId = req.headers.get(SESSION_ID_HEADER);
+  const userId = req.headers.get(USER_ID_HEADER);
+  if (!sessionId || !userId) return null;
+
+  return AuthManager.getSessionUser(sessionId, userId);
+}
+
+export async function getSessionUserId(req: NextRequest): Promise<string | null> {
+  const user = await getSessionUser(req);
+  return user?.id ?? null;
+}
+
+export interface RequestAuth {
+  userId: string;
+  status: string;
+  // null for browser sessions, which have full access
+  scopes: ApiTokenScope[] | null;
+}
+
+function getBearerToken(req: NextRequest): string | null {
+  const header = req.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// Resolves the caller for routes that also accept personal API tokens.
+// A bearer token takes precedence over the session cookie.
+export async function getRequestAuth(req: NextRequest): Promise<RequestAuth | null> {
+  const bearer = getBearerToken(req);
+  if (bearer) {
+    const tokenAuth = await ApiTokenManager.authenticate(bearer);
+    return tokenAuth ? { userId: tokenAuth.userId, status: tokenAuth.status, scopes: tokenAuth.scopes } : null;
+  }
+
+  const user = await getSessionUser(req);
+  return user ? { userId: user.id, status: user.status, scopes: null } : null;
+}
+
+export function hasScope(auth: RequestAuth, scope: ApiTokenScope): boolean {
+  return auth.scopes === null || auth.scopes.includes(scope);
+}
+
+export function unauthorized(): NextResponse {
+  return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+}
+
+export function isSuspended(user: { status: string }): boolean {
+  return user.status === 'suspended';
+}
+
+export function isAdminRole(role: string): boolean {
+  return role === 'admin' || role === 'super_admin';
+}
+
+export function accountSuspended(): NextResponse {
+  return NextResponse.json({ error: 'Account suspended' }, { status: 403 });
+}
+
+export function forbidden(scope: ApiTokenScope): NextResponse {
+  return NextResponse.json({ error: `Token is missing the ${scope} scope` }, { status: 403 });
+}
+
+export function setSessionCookie(res: NextResponse, token: string, expiresAt: Date): void {
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt
+  });
+}
+
+export function clearSessionCookie(res: NextResponse): void {
+  res.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0
+  });
+}
@@ -0,0 +1,239 @@
+// Bulk Task Actions
+// One action applied to many of a user's tasks at once. Every write runs in a single
+// transaction; ids that can't take part are reported per item and left alone.
+
+import type { Prisma, Task, TaskSeries } from '@prisma/client';
+import { DependencyManager, DependencyTask, DONE_STATUSES } from './dependencies';
+import { ProjectManager } from './projects';
+import { prisma } from './prisma';
+import { normalizeTags, TagManager, tagLinks } from './tags';
+import { TaskManager } from './taskManager';
+import { TaskSeriesManager } from './taskSeries';
+import { allDayDate, allDayKey } from './timezone';
+
+export const BULK_ACTIONS = ['complete', 'delete', 'move', 'reschedule', 'retag', 'reprioritize'] as const;
+export type BulkAction = typeof BULK_ACTIONS[number];
+
+// Upper bound on ids per request, so one call can't hold the database for long
+export const MAX_BULK_TASKS = 500;
+
+const PRIORITIES = ['low', 'medium', 'high'];
+
+export type BulkOperation =
+  | { action: 'complete' }
+  | { action: 'delete' }
+  | { action: 'move'; projectId: string | null } // null is the inbox
+  | { action: 'reschedule'; due_at: Date | null; all_day: boolean }
+  | { action: 'retag'; add: string[]; remove: string[] }
+  | { action: 'reprioritize'; priority: string };
+
+export interface BulkItemResult {
+  id: string;
+  ok: boolean;
+  error?: string;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// The operation described by a request body, or the first problem with it
+export function parseBulkOperation(body: Record<string, unknown>): BulkOperation | string {
+  switch (body.action) {
+    case 'complete':
+    case 'delete':
+      return { action: body.action };
+    case 'move':
+      if (body.projectId !== null && typeof body.projectId !== 'string') {
+        return 'projectId must be a project id, or null for the inbox';
+      }
+      return { action: 'move', projectId: body.projectId || null };
+    case 'reschedule': {
+      const dueAt = body.due_at === null ? null : new Date(body.due_at as string);
+      if (dueAt && (typeof body.due_at !== 'string' || isNaN(dueAt.getTime()))) {
+        return 'due_at must be an ISO date, or null to clear it';
+      }
+      return { action: 'reschedule', due_at: dueAt, all_day: body.all_day === true };
+    }
+    case 'retag': {
+      const add = body.add ?? [];
+      const remove = body.remove ?? [];
+      if (!isStringList(add) || !isStringList(remove)) return 'add and remove must be lists of tag names';
+      if (add.length === 0 && remove.length === 0) return 'retag needs tags to add or remove';
+      return { action: 'retag', add: normalizeTags(add), remove: normalizeTags(remove) };
+    }
+    case 'reprioritize':
+      if (!PRIORITIES.includes(body.priority as string)) {
+        return `priority must be one of ${PRIORITIES.join(', ')}`;
+      }
+      return { action: 'reprioritize', priority: body.priority as string };
+    default:
+      return `action must be one of ${BULK_ACTIONS.join(', ')}`;
+  }
+}
+
+function isOpen(task: Task): boolean {
+  return !DONE_STATUSES.includes(task.status);
+}
+
+export class BulkTaskManager {
+  // Results come back in the order the ids were given, duplicates dropped. Recurring tasks
+  // change only the selected occurrence, as an edit with scope `this` would.
+  static async apply(userId: string, taskIds: string[], operation: BulkOperation): Promise<BulkItemResult[]> {
+    const ids = Array.from(new Set(taskIds));
+    const tasks = await this.loadTasks(userId, ids);
+    const seriesIds = tasks.map(task => task.seriesId).filter((id): id is string => !!id);
+    const series = new Map((await prisma.taskSeries.findMany({ where: { id: { in: seriesIds }, userId } })).map(row => [row.id, row]));
+    const byId = new Map(tasks.map(task => [task.id, task]));
+
+    if (operation.action === 'move' && operation.projectId && !(await ProjectManager.getProject(operation.projectId, userId))) {
+      return ids.map(id => ({ id, ok: false, error: 'Project not found' }));
+    }
+
+    const now = new Date();
+    const writes: Prisma.PrismaPromise<unknown>[] = [];
+    for (const task of tasks) {
+      writes.push(...this.writesFor(userId, task, task.seriesId ? series.get(task.seriesId) : undefined, operation, now));
+    }
+    await prisma.$transaction(writes);
+
+    await this.afterCommit(userId, tasks, operation);
+
+    return ids.map(id => byId.has(id) ? { id, ok: true } : { id, ok: false, error: 'Task not found' });
+  }
+
+  // Recurring tasks from before series existed get one first, outside the transaction,
+  // so occurrences can be recorded against it
+  private static async loadTasks(userId: string, ids: string[]): Promise<Task[]> {
+    const where = { id: { in: ids }, userId };
+    const tasks = await prisma.task.findMany({ where });
+    const legacy = tasks.filter(task => task.recurrence_rule && !task.seriesId);
+    if (legacy.length === 0) return tasks;
+
+    for (const task of legacy) await TaskSeriesManager.ensureSeries(task);
+    return prisma.task.findMany({ where });
+  }
+
+  // Deletes use deleteMany so a subtask selected along with its parent, and so already
+  // gone by its turn, doesn't fail the transaction
+  private static writesFor(
+    userId: string,
+    task: Task,
+    series: TaskSeries | undefined,
+    operation: BulkOperation,
+    now: Date
+  ): Prisma.PrismaPromise<unknown>[] {
+    switch (operation.action) {
+      case 'complete':
+        if (!isOpen(task)) return [];
+        return [
+          prisma.task.updateMany({
+            where: { parent_task_id: task.id, userId },
+            data: { status: 'completed', completed_at: now }
+          }),
+          prisma.task.update({
+            where: { id: task.id },
+            data: { status: 'completed', completed_at: now }
+          })
+        ];
+
+      case 'delete': {
+        const writes: Prisma.PrismaPromise<unknown>[] = [];
+        // Deleting an open occurrence skips it so the series carries on
+        if (task.recurrence_rule && isOpen(task)) {
+          const skip = this.occurrenceWrite(task, series, { skipped: true });
+          if (skip) writes.push(skip);
+        }
+        return [
+          ...writes,
+          DependencyManager.detach([task.id]),
+          TagManager.detach([task.id]),
+          prisma.task.deleteMany({ where: { parent_task_id: task.id, userId } }),
+          prisma.task.deleteMany({ where: { id: task.id } })
+        ];
+      }
+
+      case 'move':
+        if (task.projectId === operation.projectId) return [];
+        // Sections belong to one project's board
+        return [prisma.task.update({
+          where: { id: task.id },
+          data: { projectId: operation.projectId, sectionId: null }
+        })];
+
+      case 'reschedule': {
+        const dueAt = operation.all_day && operation.due_at ? allDayDate(allDayKey(operation.due_at)) : operation.due_at;
+        const writes: Prisma.PrismaPromise<unknown>[] = [prisma.task.update({
+          where: { id: task.id },
+          data: { due_at: dueAt, all_day: operation.all_day }
+        })];
+        // Recorded like a single-occurrence edit, so later series edits keep the new date
+        if (task.recurrence_rule) {
+          const override = this.occurrenceWrite(task, series, { due_at: dueAt });
+          if (override) writes.push(override);
+        }
+        return writes;
+      }
+
+      case 'retag': {
+        const current = normalizeTags(JSON.parse(task.tags_json || '[]'));
+        const tags = normalizeTags([...current.filter(tag => !operation.remove.includes(tag)), ...operation.add]);
+        if (tags.join('\n') === current.join('\n')) return [];
+        return [prisma.task.update({
+          where: { id: task.id },
+          data: {
+            tags_json: JSON.stringify(tags),
+            tags: { deleteMany: {}, create: tagLinks(userId, tags) }
+          }
+        })];
+      }
+
+      case 'reprioritize':
+        if (task.priority === operation.priority) return [];
+        return [prisma.task.update({
+          where: { id: task.id },
+          data: { priority: operation.priority }
+        })];
+    }
+  }
+
+  // An exception on the task's occurrence of its series. A due date equal to the
+  // occurrence itself clears the override.
+  private static occurrenceWrite(
+    task: Task,
+    series: TaskSeries | undefined,
+    change: { skipped: true } | { due_at: Date | null }
+  ): Prisma.PrismaPromise<unknown> | null {
+    const occurrence = series && TaskSeriesManager.occurrenceIn(task, series);
+    if (!series || !occurrence) return null;
+
+    const data = 'due_at' in change
+      ? { due_at: change.due_at && change.due_at.getTime() !== occurrence.getTime() ? change.due_at : null }
+      : change;
+
+    return prisma.taskSeriesException.upsert({
+      where: { seriesId_occurrence_at: { seriesId: series.id, occurrence_at: occurrence } },
+      create: { seriesId: series.id, occurrence_at: occurrence, ...data },
+      update: data
+    });
+  }
+
+  // Completing or deleting an open occurrence brings on the next one; completions also
+  // let waiting tasks know they can start
+  private static async afterCommit(userId: string, tasks: Task[], operation: BulkOperation): Promise<void> {
+    if (operation.action !== 'complete' && operation.action !== 'delete') return;
+
+    const open = tasks.filter(isOpen);
+    for (const task of open.filter(task => task.recurrence_rule)) {
+      await TaskManager.createNextRecurrence(task);
+    }
+
+    if (operation.action === 'complete') {
+      const unblocked = new Map<string, DependencyTask>();
+      for (const task of open) {
+        for (const dependant of await DependencyManager.unblockedBy(task.id)) unblocked.set(dependant.id, dependant);
+      }
+      await DependencyManager.notifyUnblocked(userId, Array.from(unblocked.values()));
+    }
+  }
+}
@@ -0,0 +1,230 @@
+// Task Comments
+// Threaded markdown comments on tasks, from the owner or from visitors of a share link, with
+// @mentions that notify the people named
+
+import type { TaskComment } from '@prisma/client';
+import { markdownToText, mentionHandles } from './markdown';
+import { prisma } from './prisma';
+
+export const MAX_COMMENT_LENGTH = 5000;
+export const MAX_AUTHOR_NAME_LENGTH = 60;
+
+export interface CommentAuthor {
+  userId: string | null;
+  name: string;
+}
+
+export interface CommentTask {
+  id: string;
+  userId: string;
+  title: string;
+}
+
+export interface TaskCommentView {
+  id: string;
+  parentId: string | null;
+  author_name: string;
+  byOwner: boolean;
+  mine: boolean; // Written by the viewer, who may edit it
+  body: string;
+  edited_at: Date | null;
+  deleted_at: Date | null;
+  created_at: Date;
+  replies: TaskCommentView[];
+}
+
+export interface CommentParticipant {
+  handle: string;
+  name: string;
+}
+
+export interface CommentViewOptions {
+  viewerId: string | null;
+  // Shown instead of the owner's name, for share links that hide who shared them
+  ownerLabel?: string;
+}
+
+// How someone is @mentioned: their name without spaces, or their email's local part
+export function mentionHandle(user: { name: string | null; email: string }): string {
+  return (user.name?.trim() ? user.name.replace(/\s+/g, '') : user.email.split('@')[0]).toLowerCase();
+}
+
+export function displayName(user: { name: string | null; email: string }): string {
+  return user.name?.trim() || user.email.split('@')[0];
+}
+
+// null when the body is fine, otherwise what's wrong with it
+export function validateCommentBody(body: unknown): string | null {
+  if (typeof body !== 'string' || !body.trim()) return 'body is required';
+  if (body.length > MAX_COMMENT_LENGTH) return `body must be at most ${MAX_COMMENT_LENGTH} characters`;
+  return null;
+}
+
+function excerpt(body: string): string {
+  const text = markdownToText(body).replace(/\s+/g, ' ').trim();
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
+
+export class CommentManager {
+  static async getTask(taskId: string, userId: string): Promise<CommentTask | null> {
+    return prisma.task.findFirst({ where: { id: taskId, userId }, select: { id: true, userId: true, title: true } });
+  }
+
+  static async authorFor(userId: string): Promise<CommentAuthor> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { name: true, email: true } });
+    return { userId, name: user ? displayName(user) : 'Unknown' };
+  }
+
+  // Top-level comments oldest first, each with its replies nested under it
+  static async list(task: CommentTask, options: CommentViewOptions): Promise<TaskCommentView[]> {
+    const rows = await prisma.taskComment.findMany({
+      where: { taskId: task.id, userId: task.userId },
+      orderBy: { created_at: 'asc' }
+    });
+
+    const views = new Map(rows.map(row => [row.id, this.toView(row, options)]));
+    const roots: TaskCommentView[] = [];
+    for (const view of Array.from(views.values())) {
+      const parent = view.parentId ? views.get(view.parentId) : undefined;
+      if (parent) parent.replies.push(view);
+      else roots.push(view);
+    }
+    return roots;
+  }
+
+  static async counts(userId: string, taskIds: string[]): Promise<Record<string, number>> {
+    const groups = await prisma.taskComment.groupBy({
+      by: ['taskId'],
+      where: { userId, taskId: { in: taskIds }, deleted_at: null },
+      _count: { _all: true }
+    });
+    return Object.fromEntries(groups.map(group => [group.taskId, group._count._all]));
+  }
+
+  // Who can be @mentioned on a task: its owner and everyone signed in who has commented
+  static async participants(task: CommentTask): Promise<Array<CommentParticipant & { userId: string }>> {
+    const authors = await prisma.taskComment.findMany({
+      where: { taskId: task.id, userId: task.userId, authorId: { not: null } },
+      distinct: ['authorId'],
+      select: { authorId: true }
+    });
+    const ids = [task.userId, ...authors.map(author => author.authorId as string)];
+    const users = await prisma.user.findMany({ where: { id: { in: ids } }, select: { id: true, name: true, email: true } });
+
+    return users.map(user => ({ userId: user.id, handle: mentionHandle(user), name: displayName(user) }));
+  }
+
+  // Returns a message instead when the reply target isn't a comment on this task
+  static async create(
+    task: CommentTask,
+    author: CommentAuthor,
+    input: { body: string; parentId?: string | null },
+    shareId: string | null = null
+  ): Promise<TaskComment | string> {
+    if (input.parentId) {
+      const parent = await prisma.taskComment.findFirst({ where: { id: input.parentId, taskId: task.id, userId: task.userId } });
+      if (!parent) return 'parentId is not a comment on this task';
+    }
+
+    const handles = new Set(mentionHandles(input.body));
+    const mentioned = (await this.participants(task))
+      .filter(participant => handles.has(participant.handle) && participant.userId !== author.userId)
+      .map(participant => participant.userId);
+
+    const comment = await prisma.taskComment.create({
+      data: {
+        userId: task.userId,
+        taskId: task.id,
+        parentId: input.parentId || null,
+        authorId: author.userId,
+        author_name: author.name,
+        shareId,
+        body: input.body,
+        mentions_json: JSON.stringify(mentioned)
+      }
+    });
+
+    await this.notify(task, comment, mentioned);
+    return comment;
+  }
+
+  // Only the author can edit
+  static async update(commentId: string, userId: string, body: string): Promise<TaskComment | null> {
+    const comment = await prisma.taskComment.findFirst({ where: { id: commentId, authorId: userId, deleted_at: null } });
+    if (!comment) return null;
+
+    return prisma.taskComment.update({
+      where: { id: commentId },
+      data: { body, edited_at: new Date() }
+    });
+  }
+
+  // The author or the task's owner can delete. A comment with replies is blanked rather
+  // than removed, so the thread under it keeps its place.
+  static async remove(commentId: string, userId: string): Promise<boolean> {
+    const comment = await prisma.taskComment.findFirst({
+      where: { id: commentId, OR: [{ authorId: userId }, { userId }] }
+    });
+    if (!comment) return false;
+
+    const replies = await prisma.taskComment.count({ where: { parentId: commentId } });
+    if (replies > 0) {
+      await prisma.taskComment.update({
+        where: { id: commentId },
+        data: { body: '', mentions_json: '[]', deleted_at: new Date() }
+      });
+    } else {
+      await prisma.taskComment.delete({ where: { id: commentId } });
+    }
+    return true;
+  }
+
+  static toView(row: TaskComment, options: CommentViewOptions): TaskCommentView {
+    const byOwner = row.authorId === row.userId;
+    return {
+      id: row.id,
+      parentId: row.parentId,
+      author_name: byOwner && options.ownerLabel ? options.ownerLabel : row.author_name,
+      byOwner,
+      mine: !!options.viewerId && row.authorId === options.viewerId,
+      body: row.body,
+      edited_at: row.edited_at,
+      deleted_at: row.deleted_at,
+      created_at: row.created_at,
+      replies: []
+    };
+  }
+
+  // Mentioned users hear about it, as does the owner when someone else comments on their
+  // task; each only if they have comment notifications on
+  private static async notify(task: CommentTask, comment: TaskComment, mentioned: string[]): Promise<void> {
+    const recipients = new Map(mentioned.map(userId => [userId, 'comment_mention']));
+    if (comment.authorId !== task.userId && !recipients.has(task.userId)) recipients.set(task.userId, 'task_comment');
+    if (recipients.size === 0) return;
+
+    const enabled = await prisma.user.findMany({
+      where: { id: { in: Array.from(recipients.keys()) }, notification_task_comment: true },
+      select: { id: true }
+    });
+
+    await prisma.notification.createMany({
+      data: enabled.map(user => {
+        const type = recipients.get(user.id) as string;
+        return {
+          userId: user.id,
+          type,
+          channel: 'push',
+          payload_json: JSON.stringify({
+            task_id: task.id,
+            comment_id: comment.id,
+            share_id: comment.shareId,
+            message: type === 'comment_mention'
+              ? `${comment.author_name} mentioned you on ${task.title}: ${excerpt(comment.body)}`
+              : `${comment.author_name} commented on ${task.title}: ${excerpt(comment.body)}`
+          }),
+          scheduled_at: new Date()
+        };
+      })
+    });
+  }
+}
@@ -16,4 +16,7 @@ export function toCsv(rows: Array<Record<string, string | number | boolean | nul
   return lines.join('\n');
 }
 
-
+// e.g. exportFilename('tasks_export', 'csv') -> tasks_export_2026-10-19.csv
+export function exportFilename(prefix: string, extension: string, date: Date = new Date()): string {
+  return `${prefix}_${date.toISOString().split('T')[0]}.${extension}`;
+}
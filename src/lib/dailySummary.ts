@@ -24,11 +24,11 @@ export class DailySummaryService {
       const user = await userResponse.json();
       
       // Fetch tasks completed today
-      const tasksResponse = await fetch(`/api/tasks?userId=${userId}&from=${startOfDay.toISOString()}&to=${endOfDay.toISOString()}`);
+      const tasksResponse = await fetch(`/api/tasks?from=${startOfDay.toISOString()}&to=${endOfDay.toISOString()}`);
       const tasks = await tasksResponse.json();
       
       // Fetch focus sessions today
-      const sessionsResponse = await fetch(`/api/focus/sessions?userId=${userId}&from=${startOfDay.toISOString()}&to=${endOfDay.toISOString()}`);
+      const sessionsResponse = await fetch(`/api/focus/sessions?from=${startOfDay.toISOString()}&to=${endOfDay.toISOString()}`);
       const sessions = await sessionsResponse.json();
 
       // Calculate statistics
@@ -93,7 +93,6 @@ export class DailySummaryService {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId,
           email,
           summary,
           content: emailContent
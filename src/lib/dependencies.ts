@@ -0,0 +1,153 @@
+// Task Dependencies
+// Blocking relationships between any two of a user's tasks, kept free of cycles
+
+import type { Prisma, Task, TaskDependency } from '@prisma/client';
+import { prisma } from './prisma';
+
+// Statuses that count as finished; older rows use `done`
+export const DONE_STATUSES = ['completed', 'done'];
+
+export type DependencyTask = Pick<Task, 'id' | 'title' | 'status'>;
+
+export interface TaskDependencies {
+  blockers: DependencyTask[];
+  dependants: DependencyTask[];
+}
+
+const taskSelect = { id: true, title: true, status: true };
+
+class DependencyCycle extends Error {}
+
+// True when `upstreamId` blocks `taskId`, directly or through other tasks
+async function blocksTransitively(client: Prisma.TransactionClient, upstreamId: string, taskId: string): Promise<boolean> {
+  const seen = new Set([taskId]);
+  let frontier = [taskId];
+
+  while (frontier.length > 0) {
+    const edges = await client.taskDependency.findMany({
+      where: { blockedId: { in: frontier } },
+      select: { blockerId: true }
+    });
+
+    frontier = [];
+    for (const { blockerId } of edges) {
+      if (blockerId === upstreamId) return true;
+      if (seen.has(blockerId)) continue;
+      seen.add(blockerId);
+      frontier.push(blockerId);
+    }
+  }
+
+  return false;
+}
+
+export class DependencyManager {
+  static async listForTask(taskId: string, userId: string): Promise<TaskDependencies | null> {
+    const task = await prisma.task.findFirst({
+      where: { id: taskId, userId },
+      include: {
+        blockedBy: { include: { blocker: { select: taskSelect } } },
+        blocking: { include: { blocked: { select: taskSelect } } }
+      }
+    });
+    if (!task) return null;
+
+    return {
+      blockers: task.blockedBy.map(dependency => dependency.blocker),
+      dependants: task.blocking.map(dependency => dependency.blocked)
+    };
+  }
+
+  // Both tasks must belong to the user; adding an existing dependency is a no-op.
+  // 'cycle' when the new edge would close a loop.
+  static async addDependency(userId: string, blockerId: string, blockedId: string): Promise<TaskDependency | 'cycle' | null> {
+    const ids = Array.from(new Set([blockerId, blockedId]));
+    const owned = await prisma.task.count({ where: { id: { in: ids }, userId } });
+    if (owned !== ids.length) return null;
+    if (blockerId === blockedId) return 'cycle';
+
+    // The edge is written before the walk, so a concurrent request for the reverse edge waits
+    // on this transaction's write and then finds the loop, instead of both passing the check
+    try {
+      return await prisma.$transaction(async tx => {
+        const dependency = await tx.taskDependency.upsert({
+          where: { blockerId_blockedId: { blockerId, blockedId } },
+          create: { blockerId, blockedId },
+          update: {}
+        });
+        if (await blocksTransitively(tx, blockedId, blockerId)) throw new DependencyCycle();
+        return dependency;
+      });
+    } catch (error) {
+      if (error instanceof DependencyCycle) return 'cycle';
+      throw error;
+    }
+  }
+
+  static async removeDependency(userId: string, blockerId: string, blockedId: string): Promise<boolean> {
+    const { count } = await prisma.taskDependency.deleteMany({
+      where: { blockerId, blockedId, blocker: { userId } }
+    });
+    return count > 0;
+  }
+
+  // Drops every dependency touching these tasks or their subtasks; run it in the same
+  // transaction that deletes them
+  static detach(taskIds: string[]) {
+    return prisma.taskDependency.deleteMany({
+      where: {
+        OR: [
+          { blockerId: { in: taskIds } },
+          { blockedId: { in: taskIds } },
+          { blocker: { parent_task_id: { in: taskIds } } },
+          { blocked: { parent_task_id: { in: taskIds } } }
+        ]
+      }
+    });
+  }
+
+  // Dependants of a just-completed task that have no open blockers left
+  static async unblockedBy(blockerId: string): Promise<DependencyTask[]> {
+    const dependants = await prisma.task.findMany({
+      where: {
+        blockedBy: { some: { blockerId } },
+        status: { notIn: DONE_STATUSES }
+      },
+      select: {
+        ...taskSelect,
+        blockedBy: {
+          where: { blocker: { status: { notIn: DONE_STATUSES } } },
+          select: { blockerId: true }
+        }
+      }
+    });
+
+    return dependants
+      .filter(task => task.blockedBy.length === 0)
+      .map(({ blockedBy: _open, ...task }) => task);
+  }
+
+  // Tells the owner their tasks can start, unless they turned these notifications off
+  static async notifyUnblocked(userId: string, tasks: DependencyTask[]): Promise<void> {
+    if (tasks.length === 0) return;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { notification_task_unblocked: true }
+    });
+    if (!user?.notification_task_unblocked) return;
+
+    await prisma.notification.createMany({
+      data: tasks.map(task => ({
+        userId,
+        type: 'task_unblocked',
+        channel: 'push',
+        payload_json: JSON.stringify({
+          task_id: task.id,
+          message: `Ready to start: ${task.title}`
+        }),
+        scheduled_at: new Date()
+      }))
+    });
+  }
+}
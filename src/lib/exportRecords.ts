@@ -0,0 +1,80 @@
+// Export Records
+// Tracks every export a user runs so it shows up in their history with its status and size
+
+import { prisma } from './prisma';
+
+export type ExportType = 'tasks' | 'focus-sessions' | 'summary' | 'account';
+
+export interface ExportHistoryEntry {
+  id: string;
+  exportType: string;
+  status: string;
+  fileSize: number | null;
+  errorMessage: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export class ExportRecordManager {
+  // Runs `build` while keeping the ExportRecord in step: pending, then completed with
+  // the byte size of the output, or failed with the error (which is rethrown)
+  static async track(
+    userId: string,
+    exportType: ExportType,
+    options: { filters?: any; dateRange?: any },
+    build: () => Promise<string>
+  ): Promise<{ exportId: string; content: string }> {
+    const record = await prisma.exportRecord.create({
+      data: {
+        userId,
+        export_type: exportType,
+        filters: JSON.stringify(options.filters ?? {}),
+        date_range: JSON.stringify(options.dateRange ?? {}),
+        status: 'pending'
+      }
+    });
+
+    try {
+      const content = await build();
+
+      await prisma.exportRecord.update({
+        where: { id: record.id },
+        data: {
+          status: 'completed',
+          file_size: Buffer.byteLength(content, 'utf8'),
+          completed_at: new Date()
+        }
+      });
+
+      return { exportId: record.id, content };
+    } catch (error) {
+      await prisma.exportRecord.update({
+        where: { id: record.id },
+        data: {
+          status: 'failed',
+          error_message: error instanceof Error ? error.message : 'Unknown error',
+          completed_at: new Date()
+        }
+      });
+      throw error;
+    }
+  }
+
+  static async getHistory(userId: string, limit = 20): Promise<ExportHistoryEntry[]> {
+    const records = await prisma.exportRecord.findMany({
+      where: { userId },
+      orderBy: { created_at: 'desc' },
+      take: Math.min(100, Math.max(1, limit))
+    });
+
+    return records.map(record => ({
+      id: record.id,
+      exportType: record.export_type,
+      status: record.status,
+      fileSize: record.file_size,
+      errorMessage: record.error_message,
+      createdAt: record.created_at,
+      completedAt: record.completed_at
+    }));
+  }
+}
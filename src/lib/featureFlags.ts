@@ -0,0 +1,186 @@
+// Feature Flags
+// Prisma-backed flag store and evaluation: on/off, admin-only, allow/deny lists and percentage rollouts
+
+import { createHash } from 'crypto';
+import type { FeatureFlag as FeatureFlagRecord, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { isAdminRole } from './auth';
+import type { FeatureFlag } from './admin';
+
+export type FeatureFlagAudience = FeatureFlag['enabledFor'];
+
+const AUDIENCES: FeatureFlagAudience[] = ['all', 'admins', 'specific_users', 'percentage'];
+
+// Flag names end up in URLs (/api/admin/feature-flags/<name>/check)
+const FLAG_NAME_PATTERN = /^[a-z0-9][a-z0-9_.-]{0,63}$/;
+
+// What a flag evaluates to before an admin has created it. Existing features
+// default on so a flag can be added later to dark-launch or kill them.
+export const FEATURE_FLAG_DEFAULTS: Record<string, boolean> = {
+  forest_shop: true,
+  focus_mini_timer: true,
+  performance_monitor: true
+};
+
+export interface FeatureFlagInput {
+  name?: string;
+  description?: string;
+  enabled?: boolean;
+  enabledFor?: FeatureFlagAudience;
+  targetUsers?: string[];
+  excludedUsers?: string[];
+  targetPercentage?: number | null;
+}
+
+export interface FeatureFlagSubject {
+  id: string;
+  role: string;
+}
+
+export function isFeatureFlagAudience(value: unknown): value is FeatureFlagAudience {
+  return typeof value === 'string' && (AUDIENCES as string[]).includes(value);
+}
+
+export function isValidFlagName(value: unknown): value is string {
+  return typeof value === 'string' && FLAG_NAME_PATTERN.test(value);
+}
+
+function parseIds(json: string): string[] {
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function normalizeIds(ids: string[]): string {
+  return JSON.stringify(Array.from(new Set(ids.map(id => id.trim()).filter(Boolean))));
+}
+
+function clampPercentage(value: number): number {
+  return Math.min(100, Math.max(0, Math.round(value)));
+}
+
+// Stable 0-99 bucket per flag and user, so a user stays in the same cohort as
+// the percentage grows and different flags don't all pick the same users
+export function rolloutBucket(flagName: string, userId: string): number {
+  const digest = createHash('sha256').update(`${flagName}:${userId}`).digest();
+  return digest.readUInt32BE(0) % 100;
+}
+
+export function evaluateFlag(record: FeatureFlagRecord, user: FeatureFlagSubject | null): boolean {
+  if (!record.enabled) return false;
+
+  if (user) {
+    if (parseIds(record.deny_list_json).includes(user.id)) return false;
+    if (parseIds(record.allow_list_json).includes(user.id)) return true;
+  }
+
+  switch (record.enabled_for) {
+    case 'all':
+      return true;
+    case 'admins':
+      return !!user && isAdminRole(user.role);
+    case 'percentage':
+      return !!user && rolloutBucket(record.name, user.id) < clampPercentage(record.rollout_percentage ?? 0);
+    default:
+      // specific_users: only the allow list, handled above
+      return false;
+  }
+}
+
+// Server helper for API routes and server components
+export async function isFeatureEnabled(name: string, user: FeatureFlagSubject | null): Promise<boolean> {
+  const record = await prisma.featureFlag.findUnique({ where: { name } });
+  if (!record) return FEATURE_FLAG_DEFAULTS[name] ?? false;
+  return evaluateFlag(record, user);
+}
+
+export class FeatureFlagManager {
+  static toFeatureFlag(record: FeatureFlagRecord): FeatureFlag {
+    return {
+      id: record.id,
+      name: record.name,
+      description: record.description,
+      enabled: record.enabled,
+      enabledFor: isFeatureFlagAudience(record.enabled_for) ? record.enabled_for : 'all',
+      targetUsers: parseIds(record.allow_list_json),
+      excludedUsers: parseIds(record.deny_list_json),
+      targetPercentage: record.rollout_percentage ?? undefined,
+      createdAt: record.created_at,
+      updatedAt: record.updated_at,
+      createdBy: record.created_by
+    };
+  }
+
+  // Returns an error message, or null if the input is acceptable
+  static validate(input: FeatureFlagInput, requireName: boolean): string | null {
+    if ((requireName || input.name !== undefined) && !isValidFlagName(input.name)) {
+      return 'name must be lowercase letters, digits, "_", "-" or "."';
+    }
+    if (input.enabledFor !== undefined && !isFeatureFlagAudience(input.enabledFor)) {
+      return `enabledFor must be one of ${AUDIENCES.join(', ')}`;
+    }
+    if (input.targetPercentage !== undefined && input.targetPercentage !== null &&
+        (typeof input.targetPercentage !== 'number' || !Number.isFinite(input.targetPercentage))) {
+      return 'targetPercentage must be a number between 0 and 100';
+    }
+    for (const list of [input.targetUsers, input.excludedUsers]) {
+      if (list !== undefined && (!Array.isArray(list) || list.some(id => typeof id !== 'string'))) {
+        return 'targetUsers and excludedUsers must be arrays of user ids';
+      }
+    }
+    return null;
+  }
+
+  static async listFlags(): Promise<FeatureFlag[]> {
+    const records = await prisma.featureFlag.findMany({ orderBy: { name: 'asc' } });
+    return records.map(record => this.toFeatureFlag(record));
+  }
+
+  static async getFlag(id: string): Promise<FeatureFlagRecord | null> {
+    return prisma.featureFlag.findUnique({ where: { id } });
+  }
+
+  static async getFlagByName(name: string): Promise<FeatureFlagRecord | null> {
+    return prisma.featureFlag.findUnique({ where: { name } });
+  }
+
+  static async createFlag(createdBy: string, input: FeatureFlagInput & { name: string }): Promise<FeatureFlag> {
+    const record = await prisma.featureFlag.create({
+      data: {
+        name: input.name,
+        description: input.description || '',
+        enabled: input.enabled ?? false,
+        enabled_for: input.enabledFor || 'all',
+        rollout_percentage: input.targetPercentage != null ? clampPercentage(input.targetPercentage) : null,
+        allow_list_json: normalizeIds(input.targetUsers || []),
+        deny_list_json: normalizeIds(input.excludedUsers || []),
+        created_by: createdBy
+      }
+    });
+
+    return this.toFeatureFlag(record);
+  }
+
+  static async updateFlag(id: string, input: FeatureFlagInput): Promise<FeatureFlag> {
+    const data: Prisma.FeatureFlagUpdateInput = {};
+    if (input.name !== undefined) data.name = input.name;
+    if (input.description !== undefined) data.description = input.description;
+    if (input.enabled !== undefined) data.enabled = input.enabled;
+    if (input.enabledFor !== undefined) data.enabled_for = input.enabledFor;
+    if (input.targetPercentage !== undefined) {
+      data.rollout_percentage = input.targetPercentage !== null ? clampPercentage(input.targetPercentage) : null;
+    }
+    if (input.targetUsers !== undefined) data.allow_list_json = normalizeIds(input.targetUsers);
+    if (input.excludedUsers !== undefined) data.deny_list_json = normalizeIds(input.excludedUsers);
+
+    const record = await prisma.featureFlag.update({ where: { id }, data });
+    return this.toFeatureFlag(record);
+  }
+
+  static async deleteFlag(id: string): Promise<void> {
+    await prisma.featureFlag.delete({ where: { id } });
+  }
+}
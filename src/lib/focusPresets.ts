@@ -222,7 +222,7 @@ class FocusPresetManager {
   async syncWithServer(userId: string): Promise<void> {
     try {
       // Load presets from server
-      const response = await fetch(`/api/focus/presets?userId=${userId}`);
+      const response = await fetch(`/api/focus/presets`);
       if (response.ok) {
         const serverPresets = await response.json();
         
@@ -245,7 +245,6 @@ class FocusPresetManager {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId,
           presets: customPresets
         })
       });
@@ -1,5 +1,7 @@
 // Comprehensive Forest Gamification System
 
+import { DEFAULT_TIME_ZONE, addDays, dayKey } from './timezone';
+
 export interface GamificationConfig {
   pointsPerMinute: number;
   maxStreakMultiplier: number;
@@ -96,29 +98,22 @@ class GamificationManager {
     );
   }
 
-  // Calculate daily streak based on focus sessions
+  // Calculate daily streak based on focus sessions; days are calendar days in the user's time zone
   calculateStreak(
     currentStreak: number,
     lastFocusDate: Date | null,
-    currentDate: Date = new Date()
+    currentDate: Date = new Date(),
+    timeZone: string = DEFAULT_TIME_ZONE
   ): StreakCalculation {
-    const today = new Date(currentDate);
-    today.setHours(0, 0, 0, 0);
-    
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-
-    let lastFocusDay: Date | null = null;
-    if (lastFocusDate) {
-      lastFocusDay = new Date(lastFocusDate);
-      lastFocusDay.setHours(0, 0, 0, 0);
-    }
+    const today = dayKey(currentDate, timeZone);
+    const yesterday = dayKey(addDays(currentDate, -1, timeZone), timeZone);
+    const lastFocusDay = lastFocusDate ? dayKey(lastFocusDate, timeZone) : null;
 
     // Check if user focused today
-    const focusedToday = lastFocusDay && lastFocusDay.getTime() === today.getTime();
+    const focusedToday = lastFocusDay === today;
     
     // Check if user focused yesterday (for streak maintenance)
-    const focusedYesterday = lastFocusDay && lastFocusDay.getTime() === yesterday.getTime();
+    const focusedYesterday = lastFocusDay === yesterday;
 
     let newStreak = currentStreak;
     let isMaintained = false;
@@ -279,9 +274,10 @@ export function calculateStreakMultiplier(streakDays: number): number {
 export function calculateStreak(
   currentStreak: number,
   lastFocusDate: Date | null,
-  currentDate?: Date
+  currentDate?: Date,
+  timeZone?: string
 ): StreakCalculation {
-  return gamificationManager.calculateStreak(currentStreak, lastFocusDate, currentDate);
+  return gamificationManager.calculateStreak(currentStreak, lastFocusDate, currentDate, timeZone);
 }
 
 export function validateSession(
@@ -0,0 +1,148 @@
+// Link Titles
+// Looks up a web page's title so a link pasted into a description can read as [Title](url).
+// Only public http(s) addresses are fetched, with a short timeout and a cap on what's read.
+
+import { promises as dns } from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_BYTES = 256 * 1024;
+const MAX_REDIRECTS = 3;
+const MAX_TITLE_LENGTH = 200;
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const CACHE_SIZE = 500;
+
+const cache = new Map<string, { title: string | null; expires: number }>();
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges. IPv6 forms
+// that carry an IPv4 address (mapped, compatible, NAT64, 6to4) are refused whole rather than
+// unpacked, since the URL parser rewrites them to hex and a private address can hide inside.
+const BLOCKED = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) BLOCKED.addSubnet(prefix, bits, 'ipv4');
+for (const [prefix, bits] of [
+  ['::', 96], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['2002::', 16],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) BLOCKED.addSubnet(prefix, bits, 'ipv6');
+
+function isPrivateAddress(address: string): boolean {
+  return BLOCKED.check(address, net.isIPv4(address) ? 'ipv4' : 'ipv6');
+}
+
+// The address to connect to when `url` is http(s) on the default ports and every address its
+// host resolves to is public, otherwise null
+async function publicAddress(url: URL): Promise<string | null> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+  if (url.username || url.password) return null;
+  if (url.port && url.port !== '80' && url.port !== '443') return null;
+
+  const host = bareHost(url);
+  const addresses = net.isIP(host)
+    ? [host]
+    : (await dns.lookup(host, { all: true }).catch(() => [])).map(entry => entry.address);
+  return addresses.length > 0 && !addresses.some(isPrivateAddress) ? addresses[0] : null;
+}
+
+function bareHost(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '');
+}
+
+// Connects to the address that was checked instead of resolving the host again, so a DNS
+// answer that changes between the check and the request can't send it somewhere private
+function get(url: URL, address: string, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const host = bareHost(url);
+  const request = url.protocol === 'https:' ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    request({
+      host: address,
+      port: url.port || undefined,
+      path: url.pathname + url.search,
+      servername: net.isIP(host) ? undefined : host,
+      headers: { Host: url.host, Accept: 'text/html', 'User-Agent': 'BlitzitApp link preview' },
+      signal
+    }, resolve).on('error', reject).end();
+  });
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// og:title when the page has one, since <title> often carries the site name as well
+export function extractTitle(html: string): string | null {
+  const meta = /<meta\s[^>]*property\s*=\s*["']og:title["'][^>]*>/i.exec(html)?.[0];
+  const ogTitle = meta && /\scontent\s*=\s*(?:"([^"]*)"|'([^']*)')/i.exec(meta);
+  const raw = (ogTitle && (ogTitle[1] ?? ogTitle[2])) || /<title[^>]*>([\s\S]*?)<\/title\s*>/i.exec(html)?.[1];
+  if (!raw) return null;
+
+  const title = decodeEntities(raw).replace(/\s+/g, ' ').trim();
+  if (!title) return null;
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+}
+
+async function readStart(res: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of res) {
+    chunks.push(chunk as Buffer);
+    size += (chunk as Buffer).length;
+    if (size >= MAX_BYTES) break;
+  }
+  res.destroy();
+  return Buffer.concat(chunks).subarray(0, MAX_BYTES).toString('utf8');
+}
+
+export class LinkTitleManager {
+  // null when the page can't be reached, isn't HTML or has no title
+  static async titleFor(href: string): Promise<string | null> {
+    const cached = cache.get(href);
+    if (cached && cached.expires > Date.now()) return cached.title;
+
+    const title = await this.fetchTitle(href).catch(() => null);
+    if (cache.size >= CACHE_SIZE) cache.delete(cache.keys().next().value as string);
+    cache.set(href, { title, expires: Date.now() + CACHE_TTL_MS });
+    return title;
+  }
+
+  // Redirects are followed by hand so each hop is checked before it's fetched
+  private static async fetchTitle(href: string): Promise<string | null> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+      let url = new URL(href);
+      for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        const address = await publicAddress(url);
+        if (!address) return null;
+
+        const res = await get(url, address, controller.signal);
+        const status = res.statusCode ?? 0;
+        const location = res.headers.location;
+        if (status >= 300 && status < 400 && location) {
+          res.destroy();
+          url = new URL(location, url);
+          continue;
+        }
+        if (status < 200 || status >= 300 || !(res.headers['content-type'] ?? '').includes('html')) {
+          res.destroy();
+          return null;
+        }
+        return extractTitle(await readStart(res));
+      }
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,315 @@
+// Markdown
+// A small markdown dialect parsed to a tree that components render as React elements, so
+// nothing a user types is ever inserted as HTML. A few harmless inline tags (<b>, <em>,
+// <a href>, <br>...) are read as their markdown equivalents; other tags are dropped.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'mention'; handle: string }
+  | { type: 'break' };
+
+export interface MarkdownListItem {
+  checked: boolean | null; // null for a plain item, otherwise a "- [ ]" checklist item
+  children: MarkdownInline[];
+  line: number; // Source line the item starts on, counting from 0
+  endLine: number; // Last source line, including indented continuation lines
+}
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownListItem[] }
+  | { type: 'code'; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] };
+
+// Descriptions are parsed on every write to keep their plain text searchable, and an unclosed
+// delimiter still costs each pattern one scan to the end, so they are kept to a bounded size
+export const MAX_DESCRIPTION_LENGTH = 10000;
+
+type InlinePattern = {
+  regex: RegExp;
+  build: (match: RegExpExecArray) => MarkdownInline;
+};
+
+// Only these schemes become links; anything else (javascript:, data:) stays text
+const SAFE_HREF = /^(https?:\/\/|mailto:)/i;
+
+const DROPPED: MarkdownInline = { type: 'text', text: '' };
+
+const HTML_STYLES: Record<string, 'strong' | 'em' | 'strike'> = {
+  b: 'strong', strong: 'strong', i: 'em', em: 'em', s: 'strike', del: 'strike', strike: 'strike'
+};
+
+// Earlier patterns win when two start at the same place
+const INLINE_PATTERNS: InlinePattern[] = [
+  { regex: /`([^`\n]+)`/g, build: match => ({ type: 'code', text: match[1] }) },
+  // Inline HTML: elements that can run code go with their content, a few formatting tags
+  // map onto markdown, and any other tag is dropped while the text around it stays
+  { regex: /<(script|style|iframe|object|embed|template|noscript|textarea)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, build: () => DROPPED },
+  { regex: /<!--[\s\S]*?-->/g, build: () => DROPPED },
+  { regex: /<code>([^<]*)<\/code\s*>/gi, build: match => ({ type: 'code', text: match[1] }) },
+  {
+    regex: /<(b|strong|i|em|s|del|strike)>([\s\S]*?)<\/\1\s*>/gi,
+    build: match => ({ type: HTML_STYLES[match[1].toLowerCase()], children: parseInline(match[2]) })
+  },
+  {
+    regex: /<a\s[^<>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)')[^<>]*>([\s\S]*?)<\/a\s*>/gi,
+    build: match => {
+      const href = match[1] ?? match[2];
+      const children = parseInline(match[3]);
+      return SAFE_HREF.test(href) ? { type: 'link', href, children } : { type: 'text', text: inlineText(children) };
+    }
+  },
+  { regex: /<br\s*\/?>/gi, build: () => ({ type: 'break' }) },
+  { regex: /<\/?[a-zA-Z][\w-]*(?:\s[^<>]*)?\/?>/g, build: () => DROPPED },
+  {
+    regex: /\[([^\]\n]+)\]\(([^)\s]+)\)/g,
+    build: match => SAFE_HREF.test(match[2])
+      ? { type: 'link', href: match[2], children: parseInline(match[1]) }
+      : { type: 'text', text: match[0] }
+  },
+  {
+    regex: /\bhttps?:\/\/[^\s<>()]*[^\s<>().,;:!?'"]/g,
+    build: match => ({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] })
+  },
+  { regex: /\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__/g, build: match => ({ type: 'strong', children: parseInline(match[1] ?? match[2]) }) },
+  { regex: /~~(?=\S)([\s\S]*?\S)~~/g, build: match => ({ type: 'strike', children: parseInline(match[1]) }) },
+  { regex: /\*(?=\S)([^*\n]*?\S)\*|(?<!\w)_(?=\S)([^_\n]*?\S)_(?!\w)/g, build: match => ({ type: 'em', children: parseInline(match[1] ?? match[2]) }) },
+  { regex: /(?<![\w@])@(\w+(?:[.-]\w+)*)/g, build: match => ({ type: 'mention', handle: match[1].toLowerCase() }) },
+  { regex: /\n/g, build: () => ({ type: 'break' }) }
+];
+
+// Each pattern's leftmost match is kept until a node overtakes it: a match that still starts
+// at or after the current position is still the leftmost there, and a pattern with no match
+// has none further on either. So each pattern scans the text about once instead of once per
+// node, which matters for long descriptions full of near-misses like unclosed tags.
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  const next: Array<RegExpExecArray | null | undefined> = INLINE_PATTERNS.map(() => undefined);
+  let position = 0;
+
+  while (position < text.length) {
+    let best = -1;
+    INLINE_PATTERNS.forEach((pattern, i) => {
+      let match = next[i];
+      if (match === undefined || (match && match.index < position)) {
+        pattern.regex.lastIndex = position;
+        match = next[i] = pattern.regex.exec(text);
+      }
+      if (match && (best === -1 || match.index < (next[best] as RegExpExecArray).index)) best = i;
+    });
+
+    if (best === -1) break;
+    const match = next[best] as RegExpExecArray;
+    if (match.index > position) nodes.push({ type: 'text', text: text.slice(position, match.index) });
+    const node = INLINE_PATTERNS[best].build(match);
+    if (node.type !== 'text' || node.text) nodes.push(node);
+    position = match.index + match[0].length;
+  }
+
+  if (position < text.length) nodes.push({ type: 'text', text: text.slice(position) });
+  return nodes;
+}
+
+const LIST_ITEM = /^\s{0,3}(?:([-*+])|(\d{1,9})[.)])\s+(.*)$/;
+const CHECKBOX = /^\[([ xX])\]\s+(.*)$/;
+
+function sourceLines(source: string): string[] {
+  return source.replace(/\r\n?/g, '\n').split('\n');
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  return parseLines(sourceLines(source), 0);
+}
+
+// `offset` is where `lines` start in the whole source, so list items can say which line
+// they came from
+function parseLines(lines: string[], offset: number): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code runs to the closing fence, or to the end if there isn't one
+    if (/^\s*```/.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```/.test(lines[i])) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2].trim()) });
+      i++;
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const start = i;
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) quoted.push(lines[i++].replace(/^\s*> ?/, ''));
+      blocks.push({ type: 'quote', children: parseLines(quoted, offset + start) });
+      continue;
+    }
+
+    const first = LIST_ITEM.exec(line);
+    if (first) {
+      const ordered = !!first[2];
+      const items: MarkdownListItem[] = [];
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (item) {
+          if (!!item[2] !== ordered) break;
+          const checkbox = CHECKBOX.exec(item[3]);
+          items.push({
+            checked: checkbox ? checkbox[1] !== ' ' : null,
+            children: parseInline(checkbox ? checkbox[2] : item[3]),
+            line: offset + i,
+            endLine: offset + i
+          });
+        } else if (/^\s{2,}\S/.test(lines[i]) && items.length > 0) {
+          // An indented line continues the item above it
+          const last = items[items.length - 1];
+          last.children.push({ type: 'break' }, ...parseInline(lines[i].trim()));
+          last.endLine = offset + i;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !/^\s*```/.test(lines[i]) &&
+      !/^#{1,3}\s/.test(lines[i]) &&
+      !/^\s*>/.test(lines[i]) &&
+      !LIST_ITEM.test(lines[i])
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+function inlineText(nodes: MarkdownInline[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text;
+      case 'mention':
+        return `@${node.handle}`;
+      case 'break':
+        return '\n';
+      default:
+        return inlineText(node.children);
+    }
+  }).join('');
+}
+
+function blockText(blocks: MarkdownBlock[]): string[] {
+  return blocks.flatMap(block => {
+    switch (block.type) {
+      case 'code':
+        return [block.text];
+      case 'quote':
+        return blockText(block.children);
+      case 'list':
+        return block.items.map(item => inlineText(item.children));
+      default:
+        return [inlineText(block.children)];
+    }
+  });
+}
+
+// The words a reader sees, without markup; for notifications and previews
+export function markdownToText(source: string): string {
+  return blockText(parseMarkdown(source)).join('\n');
+}
+
+function inlineMentions(nodes: MarkdownInline[]): string[] {
+  return nodes.flatMap(node => {
+    if (node.type === 'mention') return [node.handle];
+    if (node.type === 'strong' || node.type === 'em' || node.type === 'strike' || node.type === 'link') return inlineMentions(node.children);
+    return [];
+  });
+}
+
+function blockMentions(blocks: MarkdownBlock[]): string[] {
+  return blocks.flatMap(block => {
+    switch (block.type) {
+      case 'code':
+        return [];
+      case 'quote':
+        return blockMentions(block.children);
+      case 'list':
+        return block.items.flatMap(item => inlineMentions(item.children));
+      default:
+        return inlineMentions(block.children);
+    }
+  });
+}
+
+// Lower-cased @handles outside code, each once
+export function mentionHandles(source: string): string[] {
+  return Array.from(new Set(blockMentions(parseMarkdown(source))));
+}
+
+export interface ChecklistItem {
+  line: number;
+  endLine: number;
+  checked: boolean;
+  text: string; // Without markup
+}
+
+function blockChecklist(blocks: MarkdownBlock[]): ChecklistItem[] {
+  return blocks.flatMap(block => {
+    if (block.type === 'quote') return blockChecklist(block.children);
+    if (block.type !== 'list') return [];
+    return block.items
+      .filter(item => item.checked !== null)
+      .map(item => ({ line: item.line, endLine: item.endLine, checked: !!item.checked, text: inlineText(item.children).trim() }));
+  });
+}
+
+// "- [ ]" items in source order
+export function checklistItems(source: string): ChecklistItem[] {
+  return blockChecklist(parseMarkdown(source));
+}
+
+const CHECKBOX_MARK = /^((?:\s*>\s?)*\s{0,3}(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])\]/;
+
+// Ticks or unticks the checklist item on `line`, leaving the rest of the source as it was
+export function toggleChecklistItem(source: string, line: number): string {
+  const lines = sourceLines(source);
+  const match = CHECKBOX_MARK.exec(lines[line] ?? '');
+  if (!match) return source;
+
+  lines[line] = match[1] + (match[2] === ' ' ? 'x' : ' ') + lines[line].slice(match[1].length + 1);
+  return lines.join('\n');
+}
+
+// Drops the given items from the source, with their continuation lines
+export function removeChecklistItems(source: string, items: Array<Pick<ChecklistItem, 'line' | 'endLine'>>): string {
+  const dropped = new Set(items.flatMap(item => Array.from({ length: item.endLine - item.line + 1 }, (_, i) => item.line + i)));
+  return sourceLines(source).filter((_, i) => !dropped.has(i)).join('\n');
+}
@@ -29,7 +29,7 @@ export interface PushSubscription {
 
 export interface NotificationSchedule {
   id: string;
-  type: 'task_due' | 'focus_end' | 'streak_milestone' | 'daily_summary' | 'focus_completed';
+  type: 'task_due' | 'focus_end' | 'streak_milestone' | 'daily_summary' | 'focus_completed' | 'task_unblocked' | 'task_comment' | 'comment_mention';
   userId: string;
   scheduledAt: Date;
   payload: NotificationPayload;
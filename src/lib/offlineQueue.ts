@@ -124,7 +124,6 @@ class OfflineQueueManagerImpl implements OfflineQueueManager {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            userId: 'user-123', // Replace with actual user ID
             exportType: item.type,
             filters: item.filters
           })
@@ -1,14 +1,40 @@
 import { PrismaClient } from '@prisma/client';
+import { markdownToText } from './markdown';
 
 declare global {
   // eslint-disable-next-line no-var
   var prismaGlobal: PrismaClient | undefined;
 }
 
-export const prisma: PrismaClient = global.prismaGlobal ?? new PrismaClient();
+// Task.description_text follows description on every write that sets it, so search
+// indexes what readers see rather than the markdown
+function withDescriptionText(data: unknown): void {
+  if (Array.isArray(data)) {
+    data.forEach(withDescriptionText);
+    return;
+  }
+  if (!data || typeof data !== 'object' || !('description' in data)) return;
 
-if (process.env.NODE_ENV !== 'production') {
-  global.prismaGlobal = prisma;
+  const row = data as Record<string, unknown>;
+  if (typeof row.description === 'string') row.description_text = markdownToText(row.description);
+  else if (row.description === null) row.description_text = null;
+}
+
+function createClient(): PrismaClient {
+  const client = new PrismaClient();
+  client.$use(async (params, next) => {
+    if (params.model === 'Task' && params.args) {
+      withDescriptionText(params.args.data);
+      withDescriptionText(params.args.create);
+      withDescriptionText(params.args.update);
+    }
+    return next(params);
+  });
+  return client;
 }
 
+export const prisma: PrismaClient = global.prismaGlobal ?? createClient();
 
+if (process.env.NODE_ENV !== 'production') {
+  global.prismaGlobal = prisma;
+}
@@ -0,0 +1,110 @@
+// Projects
+// Named, coloured lists that group a user's tasks, shown in the sidebar and used by analytics
+
+import type { Project } from '@prisma/client';
+import { prisma } from './prisma';
+
+export const DEFAULT_PROJECT_COLOR = '#3B82F6';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export interface ProjectWithCounts extends Project {
+  openTaskCount: number;
+}
+
+export interface ProjectInput {
+  name?: string;
+  color?: string;
+  icon?: string | null;
+  archived?: boolean;
+}
+
+export function isProjectColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR.test(value);
+}
+
+export class ProjectManager {
+  // Sidebar order, with the number of open top-level tasks in each
+  static async listProjects(userId: string, includeArchived = false): Promise<ProjectWithCounts[]> {
+    const projects = await prisma.project.findMany({
+      where: { userId, ...(includeArchived ? {} : { archived_at: null }) },
+      include: {
+        _count: {
+          select: { tasks: { where: { parent_task_id: null, status: { in: ['todo', 'in_progress'] } } } }
+        }
+      },
+      orderBy: [{ order_index: 'asc' }, { created_at: 'asc' }]
+    });
+
+    return projects.map(({ _count, ...project }) => ({ ...project, openTaskCount: _count.tasks }));
+  }
+
+  static async getProject(projectId: string, userId: string): Promise<Project | null> {
+    return prisma.project.findFirst({ where: { id: projectId, userId } });
+  }
+
+  static async findByName(userId: string, name: string): Promise<Project | null> {
+    return prisma.project.findUnique({ where: { userId_name: { userId, name } } });
+  }
+
+  // New projects go to the bottom of the sidebar
+  static async createProject(userId: string, data: { name: string; color?: string; icon?: string | null }): Promise<Project> {
+    const last = await prisma.project.findFirst({
+      where: { userId },
+      orderBy: { order_index: 'desc' }
+    });
+
+    return prisma.project.create({
+      data: {
+        userId,
+        name: data.name,
+        color: data.color || DEFAULT_PROJECT_COLOR,
+        icon: data.icon || null,
+        order_index: (last?.order_index ?? -1) + 1
+      }
+    });
+  }
+
+  static async updateProject(projectId: string, userId: string, data: ProjectInput): Promise<Project | null> {
+    const project = await this.getProject(projectId, userId);
+    if (!project) return null;
+
+    return prisma.project.update({
+      where: { id: projectId },
+      data: {
+        name: data.name,
+        color: data.color,
+        icon: data.icon === undefined ? undefined : data.icon || null,
+        archived_at: data.archived === undefined
+          ? undefined
+          : data.archived ? project.archived_at ?? new Date() : null
+      }
+    });
+  }
+
+  // Tasks are kept and move back to the inbox; the project's board sections are removed
+  static async deleteProject(projectId: string, userId: string): Promise<boolean> {
+    const project = await this.getProject(projectId, userId);
+    if (!project) return false;
+
+    await prisma.$transaction([
+      prisma.task.updateMany({ where: { projectId, userId }, data: { projectId: null } }),
+      prisma.taskSeries.updateMany({ where: { projectId, userId }, data: { projectId: null } }),
+      prisma.task.updateMany({ where: { section: { projectId }, userId }, data: { sectionId: null } }),
+      prisma.section.deleteMany({ where: { projectId, userId } }),
+      prisma.project.delete({ where: { id: projectId } })
+    ]);
+
+    return true;
+  }
+
+  // `projectIds` is the new sidebar order; ids the user doesn't own are ignored
+  static async reorderProjects(userId: string, projectIds: string[]): Promise<void> {
+    await prisma.$transaction(
+      projectIds.map((id, index) => prisma.project.updateMany({
+        where: { id, userId },
+        data: { order_index: index }
+      }))
+    );
+  }
+}
@@ -1,69 +1,352 @@
-// Parse strings like: "Pay bills tomorrow 5pm #finance 30m"
-// Returns structured fields for task creation.
+// Quick Add Grammar
+// Parses strings like "Pay bills tomorrow 5pm #finance 30m !high + gather receipts" into task fields.
+// The input is split into words and each word is tried against the grammar rules below; every
+// recognized phrase comes back as a token with its span so the UI can highlight it in place.
+
+import { matchRecurrenceAt, recurrenceStart } from './recurrencePhrase';
+import { fromWallTime, toWallTime } from './rrule';
+
+export type QuickAddTokenKind = 'text' | 'date' | 'time' | 'recurrence' | 'tag' | 'priority' | 'estimate' | 'subtask';
+
+export type QuickAddPriority = 'low' | 'medium' | 'high';
+
+export interface QuickAddToken {
+  kind: QuickAddTokenKind;
+  text: string;
+  start: number; // Offset into the input
+  end: number; // Exclusive
+}
+
 export type QuickAddParse = {
   title: string;
   due_at?: string; // ISO
+  all_day?: boolean; // A date with no time; due_at is then that date at UTC midnight
   estimate_min?: number;
-  tags?: string[];
+  tags: string[];
+  priority?: QuickAddPriority;
+  recurrence_rule?: string; // RRULE value; the series starts at due_at
+  subtasks: string[];
+  tokens: QuickAddToken[];
 };
 
-const timeRegex = /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/i;
-const durationRegex = /\b(\d+)\s*(m|min|minutes)\b/i;
-const tagRegex = /(^|\s)#(\w+)/g;
-
-function parseNaturalDate(text: string): Date | undefined {
-  const lower = text.toLowerCase();
-  const now = new Date();
-  if (lower.includes('tomorrow')) {
-    const d = new Date(now);
-    d.setDate(now.getDate() + 1);
-    return d;
-  }
-  if (lower.includes('today')) {
-    return new Date(now);
-  }
-  return undefined;
+export interface QuickAddOptions {
+  timeZone?: string; // Zone that "today" and "5pm" are read in; the runtime's own when unset
 }
 
-export function parseQuickAdd(input: string): QuickAddParse {
-  let text = input.trim();
+interface ParseState {
+  now: Date; // Wall-clock time in the user's zone, held in the local Date fields
+  instant: Date;
+  date?: Date; // Local midnight of the due day
+  time?: { hour: number; minute: number };
+  exact?: Date; // Relative times ("in 2 hours") fix the date and time together
+  estimate?: number;
+  priority?: QuickAddPriority;
+  recurrence?: string;
+  tags: string[];
+  subtasks: string[];
+}
 
-  // Tags
-  const tags: string[] = [];
-  text = text.replace(tagRegex, (_m, _sp, tag) => {
-    tags.push('#' + tag);
-    return ' ';
-  });
+interface GrammarRule {
+  kind: QuickAddTokenKind;
+  // End offset of the phrase starting at `at`, or null. Only updates `state` on a match.
+  match: (input: string, at: number, state: ParseState) => number | null;
+}
 
-  // Duration
-  let estimate_min: number | undefined;
-  const dur = text.match(durationRegex);
-  if (dur) {
-    estimate_min = parseInt(dur[1], 10);
-    text = text.replace(dur[0], '');
-  }
+// A phrase must end at a word boundary; trailing punctuation is left out of the span
+const PHRASE_END = '(?=$|[\\s,.;:!?)])';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY = '(sunday|monday|tuesday|wednesday|thursday|friday|saturday)';
+// Abbreviations double as ordinary words ("sat", "sun"), so they need "on", "next" or "this" in front
+const WEEKDAY_SHORT = '(sun|mon|tues?|wed|thu(?:rs?)?|fri|sat)';
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_SUFFIX = '(?:st|nd|rd|th)?';
+
+const PRIORITIES: Record<string, QuickAddPriority> = {
+  high: 'high', h: 'high', '1': 'high',
+  medium: 'medium', med: 'medium', m: 'medium', '2': 'medium',
+  low: 'low', l: 'low', '3': 'low'
+};
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function weekdayIndex(word: string): number {
+  return WEEKDAYS.findIndex(day => day.startsWith(word.toLowerCase().slice(0, 3)));
+}
+
+// The coming `weekday`, today included; with `skipToday`, strictly after today
+function upcomingWeekday(now: Date, weekday: number, skipToday = false): Date {
+  const days = (weekday - now.getDay() + 7) % 7;
+  return addDays(startOfDay(now), days === 0 && skipToday ? 7 : days);
+}
+
+// Rejects impossible dates like Feb 30 instead of letting them roll over
+function calendarDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day);
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+// Dates written without a year mean the next time that date comes round
+function dateWithoutYear(now: Date, month: number, day: number): Date | null {
+  const date = calendarDate(now.getFullYear(), month, day);
+  if (date && date < startOfDay(now)) return calendarDate(now.getFullYear() + 1, month, day);
+  return date;
+}
+
+function fullYear(year: string): number {
+  const value = parseInt(year, 10);
+  return year.length <= 2 ? 2000 + value : value;
+}
+
+function regexRule(
+  kind: QuickAddTokenKind,
+  pattern: string,
+  apply: (match: RegExpExecArray, state: ParseState) => boolean
+): GrammarRule {
+  const regex = new RegExp(pattern + PHRASE_END, 'iy');
+  return {
+    kind,
+    match: (input, at, state) => {
+      regex.lastIndex = at;
+      const match = regex.exec(input);
+      return match && apply(match, state) ? at + match[0].length : null;
+    }
+  };
+}
+
+// Only the first date (and first time) counts; a later one stays in the title
+function setDate(state: ParseState, date: Date | null): boolean {
+  if (!date || state.date || state.exact) return false;
+  state.date = date;
+  return true;
+}
+
+function setTime(state: ParseState, hour: number, minute: number): boolean {
+  if (state.time || state.exact || hour > 23 || minute > 59) return false;
+  state.time = { hour, minute };
+  return true;
+}
+
+// Tried in order at the start of every word; the first rule that matches wins
+const GRAMMAR: GrammarRule[] = [
+  {
+    kind: 'recurrence',
+    match: (input, at, state) => {
+      if (state.recurrence) return null;
+      const phrase = matchRecurrenceAt(input, at);
+      if (!phrase) return null;
+      state.recurrence = phrase.rule;
+      return at + phrase.text.length;
+    }
+  },
+
+  // "in 3 days", "in an hour", "in 2 weeks"
+  regexRule('date', '(?:in|after)\\s+(an?|\\d+)\\s+(minute|min|hour|hr|day|week|month)s?', (match, state) => {
+    if (state.date || state.exact || state.time) return false;
+    const amount = /^an?$/i.test(match[1]) ? 1 : parseInt(match[1], 10);
+    const unit = match[2].toLowerCase();
+
+    if (unit === 'minute' || unit === 'min' || unit === 'hour' || unit === 'hr') {
+      const minutes = unit === 'minute' || unit === 'min' ? amount : amount * 60;
+      state.exact = new Date(state.instant.getTime() + minutes * 60000);
+      return true;
+    }
+    if (unit === 'month') {
+      const date = startOfDay(state.now);
+      date.setMonth(date.getMonth() + amount);
+      return setDate(state, date);
+    }
+    return setDate(state, addDays(startOfDay(state.now), unit === 'week' ? amount * 7 : amount));
+  }),
+
+  regexRule('date', '(?:(?:on|by|due)\\s+)?(day\\s+after\\s+tomorrow|today|tonight|tomorrow|tmrw|tmr)', (match, state) => {
+    const word = match[1].toLowerCase();
+    const days = word.startsWith('day') ? 2 : word.startsWith('to') && word !== 'tomorrow' ? 0 : 1;
+    if (!setDate(state, addDays(startOfDay(state.now), days))) return false;
+    if (word === 'tonight' && !state.time) state.time = { hour: 20, minute: 0 };
+    return true;
+  }),
+
+  // "end of month", "by the end of the week", "eom"; the week ends on Friday
+  regexRule('date', '(?:by\\s+)?(?:(?:the\\s+)?end\\s+of\\s+(?:the\\s+)?(week|month)|(eow|eom))', (match, state) => {
+    const unit = (match[1] || match[2]).toLowerCase();
+    if (unit === 'week' || unit === 'eow') return setDate(state, upcomingWeekday(state.now, 5));
+    return setDate(state, new Date(state.now.getFullYear(), state.now.getMonth() + 1, 0));
+  }),
+
+  // "next week" is next Monday, "next month" the 1st of next month
+  regexRule('date', 'next\\s+(week|month)', (match, state) => {
+    if (match[1].toLowerCase() === 'week') return setDate(state, upcomingWeekday(state.now, 1, true));
+    return setDate(state, new Date(state.now.getFullYear(), state.now.getMonth() + 1, 1));
+  }),
+
+  // "friday", "on fri", "next monday", "this sat"
+  regexRule('date', `(?:(?:on|by|due)\\s+)?(?:(next|this)\\s+)?${WEEKDAY}`, (match, state) =>
+    setDate(state, upcomingWeekday(state.now, weekdayIndex(match[2]), match[1]?.toLowerCase() === 'next'))
+  ),
+  regexRule('date', `(?:on|by|due|next|this)\\s+${WEEKDAY_SHORT}`, (match, state) =>
+    setDate(state, upcomingWeekday(state.now, weekdayIndex(match[1]), /^next/i.test(match[0])))
+  ),
+
+  // "2026-11-01"
+  regexRule('date', '(?:(?:on|by|due)\\s+)?(\\d{4})-(\\d{1,2})-(\\d{1,2})', (match, state) =>
+    setDate(state, calendarDate(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)))
+  ),
+
+  // "Oct 3", "October 3rd, 2027", "3 Oct", "the 3rd of October"
+  regexRule('date', `(?:(?:on|by|due)\\s+)?${MONTH}\\s+(\\d{1,2})${DAY_SUFFIX}(?:,?\\s+(\\d{4}))?`, (match, state) => {
+    const month = MONTHS.indexOf(match[1].toLowerCase().slice(0, 3));
+    const day = parseInt(match[2], 10);
+    return setDate(state, match[3] ? calendarDate(parseInt(match[3], 10), month, day) : dateWithoutYear(state.now, month, day));
+  }),
+  regexRule('date', `(?:(?:on|by|due)\\s+)?(?:the\\s+)?(\\d{1,2})${DAY_SUFFIX}\\s+(?:of\\s+)?${MONTH}(?:,?\\s+(\\d{4}))?`, (match, state) => {
+    const month = MONTHS.indexOf(match[2].toLowerCase().slice(0, 3));
+    const day = parseInt(match[1], 10);
+    return setDate(state, match[3] ? calendarDate(parseInt(match[3], 10), month, day) : dateWithoutYear(state.now, month, day));
+  }),
+
+  // "11/1", "11/1/27" (month first)
+  regexRule('date', '(?:(?:on|by|due)\\s+)?(\\d{1,2})\\/(\\d{1,2})(?:\\/(\\d{2}|\\d{4}))?', (match, state) => {
+    const month = parseInt(match[1], 10) - 1;
+    const day = parseInt(match[2], 10);
+    return setDate(state, match[3] ? calendarDate(fullYear(match[3]), month, day) : dateWithoutYear(state.now, month, day));
+  }),
+
+  // "5pm", "at 5:30 pm", "@9am"
+  regexRule('time', '(?:at\\s+|@\\s*)?(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm|a\\.m\\.|p\\.m\\.)', (match, state) => {
+    let hour = parseInt(match[1], 10);
+    if (hour < 1 || hour > 12) return false;
+    const pm = match[3].toLowerCase().startsWith('p');
+    if (pm && hour < 12) hour += 12;
+    if (!pm && hour === 12) hour = 0;
+    return setTime(state, hour, match[2] ? parseInt(match[2], 10) : 0);
+  }),
+  // "17:00", "at 9:30"
+  regexRule('time', '(?:at\\s+|@\\s*)?(\\d{1,2}):(\\d{2})', (match, state) =>
+    setTime(state, parseInt(match[1], 10), parseInt(match[2], 10))
+  ),
+  regexRule('time', '(?:at\\s+)?(noon|midday|midnight)', (match, state) =>
+    setTime(state, match[1].toLowerCase() === 'midnight' ? 0 : 12, 0)
+  ),
+
+  // "30m", "2h", "1h30m", "1.5 hours", "for 45 minutes"
+  regexRule('estimate', '(?:~|for\\s+)?(\\d+(?:\\.\\d+)?)\\s*(?:h|hrs?|hours?)(?:\\s*(\\d+)\\s*(?:m|mins?|minutes?))?', (match, state) => {
+    if (state.estimate !== undefined) return false;
+    state.estimate = Math.round(parseFloat(match[1]) * 60) + (match[2] ? parseInt(match[2], 10) : 0);
+    return true;
+  }),
+  regexRule('estimate', '(?:~|for\\s+)?(\\d+)\\s*(?:m|mins?|minutes?)', (match, state) => {
+    if (state.estimate !== undefined) return false;
+    state.estimate = parseInt(match[1], 10);
+    return true;
+  }),
+
+  // "!high", "!2", "p1", "!!!", "urgent"
+  regexRule('priority', '(?:!(high|medium|med|low|h|m|l|[123])|p([123])|(!!!|urgent|asap|critical)|(!!))', (match, state) => {
+    if (state.priority) return false;
+    state.priority = match[3] ? 'high' : match[4] ? 'medium' : PRIORITIES[(match[1] || match[2]).toLowerCase()];
+    return true;
+  }),
 
-  // Due date/time
-  let due_at: string | undefined;
-  const baseDate = parseNaturalDate(text);
-  const time = text.match(timeRegex);
-  if (baseDate || time) {
-    const d = baseDate ?? new Date();
-    if (time) {
-      let hour = parseInt(time[1], 10);
-      const minute = time[2] ? parseInt(time[2], 10) : 0;
-      const suffix = time[3]?.toLowerCase();
-      if (suffix === 'pm' && hour < 12) hour += 12;
-      if (suffix === 'am' && hour === 12) hour = 0;
-      d.setHours(hour, minute, 0, 0);
-    } else {
-      d.setHours(17, 0, 0, 0); // default 5pm
+  regexRule('tag', '#([\\w-]+)', (match, state) => {
+    if (!state.tags.includes(match[1])) state.tags.push(match[1]);
+    return true;
+  }),
+
+  // "+ book flights": everything up to the next "+" is one subtask, so subtasks go last
+  {
+    kind: 'subtask',
+    match: (input, at, state) => {
+      if (input[at] !== '+') return null;
+      const next = input.indexOf(' +', at + 1);
+      const end = next === -1 ? input.length : next;
+      const title = input.slice(at + 1, end).trim();
+      if (!title) return null;
+      state.subtasks.push(title);
+      return end;
     }
-    due_at = d.toISOString();
   }
+];
 
-  const title = text.replace(timeRegex, '').replace(/\s+/g, ' ').trim();
-  return { title, due_at, estimate_min, tags };
+// The grammar does its date arithmetic on local Date fields; with a zone, they're
+// loaded with that zone's wall-clock time and converted back at the end
+function wallClock(now: Date, timeZone?: string): Date {
+  if (!timeZone) return now;
+  const wall = toWallTime(now, timeZone);
+  return new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
 }
 
+function resolveDue(state: ParseState, timeZone?: string): { due?: Date; allDay: boolean } {
+  // A repeating task is first due on the first day that fits its rule, and never in the past
+  const firstDue = (due: Date, notBefore: Date = state.now) =>
+    state.recurrence ? recurrenceStart(state.recurrence, due, notBefore) : due;
+
+  if (state.exact) return { due: firstDue(state.exact), allDay: false };
+  if (!state.date && !state.time && !state.recurrence) return { allDay: false };
+
+  const due = new Date(state.date ?? startOfDay(state.now));
+
+  // Without a time the task is due all day, on the same date wherever the user goes
+  if (!state.time) {
+    const day = firstDue(due, startOfDay(state.now));
+    return { due: new Date(Date.UTC(day.getFullYear(), day.getMonth(), day.getDate())), allDay: true };
+  }
+
+  due.setHours(state.time.hour, state.time.minute, 0, 0);
+  const local = firstDue(due);
+  return { due: timeZone ? fromWallTime(toWallTime(local), timeZone) : local, allDay: false };
+}
+
+export function parseQuickAdd(input: string, now: Date = new Date(), options: QuickAddOptions = {}): QuickAddParse {
+  const state: ParseState = { now: wallClock(now, options.timeZone), instant: now, tags: [], subtasks: [] };
+  const tokens: QuickAddToken[] = [];
+  const words = Array.from(input.matchAll(/\S+/g), match => ({ start: match.index as number, end: (match.index as number) + match[0].length }));
+
+  let i = 0;
+  while (i < words.length) {
+    const at = words[i].start;
+    let matched: { kind: QuickAddTokenKind; end: number } | null = null;
 
+    for (const rule of GRAMMAR) {
+      const end = rule.match(input, at, state);
+      if (end !== null) {
+        matched = { kind: rule.kind, end };
+        break;
+      }
+    }
+
+    if (!matched) {
+      tokens.push({ kind: 'text', text: input.slice(at, words[i].end), start: at, end: words[i].end });
+      i++;
+      continue;
+    }
+
+    tokens.push({ kind: matched.kind, text: input.slice(at, matched.end), start: at, end: matched.end });
+    while (i < words.length && words[i].start < matched.end) i++;
+  }
+
+  const title = tokens.filter(token => token.kind === 'text').map(token => token.text).join(' ').trim();
+  const { due, allDay } = resolveDue(state, options.timeZone);
+
+  return {
+    // Input that is nothing but a date or tag still needs a title
+    title: title || input.trim(),
+    due_at: due?.toISOString(),
+    all_day: allDay || undefined,
+    estimate_min: state.estimate,
+    tags: state.tags,
+    priority: state.priority,
+    recurrence_rule: state.recurrence,
+    subtasks: state.subtasks,
+    tokens
+  };
+}
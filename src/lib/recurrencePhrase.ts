@@ -0,0 +1,147 @@
+// Recurrence Phrases
+// Compiles repeat phrases like "every weekday" or "monthly on the 15th" to an RRULE value
+
+import { RRuleParser } from './rrule';
+
+export interface RecurrencePhrase {
+  rule: string; // RRULE value, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+  text: string; // The phrase as written
+  index: number;
+}
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY = '(?:sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?)s?';
+const ORDINAL = '(?:first|second|third|fourth|fifth|last|1st|2nd|3rd|4th|5th)';
+const MONTH_DAY = '(?:\\d{1,2}(?:st|nd|rd|th)?|last(?:\\s+day)?)';
+// Stand-alone month days need the suffix, so "every 2 weeks" isn't read as the 2nd
+const NAMED_MONTH_DAY = '(?:\\d{1,2}(?:st|nd|rd|th)|last\\s+day)';
+const LIST_SEPARATOR = '\\s*(?:,\\s*(?:and\\s+)?|and\\s+|&\\s*)';
+const MONTH_DAY_LIST = `${MONTH_DAY}(?:${LIST_SEPARATOR}${MONTH_DAY})*`;
+const DAY_LIST = `${DAY}(?:${LIST_SEPARATOR}${DAY})*`;
+const NAMED_MONTH_DAY_LIST = `${NAMED_MONTH_DAY}(?:${LIST_SEPARATOR}${NAMED_MONTH_DAY})*`;
+// "every", "every other", "every 3"
+const EVERY = '(?:every|each)(?:\\s+(other|\\d+))?';
+const UNIT = '(day|week|month|year)s?';
+const ADVERB = '(daily|weekly|monthly|yearly|annually)';
+
+const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3, fourth: 4, '4th': 4, fifth: 5, '5th': 5, last: -1
+};
+
+const FREQUENCIES: Record<string, string> = {
+  day: 'DAILY', daily: 'DAILY',
+  week: 'WEEKLY', weekly: 'WEEKLY',
+  month: 'MONTHLY', monthly: 'MONTHLY',
+  year: 'YEARLY', yearly: 'YEARLY', annually: 'YEARLY'
+};
+
+function dayCode(word: string): string {
+  const prefixes = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+  return DAY_CODES[prefixes.indexOf(word.slice(0, 3).toLowerCase())];
+}
+
+function dayCodes(list: string): string[] {
+  const codes = (list.match(new RegExp(DAY, 'gi')) || []).map(dayCode);
+  return DAY_CODES.filter(code => codes.includes(code));
+}
+
+function monthDays(list: string): number[] {
+  const days = (list.match(new RegExp(MONTH_DAY, 'gi')) || [])
+    .map(day => day.toLowerCase().startsWith('last') ? -1 : parseInt(day, 10))
+    .filter(day => day === -1 || (day >= 1 && day <= 31));
+  return Array.from(new Set(days));
+}
+
+function interval(every: string | undefined): number {
+  if (!every) return 1;
+  return every.toLowerCase() === 'other' ? 2 : Math.max(1, parseInt(every, 10));
+}
+
+function compile(freq: string, every = 1, parts: string[] = []): string {
+  return [`FREQ=${freq}`, ...(every > 1 ? [`INTERVAL=${every}`] : []), ...parts].join(';');
+}
+
+// Tried in order; the first pattern that matches wins, so specific forms come first
+const PATTERNS: { regex: RegExp; build: (match: RegExpMatchArray) => string | null }[] = [
+  // "every last Friday", "every 2nd Tuesday of the month", "monthly on the first Monday"
+  {
+    regex: new RegExp(`\\b(?:(?:every|each)\\s+(${ORDINAL})\\s+(${DAY})(?:\\s+of\\s+(?:the|each|every)\\s+month)?|(?:monthly|every\\s+month)\\s+on\\s+the\\s+(${ORDINAL})\\s+(${DAY}))\\b`, 'i'),
+    build: match => {
+      const n = ORDINALS[(match[1] || match[3]).toLowerCase()];
+      return compile('MONTHLY', 1, [`BYDAY=${n}${dayCode(match[2] || match[4])}`]);
+    }
+  },
+  // "monthly on the 15th", "every other month on the 1st and 15th", "every month on the last day"
+  {
+    regex: new RegExp(`\\b(?:monthly|${EVERY}\\s+months?)\\s+on\\s+the\\s+(${MONTH_DAY_LIST})\\b`, 'i'),
+    build: match => {
+      const days = monthDays(match[2]);
+      return days.length ? compile('MONTHLY', interval(match[1]), [`BYMONTHDAY=${days.join(',')}`]) : null;
+    }
+  },
+  // "every 15th", "every 1st and 15th", "every last day of the month"
+  {
+    regex: new RegExp(`\\b(?:every|each)\\s+(${NAMED_MONTH_DAY_LIST})(?:\\s+of\\s+(?:the|each|every)\\s+month)?\\b`, 'i'),
+    build: match => {
+      const days = monthDays(match[1]);
+      return days.length ? compile('MONTHLY', 1, [`BYMONTHDAY=${days.join(',')}`]) : null;
+    }
+  },
+  // "every weekday", "every weekend"
+  {
+    regex: /\b(?:every|each)\s+(weekday|weekend)s?\b/i,
+    build: match => compile('WEEKLY', 1, [
+      `BYDAY=${match[1].toLowerCase() === 'weekday' ? 'MO,TU,WE,TH,FR' : 'SA,SU'}`
+    ])
+  },
+  // "every 2 weeks on Mon and Thu", "weekly on tue", "every other day", "daily"
+  {
+    regex: new RegExp(`\\b(?:${EVERY}\\s+${UNIT}|${ADVERB}|everyday)(?:\\s+on\\s+(${DAY_LIST}))?\\b`, 'i'),
+    build: match => {
+      const unit = (match[2] || match[3] || 'day').toLowerCase();
+      const freq = FREQUENCIES[unit];
+      const days = match[4] ? dayCodes(match[4]) : [];
+      // Days only narrow weekly rules; "every 2 days on Monday" isn't meaningful
+      if (days.length && freq !== 'WEEKLY') return null;
+      return compile(freq, interval(match[1]), days.length ? [`BYDAY=${days.join(',')}`] : []);
+    }
+  },
+  // "every Monday", "every mon, wed and fri", "every other Friday"
+  {
+    regex: new RegExp(`\\b${EVERY}\\s+(${DAY_LIST})\\b`, 'i'),
+    build: match => {
+      const days = dayCodes(match[2]);
+      return days.length ? compile('WEEKLY', interval(match[1]), [`BYDAY=${days.join(',')}`]) : null;
+    }
+  }
+];
+
+// Sticky copies of the patterns, for matching at a given offset
+const ANCHORED = PATTERNS.map(pattern => ({ ...pattern, regex: new RegExp(pattern.regex.source, 'iy') }));
+
+// The repeat phrase starting exactly at `index`, if there is one
+export function matchRecurrenceAt(input: string, index: number): RecurrencePhrase | null {
+  for (const pattern of ANCHORED) {
+    pattern.regex.lastIndex = index;
+    const match = pattern.regex.exec(input);
+    if (!match) continue;
+
+    const rule = pattern.build(match);
+    if (rule) return { rule, text: match[0], index };
+  }
+  return null;
+}
+
+// The first day at or after `base` that fits the rule, keeping base's time of day; the
+// series' DTSTART is then anchored on it. A task for "every Friday" added on a Monday is
+// first due that Friday, not on the Monday, and "every other Tuesday" added on a Wednesday
+// starts the coming Tuesday: the interval only counts from the first occurrence. When base's
+// time has already passed by `notBefore`, the first fitting day after it is used instead.
+export function recurrenceStart(rule: string, base: Date, notBefore: Date = base): Date {
+  const start = new Date(base);
+  while (start < notBefore) start.setDate(start.getDate() + 1);
+
+  const parsed = RRuleParser.parse(rule, start);
+  return (parsed && RRuleParser.firstMatch({ ...parsed, interval: 1 })) || start;
+}
@@ -1,6 +1,9 @@
 // Minimal reminder scheduler placeholder: computes next reminder time from a base reminder and frequency.
+// Daily and weekly reminders keep their wall-clock time in the user's zone across DST changes.
 
-export function nextReminder(baseISO?: string | null, frequency?: string | null): string | null {
+import { DEFAULT_TIME_ZONE, addDays } from './timezone';
+
+export function nextReminder(baseISO?: string | null, frequency?: string | null, timeZone: string = DEFAULT_TIME_ZONE): string | null {
   if (!baseISO || !frequency) return null;
   const d = new Date(baseISO);
   switch (frequency) {
@@ -9,9 +12,9 @@ export function nextReminder(baseISO?: string | null, frequency?: string | null)
     case 'hourly':
       d.setHours(d.getHours() + 1); return d.toISOString();
     case 'daily':
-      d.setDate(d.getDate() + 1); return d.toISOString();
+      return addDays(d, 1, timeZone).toISOString();
     case 'weekly':
-      d.setDate(d.getDate() + 7); return d.toISOString();
+      return addDays(d, 7, timeZone).toISOString();
     case 'custom':
     default:
       return baseISO;
@@ -1,57 +1,313 @@
+// Recurrence Rules
+// RFC 5545 recurrence engine: parses DTSTART/RRULE/EXDATE/RDATE text, expands occurrences and serializes rules
+
+export type Frequency = 'yearly' | 'monthly' | 'weekly' | 'daily' | 'hourly' | 'minutely' | 'secondly';
+
+export interface NthWeekday {
+  day: number; // 0=Sunday, 1=Monday, etc.
+  n: number; // 1 = first, 2 = second, -1 = last
+}
+
 export interface RecurrenceRule {
-  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  frequency: Frequency;
   interval?: number; // Every N days/weeks/months
   byDay?: number[]; // 0=Sunday, 1=Monday, etc.
-  byMonthDay?: number[]; // Day of month (1-31)
+  byNthDay?: NthWeekday[]; // Ordinal weekdays, e.g. 2TU or -1FR
+  byMonthDay?: number[]; // Day of month (1-31, negative counts from the end)
   byMonth?: number[]; // Month (1-12)
-  endDate?: Date;
+  byYearDay?: number[]; // Day of year (1-366, negative counts from the end)
+  byWeekNo?: number[]; // Week of year (1-53, negative counts from the end)
+  byHour?: number[];
+  byMinute?: number[];
+  bySecond?: number[];
+  bySetPos?: number[]; // Picks from each period's candidates, e.g. -1 = last
+  weekStart?: number; // WKST, defaults to Monday
+  endDate?: Date; // UNTIL, inclusive
   count?: number; // Number of occurrences
   startDate: Date;
+  tzid?: string; // IANA zone DTSTART is expressed in; floating (runtime local time) when unset
+  allDay?: boolean; // DTSTART;VALUE=DATE
+  exDates?: Date[];
+  rDates?: Date[];
+}
+
+export interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const FREQUENCIES: Frequency[] = ['yearly', 'monthly', 'weekly', 'daily', 'hourly', 'minutely', 'secondly'];
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rules that never match (e.g. BYMONTHDAY=30;BYMONTH=2) must not loop forever
+const MAX_PERIODS = 100000;
+const MAX_YEARS = 400;
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(tzid: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(tzid);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: tzid,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    zoneFormatters.set(tzid, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(tzid: string): boolean {
+  try {
+    zoneFormatter(tzid);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock time of an instant in `tzid`, or in the runtime's local zone when unset
+export function toWallTime(date: Date, tzid?: string): WallTime {
+  if (!tzid) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds()
+    };
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of zoneFormatter(tzid).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+function wallToUtcMs(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+function zoneOffsetMs(instant: number, tzid: string): number {
+  const whole = Math.floor(instant / 1000) * 1000;
+  return wallToUtcMs(toWallTime(new Date(whole), tzid)) - whole;
+}
+
+// Instant for a wall-clock time in `tzid`. Times skipped by a DST jump land just after it.
+export function fromWallTime(wall: WallTime, tzid?: string): Date {
+  if (!tzid) {
+    return new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  }
+
+  const asUtc = wallToUtcMs(wall);
+  const offset = zoneOffsetMs(asUtc, tzid);
+  const corrected = zoneOffsetMs(asUtc - offset, tzid);
+  return new Date(asUtc - (corrected === offset ? offset : corrected));
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function formatWall(wall: WallTime, dateOnly = false): string {
+  const date = `${pad(wall.year, 4)}${pad(wall.month)}${pad(wall.day)}`;
+  return dateOnly ? date : `${date}T${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function daysInYear(year: number): number {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0 ? 366 : 365;
+}
+
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function dayOfYear(year: number, month: number, day: number): number {
+  return (Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 1)) / DAY_MS + 1;
+}
+
+function addDays(wall: WallTime, days: number): WallTime {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days));
+  return { ...wall, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+// Start (UTC ms) of week 1 of `year`: the WKST-aligned week containing January 4th
+function firstWeekStart(year: number, weekStart: number): number {
+  const jan4 = Date.UTC(year, 0, 4);
+  const offset = (new Date(jan4).getUTCDay() - weekStart + 7) % 7;
+  return jan4 - offset * DAY_MS;
+}
+
+// Week number (positive and negative form) of a date within its week-numbering year
+function weekNumbers(year: number, month: number, day: number, weekStart: number): [number, number] {
+  const time = Date.UTC(year, month - 1, day);
+  let weekYear = year;
+  if (time < firstWeekStart(year, weekStart)) weekYear = year - 1;
+  else if (time >= firstWeekStart(year + 1, weekStart)) weekYear = year + 1;
+
+  const start = firstWeekStart(weekYear, weekStart);
+  const weeks = (firstWeekStart(weekYear + 1, weekStart) - start) / (7 * DAY_MS);
+  const week = Math.floor((time - start) / (7 * DAY_MS)) + 1;
+  return [week, week - weeks - 1];
+}
+
+function parseDay(code: string): number | null {
+  const index = DAY_CODES.indexOf(code.slice(0, 2).toUpperCase());
+  return index === -1 ? null : index;
+}
+
+function parseNumberList(value: string, min: number, max: number, allowNegative: boolean): number[] | null {
+  const numbers = value.split(',').map(item => Number(item.trim()));
+  const valid = numbers.every(n =>
+    Number.isInteger(n) && (
+      (n >= min && n <= max) || (allowNegative && n <= -Math.max(min, 1) && n >= -max)
+    )
+  );
+  return valid && numbers.length > 0 ? numbers : null;
+}
+
+function parseDateValue(value: string, tzid?: string): { date: Date; tzid?: string; allDay: boolean } | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (match) {
+    const wall: WallTime = {
+      year: parseInt(match[1], 10),
+      month: parseInt(match[2], 10),
+      day: parseInt(match[3], 10),
+      hour: match[4] ? parseInt(match[4], 10) : 0,
+      minute: match[5] ? parseInt(match[5], 10) : 0,
+      second: match[6] ? parseInt(match[6], 10) : 0
+    };
+    if (match[7]) return { date: new Date(wallToUtcMs(wall)), tzid: 'UTC', allDay: false };
+    if (!match[4]) return { date: fromWallTime(wall, tzid), tzid, allDay: true };
+    return { date: fromWallTime(wall, tzid), tzid, allDay: false };
+  }
+
+  // Rules saved before the RFC 5545 engine used ISO timestamps
+  const legacy = new Date(value);
+  return isNaN(legacy.getTime()) ? null : { date: legacy, tzid: undefined, allDay: false };
+}
+
+function parseDateList(value: string, tzid?: string): Date[] | null {
+  const dates: Date[] = [];
+  for (const item of value.split(',')) {
+    const parsed = parseDateValue(item, tzid);
+    if (!parsed) return null;
+    dates.push(parsed.date);
+  }
+  return dates;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  const match = line.match(/^(DTSTART|RRULE|EXDATE|RDATE)([;:])(.*)$/i);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  let rest = match[3];
+  if (match[2] === ';') {
+    const colon = rest.indexOf(':');
+    if (colon === -1) return null;
+    for (const param of rest.slice(0, colon).split(';')) {
+      const [key, paramValue] = param.split('=');
+      if (key && paramValue !== undefined) params[key.toUpperCase()] = paramValue.replace(/^"|"$/g, '');
+    }
+    rest = rest.slice(colon + 1);
+  }
+
+  return { name: match[1].toUpperCase(), params, value: rest };
 }
 
 export class RRuleParser {
-  static parse(ruleString: string): RecurrenceRule | null {
+  // Accepts RFC 5545 text ("DTSTART;TZID=Europe/Berlin:20261019T090000\nRRULE:FREQ=WEEKLY;BYDAY=MO,WE"),
+  // a bare rule ("FREQ=WEEKLY;BYDAY=MO") or the legacy "FREQ=weekly;DTSTART=<iso>" format.
+  // Without a DTSTART, `fallbackStart` is used, read as wall-clock time in `fallbackTzid`.
+  static parse(ruleString: string, fallbackStart?: Date, fallbackTzid?: string): RecurrenceRule | null {
     try {
-      const parts = ruleString.split(';');
       const rule: Partial<RecurrenceRule> = {};
-      
-      for (const part of parts) {
-        const [key, value] = part.split('=');
-        
-        switch (key) {
-          case 'FREQ':
-            if (['daily', 'weekly', 'monthly', 'yearly'].includes(value)) {
-              rule.frequency = value as any;
-            }
-            break;
-          case 'INTERVAL':
-            rule.interval = parseInt(value) || 1;
-            break;
-          case 'BYDAY':
-            rule.byDay = value.split(',').map(day => this.parseDay(day));
-            break;
-          case 'BYMONTHDAY':
-            rule.byMonthDay = value.split(',').map(day => parseInt(day));
-            break;
-          case 'BYMONTH':
-            rule.byMonth = value.split(',').map(month => parseInt(month));
-            break;
-          case 'UNTIL':
-            rule.endDate = new Date(value);
-            break;
-          case 'COUNT':
-            rule.count = parseInt(value);
-            break;
-          case 'DTSTART':
-            rule.startDate = new Date(value);
-            break;
-        }
-      }
-      
-      if (!rule.frequency || !rule.startDate) {
-        return null;
-      }
-      
+      const exDates: Date[] = [];
+      const rDates: Date[] = [];
+      const pending: { until?: string } = {};
+      let hasRule = false;
+
+      // Unfold continuation lines (RFC 5545 §3.1)
+      const lines = ruleString.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+      for (const line of lines) {
+        const content = parseContentLine(line);
+
+        if (!content || content.name === 'RRULE') {
+          if (hasRule) return null; // Only one RRULE per set
+          if (!this.parseRuleParts(content ? content.value : line, rule, pending)) return null;
+          hasRule = true;
+          continue;
+        }
+
+        const tzid = content.params.TZID;
+        if (tzid && !isValidTimeZone(tzid)) return null;
+
+        if (content.name === 'DTSTART') {
+          const parsed = parseDateValue(content.value, tzid);
+          if (!parsed) return null;
+          rule.startDate = parsed.date;
+          rule.tzid = parsed.tzid;
+          rule.allDay = parsed.allDay || content.params.VALUE === 'DATE';
+        } else {
+          const dates = parseDateList(content.value, tzid);
+          if (!dates) return null;
+          (content.name === 'EXDATE' ? exDates : rDates).push(...dates);
+        }
+      }
+
+      if (!hasRule || !rule.frequency) return null;
+
+      if (!rule.startDate) {
+        if (!fallbackStart || isNaN(fallbackStart.getTime())) return null;
+        if (fallbackTzid && !isValidTimeZone(fallbackTzid)) return null;
+        rule.startDate = fallbackStart;
+        rule.tzid = fallbackTzid;
+      }
+
+      // UNTIL is resolved last since a floating or date-only value depends on DTSTART's zone
+      if (pending.until) {
+        const until = parseDateValue(pending.until, rule.allDay ? undefined : rule.tzid);
+        if (!until) return null;
+        // A date-only UNTIL includes the whole of that day
+        rule.endDate = until.allDay ? new Date(until.date.getTime() + DAY_MS - 1000) : until.date;
+      }
+
+      if (exDates.length > 0) rule.exDates = exDates;
+      if (rDates.length > 0) rule.rDates = rDates;
+
       return rule as RecurrenceRule;
     } catch (error) {
       console.error('Failed to parse RRULE:', error);
@@ -59,131 +315,466 @@ export class RRuleParser {
     }
   }
 
-  static generate(rule: RecurrenceRule, count: number = 10): Date[] {
-    const dates: Date[] = [];
-    let currentDate = new Date(rule.startDate);
-    let occurrences = 0;
-    
-    while (occurrences < count && (!rule.endDate || currentDate <= rule.endDate)) {
-      if (this.matchesRule(currentDate, rule)) {
-        dates.push(new Date(currentDate));
-        occurrences++;
-      }
-      
-      currentDate = this.addInterval(currentDate, rule.frequency, rule.interval || 1);
-    }
-    
-    return dates;
-  }
+  // Fills `rule` from "FREQ=...;BYDAY=..." parts; false if any part is invalid
+  private static parseRuleParts(value: string, rule: Partial<RecurrenceRule>, pending: { until?: string }): boolean {
+    for (const part of value.split(';')) {
+      if (!part.trim()) continue;
+      const [rawKey, rawValue] = part.split('=');
+      if (rawValue === undefined) return false;
+      const key = rawKey.trim().toUpperCase();
+      const partValue = rawValue.trim();
 
-  static nextOccurrence(rule: RecurrenceRule, fromDate: Date = new Date()): Date | null {
-    let currentDate = new Date(fromDate);
-    let attempts = 0;
-    const maxAttempts = 1000; // Prevent infinite loops
-    
-    while (attempts < maxAttempts) {
-      if (currentDate >= rule.startDate && this.matchesRule(currentDate, rule)) {
-        return new Date(currentDate);
-      }
-      
-      currentDate = this.addInterval(currentDate, rule.frequency, rule.interval || 1);
-      attempts++;
+      switch (key) {
+        case 'FREQ': {
+          const frequency = partValue.toLowerCase() as Frequency;
+          if (!FREQUENCIES.includes(frequency)) return false;
+          rule.frequency = frequency;
+          break;
+        }
+        case 'INTERVAL': {
+          const interval = Number(partValue);
+          if (!Number.isInteger(interval) || interval < 1) return false;
+          rule.interval = interval;
+          break;
+        }
+        case 'COUNT': {
+          const count = Number(partValue);
+          if (!Number.isInteger(count) || count < 1) return false;
+          rule.count = count;
+          break;
+        }
+        case 'UNTIL':
+          if (!parseDateValue(partValue)) return false;
+          pending.until = partValue;
+          break;
+        case 'BYDAY': {
+          const plain: number[] = [];
+          const nth: NthWeekday[] = [];
+          for (const entry of partValue.split(',')) {
+            const match = entry.trim().match(/^([+-]?\d{1,2})?([A-Za-z]{2,3})$/);
+            const day = match ? parseDay(match[2]) : null;
+            if (!match || day === null) return false;
+            if (match[1]) {
+              const n = parseInt(match[1], 10);
+              if (n === 0 || Math.abs(n) > 53) return false;
+              nth.push({ day, n });
+            } else {
+              plain.push(day);
+            }
+          }
+          if (plain.length > 0) rule.byDay = plain;
+          if (nth.length > 0) rule.byNthDay = nth;
+          break;
+        }
+        case 'BYMONTHDAY': {
+          const list = parseNumberList(partValue, 1, 31, true);
+          if (!list) return false;
+          rule.byMonthDay = list;
+          break;
+        }
+        case 'BYMONTH': {
+          const list = parseNumberList(partValue, 1, 12, false);
+          if (!list) return false;
+          rule.byMonth = list;
+          break;
+        }
+        case 'BYYEARDAY': {
+          const list = parseNumberList(partValue, 1, 366, true);
+          if (!list) return false;
+          rule.byYearDay = list;
+          break;
+        }
+        case 'BYWEEKNO': {
+          const list = parseNumberList(partValue, 1, 53, true);
+          if (!list) return false;
+          rule.byWeekNo = list;
+          break;
+        }
+        case 'BYSETPOS': {
+          const list = parseNumberList(partValue, 1, 366, true);
+          if (!list) return false;
+          rule.bySetPos = list;
+          break;
+        }
+        case 'BYHOUR': {
+          const list = parseNumberList(partValue, 0, 23, false);
+          if (!list) return false;
+          rule.byHour = list;
+          break;
+        }
+        case 'BYMINUTE': {
+          const list = parseNumberList(partValue, 0, 59, false);
+          if (!list) return false;
+          rule.byMinute = list;
+          break;
+        }
+        case 'BYSECOND': {
+          const list = parseNumberList(partValue, 0, 59, false);
+          if (!list) return false;
+          rule.bySecond = list;
+          break;
+        }
+        case 'WKST': {
+          const day = parseDay(partValue);
+          if (day === null) return false;
+          rule.weekStart = day;
+          break;
+        }
+        case 'DTSTART': {
+          const start = parseDateValue(partValue);
+          if (!start) return false;
+          rule.startDate = start.date;
+          rule.tzid = start.tzid;
+          rule.allDay = start.allDay;
+          break;
+        }
+        default:
+          // Ignore X- extensions and parts we don't act on
+          break;
+      }
     }
-    
-    return null;
+
+    return true;
   }
 
-  static toString(rule: RecurrenceRule): string {
-    const parts: string[] = [];
-    
-    parts.push(`FREQ=${rule.frequency.toUpperCase()}`);
-    parts.push(`DTSTART=${rule.startDate.toISOString()}`);
-    
-    if (rule.interval && rule.interval > 1) {
-      parts.push(`INTERVAL=${rule.interval}`);
-    }
-    
-    if (rule.byDay && rule.byDay.length > 0) {
-      const days = rule.byDay.map(day => this.formatDay(day)).join(',');
-      parts.push(`BYDAY=${days}`);
+  // Visits occurrences in order until `visit` returns false or the rule is exhausted.
+  // DTSTART is always the first instance (unless `includeStart` is false); COUNT is
+  // applied before EXDATEs are removed.
+  private static expand(rule: RecurrenceRule, visit: (date: Date) => boolean, includeStart = true): void {
+    const tzid = rule.allDay ? undefined : rule.tzid;
+    const start = toWallTime(rule.startDate, tzid);
+    if (rule.allDay) {
+      start.hour = 0;
+      start.minute = 0;
+      start.second = 0;
     }
-    
-    if (rule.byMonthDay && rule.byMonthDay.length > 0) {
-      const days = rule.byMonthDay.join(',');
-      parts.push(`BYMONTHDAY=${days}`);
-    }
-    
-    if (rule.byMonth && rule.byMonth.length > 0) {
-      const months = rule.byMonth.join(',');
-      parts.push(`BYMONTH=${months}`);
+    const startMs = fromWallTime(start, tzid).getTime();
+    const untilMs = rule.endDate ? rule.endDate.getTime() : Infinity;
+    const interval = Math.max(1, rule.interval || 1);
+    const weekStart = rule.weekStart ?? 1;
+    const excluded = new Set((rule.exDates || []).map(date => date.getTime()));
+    const rDates = (rule.rDates || []).map(date => date.getTime()).sort((a, b) => a - b);
+    const emitted = new Set<number>();
+    let rDateIndex = 0;
+    let generated = 0;
+    let stopped = false; // The rule is exhausted or the visitor is done
+    let visitorDone = false;
+
+    const emit = (time: number): boolean => {
+      if (excluded.has(time) || emitted.has(time)) return true;
+      emitted.add(time);
+      if (!visit(new Date(time))) visitorDone = true;
+      return !visitorDone;
+    };
+
+    // RDATEs are merged in order and don't count towards COUNT
+    const emitRDatesBefore = (time: number): boolean => {
+      while (rDateIndex < rDates.length && rDates[rDateIndex] < time) {
+        if (!emit(rDates[rDateIndex++])) return false;
+      }
+      return true;
+    };
+
+    const emitGenerated = (time: number): boolean => {
+      if (rule.count && generated >= rule.count) return false;
+      if (time > untilMs) return false;
+      generated++;
+      if (!emitRDatesBefore(time)) return false;
+      return emit(time);
+    };
+
+    if (includeStart && !emitGenerated(startMs)) stopped = true;
+
+    // Without any day-level BYxxx parts, the day comes from DTSTART
+    let { byDay, byMonthDay, byMonth } = rule;
+    const hasDayRules = !!(rule.byWeekNo?.length || rule.byYearDay?.length || byMonthDay?.length ||
+      byDay?.length || rule.byNthDay?.length);
+    if (!hasDayRules) {
+      if (rule.frequency === 'yearly') {
+        byMonth = byMonth?.length ? byMonth : [start.month];
+        byMonthDay = [start.day];
+      } else if (rule.frequency === 'monthly') {
+        byMonthDay = [start.day];
+      } else if (rule.frequency === 'weekly') {
+        byDay = [weekdayOf(start.year, start.month, start.day)];
+      }
     }
-    
-    if (rule.endDate) {
-      parts.push(`UNTIL=${rule.endDate.toISOString()}`);
+
+    // Ordinal weekdays count within the month, or within the year for plain YEARLY rules
+    const nthScope = rule.frequency === 'monthly' || (rule.frequency === 'yearly' && byMonth?.length)
+      ? 'month'
+      : rule.frequency === 'yearly' && !rule.byWeekNo?.length ? 'year' : 'none';
+
+    const matchesDay = (year: number, month: number, day: number): boolean => {
+      if (byMonth?.length && !byMonth.includes(month)) return false;
+
+      if (rule.byWeekNo?.length) {
+        const [week, fromEnd] = weekNumbers(year, month, day, weekStart);
+        if (!rule.byWeekNo.includes(week) && !rule.byWeekNo.includes(fromEnd)) return false;
+      }
+
+      if (rule.byYearDay?.length) {
+        const yearDay = dayOfYear(year, month, day);
+        const fromEnd = yearDay - daysInYear(year) - 1;
+        if (!rule.byYearDay.includes(yearDay) && !rule.byYearDay.includes(fromEnd)) return false;
+      }
+
+      if (byMonthDay?.length) {
+        const fromEnd = day - daysInMonth(year, month) - 1;
+        if (!byMonthDay.includes(day) && !byMonthDay.includes(fromEnd)) return false;
+      }
+
+      if (byDay?.length || rule.byNthDay?.length) {
+        const weekday = weekdayOf(year, month, day);
+        let matched = !!byDay?.includes(weekday);
+
+        for (const nth of rule.byNthDay || []) {
+          if (matched) break;
+          if (nth.day !== weekday) continue;
+
+          if (nthScope === 'month') {
+            const position = Math.floor((day - 1) / 7) + 1;
+            const fromEnd = -(Math.floor((daysInMonth(year, month) - day) / 7) + 1);
+            matched = nth.n === position || nth.n === fromEnd;
+          } else if (nthScope === 'year') {
+            const yearDay = dayOfYear(year, month, day);
+            const position = Math.floor((yearDay - 1) / 7) + 1;
+            const fromEnd = -(Math.floor((daysInYear(year) - yearDay) / 7) + 1);
+            matched = nth.n === position || nth.n === fromEnd;
+          } else {
+            matched = true;
+          }
+        }
+
+        if (!matched) return false;
+      }
+
+      return true;
+    };
+
+    const list = (values: number[] | undefined, fallback: number) =>
+      values?.length ? Array.from(new Set(values)).sort((a, b) => a - b) : [fallback];
+
+    const isSubDaily = rule.frequency === 'hourly' || rule.frequency === 'minutely' || rule.frequency === 'secondly';
+    const hours = rule.allDay ? [0] : list(rule.byHour, start.hour);
+    const minutes = rule.allDay ? [0] : list(rule.byMinute, start.minute);
+    const seconds = rule.allDay ? [0] : list(rule.bySecond, start.second);
+
+    const startWeek = addDays(start, -((weekdayOf(start.year, start.month, start.day) - weekStart + 7) % 7));
+
+    for (let period = 0; !stopped && period < MAX_PERIODS; period++) {
+      const days: WallTime[] = [];
+      let times: Array<[number, number, number]> = [];
+
+      switch (rule.frequency) {
+        case 'yearly': {
+          const year = start.year + period * interval;
+          for (let month = 1; month <= 12; month++) {
+            for (let day = 1; day <= daysInMonth(year, month); day++) days.push({ ...start, year, month, day });
+          }
+          break;
+        }
+        case 'monthly': {
+          const monthIndex = start.year * 12 + (start.month - 1) + period * interval;
+          const year = Math.floor(monthIndex / 12);
+          const month = (monthIndex % 12) + 1;
+          for (let day = 1; day <= daysInMonth(year, month); day++) days.push({ ...start, year, month, day });
+          break;
+        }
+        case 'weekly': {
+          const weekBegin = addDays(startWeek, period * interval * 7);
+          for (let offset = 0; offset < 7; offset++) days.push(addDays(weekBegin, offset));
+          break;
+        }
+        case 'daily':
+          days.push(addDays(start, period * interval));
+          break;
+        default: {
+          // Sub-daily periods: step the wall clock by whole hours/minutes/seconds
+          const stepSeconds = rule.frequency === 'hourly' ? 3600 : rule.frequency === 'minutely' ? 60 : 1;
+          const base = new Date(wallToUtcMs(rule.frequency === 'hourly'
+            ? { ...start, minute: 0, second: 0 }
+            : rule.frequency === 'minutely' ? { ...start, second: 0 } : start
+          ) + period * interval * stepSeconds * 1000);
+          const wall: WallTime = {
+            year: base.getUTCFullYear(),
+            month: base.getUTCMonth() + 1,
+            day: base.getUTCDate(),
+            hour: base.getUTCHours(),
+            minute: base.getUTCMinutes(),
+            second: base.getUTCSeconds()
+          };
+          days.push(wall);
+
+          const hourOk = !rule.byHour?.length || rule.byHour.includes(wall.hour);
+          const minuteOk = rule.frequency === 'hourly' || !rule.byMinute?.length || rule.byMinute.includes(wall.minute);
+          const secondOk = rule.frequency !== 'secondly' || !rule.bySecond?.length || rule.bySecond.includes(wall.second);
+          if (hourOk && minuteOk && secondOk) {
+            const periodMinutes = rule.frequency === 'hourly' ? minutes : [wall.minute];
+            const periodSeconds = rule.frequency === 'secondly' ? [wall.second] : seconds;
+            for (const minute of periodMinutes) {
+              for (const second of periodSeconds) times.push([wall.hour, minute, second]);
+            }
+          }
+          break;
+        }
+      }
+
+      if (days[0].year > start.year + MAX_YEARS) break;
+
+      if (!isSubDaily) {
+        times = [];
+        for (const hour of hours) {
+          for (const minute of minutes) {
+            for (const second of seconds) times.push([hour, minute, second]);
+          }
+        }
+      }
+
+      let candidates: WallTime[] = [];
+      for (const day of days) {
+        if (!matchesDay(day.year, day.month, day.day)) continue;
+        for (const [hour, minute, second] of times) candidates.push({ ...day, hour, minute, second });
+      }
+
+      if (rule.bySetPos?.length && candidates.length > 0) {
+        const picked = new Set<number>();
+        for (const position of rule.bySetPos) {
+          const index = position > 0 ? position - 1 : candidates.length + position;
+          if (index >= 0 && index < candidates.length) picked.add(index);
+        }
+        candidates = Array.from(picked).sort((a, b) => a - b).map(index => candidates[index]);
+      }
+
+      for (const candidate of candidates) {
+        const time = fromWallTime(candidate, tzid).getTime();
+        if (includeStart ? time <= startMs : time < startMs) continue;
+        if (!emitGenerated(time)) {
+          stopped = true;
+          break;
+        }
+      }
+
+      // Periods only move forward, so stop once a whole period is past UNTIL
+      if (untilMs !== Infinity && fromWallTime({ ...days[0], hour: 0, minute: 0, second: 0 }, tzid).getTime() > untilMs) break;
     }
-    
-    if (rule.count) {
-      parts.push(`COUNT=${rule.count}`);
+
+    if (!visitorDone) {
+      emitRDatesBefore(Infinity);
     }
-    
-    return parts.join(';');
   }
 
-  private static parseDay(day: string): number {
-    const dayMap: { [key: string]: number } = {
-      'SU': 0, 'MO': 1, 'TU': 2, 'WE': 3, 'TH': 4, 'FR': 5, 'SA': 6,
-      'SUN': 0, 'MON': 1, 'TUE': 2, 'WED': 3, 'THU': 4, 'FRI': 5, 'SAT': 6
-    };
-    
-    return dayMap[day.toUpperCase()] ?? 0;
+  static generate(rule: RecurrenceRule, count: number = 10): Date[] {
+    const dates: Date[] = [];
+    if (count <= 0) return dates;
+
+    this.expand(rule, date => {
+      dates.push(date);
+      return dates.length < count;
+    });
+
+    return dates;
   }
 
-  private static formatDay(day: number): string {
-    const days = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
-    return days[day] || 'SU';
+  static between(rule: RecurrenceRule, after: Date, before: Date, inclusive = false): Date[] {
+    const dates: Date[] = [];
+
+    this.expand(rule, date => {
+      if (date > before || (!inclusive && date.getTime() === before.getTime())) return false;
+      if (date > after || (inclusive && date.getTime() === after.getTime())) dates.push(date);
+      return true;
+    });
+
+    return dates;
   }
 
-  private static matchesRule(date: Date, rule: RecurrenceRule): boolean {
-    if (rule.byDay && rule.byDay.length > 0) {
-      if (!rule.byDay.includes(date.getDay())) {
+  // First date the rule's own pattern produces at or after DTSTART, ignoring DTSTART
+  // itself. Used to pick a start that fits the rule, e.g. the next Friday for "every Friday".
+  static firstMatch(rule: RecurrenceRule): Date | null {
+    let first: Date | null = null;
+
+    this.expand({ ...rule, exDates: undefined, rDates: undefined }, date => {
+      first = date;
+      return false;
+    }, false);
+
+    return first;
+  }
+
+  // First occurrence strictly after `fromDate`
+  static nextOccurrence(rule: RecurrenceRule, fromDate: Date = new Date()): Date | null {
+    let next: Date | null = null;
+
+    this.expand(rule, date => {
+      if (date > fromDate) {
+        next = date;
         return false;
       }
+      return true;
+    });
+
+    return next;
+  }
+
+  // Serializes to RFC 5545 lines: DTSTART, RRULE, then EXDATE/RDATE when present
+  static toString(rule: RecurrenceRule): string {
+    const lines = [this.formatDateProperty('DTSTART', [rule.startDate], rule), `RRULE:${this.toRRuleValue(rule)}`];
+
+    if (rule.exDates?.length) lines.push(this.formatDateProperty('EXDATE', rule.exDates, rule));
+    if (rule.rDates?.length) lines.push(this.formatDateProperty('RDATE', rule.rDates, rule));
+
+    return lines.join('\n');
+  }
+
+  // Just the RRULE value, e.g. "FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2"
+  static toRRuleValue(rule: RecurrenceRule): string {
+    const parts: string[] = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+    if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+    if (rule.endDate) parts.push(`UNTIL=${this.formatUntil(rule)}`);
+
+    const byDay = [
+      ...(rule.byNthDay || []).map(nth => `${nth.n}${this.formatDay(nth.day)}`),
+      ...(rule.byDay || []).map(day => this.formatDay(day))
+    ];
+    if (byDay.length > 0) parts.push(`BYDAY=${byDay.join(',')}`);
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+    if (rule.byYearDay?.length) parts.push(`BYYEARDAY=${rule.byYearDay.join(',')}`);
+    if (rule.byWeekNo?.length) parts.push(`BYWEEKNO=${rule.byWeekNo.join(',')}`);
+    if (rule.byHour?.length) parts.push(`BYHOUR=${rule.byHour.join(',')}`);
+    if (rule.byMinute?.length) parts.push(`BYMINUTE=${rule.byMinute.join(',')}`);
+    if (rule.bySecond?.length) parts.push(`BYSECOND=${rule.bySecond.join(',')}`);
+    if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+    if (rule.weekStart !== undefined && rule.weekStart !== 1) parts.push(`WKST=${this.formatDay(rule.weekStart)}`);
+
+    return parts.join(';');
+  }
+
+  private static formatDateProperty(name: string, dates: Date[], rule: RecurrenceRule): string {
+    if (rule.allDay) {
+      return `${name};VALUE=DATE:${dates.map(date => formatWall(toWallTime(date), true)).join(',')}`;
     }
-    
-    if (rule.byMonthDay && rule.byMonthDay.length > 0) {
-      if (!rule.byMonthDay.includes(date.getDate())) {
-        return false;
-      }
+    if (rule.tzid === 'UTC') {
+      return `${name}:${dates.map(date => formatWall(toWallTime(date, 'UTC')) + 'Z').join(',')}`;
     }
-    
-    if (rule.byMonth && rule.byMonth.length > 0) {
-      if (!rule.byMonth.includes(date.getMonth() + 1)) {
-        return false;
-      }
+    if (rule.tzid) {
+      return `${name};TZID=${rule.tzid}:${dates.map(date => formatWall(toWallTime(date, rule.tzid))).join(',')}`;
     }
-    
-    return true;
+    return `${name}:${dates.map(date => formatWall(toWallTime(date))).join(',')}`;
   }
 
-  private static addInterval(date: Date, frequency: string, interval: number): Date {
-    const result = new Date(date);
-    
-    switch (frequency) {
-      case 'daily':
-        result.setDate(result.getDate() + interval);
-        break;
-      case 'weekly':
-        result.setDate(result.getDate() + (interval * 7));
-        break;
-      case 'monthly':
-        result.setMonth(result.getMonth() + interval);
-        break;
-      case 'yearly':
-        result.setFullYear(result.getFullYear() + interval);
-        break;
-    }
-    
-    return result;
+  // UNTIL must match DTSTART: a DATE for all-day rules, floating for floating starts, otherwise UTC
+  private static formatUntil(rule: RecurrenceRule): string {
+    const until = rule.endDate as Date;
+    if (rule.allDay) return formatWall(toWallTime(until), true);
+    if (!rule.tzid) return formatWall(toWallTime(until));
+    return formatWall(toWallTime(until, 'UTC')) + 'Z';
+  }
+
+  private static formatDay(day: number): string {
+    return DAY_CODES[day] || 'SU';
   }
 
   // Convenience methods for common patterns
@@ -224,4 +815,36 @@ export class RRuleParser {
   }
 }
 
+// Builds an RRULE value from the TaskModal's advanced recurrence options
+export function generateRRuleString(options: {
+  freq: string;
+  interval?: number;
+  byDay?: string[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  count?: number;
+  until?: string;
+}): string {
+  const parts = [`FREQ=${options.freq.toUpperCase()}`];
+
+  if (options.interval && options.interval > 1) parts.push(`INTERVAL=${options.interval}`);
+  if (options.byDay?.length) parts.push(`BYDAY=${options.byDay.map(day => day.toUpperCase()).join(',')}`);
+  if (options.byMonthDay?.length) parts.push(`BYMONTHDAY=${options.byMonthDay.join(',')}`);
+  if (options.byMonth?.length) parts.push(`BYMONTH=${options.byMonth.join(',')}`);
+  if (options.count) parts.push(`COUNT=${options.count}`);
+  if (options.until) {
+    // A date input gives YYYY-MM-DD; keep it as a DATE so the whole day is included
+    const until = /^\d{4}-\d{2}-\d{2}$/.test(options.until)
+      ? options.until.replace(/-/g, '')
+      : formatWall(toWallTime(new Date(options.until), 'UTC')) + 'Z';
+    parts.push(`UNTIL=${until}`);
+  }
+
+  return parts.join(';');
+}
 
+// Next `count` occurrences of a rule string, starting at `start` unless the rule has its own DTSTART
+export function previewOccurrences(start: string | Date, rule: string, count: number = 5, tzid?: string): Date[] {
+  const parsed = RRuleParser.parse(rule, new Date(start), tzid);
+  return parsed ? RRuleParser.generate(parsed, count) : [];
+}
@@ -0,0 +1,21 @@
+// Safe Redirects
+// Where to send someone after sign-in, shared by the magic-link route and the login page
+
+const DEFAULT_PATH = '/today';
+// Any origin will do; a path only has to resolve back onto it
+const BASE = 'http://localhost';
+
+// Only allow same-origin relative redirects after sign-in. Parsing catches what browsers
+// normalize into another host, such as `/\evil.com` becoming `//evil.com`.
+export function safeRedirectPath(next: string | null | undefined): string {
+  if (!next || !next.startsWith('/')) return DEFAULT_PATH;
+
+  let url: URL;
+  try {
+    url = new URL(next, BASE);
+  } catch {
+    return DEFAULT_PATH;
+  }
+  if (url.origin !== BASE || next.startsWith('//') || next.startsWith('/\\')) return DEFAULT_PATH;
+  return url.pathname + url.search + url.hash;
+}
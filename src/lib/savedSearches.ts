@@ -0,0 +1,60 @@
+// Saved Searches
+// Search queries kept as smart lists in the sidebar; the query runs afresh each time one is opened
+
+import type { SavedSearch } from '@prisma/client';
+import { prisma } from './prisma';
+
+export class SavedSearchManager {
+  static async listSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return prisma.savedSearch.findMany({
+      where: { userId },
+      orderBy: [{ order_index: 'asc' }, { created_at: 'asc' }]
+    });
+  }
+
+  static async getSavedSearch(searchId: string, userId: string): Promise<SavedSearch | null> {
+    return prisma.savedSearch.findFirst({ where: { id: searchId, userId } });
+  }
+
+  // New smart lists go to the bottom of the sidebar
+  static async createSavedSearch(userId: string, data: { name: string; query: string }): Promise<SavedSearch> {
+    const last = await prisma.savedSearch.findFirst({
+      where: { userId },
+      orderBy: { order_index: 'desc' }
+    });
+
+    return prisma.savedSearch.create({
+      data: {
+        userId,
+        name: data.name,
+        query: data.query,
+        order_index: (last?.order_index ?? -1) + 1
+      }
+    });
+  }
+
+  static async updateSavedSearch(searchId: string, userId: string, data: { name?: string; query?: string }): Promise<SavedSearch | null> {
+    const search = await this.getSavedSearch(searchId, userId);
+    if (!search) return null;
+
+    return prisma.savedSearch.update({
+      where: { id: searchId },
+      data: { name: data.name, query: data.query }
+    });
+  }
+
+  static async deleteSavedSearch(searchId: string, userId: string): Promise<boolean> {
+    const { count } = await prisma.savedSearch.deleteMany({ where: { id: searchId, userId } });
+    return count > 0;
+  }
+
+  // `searchIds` is the new sidebar order; ids the user doesn't own are ignored
+  static async reorderSavedSearches(userId: string, searchIds: string[]): Promise<void> {
+    await prisma.$transaction(
+      searchIds.map((id, index) => prisma.savedSearch.updateMany({
+        where: { id, userId },
+        data: { order_index: index }
+      }))
+    );
+  }
+}
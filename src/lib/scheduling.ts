@@ -0,0 +1,129 @@
+// Scheduling
+// When the user plans to work on tasks, as opposed to when they're due: the calendar's time
+// blocks, and packing a day's unscheduled tasks into the free time around the rest
+
+import type { Prisma, Task } from '@prisma/client';
+import { DONE_STATUSES } from './dependencies';
+import { prisma } from './prisma';
+import { fromWallTime } from './rrule';
+import { dueBetween } from './taskManager';
+import { blockFor, ceilToSnap, packTasks, TimeBlock } from './timeBlocks';
+import { allDayDate, dayKey, endOfDay, startOfDay } from './timezone';
+import { UserSettingsManager } from './userSettings';
+
+export const DEFAULT_WORKDAY = { from: '09:00', to: '18:00' };
+
+const scheduleInclude = {
+  blockedBy: {
+    where: { blocker: { status: { notIn: DONE_STATUSES } } },
+    select: { blockerId: true }
+  }
+} satisfies Prisma.TaskInclude;
+
+export type ScheduleTask = Task & { blocked: boolean };
+
+export interface AutoScheduleResult {
+  scheduled: TimeBlock[];
+  unscheduled: string[]; // Tasks due that day with no free stretch long enough
+}
+
+// `time` (HH:MM) on the day `key` (YYYY-MM-DD) in `timeZone`
+function wallInstant(key: string, time: string, timeZone: string): Date {
+  const day = allDayDate(key);
+  const [hour, minute] = time.split(':').map(Number);
+  return fromWallTime({
+    year: day.getUTCFullYear(),
+    month: day.getUTCMonth() + 1,
+    day: day.getUTCDate(),
+    hour,
+    minute,
+    second: 0
+  }, timeZone);
+}
+
+export class ScheduleManager {
+  // Tasks scheduled into [start, end] or due in it, for the calendar
+  static async tasksBetween(userId: string, start: Date, end: Date, timeZone: string): Promise<ScheduleTask[]> {
+    const tasks = await prisma.task.findMany({
+      where: {
+        userId,
+        OR: [
+          { scheduled_start: { lte: end }, scheduled_end: { gte: start } },
+          dueBetween(start, end, timeZone)
+        ]
+      },
+      include: scheduleInclude,
+      orderBy: [{ scheduled_start: 'asc' }, { due_at: 'asc' }, { order_index: 'asc' }]
+    });
+    return tasks.map(({ blockedBy, ...task }) => ({ ...task, blocked: blockedBy.length > 0 }));
+  }
+
+  // Pass nulls to take the task off the calendar. Scheduling is per task, so an instance
+  // of a recurring task is scheduled without touching the rest of its series.
+  static async setSchedule(taskId: string, userId: string, start: Date | null, end: Date | null): Promise<Task | null> {
+    const { count } = await prisma.task.updateMany({
+      where: { id: taskId, userId },
+      data: { scheduled_start: start, scheduled_end: end }
+    });
+    return count > 0 ? prisma.task.findUnique({ where: { id: taskId } }) : null;
+  }
+
+  // Schedules the open, unblocked tasks due on `key` (today by default) that aren't on the
+  // calendar yet, between `from` and `to` on that day and never before now, around the
+  // tasks already scheduled that day. Nothing is written; see applySchedule().
+  static async autoSchedule(
+    userId: string,
+    options: { date?: string; from?: string; to?: string } = {}
+  ): Promise<AutoScheduleResult> {
+    const timeZone = await UserSettingsManager.getTimeZone(userId);
+    const now = new Date();
+    const key = options.date ?? dayKey(now, timeZone);
+    const dayStart = startOfDay(wallInstant(key, '12:00', timeZone), timeZone);
+    const dayEnd = endOfDay(dayStart, timeZone);
+
+    const windowStart = new Date(Math.max(
+      wallInstant(key, options.from ?? DEFAULT_WORKDAY.from, timeZone).getTime(),
+      ceilToSnap(now).getTime()
+    ));
+    const windowEnd = wallInstant(key, options.to ?? DEFAULT_WORKDAY.to, timeZone);
+
+    const [candidates, others] = await Promise.all([
+      prisma.task.findMany({
+        where: {
+          userId,
+          status: { notIn: DONE_STATUSES },
+          scheduled_start: null,
+          blockedBy: { none: { blocker: { status: { notIn: DONE_STATUSES } } } },
+          AND: [dueBetween(dayStart, dayEnd, timeZone)]
+        }
+      }),
+      this.tasksBetween(userId, dayStart, dayEnd, timeZone)
+    ]);
+
+    const busy = others
+      .filter(task => task.scheduled_start)
+      .map(task => blockFor(task))
+      .filter((block): block is TimeBlock => !!block);
+
+    return packTasks(
+      candidates.map(task => ({
+        id: task.id,
+        priority: task.priority,
+        estimate_min: task.estimate_min,
+        deadline: task.due_at && !task.all_day ? task.due_at : null
+      })),
+      busy,
+      windowStart,
+      windowEnd
+    );
+  }
+
+  // Writes the blocks autoSchedule() chose, in one transaction
+  static async applySchedule(userId: string, blocks: TimeBlock[]): Promise<void> {
+    await prisma.$transaction(blocks.map(block => prisma.task.updateMany({
+      where: { id: block.id, userId },
+      data: { scheduled_start: block.start, scheduled_end: block.end }
+    })));
+  }
+
+}
@@ -0,0 +1,118 @@
+// Task Search
+// Runs parsed search queries: full-text matches ranked by the index, narrowed by filters
+
+import type { Prisma } from '@prisma/client';
+import { DONE_STATUSES } from './dependencies';
+import { prisma } from './prisma';
+import { ProjectManager } from './projects';
+import { matchExpression, SearchIndex } from './searchIndex';
+import { ParsedSearch, SearchFilter } from './searchQuery';
+import { normalizeTagName } from './tags';
+import { dueBefore, dueBetween } from './taskManager';
+
+export interface SearchResult {
+  task: {
+    id: string;
+    title: string;
+    status: string;
+    priority: string;
+    due_at: Date | null;
+    all_day: boolean;
+    projectId: string | null;
+    parent_task_id: string | null;
+    tags_json: string;
+  };
+  rank: number | null; // Null when the query has no words, only filters
+  title: string; // With matches wrapped in HIGHLIGHT_START/HIGHLIGHT_END
+  snippet: string | null;
+}
+
+const MAX_RESULTS = 100;
+
+const taskSelect = {
+  id: true,
+  title: true,
+  status: true,
+  priority: true,
+  due_at: true,
+  all_day: true,
+  projectId: true,
+  parent_task_id: true,
+  tags_json: true
+};
+
+export class SearchManager {
+  static async search(userId: string, query: ParsedSearch, timeZone: string): Promise<SearchResult[]> {
+    const where: Prisma.TaskWhereInput[] = [{ userId }];
+
+    for (const filter of query.filters) {
+      const clause = await this.filterWhere(userId, filter, timeZone);
+      where.push(filter.negated ? { NOT: clause } : clause);
+    }
+
+    const excluded = matchExpression(query.exclude, 'OR');
+    if (excluded) {
+      where.push({ id: { notIn: await SearchIndex.matchingTaskIds(userId, excluded) } });
+    }
+
+    const included = matchExpression(query.include);
+    if (!included) {
+      // Only filters: soonest due first
+      const tasks = await prisma.task.findMany({
+        where: { AND: where },
+        select: taskSelect,
+        orderBy: [{ due_at: 'asc' }, { created_at: 'desc' }],
+        take: MAX_RESULTS
+      });
+      return tasks.map(task => ({ task, rank: null, title: task.title, snippet: null }));
+    }
+
+    const matches = await SearchIndex.match(userId, included);
+    const tasks = await prisma.task.findMany({
+      where: { AND: [...where, { id: { in: matches.map(match => match.taskId) } }] },
+      select: taskSelect
+    });
+    const byId = new Map(tasks.map(task => [task.id, task]));
+
+    return matches
+      .filter(match => byId.has(match.taskId))
+      .slice(0, MAX_RESULTS)
+      .map(match => ({
+        task: byId.get(match.taskId)!,
+        rank: match.rank,
+        title: match.title,
+        snippet: match.snippet
+      }));
+  }
+
+  private static async filterWhere(userId: string, filter: SearchFilter, timeZone: string): Promise<Prisma.TaskWhereInput> {
+    switch (filter.key) {
+      case 'tag':
+        return { tags: { some: { tag: { name: normalizeTagName(filter.value) } } } };
+      case 'priority':
+        return { priority: filter.value };
+      case 'status':
+        return { status: filter.value === 'completed' ? { in: DONE_STATUSES } : filter.value };
+      case 'project': {
+        if (['inbox', 'none'].includes(filter.value.toLowerCase())) return { projectId: null };
+        const project = await ProjectManager.findByName(userId, filter.value);
+        return { projectId: project?.id ?? { in: [] } };
+      }
+      case 'due':
+        return filter.due ? dueBetween(filter.due.start, filter.due.end, timeZone) : { due_at: null };
+      case 'is':
+        switch (filter.value) {
+          case 'overdue':
+            return { AND: [dueBefore(new Date(), timeZone), { status: { notIn: DONE_STATUSES } }] };
+          case 'completed':
+            return { status: { in: DONE_STATUSES } };
+          case 'blocked':
+            return { blockedBy: { some: { blocker: { status: { notIn: DONE_STATUSES } } } } };
+          case 'recurring':
+            return { recurrence_rule: { not: null } };
+          default:
+            return { status: { notIn: DONE_STATUSES } };
+        }
+    }
+  }
+}
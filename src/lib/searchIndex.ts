@@ -0,0 +1,66 @@
+// Search Index
+// Ranked full-text matches from the TaskSearch FTS5 table, which database triggers keep in
+// step with task titles, descriptions and focus-session notes
+
+import { prisma } from './prisma';
+import { HIGHLIGHT_END, HIGHLIGHT_START, SearchText } from './searchQuery';
+
+export interface SearchMatch {
+  taskId: string;
+  rank: number; // bm25; lower is better
+  title: string; // With matches wrapped in HIGHLIGHT_START/HIGHLIGHT_END
+  snippet: string | null; // Best matching stretch of the description or notes
+}
+
+// Most matches a single query looks at before filters are applied
+const MAX_MATCHES = 500;
+
+// Words match as prefixes ("meet" finds "meeting"); phrases must appear as written. Every
+// part is quoted so FTS5 operators in user input are taken literally.
+function matchPart({ text, phrase }: SearchText): string | null {
+  if (!/[\p{L}\p{N}]/u.test(text)) return null;
+  const quoted = `"${text.replace(/"/g, '""')}"`;
+  return phrase ? quoted : `${quoted}*`;
+}
+
+export function matchExpression(parts: SearchText[], operator: 'AND' | 'OR' = 'AND'): string | null {
+  const expressions = parts.map(matchPart).filter((part): part is string => part !== null);
+  return expressions.length > 0 ? expressions.join(` ${operator} `) : null;
+}
+
+export class SearchIndex {
+  // Best matches first. Title hits count most, then the description, then session notes.
+  static async match(userId: string, expression: string): Promise<SearchMatch[]> {
+    const rows = await prisma.$queryRaw<Array<{
+      taskId: string;
+      rank: number;
+      title: string;
+      description: string;
+      notes: string;
+    }>>`
+      SELECT "taskId",
+             bm25("TaskSearch", 0, 0, 10.0, 4.0, 2.0) AS "rank",
+             highlight("TaskSearch", 2, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}) AS "title",
+             snippet("TaskSearch", 3, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 16) AS "description",
+             snippet("TaskSearch", 4, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 16) AS "notes"
+      FROM "TaskSearch"
+      WHERE "TaskSearch" MATCH ${expression} AND "userId" = ${userId}
+      ORDER BY "rank"
+      LIMIT ${MAX_MATCHES}
+    `;
+
+    return rows.map(row => ({
+      taskId: row.taskId,
+      rank: Number(row.rank),
+      title: row.title,
+      snippet: [row.description, row.notes].find(text => text.includes(HIGHLIGHT_START)) ?? null
+    }));
+  }
+
+  static async matchingTaskIds(userId: string, expression: string): Promise<string[]> {
+    const rows = await prisma.$queryRaw<Array<{ taskId: string }>>`
+      SELECT "taskId" FROM "TaskSearch" WHERE "TaskSearch" MATCH ${expression} AND "userId" = ${userId}
+    `;
+    return rows.map(row => row.taskId);
+  }
+}
@@ -0,0 +1,159 @@
+// Search Query Language
+// Parses searches like `tag:work priority:high due:<friday is:overdue "exact phrase" -excluded`.
+// Bare words and quoted phrases are matched against the full-text index; `key:value` filters
+// narrow the results. Any part can be negated with a leading `-`.
+
+import { parseQuickAdd } from './quickAdd';
+import { fromWallTime } from './rrule';
+import { allDayKey, dayKey } from './timezone';
+
+export const SEARCH_KEYS = ['tag', 'priority', 'status', 'project', 'due', 'is'] as const;
+export type SearchKey = typeof SEARCH_KEYS[number];
+
+export const SEARCH_STATES = ['overdue', 'open', 'completed', 'blocked', 'recurring'] as const;
+export type SearchState = typeof SEARCH_STATES[number];
+
+const PRIORITIES = ['low', 'medium', 'high'];
+// Same as the board's TASK_STATUSES; that module pulls in the database client, and this one
+// also runs in the browser
+const STATUSES = ['todo', 'in_progress', 'completed'];
+
+// Around matched words in titles and snippets; control characters can't clash with task text
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export interface SearchText {
+  text: string;
+  phrase: boolean; // Quoted: matched as-is rather than as a word prefix
+}
+
+export interface SearchFilter {
+  key: SearchKey;
+  value: string;
+  negated: boolean;
+  // due: only. The instants the filter covers, or null for `due:none`
+  due?: { start?: Date; end?: Date } | null;
+}
+
+export interface ParsedSearch {
+  include: SearchText[];
+  exclude: SearchText[];
+  filters: SearchFilter[];
+  errors: string[];
+}
+
+export interface SearchQueryOptions {
+  timeZone?: string; // Zone that due: dates are read in; UTC when unset
+}
+
+// An optional `-`, an optional known `key:`, then a quoted phrase or a run of non-spaces
+const TOKEN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+const DUE_OPS = /^(<=|>=|<|>|=)?(.*)$/;
+
+function startOfKey(key: string, timeZone: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return fromWallTime({ year, month, day, hour: 0, minute: 0, second: 0 }, timeZone);
+}
+
+function nextKey(key: string): string {
+  const date = new Date(`${key}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return allDayKey(date);
+}
+
+// The calendar day a due: value names, as YYYY-MM-DD; anything quick add reads as a date works
+function dueDay(value: string, now: Date, timeZone: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+  const parsed = parseQuickAdd(value, now, { timeZone });
+  if (!parsed.due_at || parsed.tokens.some(token => token.kind !== 'date' && token.kind !== 'time')) return null;
+
+  const due = new Date(parsed.due_at);
+  return parsed.all_day ? allDayKey(due) : dayKey(due, timeZone);
+}
+
+// `due:<friday` is before Friday starts, `due:<=friday` up to the end of Friday, and so on
+function dueRange(value: string, now: Date, timeZone: string): { start?: Date; end?: Date } | null | undefined {
+  const [, op = '=', rest] = DUE_OPS.exec(value) as RegExpExecArray;
+  if (rest.toLowerCase() === 'none' && op === '=') return null;
+
+  const key = dueDay(rest, now, timeZone);
+  if (!key) return undefined;
+
+  const start = startOfKey(key, timeZone);
+  const next = startOfKey(nextKey(key), timeZone);
+  const justBefore = (date: Date) => new Date(date.getTime() - 1);
+
+  switch (op) {
+    case '<': return { end: justBefore(start) };
+    case '<=': return { end: justBefore(next) };
+    case '>': return { start: next };
+    case '>=': return { start };
+    default: return { start, end: justBefore(next) };
+  }
+}
+
+function validate(filter: SearchFilter, now: Date, timeZone: string): string | null {
+  switch (filter.key) {
+    case 'priority':
+      return PRIORITIES.includes(filter.value) ? null : `priority must be one of ${PRIORITIES.join(', ')}`;
+    case 'status':
+      return STATUSES.includes(filter.value) ? null : `status must be one of ${STATUSES.join(', ')}`;
+    case 'is':
+      return (SEARCH_STATES as readonly string[]).includes(filter.value)
+        ? null
+        : `is: must be one of ${SEARCH_STATES.join(', ')}`;
+    case 'due': {
+      const range = dueRange(filter.value, now, timeZone);
+      if (range === undefined) return `could not read "${filter.value}" as a date in due:`;
+      filter.due = range;
+      return null;
+    }
+    default:
+      return filter.value ? null : `${filter.key}: needs a value`;
+  }
+}
+
+export function parseSearchQuery(input: string, now: Date = new Date(), options: SearchQueryOptions = {}): ParsedSearch {
+  const timeZone = options.timeZone || 'UTC';
+  const parsed: ParsedSearch = { include: [], exclude: [], filters: [], errors: [] };
+
+  for (const match of input.matchAll(TOKEN)) {
+    const [raw, minus, rawKey, quoted, bare] = match;
+    const negated = minus === '-';
+    const key = rawKey?.toLowerCase();
+
+    if (key && (SEARCH_KEYS as readonly string[]).includes(key)) {
+      const value = (quoted ?? bare ?? '').trim();
+      const filter: SearchFilter = { key: key as SearchKey, value: key === 'project' ? value : value.toLowerCase(), negated };
+      const error = validate(filter, now, timeZone);
+      if (error) parsed.errors.push(error);
+      else parsed.filters.push(filter);
+      continue;
+    }
+
+    // Unknown keys ("http:", "re:") are just words
+    const text = quoted !== undefined && !rawKey ? quoted.trim() : raw.slice(minus.length);
+    if (!text) continue;
+    (negated ? parsed.exclude : parsed.include).push({ text, phrase: quoted !== undefined && !rawKey });
+  }
+
+  return parsed;
+}
+
+// Splits highlighted text into plain and matched runs for rendering
+export function splitHighlights(text: string): { text: string; match: boolean }[] {
+  const parts: { text: string; match: boolean }[] = [];
+  for (const [index, chunk] of text.split(HIGHLIGHT_START).entries()) {
+    if (index === 0) {
+      if (chunk) parts.push({ text: chunk, match: false });
+      continue;
+    }
+    const [matched, ...rest] = chunk.split(HIGHLIGHT_END);
+    if (matched) parts.push({ text: matched, match: true });
+    const after = rest.join('');
+    if (after) parts.push({ text: after, match: false });
+  }
+  return parts;
+}
@@ -0,0 +1,82 @@
+// Sections
+// User-defined board columns within a project (or the inbox), optionally tied to a task status
+
+import type { Section } from '@prisma/client';
+import { prisma } from './prisma';
+
+export const TASK_STATUSES = ['todo', 'in_progress', 'completed'] as const;
+export type TaskStatus = typeof TASK_STATUSES[number];
+
+export function isTaskStatus(value: unknown): value is TaskStatus {
+  return typeof value === 'string' && (TASK_STATUSES as readonly string[]).includes(value);
+}
+
+export interface SectionInput {
+  name?: string;
+  status?: TaskStatus | null;
+}
+
+export class SectionManager {
+  // `projectId` null lists the inbox board's sections
+  static async listSections(userId: string, projectId: string | null): Promise<Section[]> {
+    return prisma.section.findMany({
+      where: { userId, projectId },
+      orderBy: [{ order_index: 'asc' }, { created_at: 'asc' }]
+    });
+  }
+
+  static async getSection(sectionId: string, userId: string): Promise<Section | null> {
+    return prisma.section.findFirst({ where: { id: sectionId, userId } });
+  }
+
+  // New sections become the board's last column
+  static async createSection(userId: string, data: { name: string; projectId: string | null; status?: TaskStatus | null }): Promise<Section> {
+    const last = await prisma.section.findFirst({
+      where: { userId, projectId: data.projectId },
+      orderBy: { order_index: 'desc' }
+    });
+
+    return prisma.section.create({
+      data: {
+        userId,
+        projectId: data.projectId,
+        name: data.name,
+        status: data.status ?? null,
+        order_index: (last?.order_index ?? -1) + 1
+      }
+    });
+  }
+
+  static async updateSection(sectionId: string, userId: string, data: SectionInput): Promise<Section | null> {
+    const section = await this.getSection(sectionId, userId);
+    if (!section) return null;
+
+    return prisma.section.update({
+      where: { id: sectionId },
+      data: { name: data.name, status: data.status }
+    });
+  }
+
+  // Tasks are kept and fall back to the board's unsectioned column
+  static async deleteSection(sectionId: string, userId: string): Promise<boolean> {
+    const section = await this.getSection(sectionId, userId);
+    if (!section) return false;
+
+    await prisma.$transaction([
+      prisma.task.updateMany({ where: { sectionId, userId }, data: { sectionId: null } }),
+      prisma.section.delete({ where: { id: sectionId } })
+    ]);
+
+    return true;
+  }
+
+  // `sectionIds` is the new column order; ids the user doesn't own are ignored
+  static async reorderSections(userId: string, sectionIds: string[]): Promise<void> {
+    await prisma.$transaction(
+      sectionIds.map((id, index) => prisma.section.updateMany({
+        where: { id, userId },
+        data: { order_index: index }
+      }))
+    );
+  }
+}
@@ -0,0 +1,87 @@
+// Signed session cookie helpers
+// Uses Web Crypto only so it can run in both the edge middleware and Node route handlers
+
+export const SESSION_COOKIE = 'blitz_session';
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+// Headers set by middleware once the session cookie has been verified.
+// Any client-supplied values are stripped before these are written.
+export const USER_ID_HEADER = 'x-user-id';
+export const SESSION_ID_HEADER = 'x-session-id';
+
+export interface SessionTokenPayload {
+  sid: string; // Session row id
+  uid: string; // User id
+  exp: number; // Expiry, ms since epoch
+}
+
+const encoder = new TextEncoder();
+
+export function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('AUTH_SECRET must be set in production');
+    }
+    return 'blitzitapp-dev-secret';
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function getKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+export async function signSessionToken(payload: SessionTokenPayload): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+export async function verifySessionToken(token: string | undefined | null): Promise<SessionTokenPayload | null> {
+  if (!token) return null;
+
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as SessionTokenPayload;
+    if (!payload.sid || !payload.uid || typeof payload.exp !== 'number') return null;
+    if (payload.exp <= Date.now()) return null;
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,533 @@
+// Share Link Storage
+// Server-side persistence, access control and content rendering for public share links
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { Prisma, ShareLink as ShareLinkRecord } from '@prisma/client';
+import { prisma } from './prisma';
+import { AuthManager } from './auth';
+import { TaskManager } from './taskManager';
+import { getSecret } from './sessionToken';
+import { addDays, dayKey, startOfDay } from './timezone';
+import type { ShareAccess, ShareLink, ShareSettings, ShareableContent } from './sharing';
+
+export const SHARE_CONTENT_TYPES = ['task_list', 'analytics', 'forest', 'focus_stats'] as const;
+export type ShareContentType = typeof SHARE_CONTENT_TYPES[number];
+
+// How long a visitor stays unlocked after entering a share password
+const SHARE_ACCESS_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+const ANALYTICS_DAYS = 30;
+
+export const DEFAULT_SHARE_SETTINGS: ShareSettings = {
+  allowComments: true,
+  allowDownload: true,
+  allowEmbedding: false,
+  showUserInfo: false,
+  showTimestamps: true
+};
+
+export interface ShareLinkInput {
+  title?: string;
+  description?: string | null;
+  isPublic?: boolean;
+  password?: string | null;
+  expiresAt?: string | Date | null;
+  filters?: Record<string, any>;
+  settings?: Partial<ShareSettings>;
+}
+
+export interface SharedContentView {
+  share: ShareLink;
+  content: ShareableContent;
+  owner?: { name: string | null };
+}
+
+// What we keep about a visitor: never the raw IP or full user agent
+export interface ShareVisitor {
+  referrer: string | null;
+  userAgent: string | null;
+  ipHash: string | null;
+}
+
+export interface ShareAnalytics {
+  totalAccesses: number;
+  uniqueVisitors: number;
+  averageDuration: number;
+  topReferrers: Array<{ referrer: string; count: number }>;
+  accessTrends: Array<{ date: string; count: number }>;
+  recentAccesses: ShareAccess[];
+}
+
+export type ShareAccessResult =
+  | { status: 'ok'; record: ShareLinkRecord }
+  | { status: 'expired' | 'password_required'; record: ShareLinkRecord }
+  | { status: 'not_found' };
+
+export function shareAccessCookieName(shareId: string): string {
+  return `blitz_share_${shareId}`;
+}
+
+export function isShareContentType(value: unknown): value is ShareContentType {
+  return typeof value === 'string' && (SHARE_CONTENT_TYPES as readonly string[]).includes(value);
+}
+
+function coarseUserAgent(userAgent: string | null): string | null {
+  if (!userAgent) return null;
+  if (/bot|crawler|spider|preview/i.test(userAgent)) return 'Bot';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Other';
+
+  const os = /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Other';
+
+  return `${browser} on ${os}`;
+}
+
+function referrerHost(referrer: string | null, ownHost: string | null): string | null {
+  if (!referrer) return null;
+  try {
+    const host = new URL(referrer).host;
+    return host && host !== ownHost ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+// Builds the stored visitor details from request headers. The visitor's address is the last
+// x-forwarded-for hop, the one our proxy appended; earlier entries come from the client.
+export function getShareVisitor(headers: Pick<Headers, 'get'>): ShareVisitor {
+  const ip = headers.get('x-forwarded-for')?.split(',').pop()?.trim() || headers.get('x-real-ip');
+
+  return {
+    referrer: referrerHost(headers.get('referer'), headers.get('host')),
+    userAgent: coarseUserAgent(headers.get('user-agent')),
+    ipHash: ip ? createHash('sha256').update(`${getSecret()}:${ip}`).digest('hex') : null
+  };
+}
+
+function parseJson<T>(value: string, fallback: T): T {
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function pickSettings(settings: Partial<ShareSettings> = {}): ShareSettings {
+  return {
+    allowComments: settings.allowComments ?? DEFAULT_SHARE_SETTINGS.allowComments,
+    allowDownload: settings.allowDownload ?? DEFAULT_SHARE_SETTINGS.allowDownload,
+    allowEmbedding: settings.allowEmbedding ?? DEFAULT_SHARE_SETTINGS.allowEmbedding,
+    showUserInfo: settings.showUserInfo ?? DEFAULT_SHARE_SETTINGS.showUserInfo,
+    showTimestamps: settings.showTimestamps ?? DEFAULT_SHARE_SETTINGS.showTimestamps,
+    refreshInterval: settings.refreshInterval || undefined
+  };
+}
+
+function parseExpiry(value: string | Date | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export class ShareLinkManager {
+  // Public shape of a share; never includes the password hash
+  static toShareLink(record: ShareLinkRecord): ShareLink {
+    return {
+      id: record.id,
+      userId: record.userId,
+      contentType: record.content_type as ShareContentType,
+      title: record.title,
+      description: record.description ?? undefined,
+      isPublic: record.is_public,
+      hasPassword: !!record.password_hash,
+      expiresAt: record.expires_at ?? undefined,
+      accessCount: record.access_count,
+      lastAccessedAt: record.last_accessed_at ?? undefined,
+      createdAt: record.created_at,
+      updatedAt: record.updated_at,
+      filters: parseJson(record.filters_json, {}),
+      settings: pickSettings(parseJson(record.settings_json, {}))
+    };
+  }
+
+  static isExpired(record: ShareLinkRecord): boolean {
+    return !!record.expires_at && record.expires_at <= new Date();
+  }
+
+  static requiresPassword(record: ShareLinkRecord): boolean {
+    return !!record.password_hash;
+  }
+
+  static getSettings(record: ShareLinkRecord): ShareSettings {
+    return pickSettings(parseJson(record.settings_json, {}));
+  }
+
+  static async createShareLink(userId: string, contentType: ShareContentType, input: ShareLinkInput): Promise<ShareLinkRecord> {
+    return await prisma.shareLink.create({
+      data: {
+        userId,
+        content_type: contentType,
+        title: input.title || 'Shared list',
+        description: input.description || null,
+        filters_json: JSON.stringify(input.filters || {}),
+        settings_json: JSON.stringify(pickSettings(input.settings)),
+        is_public: input.isPublic ?? true,
+        password_hash: input.password ? await AuthManager.hashPassword(input.password) : null,
+        expires_at: parseExpiry(input.expiresAt)
+      }
+    });
+  }
+
+  static async getOwnedShareLink(shareId: string, userId: string): Promise<ShareLinkRecord | null> {
+    return await prisma.shareLink.findFirst({
+      where: { id: shareId, userId }
+    });
+  }
+
+  static async getShareLink(shareId: string): Promise<ShareLinkRecord | null> {
+    return await prisma.shareLink.findUnique({ where: { id: shareId } });
+  }
+
+  // An empty string for password removes protection; undefined leaves it unchanged
+  static async updateShareLink(record: ShareLinkRecord, input: ShareLinkInput): Promise<ShareLinkRecord> {
+    const data: Prisma.ShareLinkUpdateInput = {};
+
+    if (input.title !== undefined) data.title = input.title;
+    if (input.description !== undefined) data.description = input.description || null;
+    if (input.isPublic !== undefined) data.is_public = input.isPublic;
+    if (input.expiresAt !== undefined) data.expires_at = parseExpiry(input.expiresAt);
+    if (input.filters !== undefined) data.filters_json = JSON.stringify(input.filters);
+    if (input.settings !== undefined) {
+      data.settings_json = JSON.stringify(pickSettings({ ...this.getSettings(record), ...input.settings }));
+    }
+    if (input.password !== undefined) {
+      data.password_hash = input.password ? await AuthManager.hashPassword(input.password) : null;
+    }
+
+    return await prisma.shareLink.update({
+      where: { id: record.id },
+      data
+    });
+  }
+
+  static async deleteShareLink(shareId: string, userId: string): Promise<boolean> {
+    const record = await this.getOwnedShareLink(shareId, userId);
+    if (!record) return false;
+
+    await prisma.$transaction([
+      prisma.shareAccessLog.deleteMany({ where: { shareId } }),
+      prisma.shareLink.delete({ where: { id: shareId } })
+    ]);
+    return true;
+  }
+
+  static async getUserShares(userId: string, filters: {
+    type?: string;
+    isPublic?: boolean;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<{ shares: ShareLink[]; total: number; page: number; totalPages: number }> {
+    const page = Math.max(1, filters.page || 1);
+    const limit = Math.min(100, Math.max(1, filters.limit || 20));
+    const where: Prisma.ShareLinkWhereInput = { userId };
+
+    if (filters.type) where.content_type = filters.type;
+    if (filters.isPublic !== undefined) where.is_public = filters.isPublic;
+
+    const [records, total] = await Promise.all([
+      prisma.shareLink.findMany({
+        where,
+        orderBy: { created_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.shareLink.count({ where })
+    ]);
+
+    return {
+      shares: records.map(record => this.toShareLink(record)),
+      total,
+      page,
+      totalPages: Math.max(1, Math.ceil(total / limit))
+    };
+  }
+
+  static async verifyPassword(record: ShareLinkRecord, password: string): Promise<boolean> {
+    if (!record.password_hash) return true;
+    return AuthManager.verifyPassword(password, record.password_hash);
+  }
+
+  // Access tokens are keyed on the password hash, so changing the password locks everyone out again
+  static createAccessToken(record: ShareLinkRecord): { token: string; expiresAt: Date } {
+    const expiresAt = new Date(Date.now() + SHARE_ACCESS_TTL_MS);
+    const payload = `${record.id}.${expiresAt.getTime()}`;
+    const signature = createHmac('sha256', record.password_hash || record.id).update(payload).digest('hex');
+    return { token: `${expiresAt.getTime()}.${signature}`, expiresAt };
+  }
+
+  static verifyAccessToken(record: ShareLinkRecord, token: string | undefined | null): boolean {
+    if (!record.password_hash) return true;
+    if (!token) return false;
+
+    const [exp, signature] = token.split('.');
+    if (!exp || !signature || Number(exp) <= Date.now()) return false;
+
+    const expected = createHmac('sha256', record.password_hash).update(`${record.id}.${exp}`).digest();
+    const actual = Buffer.from(signature, 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  // Decides whether a visitor may see a share. Owners can always preview their own links;
+  // everyone else needs a public, unexpired link and, if set, a valid password unlock.
+  static async checkAccess(
+    shareId: string,
+    viewerId: string | null,
+    accessToken: string | undefined | null
+  ): Promise<ShareAccessResult> {
+    const record = await this.getShareLink(shareId);
+    if (!record) return { status: 'not_found' };
+
+    if (viewerId && viewerId === record.userId) return { status: 'ok', record };
+    if (!record.is_public) return { status: 'not_found' };
+    if (this.isExpired(record)) return { status: 'expired', record };
+    if (!this.verifyAccessToken(record, accessToken)) return { status: 'password_required', record };
+
+    return { status: 'ok', record };
+  }
+
+  static async recordAccess(shareId: string, visitor: ShareVisitor, details: {
+    duration?: number;
+    actions?: string[];
+  } = {}): Promise<void> {
+    const now = new Date();
+
+    await prisma.$transaction([
+      prisma.shareAccessLog.create({
+        data: {
+          shareId,
+          accessed_at: now,
+          referrer: visitor.referrer,
+          user_agent: visitor.userAgent,
+          ip_hash: visitor.ipHash,
+          duration_sec: Math.max(0, Math.round(details.duration || 0)),
+          actions_json: JSON.stringify(details.actions || [])
+        }
+      }),
+      prisma.shareLink.update({
+        where: { id: shareId },
+        data: {
+          access_count: { increment: 1 },
+          last_accessed_at: now
+        }
+      })
+    ]);
+  }
+
+  // Views over the last 30 days, unique visitors and top referrers for one share.
+  // Days are counted in the owner's time zone.
+  static async getShareAnalytics(shareId: string, timeZone: string): Promise<ShareAnalytics> {
+    const since = addDays(startOfDay(new Date(), timeZone), -(ANALYTICS_DAYS - 1), timeZone);
+
+    const [totalAccesses, visitors, referrers, duration, recentLogs, trendLogs] = await Promise.all([
+      prisma.shareAccessLog.count({ where: { shareId } }),
+      prisma.shareAccessLog.groupBy({
+        by: ['ip_hash'],
+        where: { shareId, ip_hash: { not: null } }
+      }),
+      prisma.shareAccessLog.groupBy({
+        by: ['referrer'],
+        where: { shareId },
+        _count: { _all: true }
+      }),
+      prisma.shareAccessLog.aggregate({
+        where: { shareId, duration_sec: { gt: 0 } },
+        _avg: { duration_sec: true }
+      }),
+      prisma.shareAccessLog.findMany({
+        where: { shareId },
+        orderBy: { accessed_at: 'desc' },
+        take: 20
+      }),
+      prisma.shareAccessLog.findMany({
+        where: { shareId, accessed_at: { gte: since } },
+        select: { accessed_at: true }
+      })
+    ]);
+
+    const countsByDay = new Map<string, number>();
+    for (const log of trendLogs) {
+      const day = dayKey(log.accessed_at, timeZone);
+      countsByDay.set(day, (countsByDay.get(day) || 0) + 1);
+    }
+
+    const accessTrends: Array<{ date: string; count: number }> = [];
+    for (let i = 0; i < ANALYTICS_DAYS; i++) {
+      const day = dayKey(addDays(since, i, timeZone), timeZone);
+      accessTrends.push({ date: day, count: countsByDay.get(day) || 0 });
+    }
+
+    return {
+      totalAccesses,
+      uniqueVisitors: visitors.length,
+      averageDuration: Math.round(duration._avg.duration_sec ?? 0),
+      topReferrers: referrers
+        .map(r => ({ referrer: r.referrer || 'Direct', count: r._count._all }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5),
+      accessTrends,
+      recentAccesses: recentLogs.map(log => ({
+        id: log.id,
+        shareId: log.shareId,
+        referrer: log.referrer ?? undefined,
+        userAgent: log.user_agent ?? undefined,
+        accessedAt: log.accessed_at,
+        duration: log.duration_sec,
+        actions: parseJson<string[]>(log.actions_json, [])
+      }))
+    };
+  }
+
+  // Builds the read-only content for a share from the owner's current data
+  static async getSharedContent(record: ShareLinkRecord): Promise<SharedContentView> {
+    const settings = this.getSettings(record);
+    const filters = parseJson<Record<string, any>>(record.filters_json, {});
+    const data = await this.loadContentData(record.userId, record.content_type as ShareContentType, filters, settings);
+
+    const share = this.toShareLink(record);
+    if (!settings.showUserInfo) {
+      share.userId = '';
+    }
+
+    const view: SharedContentView = {
+      share,
+      content: {
+        id: record.id,
+        type: record.content_type as ShareContentType,
+        title: record.title,
+        description: record.description ?? undefined,
+        data,
+        filters
+      }
+    };
+
+    if (settings.showUserInfo) {
+      const owner = await prisma.user.findUnique({
+        where: { id: record.userId },
+        select: { name: true }
+      });
+      view.owner = { name: owner?.name ?? null };
+    }
+
+    return view;
+  }
+
+  // Whether a task list share shows this task, as a task or as a subtask
+  static async sharesTask(record: ShareLinkRecord, taskId: string): Promise<boolean> {
+    if (record.content_type !== 'task_list') return false;
+
+    const filters = parseJson<Record<string, any>>(record.filters_json, {});
+    const tasks = await this.loadContentData(record.userId, 'task_list', filters, this.getSettings(record));
+    return tasks.some((task: any) => task.id === taskId || task.subtasks.some((subtask: any) => subtask.id === taskId));
+  }
+
+  private static async loadContentData(
+    userId: string,
+    contentType: ShareContentType,
+    filters: Record<string, any>,
+    settings: ShareSettings
+  ): Promise<any> {
+    switch (contentType) {
+      case 'task_list': {
+        const tasks = await TaskManager.getTasks(userId, {
+          status: Array.isArray(filters.status) ? filters.status : undefined,
+          priority: Array.isArray(filters.priority) ? filters.priority : undefined,
+          tags: Array.isArray(filters.tags) ? filters.tags : undefined,
+          parentTaskId: null
+        });
+
+        return tasks.map(task => ({
+          id: task.id,
+          title: task.title,
+          description: task.description ?? null,
+          status: task.status,
+          priority: task.priority,
+          due_at: task.due_at ?? null,
+          all_day: task.all_day,
+          tags: parseJson<string[]>(task.tags_json, []),
+          completed_at: settings.showTimestamps ? task.completed_at ?? null : null,
+          subtasks: task.subtasks.map(subtask => ({
+            id: subtask.id,
+            title: subtask.title,
+            status: subtask.status
+          }))
+        }));
+      }
+
+      case 'analytics': {
+        const [totalTasks, completedTasks, focus, user] = await Promise.all([
+          prisma.task.count({ where: { userId } }),
+          prisma.task.count({ where: { userId, status: { in: ['done', 'completed'] } } }),
+          prisma.focusSession.aggregate({
+            where: { userId, status: 'completed' },
+            _sum: { duration_min: true },
+            _count: true
+          }),
+          prisma.user.findUnique({ where: { id: userId }, select: { streak_days: true, points: true } })
+        ]);
+
+        return {
+          period: 'All time',
+          totalTasks,
+          completedTasks,
+          completionRate: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0,
+          focusSessions: focus._count,
+          totalFocusMinutes: focus._sum.duration_min ?? 0,
+          streakDays: user?.streak_days ?? 0,
+          points: user?.points ?? 0
+        };
+      }
+
+      case 'forest': {
+        const trees = await prisma.treeInstance.findMany({
+          where: { userId },
+          include: { species: true },
+          orderBy: { planted_at: 'asc' }
+        });
+
+        return {
+          trees: trees.map(tree => ({
+            id: tree.id,
+            species: tree.species.name,
+            stage: tree.stage,
+            maxStage: tree.species.stages,
+            planted_at: settings.showTimestamps ? tree.planted_at : null
+          }))
+        };
+      }
+
+      case 'focus_stats': {
+        const sessions = await prisma.focusSession.findMany({
+          where: { userId, status: 'completed' },
+          select: { duration_min: true, completed_pomodoros: true, started_at: true },
+          orderBy: { started_at: 'desc' }
+        });
+
+        return {
+          totalSessions: sessions.length,
+          totalMinutes: sessions.reduce((sum, s) => sum + s.duration_min, 0),
+          totalPomodoros: sessions.reduce((sum, s) => sum + s.completed_pomodoros, 0),
+          lastSessionAt: settings.showTimestamps ? sessions[0]?.started_at ?? null : null
+        };
+      }
+    }
+  }
+}
@@ -14,17 +14,18 @@ export interface ShareableContent {
 export interface ShareLink {
   id: string;
   userId: string;
-  contentId: string;
   contentType: 'task_list' | 'analytics' | 'forest' | 'focus_stats';
   title: string;
   description?: string;
   isPublic: boolean;
-  password?: string;
+  password?: string; // Write-only; set when creating or updating a share
+  hasPassword: boolean;
   expiresAt?: Date;
   accessCount: number;
   lastAccessedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
+  filters?: any;
   settings: ShareSettings;
 }
 
@@ -40,8 +41,8 @@ export interface ShareSettings {
 export interface ShareAccess {
   id: string;
   shareId: string;
-  ipAddress?: string;
-  userAgent?: string;
+  referrer?: string; // Referring host
+  userAgent?: string; // Coarse browser and OS
   accessedAt: Date;
   duration: number; // Time spent viewing in seconds
   actions: string[]; // What the user did
@@ -144,10 +145,8 @@ export class SharingManager {
     return response.json();
   }
 
-  // Track share access
+  // Track share access (referrer, user agent and IP are taken from the request)
   async trackAccess(shareId: string, accessData: {
-    ipAddress?: string;
-    userAgent?: string;
     duration?: number;
     actions?: string[];
   }): Promise<void> {
@@ -214,12 +213,12 @@ export class SharingManager {
 
   // Check if share link requires password
   requiresPassword(share: ShareLink): boolean {
-    return !!share.password;
+    return share.hasPassword;
   }
 
   // Generate share URL
   generateShareUrl(shareId: string): string {
-    return `${window.location.origin}/share/${shareId}`;
+    return `${window.location.origin}/s/${shareId}`;
   }
 
   // Generate QR code URL for share link
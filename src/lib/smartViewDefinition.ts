@@ -0,0 +1,152 @@
+// Smart View Definitions
+// The filter, sort and group settings behind a smart view, the built-in views expressed in
+// them, and validation for definitions sent by clients. Shared with the browser-side editor.
+
+export const SORT_FIELDS = ['due_at', 'priority', 'created_at', 'completed_at', 'title', 'order_index'] as const;
+export type SortField = typeof SORT_FIELDS[number];
+
+export const GROUP_BY = ['none', 'project', 'priority', 'status', 'due_day', 'tag'] as const;
+export type GroupBy = typeof GROUP_BY[number];
+
+export const BUILTIN_VIEWS = ['today', 'upcoming', 'overdue', 'completed'] as const;
+export type BuiltinView = typeof BUILTIN_VIEWS[number];
+
+const STATUSES = ['todo', 'in_progress', 'completed'];
+const PRIORITIES = ['low', 'medium', 'high'];
+
+export interface SmartViewFilter {
+  status?: string[];
+  priority?: string[];
+  tags?: string[]; // Tasks with any of these tags
+  projectIds?: Array<string | null>; // null is the inbox
+  // Due within these days, counted from today in the user's time zone (0 is today)
+  due?: { from?: number; to?: number };
+  overdue?: boolean;
+  noDueDate?: boolean;
+  completedWithinDays?: number;
+  topLevelOnly?: boolean; // Leave out subtasks
+}
+
+export interface SmartViewSort {
+  field: SortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface SmartViewDefinition {
+  filter: SmartViewFilter;
+  sort: SmartViewSort[]; // Later entries break ties in earlier ones
+  group: GroupBy;
+}
+
+export const SORT_LABELS: Record<SortField, string> = {
+  due_at: 'Due date',
+  priority: 'Priority',
+  created_at: 'Date created',
+  completed_at: 'Date completed',
+  title: 'Title',
+  order_index: 'Manual order'
+};
+
+export const GROUP_LABELS: Record<GroupBy, string> = {
+  none: 'No grouping',
+  project: 'Project',
+  priority: 'Priority',
+  status: 'Status',
+  due_day: 'Due date',
+  tag: 'Tag'
+};
+
+// What the old Today, Upcoming, Overdue and Completed pages showed
+export const BUILTIN_DEFINITIONS: Record<BuiltinView, { name: string; definition: SmartViewDefinition }> = {
+  today: {
+    name: 'Today',
+    definition: {
+      filter: { due: { from: 0, to: 0 } },
+      sort: [{ field: 'due_at', direction: 'asc' }, { field: 'priority', direction: 'desc' }],
+      group: 'none'
+    }
+  },
+  upcoming: {
+    name: 'Upcoming',
+    definition: {
+      filter: { due: { from: 0, to: 7 } },
+      sort: [{ field: 'due_at', direction: 'asc' }],
+      group: 'due_day'
+    }
+  },
+  overdue: {
+    name: 'Overdue',
+    definition: {
+      filter: { overdue: true, status: ['todo', 'in_progress'] },
+      sort: [{ field: 'due_at', direction: 'asc' }],
+      group: 'none'
+    }
+  },
+  completed: {
+    name: 'Completed',
+    definition: {
+      filter: { status: ['completed'], completedWithinDays: 30 },
+      sort: [{ field: 'completed_at', direction: 'desc' }],
+      group: 'none'
+    }
+  }
+};
+
+export function isBuiltinView(value: unknown): value is BuiltinView {
+  return typeof value === 'string' && (BUILTIN_VIEWS as readonly string[]).includes(value);
+}
+
+// Where a view lives: the built-in ones keep their old pages
+export function viewPath(view: { id: string; builtin: string | null }): string {
+  return view.builtin ? `/${view.builtin}` : `/views/${view.id}`;
+}
+
+function isStringList(value: unknown, allowed?: string[]): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string' && (!allowed || allowed.includes(item)));
+}
+
+function isDayOffset(value: unknown): boolean {
+  return value === undefined || (Number.isInteger(value) && Math.abs(value as number) <= 3650);
+}
+
+// The first problem with a definition sent by a client, or null when it's usable
+export function validateDefinition(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return 'definition must be an object';
+  const { filter, sort, group } = value as Record<string, unknown>;
+
+  if (!filter || typeof filter !== 'object') return 'definition.filter must be an object';
+  const f = filter as Record<string, unknown>;
+  if (f.status !== undefined && !isStringList(f.status, STATUSES)) {
+    return `filter.status must list statuses from ${STATUSES.join(', ')}`;
+  }
+  if (f.priority !== undefined && !isStringList(f.priority, PRIORITIES)) {
+    return `filter.priority must list priorities from ${PRIORITIES.join(', ')}`;
+  }
+  if (f.tags !== undefined && !isStringList(f.tags)) return 'filter.tags must be a list of tag names';
+  if (f.projectIds !== undefined && !(Array.isArray(f.projectIds) && f.projectIds.every(id => id === null || typeof id === 'string'))) {
+    return 'filter.projectIds must be a list of project ids or null for the inbox';
+  }
+  if (f.due !== undefined) {
+    const due = f.due as Record<string, unknown> | null;
+    if (!due || typeof due !== 'object' || !isDayOffset(due.from) || !isDayOffset(due.to)) {
+      return 'filter.due must be { from, to } in whole days from today';
+    }
+  }
+  for (const flag of ['overdue', 'noDueDate', 'topLevelOnly']) {
+    if (f[flag] !== undefined && typeof f[flag] !== 'boolean') return `filter.${flag} must be a boolean`;
+  }
+  if (f.completedWithinDays !== undefined && !(Number.isInteger(f.completedWithinDays) && (f.completedWithinDays as number) > 0)) {
+    return 'filter.completedWithinDays must be a positive whole number';
+  }
+
+  if (!Array.isArray(sort) || !sort.every(entry =>
+    entry && (SORT_FIELDS as readonly string[]).includes(entry.field) && ['asc', 'desc'].includes(entry.direction)
+  )) {
+    return `definition.sort must be a list of { field, direction } with fields from ${SORT_FIELDS.join(', ')}`;
+  }
+  if (!(GROUP_BY as readonly string[]).includes(group as string)) {
+    return `definition.group must be one of ${GROUP_BY.join(', ')}`;
+  }
+
+  return null;
+}
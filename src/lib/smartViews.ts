@@ -0,0 +1,287 @@
+// Smart Views
+// User-defined task lists built from a filter/sort/group definition. Every user starts with
+// the built-in Today, Upcoming, Overdue and Completed views, pinned to the navigation.
+
+import type { Prisma, SmartView } from '@prisma/client';
+import { DONE_STATUSES } from './dependencies';
+import { prisma } from './prisma';
+import {
+  BUILTIN_DEFINITIONS,
+  BUILTIN_VIEWS,
+  GroupBy,
+  isBuiltinView,
+  SmartViewDefinition,
+  SmartViewFilter,
+  SmartViewSort
+} from './smartViewDefinition';
+import { normalizeTags } from './tags';
+import { dueBefore, dueBetween } from './taskManager';
+import { addDays, allDayKey, dayKey, endOfDay, startOfDay } from './timezone';
+import { UserSettingsManager } from './userSettings';
+
+export interface SmartViewWithDefinition extends Omit<SmartView, 'definition_json'> {
+  definition: SmartViewDefinition;
+}
+
+const viewTaskInclude = {
+  project: { select: { name: true, color: true } },
+  _count: { select: { subtasks: true } },
+  blockedBy: {
+    where: { blocker: { status: { notIn: DONE_STATUSES } } },
+    select: { blockerId: true }
+  }
+} satisfies Prisma.TaskInclude;
+
+type ViewTaskRow = Prisma.TaskGetPayload<{ include: typeof viewTaskInclude }>;
+
+export type ViewTask = Omit<ViewTaskRow, 'blockedBy'> & { blocked: boolean };
+
+export interface ViewGroup {
+  key: string;
+  label: string;
+  color?: string;
+  tasks: ViewTask[];
+}
+
+const PRIORITY_RANK: Record<string, number> = { low: 1, medium: 2, high: 3 };
+const PRIORITY_LABELS: Record<string, string> = { high: 'High priority', medium: 'Medium priority', low: 'Low priority' };
+const STATUS_LABELS: Record<string, string> = { todo: 'To do', in_progress: 'In progress', completed: 'Completed', done: 'Completed' };
+
+function withDefinition({ definition_json, ...view }: SmartView): SmartViewWithDefinition {
+  return { ...view, definition: JSON.parse(definition_json) };
+}
+
+// Nulls sort last whichever way the field runs
+function compareBy(sort: SmartViewSort) {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return (a: ViewTask, b: ViewTask): number => {
+    const value = (task: ViewTask): string | number | null => {
+      switch (sort.field) {
+        case 'priority': return PRIORITY_RANK[task.priority] ?? 0;
+        case 'title': return task.title.toLowerCase();
+        case 'order_index': return task.order_index;
+        default: return task[sort.field]?.getTime() ?? null;
+      }
+    };
+    const left = value(a);
+    const right = value(b);
+    if (left === right) return 0;
+    if (left === null) return 1;
+    if (right === null) return -1;
+    return (left < right ? -1 : 1) * sign;
+  };
+}
+
+function sortTasks(tasks: ViewTask[], sort: SmartViewSort[]): ViewTask[] {
+  const comparators = sort.map(compareBy);
+  return tasks.slice().sort((a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return 0;
+  });
+}
+
+// Groups keep the order their first task appears in, so they follow the view's sort
+function groupTasks(tasks: ViewTask[], group: GroupBy, timeZone: string): ViewGroup[] {
+  if (group === 'none') return [{ key: 'all', label: '', tasks }];
+
+  const groups = new Map<string, ViewGroup>();
+  const add = (key: string, label: string, task: ViewTask, color?: string) => {
+    if (!groups.has(key)) groups.set(key, { key, label, color, tasks: [] });
+    groups.get(key)!.tasks.push(task);
+  };
+
+  for (const task of tasks) {
+    switch (group) {
+      case 'project':
+        add(task.projectId ?? 'inbox', task.project?.name ?? 'Inbox', task, task.project?.color);
+        break;
+      case 'priority':
+        add(task.priority, PRIORITY_LABELS[task.priority] ?? task.priority, task);
+        break;
+      case 'status':
+        add(task.status, STATUS_LABELS[task.status] ?? task.status, task);
+        break;
+      case 'due_day': {
+        if (!task.due_at) {
+          add('none', 'No due date', task);
+          break;
+        }
+        const key = task.all_day ? allDayKey(task.due_at) : dayKey(task.due_at, timeZone);
+        const label = new Date(`${key}T00:00:00.000Z`).toLocaleDateString('en-US', {
+          weekday: 'long', month: 'short', day: 'numeric', timeZone: 'UTC'
+        });
+        add(key, label, task);
+        break;
+      }
+      case 'tag': {
+        const tags = normalizeTags(JSON.parse(task.tags_json || '[]'));
+        if (tags.length === 0) add('', 'Untagged', task);
+        for (const tag of tags) add(tag, `#${tag}`, task);
+        break;
+      }
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+function filterWhere(userId: string, filter: SmartViewFilter, timeZone: string, now: Date): Prisma.TaskWhereInput {
+  const where: Prisma.TaskWhereInput[] = [{ userId }];
+
+  if (filter.status?.length) {
+    const statuses = filter.status.includes('completed') ? [...filter.status, ...DONE_STATUSES] : filter.status;
+    where.push({ status: { in: statuses } });
+  }
+  if (filter.priority?.length) {
+    where.push({ priority: { in: filter.priority } });
+  }
+  if (filter.tags?.length) {
+    where.push({ tags: { some: { tag: { name: { in: normalizeTags(filter.tags) } } } } });
+  }
+  if (filter.projectIds?.length) {
+    const ids = filter.projectIds.filter((id): id is string => id !== null);
+    where.push({
+      OR: [
+        { projectId: { in: ids } },
+        ...(filter.projectIds.includes(null) ? [{ projectId: null }] : [])
+      ]
+    });
+  }
+  if (filter.due) {
+    const { from, to } = filter.due;
+    where.push(dueBetween(
+      from === undefined ? undefined : startOfDay(addDays(now, from, timeZone), timeZone),
+      to === undefined ? undefined : endOfDay(addDays(now, to, timeZone), timeZone),
+      timeZone
+    ));
+  }
+  if (filter.overdue) {
+    where.push(dueBefore(now, timeZone));
+  }
+  if (filter.noDueDate) {
+    where.push({ due_at: null });
+  }
+  if (filter.completedWithinDays) {
+    where.push({ completed_at: { gte: new Date(now.getTime() - filter.completedWithinDays * 24 * 60 * 60 * 1000) } });
+  }
+  if (filter.topLevelOnly) {
+    where.push({ parent_task_id: null });
+  }
+
+  return { AND: where };
+}
+
+export class SmartViewManager {
+  // Creates whichever built-in views the user doesn't have yet
+  static async ensureDefaults(userId: string): Promise<void> {
+    const existing = await prisma.smartView.findMany({
+      where: { userId, builtin: { not: null } },
+      select: { builtin: true }
+    });
+    const have = new Set(existing.map(view => view.builtin));
+
+    await prisma.smartView.createMany({
+      data: BUILTIN_VIEWS.filter(builtin => !have.has(builtin)).map(builtin => ({
+        userId,
+        builtin,
+        name: BUILTIN_DEFINITIONS[builtin].name,
+        definition_json: JSON.stringify(BUILTIN_DEFINITIONS[builtin].definition),
+        pinned: true,
+        order_index: BUILTIN_VIEWS.indexOf(builtin)
+      }))
+    });
+  }
+
+  static async listViews(userId: string): Promise<SmartViewWithDefinition[]> {
+    await this.ensureDefaults(userId);
+    const views = await prisma.smartView.findMany({
+      where: { userId },
+      orderBy: [{ order_index: 'asc' }, { created_at: 'asc' }]
+    });
+    return views.map(withDefinition);
+  }
+
+  static async getView(viewId: string, userId: string): Promise<SmartViewWithDefinition | null> {
+    const view = await prisma.smartView.findFirst({ where: { id: viewId, userId } });
+    return view && withDefinition(view);
+  }
+
+  // New views go to the end of the list, unpinned unless asked
+  static async createView(userId: string, data: { name: string; definition: SmartViewDefinition; pinned?: boolean }): Promise<SmartViewWithDefinition> {
+    const last = await prisma.smartView.findFirst({
+      where: { userId },
+      orderBy: { order_index: 'desc' }
+    });
+
+    const view = await prisma.smartView.create({
+      data: {
+        userId,
+        name: data.name,
+        definition_json: JSON.stringify(data.definition),
+        pinned: data.pinned ?? false,
+        order_index: (last?.order_index ?? -1) + 1
+      }
+    });
+    return withDefinition(view);
+  }
+
+  static async updateView(
+    viewId: string,
+    userId: string,
+    data: Partial<{ name: string; definition: SmartViewDefinition; pinned: boolean }>
+  ): Promise<SmartViewWithDefinition | null> {
+    const view = await this.getView(viewId, userId);
+    if (!view) return null;
+
+    const updated = await prisma.smartView.update({
+      where: { id: viewId },
+      data: {
+        name: data.name,
+        definition_json: data.definition && JSON.stringify(data.definition),
+        pinned: data.pinned
+      }
+    });
+    return withDefinition(updated);
+  }
+
+  // Puts a built-in view back to how it shipped
+  static async resetView(viewId: string, userId: string): Promise<SmartViewWithDefinition | null> {
+    const view = await this.getView(viewId, userId);
+    if (!isBuiltinView(view?.builtin)) return null;
+
+    const { name, definition } = BUILTIN_DEFINITIONS[view.builtin];
+    return this.updateView(viewId, userId, { name, definition });
+  }
+
+  // Built-in views are kept; the route refuses to delete them
+  static async deleteView(viewId: string, userId: string): Promise<boolean> {
+    const { count } = await prisma.smartView.deleteMany({ where: { id: viewId, userId, builtin: null } });
+    return count > 0;
+  }
+
+  // `viewIds` is the new order; ids the user doesn't own are ignored
+  static async reorderViews(userId: string, viewIds: string[]): Promise<void> {
+    await prisma.$transaction(
+      viewIds.map((id, index) => prisma.smartView.updateMany({
+        where: { id, userId },
+        data: { order_index: index }
+      }))
+    );
+  }
+
+  // The view's tasks, sorted and grouped as its definition says
+  static async runView(userId: string, definition: SmartViewDefinition, now: Date = new Date()): Promise<ViewGroup[]> {
+    const timeZone = await UserSettingsManager.getTimeZone(userId);
+
+    const rows = await prisma.task.findMany({
+      where: filterWhere(userId, definition.filter, timeZone, now),
+      include: viewTaskInclude
+    });
+    const tasks = rows.map(({ blockedBy, ...task }) => ({ ...task, blocked: blockedBy.length > 0 }));
+
+    return groupTasks(sortTasks(tasks, definition.sort), definition.group, timeZone);
+  }
+}
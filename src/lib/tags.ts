@@ -0,0 +1,204 @@
+// Tags
+// One row per tag name per user, linked to tasks, with colours and rename/merge/delete
+
+import type { Prisma, Tag } from '@prisma/client';
+import { prisma } from './prisma';
+
+export const DEFAULT_TAG_COLOR = '#6B7280';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export interface TagWithCounts extends Tag {
+  taskCount: number;
+}
+
+// "#Work", " work " and "work" are the same tag
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/^#+/, '').trim().toLowerCase();
+}
+
+export function isTagColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR.test(value);
+}
+
+export function normalizeTags(names: string[]): string[] {
+  return Array.from(new Set(names.map(normalizeTagName).filter(Boolean)));
+}
+
+// Nested write that links a new task to its tags, creating any the user doesn't have yet
+export function tagLinks(userId: string, names: string[]): Prisma.TaskTagCreateWithoutTaskInput[] {
+  return normalizeTags(names).map(name => ({
+    tag: {
+      connectOrCreate: {
+        where: { userId_name: { userId, name } },
+        create: { userId, name }
+      }
+    }
+  }));
+}
+
+export class TagManager {
+  static async listTags(userId: string): Promise<TagWithCounts[]> {
+    const tags = await prisma.tag.findMany({
+      where: { userId },
+      include: { _count: { select: { tasks: true } } },
+      orderBy: { name: 'asc' }
+    });
+
+    return tags.map(({ _count, ...tag }) => ({ ...tag, taskCount: _count.tasks }));
+  }
+
+  static async getTag(tagId: string, userId: string): Promise<Tag | null> {
+    return prisma.tag.findFirst({ where: { id: tagId, userId } });
+  }
+
+  static async findByName(userId: string, name: string): Promise<Tag | null> {
+    return prisma.tag.findUnique({ where: { userId_name: { userId, name: normalizeTagName(name) } } });
+  }
+
+  static async createTag(userId: string, data: { name: string; color?: string }): Promise<Tag> {
+    return prisma.tag.create({
+      data: { userId, name: normalizeTagName(data.name), color: data.color || DEFAULT_TAG_COLOR }
+    });
+  }
+
+  // Rebuilds the tag links of tasks whose tags_json was written directly, such as every
+  // instance of a series after a series-wide edit
+  static async syncTasks(userId: string, where: Prisma.TaskWhereInput): Promise<void> {
+    const tasks = await prisma.task.findMany({ where: { ...where, userId }, select: { id: true, tags_json: true } });
+
+    for (const task of tasks) {
+      const names = normalizeTags(parseNames(task.tags_json));
+      await prisma.task.update({
+        where: { id: task.id },
+        data: {
+          tags_json: JSON.stringify(names),
+          tags: { deleteMany: {}, create: tagLinks(userId, names) }
+        }
+      });
+    }
+  }
+
+  // Drops the tag links of these tasks and their subtasks; run it in the same
+  // transaction that deletes them
+  static detach(taskIds: string[]) {
+    return prisma.taskTag.deleteMany({
+      where: {
+        OR: [
+          { taskId: { in: taskIds } },
+          { task: { parent_task_id: { in: taskIds } } }
+        ]
+      }
+    });
+  }
+
+  // A rename onto an existing name is a merge; the route asks before doing that
+  static async updateTag(tagId: string, userId: string, data: { name?: string; color?: string }): Promise<Tag | null> {
+    const tag = await this.getTag(tagId, userId);
+    if (!tag) return null;
+
+    const name = data.name === undefined ? undefined : normalizeTagName(data.name);
+    const updated = await prisma.tag.update({ where: { id: tagId }, data: { name, color: data.color } });
+
+    if (name !== undefined && name !== tag.name) {
+      await this.renameInTasks(userId, tagId, tag.name, name);
+    }
+    return updated;
+  }
+
+  // Moves every task from `sourceId` onto `targetId`, then removes the source tag
+  static async mergeTags(sourceId: string, targetId: string, userId: string): Promise<Tag | null> {
+    const [source, target] = await Promise.all([this.getTag(sourceId, userId), this.getTag(targetId, userId)]);
+    if (!source || !target || source.id === target.id) return null;
+
+    const links = await prisma.taskTag.findMany({ where: { tagId: sourceId }, select: { taskId: true } });
+    const taskIds = links.map(link => link.taskId);
+
+    await prisma.$transaction([
+      prisma.taskTag.deleteMany({ where: { tagId: targetId, taskId: { in: taskIds } } }),
+      prisma.taskTag.updateMany({ where: { tagId: sourceId }, data: { tagId: targetId } }),
+      prisma.tag.delete({ where: { id: sourceId } })
+    ]);
+
+    await this.rewriteNames(userId, taskIds, source.name, target.name);
+    return target;
+  }
+
+  static async deleteTag(tagId: string, userId: string): Promise<boolean> {
+    const tag = await this.getTag(tagId, userId);
+    if (!tag) return false;
+
+    const links = await prisma.taskTag.findMany({ where: { tagId }, select: { taskId: true } });
+
+    await prisma.$transaction([
+      prisma.taskTag.deleteMany({ where: { tagId } }),
+      prisma.tag.delete({ where: { id: tagId } })
+    ]);
+
+    await this.rewriteNames(userId, links.map(link => link.taskId), tag.name, null);
+    return true;
+  }
+
+  // Moves tags named before normalizeTagName applied onto their normalized names, such as
+  // the ones the tags migration folded with SQLite's ASCII-only lower() and trim(). A tag
+  // whose name is already taken merges into that tag; one with nothing left is deleted.
+  static async normalizeExisting(userId: string): Promise<void> {
+    const tags = await prisma.tag.findMany({ where: { userId }, orderBy: { created_at: 'asc' } });
+    const byName = new Map(tags.filter(tag => tag.name === normalizeTagName(tag.name)).map(tag => [tag.name, tag]));
+
+    for (const tag of tags) {
+      const name = normalizeTagName(tag.name);
+      if (name === tag.name) continue;
+
+      const existing = byName.get(name);
+      if (!name) {
+        await this.deleteTag(tag.id, userId);
+      } else if (existing) {
+        await this.mergeTags(tag.id, existing.id, userId);
+      } else {
+        byName.set(name, await prisma.tag.update({ where: { id: tag.id }, data: { name } }));
+      }
+    }
+
+    // Name lists were folded the same way, so rewrite them all and relink the tasks
+    await this.syncTasks(userId, {});
+    const series = await prisma.taskSeries.findMany({ where: { userId }, select: { id: true, tags_json: true } });
+    await prisma.$transaction(series.map(entry => prisma.taskSeries.update({
+      where: { id: entry.id },
+      data: { tags_json: JSON.stringify(normalizeTags(parseNames(entry.tags_json))) }
+    })));
+  }
+
+  private static async renameInTasks(userId: string, tagId: string, from: string, to: string): Promise<void> {
+    const links = await prisma.taskTag.findMany({ where: { tagId }, select: { taskId: true } });
+    await this.rewriteNames(userId, links.map(link => link.taskId), from, to);
+  }
+
+  // Keeps the tags_json name lists of tasks and series templates in step with the tag
+  // table; `to` null drops the name
+  private static async rewriteNames(userId: string, taskIds: string[], from: string, to: string | null): Promise<void> {
+    const replace = (json: string) => JSON.stringify(normalizeTags(
+      parseNames(json).flatMap(name => normalizeTagName(name) === from ? (to ? [to] : []) : [name])
+    ));
+
+    const tasks = await prisma.task.findMany({ where: { id: { in: taskIds } }, select: { id: true, tags_json: true } });
+    const series = await prisma.taskSeries.findMany({
+      where: { userId, tags_json: { contains: JSON.stringify(from) } },
+      select: { id: true, tags_json: true }
+    });
+
+    await prisma.$transaction([
+      ...tasks.map(task => prisma.task.update({ where: { id: task.id }, data: { tags_json: replace(task.tags_json) } })),
+      ...series.map(entry => prisma.taskSeries.update({ where: { id: entry.id }, data: { tags_json: replace(entry.tags_json) } }))
+    ]);
+  }
+}
+
+function parseNames(json: string): string[] {
+  try {
+    const value = JSON.parse(json || '[]');
+    return Array.isArray(value) ? value.filter((name): name is string => typeof name === 'string') : [];
+  } catch {
+    return [];
+  }
+}
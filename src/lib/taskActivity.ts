@@ -0,0 +1,77 @@
+// Task Activity
+// The automatic half of a task's feed: lifecycle events noted as the journal records each
+// change, and the focus sessions logged against the task
+
+import type { Prisma } from '@prisma/client';
+import { DONE_STATUSES } from './dependencies';
+import { prisma } from './prisma';
+import type { TaskSnapshot } from './taskJournal';
+
+export type TaskActivityType = 'created' | 'restored' | 'rescheduled' | 'completed' | 'reopened' | 'focus';
+
+export interface TaskActivityEntry {
+  id: string;
+  type: TaskActivityType;
+  created_at: Date;
+  data: Record<string, unknown>;
+}
+
+const isDone = (snapshot: TaskSnapshot) => DONE_STATUSES.includes(snapshot.status);
+
+// The feed events in one task's journaled change
+export function activityFor(
+  userId: string,
+  action: string,
+  before: TaskSnapshot | undefined,
+  after: TaskSnapshot | undefined
+): Prisma.TaskActivityCreateManyInput[] {
+  if (!after) return [];
+
+  const event = (type: TaskActivityType, data: Record<string, unknown> = {}) => ({
+    userId,
+    taskId: after.id,
+    type,
+    data_json: JSON.stringify(data)
+  });
+
+  if (!before) return [event(action === 'undo' ? 'restored' : 'created')];
+
+  const events: Prisma.TaskActivityCreateManyInput[] = [];
+  if ((before.due_at?.getTime() ?? null) !== (after.due_at?.getTime() ?? null)) {
+    events.push(event('rescheduled', { from: before.due_at, to: after.due_at, all_day: after.all_day }));
+  }
+  if (isDone(before) !== isDone(after)) {
+    events.push(event(isDone(after) ? 'completed' : 'reopened'));
+  }
+  return events;
+}
+
+export class TaskActivityFeed {
+  // Oldest first
+  static async forTask(taskId: string, userId: string): Promise<TaskActivityEntry[]> {
+    const [events, sessions] = await Promise.all([
+      prisma.taskActivity.findMany({ where: { taskId, userId }, orderBy: { created_at: 'asc' } }),
+      prisma.focusSession.findMany({
+        where: { taskId, userId, status: 'completed' },
+        select: { id: true, duration_min: true, completed_pomodoros: true, started_at: true, completed_at: true }
+      })
+    ]);
+
+    const entries: TaskActivityEntry[] = [
+      ...events.map(event => ({
+        id: event.id,
+        type: event.type as TaskActivityType,
+        created_at: event.created_at,
+        data: JSON.parse(event.data_json)
+      })),
+      ...sessions.map(session => ({
+        id: session.id,
+        type: 'focus' as const,
+        created_at: session.completed_at ?? session.started_at,
+        data: { minutes: session.duration_min, pomodoros: session.completed_pomodoros }
+      }))
+    ];
+
+    return entries.sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+  }
+}
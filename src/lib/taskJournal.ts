@@ -0,0 +1,353 @@
+// Task Journal
+// Before/after snapshots of the tasks each action changes, so the action can be undone
+// as a whole and every task keeps a history and an activity feed
+
+import type { Prisma, Task, TaskChange } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { AttachmentManager } from './attachments';
+import { DependencyManager, DONE_STATUSES } from './dependencies';
+import { prisma } from './prisma';
+import { activityFor } from './taskActivity';
+import { TagManager, tagLinks } from './tags';
+
+// Journal rows older than this are dropped as new ones are written
+const RETENTION_DAYS = 30;
+
+const DATE_FIELDS = [
+  'due_at', 'reminder_time', 'created_at', 'updated_at', 'completed_at', 'occurrence_at',
+  'scheduled_start', 'scheduled_end'
+] as const;
+
+// Columns worth showing in a task's history, in display order
+const HISTORY_FIELDS = [
+  'title', 'status', 'due_at', 'all_day', 'priority', 'tags_json', 'projectId', 'sectionId',
+  'parent_task_id', 'description', 'estimate_min', 'reminder_time', 'recurrence_rule',
+  'scheduled_start', 'scheduled_end'
+] as const;
+
+const snapshotInclude = {
+  blockedBy: { select: { blockerId: true } },
+  blocking: { select: { blockedId: true } }
+} satisfies Prisma.TaskInclude;
+
+type SnapshotRow = Prisma.TaskGetPayload<{ include: typeof snapshotInclude }>;
+
+// A task row as journaled, with the ids on either side of its dependencies
+export type TaskSnapshot = Task & { blockerIds: string[]; dependantIds: string[] };
+
+// Response header carrying the batch id of the change a request made, for undoing it
+export const UNDO_HEADER = 'X-Undo-Batch';
+
+export function undoHeaders(batchId: string | null): Record<string, string> {
+  return batchId ? { [UNDO_HEADER]: batchId } : {};
+}
+
+export interface TaskHistoryEntry {
+  id: string;
+  batchId: string;
+  action: string;
+  created_at: Date;
+  undone_at: Date | null;
+  kind: 'created' | 'deleted' | 'updated';
+  changes: Array<{ field: string; before: unknown; after: unknown }>;
+}
+
+export type UndoResult =
+  | { ok: true; batchId: string; undoBatchId: string | null; taskIds: string[] }
+  | { ok: false; reason: 'undone' | 'conflict'; taskIds: string[] };
+
+function toSnapshot({ blockedBy, blocking, ...task }: SnapshotRow): TaskSnapshot {
+  return {
+    ...task,
+    blockerIds: blockedBy.map(dependency => dependency.blockerId),
+    dependantIds: blocking.map(dependency => dependency.blockedId)
+  };
+}
+
+function parseSnapshot(json: string | null): TaskSnapshot | null {
+  if (!json) return null;
+  const snapshot = JSON.parse(json);
+  for (const field of DATE_FIELDS) {
+    if (snapshot[field]) snapshot[field] = new Date(snapshot[field]);
+  }
+  return snapshot;
+}
+
+// Task columns to write back, leaving out the key, owner and timestamps Prisma manages
+function columns(snapshot: TaskSnapshot) {
+  const { id: _id, userId: _userId, created_at: _created, updated_at: _updated, blockerIds: _blockers, dependantIds: _dependants, ...data } = snapshot;
+  return data;
+}
+
+// Parents before their subtasks
+function parentsFirst(snapshots: TaskSnapshot[]): TaskSnapshot[] {
+  const ids = new Set(snapshots.map(snapshot => snapshot.id));
+  const depth = (snapshot: TaskSnapshot) => snapshot.parent_task_id && ids.has(snapshot.parent_task_id) ? 1 : 0;
+  return snapshots.slice().sort((a, b) => depth(a) - depth(b));
+}
+
+export class TaskJournal {
+  // Runs `change` and journals what it did to these tasks, their subtasks and the open
+  // instances of their series. `created` names tasks the change made outside that scope.
+  // The batch id undoes the whole change; it's null when nothing changed.
+  static async track<T>(
+    userId: string,
+    action: string,
+    taskIds: string[],
+    change: () => Promise<T>,
+    created?: (result: T) => string[]
+  ): Promise<{ result: T; batchId: string | null }> {
+    const seriesIds = (await prisma.task.findMany({
+      where: { id: { in: taskIds }, userId, seriesId: { not: null } },
+      select: { seriesId: true }
+    })).map(task => task.seriesId as string);
+
+    const scope = (ids: string[]): Prisma.TaskWhereInput => ({
+      userId,
+      OR: [
+        { id: { in: ids } },
+        { parent_task_id: { in: ids } },
+        { seriesId: { in: seriesIds }, status: { notIn: DONE_STATUSES } }
+      ]
+    });
+
+    const before = await this.snapshots(scope(taskIds));
+    const result = await change();
+    // Rows seen before are looked up by id again, so one reads as deleted only once it's gone
+    const after = await this.snapshots(scope([...taskIds, ...Array.from(before.keys()), ...(created?.(result) ?? [])]));
+
+    return { result, batchId: await this.record(userId, action, before, after) };
+  }
+
+  // Newest first
+  static async history(taskId: string, userId: string, limit: number = 50): Promise<TaskHistoryEntry[]> {
+    const rows = await prisma.taskChange.findMany({
+      where: { taskId, userId },
+      orderBy: { created_at: 'desc' },
+      take: limit
+    });
+
+    return rows.map(row => {
+      const before = parseSnapshot(row.before_json);
+      const after = parseSnapshot(row.after_json);
+      const changes = before && after
+        ? HISTORY_FIELDS
+          .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+          .map(field => ({ field, before: before[field], after: after[field] }))
+        : [];
+
+      return {
+        id: row.id,
+        batchId: row.batchId,
+        action: row.action,
+        created_at: row.created_at,
+        undone_at: row.undone_at,
+        kind: !before ? 'created' : !after ? 'deleted' : 'updated',
+        changes
+      };
+    });
+  }
+
+  // Puts every task in the batch back the way it was before, and journals that too. Refused
+  // when any of them has changed since. Without a batch id, undoes the user's latest action.
+  static async undo(userId: string, batchId?: string): Promise<UndoResult | null> {
+    const target = batchId ?? (await prisma.taskChange.findFirst({
+      where: { userId, undone_at: null, action: { not: 'undo' } },
+      orderBy: { created_at: 'desc' }
+    }))?.batchId;
+    if (!target) return null;
+
+    const changes = await prisma.taskChange.findMany({ where: { userId, batchId: target } });
+    if (changes.length === 0) return null;
+
+    const taskIds = changes.map(change => change.taskId);
+    if (changes.some(change => change.undone_at)) {
+      return { ok: false, reason: 'undone', taskIds };
+    }
+
+    const conflicts = await this.conflicts(userId, changes);
+    if (conflicts.length > 0) {
+      return { ok: false, reason: 'conflict', taskIds: conflicts };
+    }
+
+    const { batchId: undoBatchId } = await this.track(userId, 'undo', taskIds, () => this.restore(userId, changes));
+    await prisma.taskChange.updateMany({ where: { batchId: target }, data: { undone_at: new Date() } });
+
+    return { ok: true, batchId: target, undoBatchId, taskIds };
+  }
+
+  private static async snapshots(where: Prisma.TaskWhereInput): Promise<Map<string, TaskSnapshot>> {
+    const rows = await prisma.task.findMany({ where, include: snapshotInclude });
+    return new Map(rows.map(row => [row.id, toSnapshot(row)]));
+  }
+
+  private static async record(
+    userId: string,
+    action: string,
+    before: Map<string, TaskSnapshot>,
+    after: Map<string, TaskSnapshot>
+  ): Promise<string | null> {
+    const batchId = randomUUID();
+    const rows: Prisma.TaskChangeCreateManyInput[] = [];
+    const activity: Prisma.TaskActivityCreateManyInput[] = [];
+
+    for (const taskId of new Set([...Array.from(before.keys()), ...Array.from(after.keys())])) {
+      const was = before.get(taskId);
+      const now = after.get(taskId);
+      if (was && now && JSON.stringify(was) === JSON.stringify(now)) continue;
+      rows.push({
+        userId,
+        batchId,
+        action,
+        taskId,
+        before_json: was ? JSON.stringify(was) : null,
+        after_json: now ? JSON.stringify(now) : null
+      });
+      activity.push(...activityFor(userId, action, was, now));
+    }
+    if (rows.length === 0) return null;
+
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const gone = await this.deletedBefore(userId, cutoff);
+    await prisma.$transaction([
+      prisma.taskChange.deleteMany({ where: { userId, created_at: { lt: cutoff } } }),
+      // Once a delete can't be undone, the task's comments and activity go with it
+      prisma.taskComment.deleteMany({ where: { userId, taskId: { in: gone } } }),
+      prisma.taskActivity.deleteMany({ where: { userId, taskId: { in: gone } } }),
+      prisma.taskChange.createMany({ data: rows }),
+      prisma.taskActivity.createMany({ data: activity })
+    ]);
+    // Attachments too; their files can't be removed inside the transaction
+    await AttachmentManager.removeForTasks(userId, gone);
+    return batchId;
+  }
+
+  // Tasks deleted in journal rows older than `cutoff` that haven't been restored since
+  private static async deletedBefore(userId: string, cutoff: Date): Promise<string[]> {
+    const deletes = await prisma.taskChange.findMany({
+      where: { userId, created_at: { lt: cutoff }, after_json: null },
+      select: { taskId: true }
+    });
+    if (deletes.length === 0) return [];
+
+    const ids = Array.from(new Set(deletes.map(change => change.taskId)));
+    const restored = new Set((await prisma.task.findMany({ where: { id: { in: ids } }, select: { id: true } })).map(task => task.id));
+    return ids.filter(id => !restored.has(id));
+  }
+
+  // Tasks that no longer look the way the batch left them
+  private static async conflicts(userId: string, changes: TaskChange[]): Promise<string[]> {
+    const current = await this.snapshots({ id: { in: changes.map(change => change.taskId) }, userId });
+
+    return changes
+      .filter(change => {
+        const expected = parseSnapshot(change.after_json);
+        const actual = current.get(change.taskId);
+        if (!expected) return !!actual;
+        return !actual || actual.updated_at.getTime() !== expected.updated_at.getTime();
+      })
+      .map(change => change.taskId);
+  }
+
+  // Deletes what the batch created, recreates what it deleted (with tags and dependencies)
+  // and rewinds what it changed, in one transaction. References to projects, sections,
+  // series or parents removed since are dropped.
+  private static async restore(userId: string, changes: TaskChange[]): Promise<void> {
+    const created: string[] = [];
+    const deleted: TaskSnapshot[] = [];
+    const updated: TaskSnapshot[] = [];
+    for (const change of changes) {
+      const before = parseSnapshot(change.before_json);
+      if (!before) created.push(change.taskId);
+      else if (!change.after_json) deleted.push(before);
+      else updated.push(before);
+    }
+
+    const restoring = [...deleted, ...updated];
+    const ids = (field: 'projectId' | 'sectionId' | 'seriesId' | 'parent_task_id') =>
+      restoring.map(snapshot => snapshot[field]).filter((id): id is string => !!id);
+    const [projects, sections, series, parents] = await Promise.all([
+      prisma.project.findMany({ where: { id: { in: ids('projectId') }, userId }, select: { id: true } }),
+      prisma.section.findMany({ where: { id: { in: ids('sectionId') }, userId }, select: { id: true } }),
+      prisma.taskSeries.findMany({ where: { id: { in: ids('seriesId') }, userId }, select: { id: true } }),
+      prisma.task.findMany({ where: { id: { in: ids('parent_task_id') }, userId }, select: { id: true } })
+    ]);
+    const exists = (rows: Array<{ id: string }>, extra: string[] = []) => new Set([...rows.map(row => row.id), ...extra]);
+    const projectIds = exists(projects);
+    const sectionIds = exists(sections);
+    const seriesIds = exists(series);
+    const parentIds = exists(parents, deleted.map(snapshot => snapshot.id));
+    const keep = (id: string | null, present: Set<string>) => (id && present.has(id) ? id : null);
+
+    const data = (snapshot: TaskSnapshot) => ({
+      ...columns(snapshot),
+      projectId: keep(snapshot.projectId, projectIds),
+      sectionId: keep(snapshot.sectionId, sectionIds),
+      seriesId: keep(snapshot.seriesId, seriesIds),
+      parent_task_id: created.includes(snapshot.parent_task_id ?? '') ? null : keep(snapshot.parent_task_id, parentIds)
+    });
+
+    const current = await prisma.task.findMany({ where: { id: { in: updated.map(snapshot => snapshot.id) } }, select: { id: true, tags_json: true } });
+    const currentTags = new Map(current.map(task => [task.id, task.tags_json]));
+
+    // Tasks on the other end of a recreated task's dependencies that will still exist
+    const linked = deleted.flatMap(snapshot => [...snapshot.blockerIds, ...snapshot.dependantIds]);
+    const survivors = new Set([
+      ...(await prisma.task.findMany({ where: { id: { in: linked, notIn: created }, userId }, select: { id: true } })).map(task => task.id),
+      ...deleted.map(snapshot => snapshot.id)
+    ]);
+
+    const writes: Prisma.PrismaPromise<unknown>[] = [
+      DependencyManager.detach(created),
+      TagManager.detach(created),
+      prisma.task.deleteMany({ where: { id: { in: created }, userId } })
+    ];
+
+    for (const snapshot of parentsFirst(deleted)) {
+      writes.push(prisma.task.create({
+        data: {
+          ...data(snapshot),
+          id: snapshot.id,
+          userId,
+          created_at: snapshot.created_at,
+          tags: { create: tagLinks(userId, JSON.parse(snapshot.tags_json)) }
+        }
+      }));
+      // A deleted occurrence was skipped in its series; it's back, so it isn't any more
+      if (snapshot.seriesId && seriesIds.has(snapshot.seriesId) && snapshot.occurrence_at) {
+        writes.push(prisma.taskSeriesException.updateMany({
+          where: { seriesId: snapshot.seriesId, occurrence_at: snapshot.occurrence_at },
+          data: { skipped: false }
+        }));
+      }
+    }
+
+    for (const snapshot of updated) {
+      const tagsChanged = currentTags.get(snapshot.id) !== snapshot.tags_json;
+      writes.push(prisma.task.update({
+        where: { id: snapshot.id },
+        data: {
+          ...data(snapshot),
+          ...(tagsChanged ? { tags: { deleteMany: {}, create: tagLinks(userId, JSON.parse(snapshot.tags_json)) } } : {})
+        }
+      }));
+    }
+
+    for (const snapshot of deleted) {
+      const edges = [
+        ...snapshot.blockerIds.map(blockerId => ({ blockerId, blockedId: snapshot.id })),
+        ...snapshot.dependantIds.map(blockedId => ({ blockerId: snapshot.id, blockedId }))
+      ].filter(edge => survivors.has(edge.blockerId) && survivors.has(edge.blockedId));
+
+      for (const edge of edges) {
+        writes.push(prisma.taskDependency.upsert({
+          where: { blockerId_blockedId: edge },
+          create: edge,
+          update: {}
+        }));
+      }
+    }
+
+    await prisma.$transaction(writes);
+  }
+}
@@ -1,6 +1,21 @@
 import { prisma } from './prisma';
-import { TaskParser, ParsedTask } from './taskParser';
+import { DependencyManager, DONE_STATUSES } from './dependencies';
+import { checklistItems, removeChecklistItems } from './markdown';
+import { parseQuickAdd } from './quickAdd';
 import { RRuleParser, RecurrenceRule } from './rrule';
+import { matchExpression, SearchIndex } from './searchIndex';
+import { SectionManager } from './sections';
+import { normalizeTags, tagLinks, TagManager } from './tags';
+import { TaskSeriesManager, EditScope } from './taskSeries';
+import { addDays, allDayDate, allDayKey, dayKey, endOfDay, startOfDay } from './timezone';
+import { UserSettingsManager } from './userSettings';
+
+// What updateTask() lets a caller change. Owners, series links and bookkeeping columns are
+// only ever written by the server.
+const UPDATABLE_FIELDS = [
+  'title', 'description', 'priority', 'status', 'due_at', 'all_day', 'estimate_min', 'tags', 'recurrence_rule',
+  'reminder_time', 'reminder_frequency', 'parent_task_id', 'projectId', 'sectionId', 'order_index'
+] as const;
 
 export interface TaskFilters {
   status?: string[];
@@ -12,6 +27,11 @@ export interface TaskFilters {
   };
   search?: string;
   parentTaskId?: string | null;
+  // null lists the inbox: tasks that aren't in any project
+  projectId?: string | null;
+  overdue?: boolean;
+  // Decides which day an all-day task's date covers; UTC when unset
+  timeZone?: string;
 }
 
 export interface TaskWithSubtasks {
@@ -20,13 +40,22 @@ export interface TaskWithSubtasks {
   description?: string;
   priority: string;
   due_at?: Date;
+  all_day: boolean;
   estimate_min?: number;
+  scheduled_start?: Date;
+  scheduled_end?: Date;
   status: string;
   tags_json: string;
   recurrence_rule?: string;
   reminder_time?: Date;
   reminder_frequency?: string;
   parent_task_id?: string;
+  projectId?: string;
+  sectionId?: string;
+  seriesId?: string;
+  // Has at least one blocker that isn't completed yet
+  blocked?: boolean;
+  occurrence_at?: Date;
   order_index: number;
   focus_sessions_count: number;
   total_focus_time_min: number;
@@ -39,50 +68,128 @@ export interface TaskWithSubtasks {
   };
 }
 
+// All-day tasks keep only their date, stored as UTC midnight
+function toAllDay(date: Date): Date {
+  return allDayDate(allDayKey(date));
+}
+
+// Timed tasks due within [start, end], and all-day tasks on any of the days that range
+// touches in `timeZone`
+export function dueBetween(start: Date | undefined, end: Date | undefined, timeZone: string) {
+  const timed: { gte?: Date; lte?: Date } = {};
+  const allDay: { gte?: Date; lte?: Date } = {};
+  if (start) {
+    timed.gte = start;
+    allDay.gte = allDayDate(dayKey(start, timeZone));
+  }
+  if (end) {
+    timed.lte = end;
+    allDay.lte = allDayDate(dayKey(end, timeZone));
+  }
+
+  return {
+    OR: [
+      { all_day: false, due_at: timed },
+      { all_day: true, due_at: allDay }
+    ]
+  };
+}
+
+// Timed tasks past their due time, and all-day tasks whose date is over in `timeZone`
+export function dueBefore(now: Date, timeZone: string) {
+  return {
+    OR: [
+      { all_day: false, due_at: { lt: now } },
+      { all_day: true, due_at: { lt: allDayDate(dayKey(now, timeZone)) } }
+    ]
+  };
+}
+
 export class TaskManager {
   static async createTask(userId: string, data: {
     title: string;
     description?: string;
     priority?: string;
     due_at?: Date;
+    all_day?: boolean;
     estimate_min?: number;
     tags?: string[];
     recurrence_rule?: string;
     reminder_time?: Date;
     reminder_frequency?: string;
     parent_task_id?: string;
+    projectId?: string;
+    sectionId?: string;
+    seriesId?: string;
+    occurrence_at?: Date;
   }): Promise<any> {
-    const tagsJson = data.tags ? JSON.stringify(data.tags) : '[]';
+    const tags = normalizeTags(data.tags ?? []);
+
+    // Subtasks live in their parent's project
+    let projectId = data.projectId;
+    if (data.parent_task_id) {
+      const parent = await this.getParentTask(data.parent_task_id, userId);
+      if (!parent) {
+        throw new Error('Parent task not found');
+      }
+      if (projectId === undefined) projectId = parent.projectId ?? undefined;
+    }
     
-    return await prisma.task.create({
+    const task = await prisma.task.create({
       data: {
         userId,
         title: data.title,
         description: data.description,
         priority: data.priority || 'medium',
-        due_at: data.due_at,
+        due_at: data.all_day && data.due_at ? toAllDay(data.due_at) : data.due_at,
+        all_day: data.all_day ?? false,
         estimate_min: data.estimate_min || 0,
-        tags_json: tagsJson,
+        tags_json: JSON.stringify(tags),
+        tags: { create: tagLinks(userId, tags) },
         recurrence_rule: data.recurrence_rule,
         reminder_time: data.reminder_time,
         reminder_frequency: data.reminder_frequency,
         parent_task_id: data.parent_task_id,
+        projectId,
+        sectionId: data.sectionId,
+        seriesId: data.seriesId,
+        occurrence_at: data.occurrence_at,
         order_index: await this.getNextOrderIndex(userId, data.parent_task_id)
       }
     });
+
+    // A new recurring task starts its own series
+    if (task.recurrence_rule && !task.seriesId && await TaskSeriesManager.createForTask(task)) {
+      return await prisma.task.findUnique({ where: { id: task.id } });
+    }
+
+    return task;
+  }
+
+  // A task can only be filed under one of the same user's tasks
+  static async getParentTask(taskId: string, userId: string): Promise<{ id: string; projectId: string | null } | null> {
+    return prisma.task.findFirst({ where: { id: taskId, userId }, select: { id: true, projectId: true } });
   }
 
   static async createTaskFromNaturalLanguage(userId: string, input: string): Promise<any> {
-    const parsed = TaskParser.parse(input);
+    const timeZone = await UserSettingsManager.getTimeZone(userId);
+    const parsed = parseQuickAdd(input, new Date(), { timeZone });
     
-    return await this.createTask(userId, {
+    const task = await this.createTask(userId, {
       title: parsed.title,
-      description: parsed.description,
       priority: parsed.priority,
-      due_at: parsed.dueDate,
-      estimate_min: parsed.estimateMinutes,
-      tags: parsed.tags
+      due_at: parsed.due_at ? new Date(parsed.due_at) : undefined,
+      all_day: parsed.all_day,
+      estimate_min: parsed.estimate_min,
+      tags: parsed.tags,
+      recurrence_rule: parsed.recurrence_rule
     });
+
+    for (const title of parsed.subtasks) {
+      await this.createTask(userId, { title, parent_task_id: task.id });
+    }
+
+    return task;
   }
 
   static async updateTask(taskId: string, userId: string, data: Partial<{
@@ -90,27 +197,91 @@ export class TaskManager {
     description: string;
     priority: string;
     due_at: Date;
+    all_day: boolean;
     estimate_min: number;
     tags: string[];
     recurrence_rule: string;
     reminder_time: Date;
     reminder_frequency: string;
-    parent_task_id: string;
+    parent_task_id: string | null;
+    projectId: string | null;
+    sectionId: string | null;
+    status: string;
     order_index: number;
-  }>): Promise<any> {
-    const updateData: any = { ...data };
-    
+  }>, scope: EditScope = 'this'): Promise<any> {
+    const updateData: any = {};
+    for (const field of UPDATABLE_FIELDS) {
+      if (data[field] !== undefined) updateData[field] = data[field];
+    }
+
     if (data.tags) {
-      updateData.tags_json = JSON.stringify(data.tags);
+      updateData.tags_json = JSON.stringify(normalizeTags(data.tags));
     }
-    
-    return await prisma.task.update({
+    delete updateData.tags;
+    for (const field of ['due_at', 'reminder_time']) {
+      if (typeof updateData[field] === 'string') updateData[field] = new Date(updateData[field]);
+    }
+
+    const task = await prisma.task.findUnique({ where: { id: taskId, userId } });
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    // Sections belong to one project's board
+    if (updateData.projectId !== undefined && updateData.projectId !== task.projectId && updateData.sectionId === undefined) {
+      updateData.sectionId = null;
+    }
+
+    if ((updateData.all_day ?? task.all_day) && (updateData.due_at || updateData.all_day)) {
+      const dueAt = updateData.due_at || task.due_at;
+      if (dueAt) updateData.due_at = toAllDay(dueAt);
+    }
+
+    // Instances of a recurring task are edited through their series
+    if (task.recurrence_rule) {
+      const updated = await TaskSeriesManager.updateOccurrences(task, updateData, scope);
+      if (data.tags) await this.syncTags(userId, task, updated.seriesId);
+      return updated;
+    }
+
+    const updated = await prisma.task.update({
       where: { id: taskId, userId },
       data: updateData
     });
+    if (data.tags) await this.syncTags(userId, task, updated.seriesId);
+
+    if (updated.recurrence_rule && !updated.seriesId && await TaskSeriesManager.createForTask(updated)) {
+      return await prisma.task.findUnique({ where: { id: taskId } });
+    }
+
+    return updated;
+  }
+
+  // Series edits copy tags_json to other instances, so relink all of them
+  private static async syncTags(userId: string, task: { id: string; seriesId: string | null }, seriesId: string | null): Promise<void> {
+    const seriesIds = [task.seriesId, seriesId].filter((id): id is string => !!id);
+    await TagManager.syncTasks(userId, { OR: [{ id: task.id }, { seriesId: { in: seriesIds } }] });
   }
 
-  static async deleteTask(taskId: string, userId: string): Promise<void> {
+  static async deleteTask(taskId: string, userId: string, scope: EditScope = 'this'): Promise<void> {
+    const task = await prisma.task.findUnique({ where: { id: taskId, userId } });
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    // Deleting one open occurrence skips it so the series carries on
+    if (task.recurrence_rule && task.status !== 'completed') {
+      if (scope === 'this') {
+        await this.skipOccurrence(taskId, userId);
+      } else {
+        await TaskSeriesManager.deleteOccurrences(task, scope);
+      }
+      return;
+    }
+
+    await DependencyManager.detach([taskId]);
+    await TagManager.detach([taskId]);
+
     // Delete subtasks first
     await prisma.task.deleteMany({
       where: { parent_task_id: taskId, userId }
@@ -122,6 +293,30 @@ export class TaskManager {
     });
   }
 
+  // Drops this occurrence of a recurring task and moves on to the next one
+  static async skipOccurrence(taskId: string, userId: string): Promise<any> {
+    const task = await prisma.task.findUnique({ where: { id: taskId, userId } });
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    const series = await TaskSeriesManager.ensureSeries(task);
+    const occurrence = series && TaskSeriesManager.occurrenceIn(task, series);
+    if (!series || !occurrence) {
+      throw new Error('Task is not recurring');
+    }
+
+    await TaskSeriesManager.skip(series.id, userId, occurrence);
+    const next = await this.createNextRecurrence({ ...task, seriesId: series.id, occurrence_at: occurrence });
+
+    await DependencyManager.detach([taskId]);
+    await TagManager.detach([taskId]);
+    await prisma.task.deleteMany({ where: { parent_task_id: taskId, userId } });
+    await prisma.task.delete({ where: { id: taskId, userId } });
+
+    return next;
+  }
+
   static async completeTask(taskId: string, userId: string): Promise<any> {
     const task = await prisma.task.findUnique({
       where: { id: taskId, userId },
@@ -157,9 +352,36 @@ export class TaskManager {
       await this.createNextRecurrence(task);
     }
 
+    // Tasks that were only waiting on this one can start now
+    const unblocked = await DependencyManager.unblockedBy(taskId);
+    await DependencyManager.notifyUnblocked(userId, unblocked);
+
     return updatedTask;
   }
 
+  // Turns "- [ ]" items in the description into subtasks, ticked ones already completed, and
+  // takes them out of the description. `lines` picks items by the line they start on; all
+  // of them when left out. null when the task isn't the user's.
+  static async promoteChecklist(taskId: string, userId: string, lines?: number[]): Promise<{ task: any; subtasks: any[] } | null> {
+    const task = await prisma.task.findUnique({ where: { id: taskId, userId } });
+    if (!task) return null;
+
+    const description = task.description ?? '';
+    const items = checklistItems(description).filter(item => item.text && (!lines || lines.includes(item.line)));
+    if (items.length === 0) return { task, subtasks: [] };
+
+    const subtasks = [];
+    for (const item of items) {
+      const subtask = await this.createTask(userId, { title: item.text.replace(/\s+/g, ' '), parent_task_id: taskId });
+      subtasks.push(item.checked
+        ? await prisma.task.update({ where: { id: subtask.id }, data: { status: 'completed', completed_at: new Date() } })
+        : subtask);
+    }
+
+    const updated = await this.updateTask(taskId, userId, { description: removeChecklistItems(description, items).trim() });
+    return { task: updated, subtasks };
+  }
+
   static async getTasks(userId: string, filters: TaskFilters = {}): Promise<TaskWithSubtasks[]> {
     const where: any = { userId };
 
@@ -175,28 +397,28 @@ export class TaskManager {
 
     // Tags filter
     if (filters.tags && filters.tags.length > 0) {
-      where.tags_json = {
-        contains: JSON.stringify(filters.tags[0]) // Simple contains for now
-      };
+      where.tags = { some: { tag: { name: { in: normalizeTags(filters.tags) } } } };
     }
 
-    // Due date filter
+    // Due date filters; all-day tasks are matched by date rather than instant
+    const timeZone = filters.timeZone || 'UTC';
+    const dueFilters: any[] = [];
     if (filters.dueDate) {
-      where.due_at = {};
-      if (filters.dueDate.start) {
-        where.due_at.gte = filters.dueDate.start;
-      }
-      if (filters.dueDate.end) {
-        where.due_at.lte = filters.dueDate.end;
-      }
+      dueFilters.push(dueBetween(filters.dueDate.start, filters.dueDate.end, timeZone));
+    }
+    if (filters.overdue) {
+      dueFilters.push(dueBefore(new Date(), timeZone));
+    }
+    if (dueFilters.length > 0) {
+      where.AND = dueFilters;
     }
 
-    // Search filter
+    // Search filter; every word must match the start of a word in the title, description
+    // or focus-session notes
     if (filters.search) {
-      where.OR = [
-        { title: { contains: filters.search, mode: 'insensitive' } },
-        { description: { contains: filters.search, mode: 'insensitive' } }
-      ];
+      const words = filters.search.split(/\s+/).filter(Boolean).map(text => ({ text, phrase: false }));
+      const expression = matchExpression(words);
+      where.id = { in: expression ? await SearchIndex.matchingTaskIds(userId, expression) : [] };
     }
 
     // Parent task filter
@@ -204,14 +426,24 @@ export class TaskManager {
       where.parent_task_id = filters.parentTaskId;
     }
 
-    return await prisma.task.findMany({
+    // Project filter
+    if (filters.projectId !== undefined) {
+      where.projectId = filters.projectId;
+    }
+
+    const tasks = await prisma.task.findMany({
       where,
       include: {
         subtasks: {
+          where: { userId },
           orderBy: { order_index: 'asc' }
         },
         _count: {
-          select: { subtasks: true }
+          select: { subtasks: { where: { userId } } }
+        },
+        blockedBy: {
+          where: { blocker: { status: { notIn: DONE_STATUSES } } },
+          select: { blockerId: true }
         }
       },
       orderBy: [
@@ -219,33 +451,38 @@ export class TaskManager {
         { created_at: 'desc' }
       ]
     });
+
+    return tasks.map(({ blockedBy, ...task }) => ({ ...task, blocked: blockedBy.length > 0 }));
   }
 
+  // "Today" is the user's calendar day in their own time zone
   static async getTodayTasks(userId: string): Promise<TaskWithSubtasks[]> {
-    const today = new Date();
-    const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-    const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000 - 1);
+    const timeZone = await UserSettingsManager.getTimeZone(userId);
+    const now = new Date();
 
     return await this.getTasks(userId, {
-      dueDate: { start: startOfDay, end: endOfDay }
+      dueDate: { start: startOfDay(now, timeZone), end: endOfDay(now, timeZone) },
+      timeZone
     });
   }
 
   static async getUpcomingTasks(userId: string, days: number = 7): Promise<TaskWithSubtasks[]> {
+    const timeZone = await UserSettingsManager.getTimeZone(userId);
     const startDate = new Date();
-    const endDate = new Date(startDate.getTime() + days * 24 * 60 * 60 * 1000);
 
     return await this.getTasks(userId, {
-      dueDate: { start: startDate, end: endDate }
+      dueDate: { start: startDate, end: addDays(startDate, days, timeZone) },
+      timeZone
     });
   }
 
   static async getOverdueTasks(userId: string): Promise<TaskWithSubtasks[]> {
-    const now = new Date();
+    const timeZone = await UserSettingsManager.getTimeZone(userId);
 
     return await this.getTasks(userId, {
-      dueDate: { end: now },
-      status: ['todo', 'in_progress']
+      overdue: true,
+      status: ['todo', 'in_progress'],
+      timeZone
     });
   }
 
@@ -268,7 +505,16 @@ export class TaskManager {
     }
   }
 
-  static async moveTask(taskId: string, userId: string, newParentId: string | null, newOrderIndex: number): Promise<void> {
+  // Moves a task under a new parent and to `newOrderIndex` among its new siblings. Passing
+  // `sectionId` also moves it to that board column (null for the unsectioned one); a column
+  // mapped to a status sets it, and dropping into a completed column completes the task.
+  static async moveTask(
+    taskId: string,
+    userId: string,
+    newParentId: string | null,
+    newOrderIndex: number,
+    sectionId?: string | null
+  ): Promise<void> {
     const task = await prisma.task.findUnique({
       where: { id: taskId, userId }
     });
@@ -277,34 +523,55 @@ export class TaskManager {
       throw new Error('Task not found');
     }
 
-    // Update parent and order
+    const section = sectionId ? await SectionManager.getSection(sectionId, userId) : null;
+    if (sectionId && !section) {
+      throw new Error('Section not found');
+    }
+
+    const data: any = {
+      parent_task_id: newParentId,
+      order_index: newOrderIndex
+    };
+    // A section belongs to one board, so dropping into it also moves the task to that project
+    const projectId = section ? section.projectId : task.projectId;
+    if (sectionId !== undefined) {
+      data.sectionId = sectionId;
+      data.projectId = projectId;
+    }
+    if (section?.status && section.status !== 'completed' && section.status !== task.status) {
+      data.status = section.status;
+      data.completed_at = null;
+    }
+
+    // Update parent, column and order
     await prisma.task.update({
       where: { id: taskId, userId },
-      data: {
+      data
+    });
+
+    // Make room among the new siblings; on a board those are the tasks in the same column
+    const siblings = await prisma.task.findMany({
+      where: { 
+        userId,
         parent_task_id: newParentId,
-        order_index: newOrderIndex
-      }
+        id: { not: taskId },
+        ...(sectionId !== undefined ? { sectionId, projectId } : {})
+      },
+      orderBy: { order_index: 'asc' }
     });
 
-    // Reorder siblings if moving within same parent
-    if (task.parent_task_id === newParentId) {
-      const siblings = await prisma.task.findMany({
-        where: { 
-          userId,
-          parent_task_id: newParentId,
-          id: { not: taskId }
-        },
-        orderBy: { order_index: 'asc' }
+    // Adjust order indices
+    for (let i = 0; i < siblings.length; i++) {
+      const newIndex = i >= newOrderIndex ? i + 1 : i;
+      if (siblings[i].order_index === newIndex) continue;
+      await prisma.task.update({
+        where: { id: siblings[i].id },
+        data: { order_index: newIndex }
       });
+    }
 
-      // Adjust order indices
-      for (let i = 0; i < siblings.length; i++) {
-        const newIndex = i >= newOrderIndex ? i + 1 : i;
-        await prisma.task.update({
-          where: { id: siblings[i].id },
-          data: { order_index: newIndex }
-        });
-      }
+    if (section?.status === 'completed' && task.status !== 'completed') {
+      await this.completeTask(taskId, userId);
     }
   }
 
@@ -317,28 +584,20 @@ export class TaskManager {
     return (lastTask?.order_index ?? -1) + 1;
   }
 
-  private static async createNextRecurrence(task: any): Promise<void> {
-    if (!task.recurrence_rule) return;
-
-    const rule = RRuleParser.parse(task.recurrence_rule);
-    if (!rule) return;
-
-    const nextDate = RRuleParser.nextOccurrence(rule, task.due_at || new Date());
-    if (!nextDate) return;
-
-    // Create the next occurrence
-    await this.createTask(task.userId, {
-      title: task.title,
-      description: task.description,
-      priority: task.priority,
-      due_at: nextDate,
-      estimate_min: task.estimate_min,
-      tags: JSON.parse(task.tags_json),
-      recurrence_rule: task.recurrence_rule,
-      reminder_time: task.reminder_time,
-      reminder_frequency: task.reminder_frequency,
-      parent_task_id: task.parent_task_id
-    });
+  // Accepts RFC 5545 text or a bare RRULE value (which then starts at the task's due date)
+  static isValidRecurrenceRule(ruleString: string): boolean {
+    return typeof ruleString === 'string' && RRuleParser.parse(ruleString, new Date()) !== null;
+  }
+
+  // Creates the series' next instance from its template, applying any skip, reschedule
+  // or title override recorded for that occurrence
+  static async createNextRecurrence(task: any): Promise<any> {
+    if (!task.recurrence_rule) return null;
+
+    const next = await TaskSeriesManager.nextOccurrence(task);
+    if (!next) return null;
+
+    return await this.createTask(task.userId, TaskSeriesManager.instanceData(next.series, next.occurrence, next.exception));
   }
 
   static async getTaskStats(userId: string): Promise<{
@@ -348,6 +607,9 @@ export class TaskManager {
     dueToday: number;
     dueThisWeek: number;
   }> {
+    const timeZone = await UserSettingsManager.getTimeZone(userId);
+    const now = new Date();
+
     const [total, completed, overdue, dueToday, dueThisWeek] = await Promise.all([
       prisma.task.count({ where: { userId } }),
       prisma.task.count({ where: { userId, status: 'completed' } }),
@@ -355,25 +617,19 @@ export class TaskManager {
         where: { 
           userId, 
           status: { in: ['todo', 'in_progress'] },
-          due_at: { lt: new Date() }
+          ...dueBefore(now, timeZone)
         }
       }),
       prisma.task.count({
         where: {
           userId,
-          due_at: {
-            gte: new Date(new Date().setHours(0, 0, 0, 0)),
-            lt: new Date(new Date().setHours(23, 59, 59, 999))
-          }
+          ...dueBetween(startOfDay(now, timeZone), endOfDay(now, timeZone), timeZone)
         }
       }),
       prisma.task.count({
         where: {
           userId,
-          due_at: {
-            gte: new Date(),
-            lt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
-          }
+          ...dueBetween(now, addDays(now, 7, timeZone), timeZone)
         }
       })
     ]);
@@ -0,0 +1,498 @@
+// Task Series
+// A recurring task is a series: one rule, instances generated one at a time, and per-occurrence exceptions
+
+import type { Prisma, Task, TaskSeries, TaskSeriesException } from '@prisma/client';
+import { DependencyManager } from './dependencies';
+import { prisma } from './prisma';
+import { RRuleParser, RecurrenceRule } from './rrule';
+import { TagManager } from './tags';
+import { UserSettingsManager } from './userSettings';
+
+export type EditScope = 'this' | 'following' | 'all';
+
+const EDIT_SCOPES: EditScope[] = ['this', 'following', 'all'];
+
+// Columns copied from the series onto every new instance
+const TEMPLATE_FIELDS = ['title', 'description', 'priority', 'estimate_min', 'tags_json', 'all_day', 'reminder_frequency', 'projectId'] as const;
+
+// Upper bound on consecutive skipped occurrences when looking for the next instance
+const MAX_SKIPPED = 1000;
+
+type Tx = Prisma.TransactionClient;
+
+export interface SeriesOccurrence {
+  series: TaskSeries;
+  occurrence: Date;
+  exception: TaskSeriesException | null;
+}
+
+export function isEditScope(value: unknown): value is EditScope {
+  return typeof value === 'string' && (EDIT_SCOPES as string[]).includes(value);
+}
+
+function sameTime(a: Date | null | undefined, b: Date | null | undefined): boolean {
+  return (a?.getTime() ?? null) === (b?.getTime() ?? null);
+}
+
+function shift(date: Date, deltaMs: number): Date {
+  return new Date(date.getTime() + deltaMs);
+}
+
+function reminderOffset(dueAt: Date | null, reminderTime: Date | null): number | null {
+  if (!dueAt || !reminderTime) return null;
+  return Math.round((dueAt.getTime() - reminderTime.getTime()) / 60000);
+}
+
+function pickTemplate(data: Record<string, any>): Partial<Pick<TaskSeries, typeof TEMPLATE_FIELDS[number]>> {
+  const template: Record<string, any> = {};
+  for (const field of TEMPLATE_FIELDS) {
+    if (data[field] !== undefined) template[field] = data[field];
+  }
+  return template;
+}
+
+// The rule with no occurrences at or after `occurrence`. COUNT is dropped because
+// RFC 5545 doesn't allow it next to UNTIL; the occurrences it allowed are all before the cut.
+function endBefore(rule: RecurrenceRule, occurrence: Date): RecurrenceRule {
+  const until = shift(occurrence, -1000);
+  return {
+    ...rule,
+    count: undefined,
+    endDate: rule.endDate && rule.endDate < until ? rule.endDate : until,
+    rDates: rule.rDates?.filter(date => date < occurrence)
+  };
+}
+
+export class TaskSeriesManager {
+  static parseRule(series: TaskSeries): RecurrenceRule | null {
+    return RRuleParser.parse(series.rule);
+  }
+
+  // The slot in the series a task was generated for. Tasks from before series existed
+  // fall back to their due date, which was always an occurrence of their rule.
+  static occurrenceOf(task: Task): Date | null {
+    return task.occurrence_at || task.due_at;
+  }
+
+  // Same, for a task whose series may have just been created from it (an undated
+  // task's first occurrence is the rule's start)
+  static occurrenceIn(task: Task, series: TaskSeries): Date | null {
+    return this.occurrenceOf(task) || this.parseRule(series)?.startDate || null;
+  }
+
+  // Turns a task with a recurrence rule into the first instance of a new series. The rule
+  // repeats in the user's zone so "9am" stays 9am across DST; all-day series repeat at UTC
+  // midnight, where all-day dates are kept.
+  static async createForTask(task: Task): Promise<TaskSeries | null> {
+    if (!task.recurrence_rule) return null;
+
+    const timeZone = task.all_day ? 'UTC' : await UserSettingsManager.getTimeZone(task.userId);
+    const rule = RRuleParser.parse(task.recurrence_rule, task.due_at || task.created_at, timeZone);
+    if (!rule) return null;
+
+    const series = await prisma.taskSeries.create({
+      data: {
+        userId: task.userId,
+        rule: RRuleParser.toString(rule),
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        estimate_min: task.estimate_min,
+        tags_json: task.tags_json,
+        all_day: task.all_day,
+        reminder_offset_min: reminderOffset(task.due_at, task.reminder_time),
+        reminder_frequency: task.reminder_frequency,
+        parent_task_id: task.parent_task_id,
+        projectId: task.projectId
+      }
+    });
+
+    await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        seriesId: series.id,
+        occurrence_at: task.due_at || rule.startDate,
+        recurrence_rule: series.rule
+      }
+    });
+
+    return series;
+  }
+
+  // Recurring tasks created before series existed get one the first time they're touched.
+  // A series belongs to the task's owner; a link to anyone else's is treated as missing.
+  static async ensureSeries(task: Task): Promise<TaskSeries | null> {
+    if (task.seriesId) {
+      return prisma.taskSeries.findFirst({ where: { id: task.seriesId, userId: task.userId } });
+    }
+    return this.createForTask(task);
+  }
+
+  // The occurrence after `task` that should become the next instance, skipping skipped
+  // occurrences. Returns null when the series has ended or that instance already exists.
+  static async nextOccurrence(task: Task): Promise<SeriesOccurrence | null> {
+    const series = await this.ensureSeries(task);
+    if (!series) return null;
+
+    const rule = this.parseRule(series);
+    if (!rule) return null;
+
+    const exceptions = await prisma.taskSeriesException.findMany({ where: { seriesId: series.id } });
+    const byOccurrence = new Map(exceptions.map(exception => [exception.occurrence_at.getTime(), exception]));
+
+    let cursor = this.occurrenceIn(task, series) || new Date();
+    for (let i = 0; i < MAX_SKIPPED; i++) {
+      const occurrence = RRuleParser.nextOccurrence(rule, cursor);
+      if (!occurrence) return null;
+      cursor = occurrence;
+
+      const exception = byOccurrence.get(occurrence.getTime()) || null;
+      if (exception?.skipped) continue;
+
+      // Completing, reopening and completing again must not generate a second copy
+      const existing = await prisma.task.findFirst({ where: { seriesId: series.id, userId: series.userId, occurrence_at: occurrence } });
+      if (existing) return null;
+
+      return { series, occurrence, exception };
+    }
+
+    return null;
+  }
+
+  // Fields for a new instance at `occurrence`, with any reschedule or title override applied
+  static instanceData(series: TaskSeries, occurrence: Date, exception: TaskSeriesException | null) {
+    const dueAt = exception?.due_at || occurrence;
+
+    return {
+      title: exception?.title || series.title,
+      description: series.description ?? undefined,
+      priority: series.priority,
+      due_at: dueAt,
+      all_day: series.all_day,
+      estimate_min: series.estimate_min ?? undefined,
+      tags: JSON.parse(series.tags_json) as string[],
+      recurrence_rule: series.rule,
+      reminder_time: series.reminder_offset_min !== null
+        ? shift(dueAt, -series.reminder_offset_min * 60000)
+        : undefined,
+      reminder_frequency: series.reminder_frequency ?? undefined,
+      parent_task_id: series.parent_task_id ?? undefined,
+      projectId: series.projectId ?? undefined,
+      seriesId: series.id,
+      occurrence_at: occurrence
+    };
+  }
+
+  // Does nothing unless `userId` owns the series
+  static async skip(seriesId: string, userId: string, occurrence: Date): Promise<void> {
+    const series = await prisma.taskSeries.findFirst({ where: { id: seriesId, userId }, select: { id: true } });
+    if (!series) return;
+
+    await prisma.taskSeriesException.upsert({
+      where: { seriesId_occurrence_at: { seriesId, occurrence_at: occurrence } },
+      create: { seriesId, occurrence_at: occurrence, skipped: true },
+      update: { skipped: true }
+    });
+  }
+
+  // Applies an edit to a series instance. `data` holds Task columns (tags already
+  // serialized to tags_json, dates as Date objects).
+  static async updateOccurrences(task: Task, data: Record<string, any>, scope: EditScope): Promise<Task> {
+    const series = await this.ensureSeries(task);
+    const occurrence = series && this.occurrenceIn(task, series);
+    if (!series || !occurrence) {
+      return prisma.task.update({ where: { id: task.id }, data });
+    }
+
+    if (scope === 'this') {
+      return this.updateThis(task, series, occurrence, data);
+    }
+
+    const rule = this.parseRule(series);
+    if (!rule) {
+      return prisma.task.update({ where: { id: task.id }, data });
+    }
+
+    if (data.recurrence_rule !== undefined && !data.recurrence_rule) {
+      return this.endAt(task, series, rule, occurrence, data);
+    }
+
+    // "This and following" from the first occurrence is the whole series
+    if (scope === 'following' && occurrence > rule.startDate) {
+      return this.splitAt(task, series, rule, occurrence, data);
+    }
+    return this.updateAll(task, series, rule, occurrence, data);
+  }
+
+  // Only this instance changes. The rule belongs to the series, so it's ignored here;
+  // a new due date or title is recorded as an exception so later series edits keep it.
+  private static async updateThis(task: Task, series: TaskSeries, occurrence: Date, data: Record<string, any>): Promise<Task> {
+    const { recurrence_rule: _rule, ...instanceData } = data;
+    const updated = await prisma.task.update({ where: { id: task.id }, data: instanceData });
+
+    const override: { due_at?: Date | null; title?: string | null } = {};
+    if (data.due_at !== undefined) {
+      override.due_at = updated.due_at && !sameTime(updated.due_at, occurrence) ? updated.due_at : null;
+    }
+    if (data.title !== undefined) {
+      override.title = updated.title !== series.title ? updated.title : null;
+    }
+
+    if (Object.keys(override).length > 0) {
+      await prisma.taskSeriesException.upsert({
+        where: { seriesId_occurrence_at: { seriesId: series.id, occurrence_at: occurrence } },
+        create: { seriesId: series.id, occurrence_at: occurrence, ...override },
+        update: override
+      });
+    }
+
+    return updated;
+  }
+
+  // Clearing the rule makes this instance the last one, whichever scope was picked
+  private static async endAt(
+    task: Task,
+    series: TaskSeries,
+    rule: RecurrenceRule,
+    occurrence: Date,
+    data: Record<string, any>
+  ): Promise<Task> {
+    const later = await prisma.task.findMany({
+      where: { seriesId: series.id, userId: series.userId, status: { not: 'completed' }, occurrence_at: { gt: occurrence } },
+      select: { id: true }
+    });
+    const laterIds = later.map(instance => instance.id);
+
+    const [, , , , , updated] = await prisma.$transaction([
+      prisma.taskSeries.update({
+        where: { id: series.id },
+        data: { rule: RRuleParser.toString(endBefore(rule, shift(occurrence, 1000))) }
+      }),
+      DependencyManager.detach(laterIds),
+      TagManager.detach(laterIds),
+      prisma.task.deleteMany({ where: { parent_task_id: { in: laterIds }, userId: series.userId } }),
+      prisma.task.deleteMany({ where: { id: { in: laterIds }, userId: series.userId } }),
+      prisma.task.update({ where: { id: task.id }, data: { ...data, recurrence_rule: null } })
+    ]);
+
+    return updated;
+  }
+
+  // Rewrites the whole series. Moving this instance's due date moves every occurrence
+  // by the same amount.
+  private static async updateAll(
+    task: Task,
+    series: TaskSeries,
+    rule: RecurrenceRule,
+    occurrence: Date,
+    data: Record<string, any>
+  ): Promise<Task> {
+    const delta = this.dueDelta(task, data);
+    const ruleText = RRuleParser.toString(this.resolveRule(rule, data, shift(rule.startDate, delta)));
+
+    return prisma.$transaction(async tx => {
+      await tx.taskSeries.update({
+        where: { id: series.id },
+        data: { ...pickTemplate(data), ...this.templateReminder(task, data), rule: ruleText }
+      });
+
+      // A replaced rule has different slots, so only a shifted rule keeps its exceptions lined up
+      if (delta !== 0 && data.recurrence_rule === undefined) {
+        await this.shiftExceptions(tx, series.id, delta);
+      }
+
+      const instances = await tx.task.findMany({
+        where: { seriesId: series.id, userId: series.userId, status: { not: 'completed' } }
+      });
+
+      return this.applyToInstances(tx, task, occurrence, instances, series.id, data, delta, ruleText);
+    });
+  }
+
+  // Ends the current series just before this occurrence and continues with a new one
+  // that carries the edit. COUNT carries over as the number of occurrences left.
+  private static async splitAt(
+    task: Task,
+    series: TaskSeries,
+    rule: RecurrenceRule,
+    occurrence: Date,
+    data: Record<string, any>
+  ): Promise<Task> {
+    const delta = this.dueDelta(task, data);
+    const consumed = rule.count
+      ? RRuleParser.between(rule, rule.startDate, occurrence, true).filter(date => date < occurrence).length
+      : 0;
+
+    const continued: RecurrenceRule = {
+      ...rule,
+      startDate: shift(occurrence, delta),
+      count: rule.count ? Math.max(1, rule.count - consumed) : undefined,
+      exDates: rule.exDates?.filter(date => date >= occurrence).map(date => shift(date, delta)),
+      rDates: rule.rDates?.filter(date => date >= occurrence).map(date => shift(date, delta))
+    };
+    const ruleText = RRuleParser.toString(this.resolveRule(continued, data, continued.startDate));
+
+    return prisma.$transaction(async tx => {
+      await tx.taskSeries.update({
+        where: { id: series.id },
+        data: { rule: RRuleParser.toString(endBefore(rule, occurrence)) }
+      });
+
+      const { id: _id, created_at: _created, updated_at: _updated, ...template } = series;
+      const successor = await tx.taskSeries.create({
+        data: {
+          ...template,
+          ...pickTemplate(data),
+          ...this.templateReminder(task, data),
+          rule: ruleText
+        }
+      });
+
+      await tx.taskSeriesException.updateMany({
+        where: { seriesId: series.id, occurrence_at: { gte: occurrence } },
+        data: { seriesId: successor.id }
+      });
+      if (delta !== 0 && data.recurrence_rule === undefined) {
+        await this.shiftExceptions(tx, successor.id, delta);
+      }
+
+      const instances = await tx.task.findMany({
+        where: { seriesId: series.id, userId: series.userId, status: { not: 'completed' }, occurrence_at: { gte: occurrence } }
+      });
+
+      return this.applyToInstances(tx, task, occurrence, instances, successor.id, data, delta, ruleText);
+    });
+  }
+
+  // Deletes occurrences of a series from `task` on. "this" is handled by the caller
+  // (skip and move on); "following" ends the series; "all" removes it, keeping
+  // completed instances as plain one-off tasks.
+  static async deleteOccurrences(task: Task, scope: Exclude<EditScope, 'this'>): Promise<void> {
+    const series = await this.ensureSeries(task);
+    const occurrence = series && this.occurrenceIn(task, series);
+    if (!series || !occurrence) return;
+
+    const rule = this.parseRule(series);
+    const wholeSeries = scope === 'all' || !rule || occurrence <= rule.startDate;
+
+    const instances = await prisma.task.findMany({
+      where: {
+        seriesId: series.id,
+        userId: series.userId,
+        status: { not: 'completed' },
+        ...(wholeSeries ? {} : { occurrence_at: { gte: occurrence } })
+      },
+      select: { id: true }
+    });
+    const ids = [...instances.map(instance => instance.id), task.id];
+
+    const removeInstances = [
+      DependencyManager.detach(ids),
+      TagManager.detach(ids),
+      prisma.task.deleteMany({ where: { parent_task_id: { in: ids }, userId: series.userId } }),
+      prisma.task.deleteMany({ where: { id: { in: ids }, userId: series.userId } })
+    ];
+
+    if (wholeSeries) {
+      await prisma.$transaction([
+        ...removeInstances,
+        prisma.task.updateMany({ where: { seriesId: series.id, userId: series.userId }, data: { seriesId: null, recurrence_rule: null } }),
+        prisma.taskSeriesException.deleteMany({ where: { seriesId: series.id } }),
+        prisma.taskSeries.delete({ where: { id: series.id } })
+      ]);
+      return;
+    }
+
+    await prisma.$transaction([
+      ...removeInstances,
+      prisma.taskSeriesException.deleteMany({ where: { seriesId: series.id, occurrence_at: { gte: occurrence } } }),
+      prisma.taskSeries.update({
+        where: { id: series.id },
+        data: { rule: RRuleParser.toString(endBefore(rule as RecurrenceRule, occurrence)) }
+      })
+    ]);
+  }
+
+  private static dueDelta(task: Task, data: Record<string, any>): number {
+    if (!(data.due_at instanceof Date) || !task.due_at) return 0;
+    return data.due_at.getTime() - task.due_at.getTime();
+  }
+
+  // The rule the series continues with: the edited rule when one was sent (validated
+  // by the route), otherwise the current one moved to `start`
+  private static resolveRule(rule: RecurrenceRule, data: Record<string, any>, start: Date): RecurrenceRule {
+    if (!data.recurrence_rule) return { ...rule, startDate: start };
+    return RRuleParser.parse(data.recurrence_rule, start, rule.tzid) || { ...rule, startDate: start };
+  }
+
+  private static templateReminder(task: Task, data: Record<string, any>) {
+    if (data.reminder_time === undefined) return {};
+    const dueAt = data.due_at instanceof Date ? data.due_at : task.due_at;
+    return { reminder_offset_min: reminderOffset(dueAt, data.reminder_time) };
+  }
+
+  // Exceptions are keyed by occurrence, so moving the rule moves them with it. Rows are
+  // shifted furthest-first so no two briefly share a slot.
+  private static async shiftExceptions(tx: Tx, seriesId: string, delta: number): Promise<void> {
+    const exceptions = await tx.taskSeriesException.findMany({
+      where: { seriesId },
+      orderBy: { occurrence_at: delta > 0 ? 'desc' : 'asc' }
+    });
+
+    for (const exception of exceptions) {
+      await tx.taskSeriesException.update({
+        where: { id: exception.id },
+        data: { occurrence_at: shift(exception.occurrence_at, delta) }
+      });
+    }
+  }
+
+  // Pushes a series edit onto its open instances. The edited task takes `data` as sent;
+  // the others take the template fields and the due-date shift, except titles that were
+  // overridden for a single occurrence.
+  private static async applyToInstances(
+    tx: Tx,
+    task: Task,
+    occurrence: Date,
+    instances: Task[],
+    seriesId: string,
+    data: Record<string, any>,
+    delta: number,
+    ruleText: string
+  ): Promise<Task> {
+    const template = pickTemplate(data);
+    const retitled = new Set(
+      (await tx.taskSeriesException.findMany({ where: { seriesId, title: { not: null } } }))
+        .map(exception => exception.occurrence_at.getTime())
+    );
+
+    let updated: Task | null = null;
+    for (const instance of instances.some(instance => instance.id === task.id) ? instances : [...instances, task]) {
+      const isEdited = instance.id === task.id;
+      const occurrenceAt = isEdited ? occurrence : this.occurrenceOf(instance);
+
+      const { recurrence_rule: _rule, ...instanceData } = data;
+      const changes: Record<string, any> = isEdited ? instanceData : { ...template };
+      if (!isEdited && template.title !== undefined && occurrenceAt && retitled.has(shift(occurrenceAt, delta).getTime())) {
+        delete changes.title;
+      }
+      if (!isEdited && delta !== 0 && instance.due_at) {
+        changes.due_at = shift(instance.due_at, delta);
+        if (instance.reminder_time) changes.reminder_time = shift(instance.reminder_time, delta);
+      }
+
+      const result = await tx.task.update({
+        where: { id: instance.id },
+        data: {
+          ...changes,
+          seriesId,
+          occurrence_at: occurrenceAt ? shift(occurrenceAt, delta) : null,
+          recurrence_rule: ruleText
+        }
+      });
+      if (isEdited) updated = result;
+    }
+
+    return updated as Task;
+  }
+}
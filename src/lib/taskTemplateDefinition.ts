@@ -0,0 +1,152 @@
+// Task Template Definitions
+// What a task template holds: a parent task and its subtasks, due dates counted from the day
+// the template is used, and the {{variables}} asked for each time. Shared with the browser.
+
+import { RRuleParser } from './rrule';
+
+export const MAX_TEMPLATE_SUBTASKS = 50;
+
+const PRIORITIES = ['low', 'medium', 'high'];
+
+export interface TemplateDue {
+  days: number; // Whole days after the day the template is used; 0 is that day
+  time?: string; // HH:MM in the user's time zone; without one the task is due all day
+}
+
+export interface TemplateTask {
+  title: string;
+  description?: string;
+  priority?: 'low' | 'medium' | 'high';
+  estimate_min?: number;
+  tags?: string[];
+  due?: TemplateDue;
+}
+
+export interface TaskTemplateDefinition extends TemplateTask {
+  recurrence_rule?: string;
+  subtasks: TemplateTask[];
+}
+
+// Filled in without asking: the day the template is used, as YYYY-MM-DD
+export const BUILTIN_VARIABLES = ['date'];
+
+const VARIABLE = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+function textsOf(task: TemplateTask): string[] {
+  return [task.title, task.description ?? '', ...(task.tags ?? [])];
+}
+
+// The {{variables}} a template asks for, in the order they first appear
+export function templateVariables(definition: TaskTemplateDefinition): string[] {
+  const names = new Set<string>();
+  for (const text of [definition, ...definition.subtasks].flatMap(textsOf)) {
+    for (const match of text.matchAll(VARIABLE)) {
+      if (!BUILTIN_VARIABLES.includes(match[1])) names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+}
+
+// The value given for `name`. Only the object's own keys count, so a variable like
+// {{constructor}} isn't read off Object.prototype.
+export function variableValue(values: Record<string, string>, name: string): string | undefined {
+  return Object.hasOwn(values, name) ? values[name] : undefined;
+}
+
+// `text` with each {{name}} replaced by its value; names without one are left as written
+export function fillVariables(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE, (placeholder, name: string) => variableValue(values, name) ?? placeholder);
+}
+
+function fillTask<T extends TemplateTask>(task: T, values: Record<string, string>): T {
+  return {
+    ...task,
+    title: fillVariables(task.title, values).trim(),
+    description: task.description === undefined ? undefined : fillVariables(task.description, values),
+    tags: task.tags?.map(tag => fillVariables(tag, values))
+  };
+}
+
+export function fillTemplate(definition: TaskTemplateDefinition, values: Record<string, string>): TaskTemplateDefinition {
+  return { ...fillTask(definition, values), subtasks: definition.subtasks.map(subtask => fillTask(subtask, values)) };
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function validateTask(value: unknown, path: string): string | null {
+  if (!value || typeof value !== 'object') return `${path} must be an object`;
+  const task = value as Record<string, unknown>;
+
+  if (typeof task.title !== 'string' || !task.title.trim()) return `${path}.title is required`;
+  if (task.description !== undefined && typeof task.description !== 'string') return `${path}.description must be text`;
+  if (task.priority !== undefined && !PRIORITIES.includes(task.priority as string)) {
+    return `${path}.priority must be one of ${PRIORITIES.join(', ')}`;
+  }
+  if (task.estimate_min !== undefined && !(Number.isInteger(task.estimate_min) && (task.estimate_min as number) >= 0)) {
+    return `${path}.estimate_min must be a whole number of minutes`;
+  }
+  if (task.tags !== undefined && !isStringList(task.tags)) return `${path}.tags must be a list of tag names`;
+  if (task.due !== undefined) {
+    const due = task.due as Record<string, unknown> | null;
+    if (!due || typeof due !== 'object' || !Number.isInteger(due.days) || Math.abs(due.days as number) > 3650) {
+      return `${path}.due.days must be a whole number of days`;
+    }
+    if (due.time !== undefined && !(typeof due.time === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(due.time))) {
+      return `${path}.due.time must be HH:MM`;
+    }
+  }
+  return null;
+}
+
+// The first problem with a definition sent by a client, or null when it's usable
+export function validateTemplateDefinition(value: unknown): string | null {
+  const taskError = validateTask(value, 'definition');
+  if (taskError) return taskError;
+
+  const { recurrence_rule, subtasks } = value as Record<string, unknown>;
+  if (recurrence_rule !== undefined && !(typeof recurrence_rule === 'string' && RRuleParser.parse(recurrence_rule, new Date()))) {
+    return 'definition.recurrence_rule is not a valid recurrence rule';
+  }
+  if (!Array.isArray(subtasks)) return 'definition.subtasks must be a list';
+  if (subtasks.length > MAX_TEMPLATE_SUBTASKS) return `a template can have at most ${MAX_TEMPLATE_SUBTASKS} subtasks`;
+  for (let i = 0; i < subtasks.length; i++) {
+    const subtaskError = validateTask(subtasks[i], `definition.subtasks[${i}]`);
+    if (subtaskError) return subtaskError;
+  }
+  return null;
+}
+
+// Names are typed after /template in QuickAdd, where name=value sets a variable
+export function validateTemplateName(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return 'name is required';
+  if (value.includes('=')) return 'name cannot contain "="';
+  if (value.trim().length > 100) return 'name must be at most 100 characters';
+  return null;
+}
+
+export interface TemplateCommand {
+  name: string;
+  values: Record<string, string>;
+}
+
+// QuickAdd's `/template release version=2.4`: the template's name and any values given
+// inline, quoted when they hold spaces (notes="ship it"). Null when the input isn't one.
+export function parseTemplateCommand(input: string): TemplateCommand | null {
+  const match = /^\s*\/template(?:\s+|$)([\s\S]*)$/i.exec(input);
+  if (!match) return null;
+
+  const values: Record<string, string> = {};
+  const name = match[1].replace(/([A-Za-z_][\w-]*)=(?:"([^"]*)"?|(\S*))/g, (_, key: string, quoted?: string, bare?: string) => {
+    values[key] = quoted ?? bare ?? '';
+    return ' ';
+  });
+  return { name: name.replace(/\s+/g, ' ').trim(), values };
+}
+
+// Names match whatever their case
+export function findTemplate<T extends { name: string }>(templates: T[], name: string): T | null {
+  const wanted = name.trim().toLowerCase();
+  return templates.find(template => template.name.toLowerCase() === wanted) ?? null;
+}
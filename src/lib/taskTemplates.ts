@@ -0,0 +1,209 @@
+// Task Templates
+// Multi-step tasks the user repeats, like a release checklist or onboarding: saved once, then
+// created as a parent task and subtasks with due dates counted from the day they're used
+
+import type { Task, TaskTemplate } from '@prisma/client';
+import { prisma } from './prisma';
+import { fromWallTime, toWallTime } from './rrule';
+import { TaskJournal } from './taskJournal';
+import { TaskManager } from './taskManager';
+import {
+  findTemplate,
+  fillTemplate,
+  MAX_TEMPLATE_SUBTASKS,
+  TaskTemplateDefinition,
+  TemplateDue,
+  TemplateTask,
+  templateVariables,
+  variableValue
+} from './taskTemplateDefinition';
+import { allDayDate, allDayKey, dayKey } from './timezone';
+import { UserSettingsManager } from './userSettings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TaskTemplateWithDefinition extends Omit<TaskTemplate, 'definition_json'> {
+  definition: TaskTemplateDefinition;
+  variables: string[]; // The {{variables}} to ask for when it's used
+}
+
+export interface InstantiatedTemplate {
+  task: Task;
+  subtasks: Task[];
+}
+
+function withDefinition({ definition_json, ...template }: TaskTemplate): TaskTemplateWithDefinition {
+  const definition: TaskTemplateDefinition = JSON.parse(definition_json);
+  return { ...template, definition, variables: templateVariables(definition) };
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// A task's due date as an offset from `anchorKey`, the day the captured task was created
+function relativeDue(task: Task, anchorKey: string, timeZone: string): TemplateDue | undefined {
+  if (!task.due_at) return undefined;
+
+  const key = task.all_day ? allDayKey(task.due_at) : dayKey(task.due_at, timeZone);
+  const days = Math.round((allDayDate(key).getTime() - allDayDate(anchorKey).getTime()) / DAY_MS);
+  if (task.all_day) return { days };
+
+  const wall = toWallTime(task.due_at, timeZone);
+  return { days, time: `${pad(wall.hour)}:${pad(wall.minute)}` };
+}
+
+// The reverse, counting from `startKey`, the day the template is used
+function absoluteDue(due: TemplateDue | undefined, startKey: string, timeZone: string): { due_at?: Date; all_day: boolean } {
+  if (!due) return { all_day: false };
+
+  const day = new Date(allDayDate(startKey).getTime() + due.days * DAY_MS);
+  if (!due.time) return { due_at: day, all_day: true };
+
+  const [hour, minute] = due.time.split(':').map(Number);
+  return {
+    due_at: fromWallTime({
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+      hour,
+      minute,
+      second: 0
+    }, timeZone),
+    all_day: false
+  };
+}
+
+function capture(task: Task, anchorKey: string, timeZone: string): TemplateTask {
+  const tags: string[] = JSON.parse(task.tags_json);
+  return {
+    title: task.title,
+    description: task.description || undefined,
+    priority: task.priority as TemplateTask['priority'],
+    estimate_min: task.estimate_min || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    due: relativeDue(task, anchorKey, timeZone)
+  };
+}
+
+export class TaskTemplateManager {
+  static async listTemplates(userId: string): Promise<TaskTemplateWithDefinition[]> {
+    const templates = await prisma.taskTemplate.findMany({ where: { userId }, orderBy: { name: 'asc' } });
+    return templates.map(withDefinition);
+  }
+
+  static async getTemplate(templateId: string, userId: string): Promise<TaskTemplateWithDefinition | null> {
+    const template = await prisma.taskTemplate.findFirst({ where: { id: templateId, userId } });
+    return template && withDefinition(template);
+  }
+
+  static async findByName(userId: string, name: string): Promise<TaskTemplateWithDefinition | null> {
+    return findTemplate(await this.listTemplates(userId), name);
+  }
+
+  // Returns a message instead when the name is taken
+  static async createTemplate(userId: string, data: { name: string; definition: TaskTemplateDefinition }): Promise<TaskTemplateWithDefinition | string> {
+    if (await this.findByName(userId, data.name)) return `a template named "${data.name}" already exists`;
+
+    const template = await prisma.taskTemplate.create({
+      data: { userId, name: data.name, definition_json: JSON.stringify(data.definition) }
+    });
+    return withDefinition(template);
+  }
+
+  static async updateTemplate(
+    templateId: string,
+    userId: string,
+    data: { name?: string; definition?: TaskTemplateDefinition }
+  ): Promise<TaskTemplateWithDefinition | string | null> {
+    const template = await this.getTemplate(templateId, userId);
+    if (!template) return null;
+
+    if (data.name !== undefined) {
+      const clash = await this.findByName(userId, data.name);
+      if (clash && clash.id !== templateId) return `a template named "${data.name}" already exists`;
+    }
+
+    const updated = await prisma.taskTemplate.update({
+      where: { id: templateId },
+      data: {
+        name: data.name,
+        definition_json: data.definition && JSON.stringify(data.definition)
+      }
+    });
+    return withDefinition(updated);
+  }
+
+  static async deleteTemplate(templateId: string, userId: string): Promise<boolean> {
+    const { count } = await prisma.taskTemplate.deleteMany({ where: { id: templateId, userId } });
+    return count > 0;
+  }
+
+  // A definition copied from a task and its subtasks. Due dates are kept relative to the
+  // day the task was created, so a task made on Monday and due Friday is due four days
+  // after whichever day the template is used.
+  static async captureTask(taskId: string, userId: string): Promise<TaskTemplateDefinition | null> {
+    const task = await prisma.task.findFirst({ where: { id: taskId, userId } });
+    if (!task) return null;
+
+    const subtasks = await prisma.task.findMany({
+      where: { parent_task_id: taskId, userId },
+      orderBy: [{ order_index: 'asc' }, { created_at: 'asc' }],
+      take: MAX_TEMPLATE_SUBTASKS
+    });
+
+    const timeZone = await UserSettingsManager.getTimeZone(userId);
+    const anchorKey = dayKey(task.created_at, timeZone);
+    return {
+      ...capture(task, anchorKey, timeZone),
+      recurrence_rule: task.recurrence_rule || undefined,
+      subtasks: subtasks.map(subtask => capture(subtask, anchorKey, timeZone))
+    };
+  }
+
+  // Creates the template's tasks, as one change that can be undone. `start` is the day due
+  // dates count from (YYYY-MM-DD, today by default). Returns a message instead when a
+  // variable has no value.
+  static async instantiate(
+    template: TaskTemplateWithDefinition,
+    userId: string,
+    options: { values?: Record<string, string>; start?: string; projectId?: string } = {}
+  ): Promise<{ result: InstantiatedTemplate; batchId: string | null } | string> {
+    const values = options.values ?? {};
+    const missing = template.variables.find(name => !variableValue(values, name)?.trim());
+    if (missing) return `a value is needed for {{${missing}}}`;
+
+    const timeZone = await UserSettingsManager.getTimeZone(userId);
+    const startKey = options.start ?? dayKey(new Date(), timeZone);
+    const definition = fillTemplate(template.definition, { date: startKey, ...values });
+
+    const fields = (task: TemplateTask) => ({
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      estimate_min: task.estimate_min,
+      tags: task.tags,
+      ...absoluteDue(task.due, startKey, timeZone)
+    });
+
+    return TaskJournal.track(userId, 'template', [], async () => {
+      const task = await TaskManager.createTask(userId, {
+        ...fields(definition),
+        recurrence_rule: definition.recurrence_rule,
+        projectId: options.projectId
+      });
+
+      const subtasks: Task[] = [];
+      try {
+        for (const subtask of definition.subtasks) {
+          subtasks.push(await TaskManager.createTask(userId, { ...fields(subtask), parent_task_id: task.id }));
+        }
+      } catch (error) {
+        // Removing the parent takes its subtasks with it, so a failure leaves nothing half made
+        await TaskManager.deleteTask(task.id, userId, 'all');
+        throw error;
+      }
+      return { task, subtasks };
+    }, created => [created.task.id]);
+  }
+}
@@ -0,0 +1,159 @@
+// Time Blocks
+// Tasks laid out on an hour grid: where each one sits, which ones collide, and packing a
+// day's tasks into the time left around the rest. Shared with the browser.
+
+// How long a task without an estimate takes up on the grid
+export const DEFAULT_BLOCK_MIN = 30;
+// Blocks start, end and move in steps of this many minutes
+export const SNAP_MIN = 15;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface TimeBlock {
+  id: string;
+  start: Date;
+  end: Date;
+}
+
+export interface BlockTask {
+  id: string;
+  due_at?: Date | string | null;
+  all_day: boolean;
+  estimate_min?: number | null;
+  scheduled_start?: Date | string | null;
+  scheduled_end?: Date | string | null;
+}
+
+export function blockMinutes(task: Pick<BlockTask, 'estimate_min'>): number {
+  return task.estimate_min && task.estimate_min > 0 ? task.estimate_min : DEFAULT_BLOCK_MIN;
+}
+
+// A scheduled task sits where it was scheduled. One due at a time of day starts at its due
+// time and runs for its estimate. All-day and undated tasks have no place on the grid.
+export function blockFor(task: BlockTask): TimeBlock | null {
+  if (task.scheduled_start && task.scheduled_end) {
+    return { id: task.id, start: new Date(task.scheduled_start), end: new Date(task.scheduled_end) };
+  }
+  if (task.due_at && !task.all_day) {
+    const start = new Date(task.due_at);
+    return { id: task.id, start, end: new Date(start.getTime() + blockMinutes(task) * MINUTE_MS) };
+  }
+  return null;
+}
+
+export function snapMinutes(minutes: number): number {
+  return Math.round(minutes / SNAP_MIN) * SNAP_MIN;
+}
+
+// The next snap step at or after `date`
+export function ceilToSnap(date: Date): Date {
+  const step = SNAP_MIN * MINUTE_MS;
+  return new Date(Math.ceil(date.getTime() / step) * step);
+}
+
+function byStart(a: TimeBlock, b: TimeBlock): number {
+  return a.start.getTime() - b.start.getTime() || a.end.getTime() - b.end.getTime();
+}
+
+// Ids of the blocks that overlap at least one other. Touching end to start isn't overlapping.
+export function collidingIds(blocks: TimeBlock[]): Set<string> {
+  const colliding = new Set<string>();
+  const sorted = blocks.slice().sort(byStart);
+  let latest: TimeBlock | null = null; // The block reaching furthest so far
+  for (const block of sorted) {
+    if (latest && block.start < latest.end) {
+      colliding.add(block.id);
+      colliding.add(latest.id);
+    }
+    if (!latest || block.end > latest.end) latest = block;
+  }
+  return colliding;
+}
+
+// Overlapping blocks share the width side by side: each gets a lane, and `lanes` is how many
+// its group of overlapping blocks needs
+export function layoutBlocks(blocks: TimeBlock[]): Map<string, { lane: number; lanes: number }> {
+  const layout = new Map<string, { lane: number; lanes: number }>();
+  const sorted = blocks.slice().sort(byStart);
+
+  let group: Array<{ id: string; lane: number }> = [];
+  let laneEnds: Date[] = [];
+  let groupEnd = 0;
+  const closeGroup = () => {
+    for (const { id, lane } of group) layout.set(id, { lane, lanes: laneEnds.length });
+    group = [];
+    laneEnds = [];
+  };
+
+  for (const block of sorted) {
+    if (group.length > 0 && block.start.getTime() >= groupEnd) closeGroup();
+    let lane = laneEnds.findIndex(end => end <= block.start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = block.end;
+    group.push({ id: block.id, lane });
+    groupEnd = Math.max(groupEnd, block.end.getTime());
+  }
+  closeGroup();
+  return layout;
+}
+
+export interface PackTask {
+  id: string;
+  priority: string;
+  estimate_min?: number | null;
+  // Timed due dates are deadlines: the task is put before it when there's room
+  deadline?: Date | null;
+}
+
+export interface PackResult {
+  scheduled: TimeBlock[];
+  unscheduled: string[]; // Tasks with no gap long enough
+}
+
+const PRIORITY_RANK: Record<string, number> = { high: 3, medium: 2, low: 1 };
+
+// Free stretches of [start, end) that none of `busy` covers, earliest first
+function freeGaps(busy: TimeBlock[], start: Date, end: Date): Array<{ start: number; end: number }> {
+  const gaps: Array<{ start: number; end: number }> = [];
+  let cursor = start.getTime();
+  for (const block of busy.slice().sort(byStart)) {
+    if (block.end.getTime() <= cursor) continue;
+    if (block.start.getTime() >= end.getTime()) break;
+    if (block.start.getTime() > cursor) gaps.push({ start: cursor, end: block.start.getTime() });
+    cursor = Math.max(cursor, block.end.getTime());
+  }
+  if (cursor < end.getTime()) gaps.push({ start: cursor, end: end.getTime() });
+  return gaps;
+}
+
+// Fills the free time between `start` and `end` with tasks, most important first: higher
+// priority, then the earlier deadline, then the shorter task. Each goes in the earliest gap
+// that fits it, one that ends by its deadline when there is one.
+export function packTasks(tasks: PackTask[], busy: TimeBlock[], start: Date, end: Date): PackResult {
+  const gaps = freeGaps(busy, start, end);
+  const ordered = tasks.slice().sort((a, b) =>
+    (PRIORITY_RANK[b.priority] ?? 0) - (PRIORITY_RANK[a.priority] ?? 0)
+    || (a.deadline?.getTime() ?? Infinity) - (b.deadline?.getTime() ?? Infinity)
+    || blockMinutes(a) - blockMinutes(b)
+  );
+
+  const result: PackResult = { scheduled: [], unscheduled: [] };
+  for (const task of ordered) {
+    const length = blockMinutes(task) * MINUTE_MS;
+    const fits = (gap: { start: number; end: number }) => gap.end - gap.start >= length;
+    const beforeDeadline = task.deadline
+      ? gaps.find(gap => fits(gap) && gap.start + length <= (task.deadline as Date).getTime())
+      : undefined;
+    const gap = beforeDeadline ?? gaps.find(fits);
+    if (!gap) {
+      result.unscheduled.push(task.id);
+      continue;
+    }
+
+    result.scheduled.push({ id: task.id, start: new Date(gap.start), end: new Date(gap.start + length) });
+    // The next task starts on a snap step, so odd estimates leave a few minutes spare
+    gap.start = Math.min(gap.end, ceilToSnap(new Date(gap.start + length)).getTime());
+  }
+  result.scheduled.sort(byStart);
+  return result;
+}
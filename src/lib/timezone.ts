@@ -0,0 +1,82 @@
+// Time Zones
+// Calendar days in a user's IANA time zone, and the date-only due dates of all-day tasks
+
+import { fromWallTime, isValidTimeZone, toWallTime } from './rrule';
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export function resolveTimeZone(timeZone?: string | null): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// The calendar day an instant falls on in `timeZone`, as YYYY-MM-DD
+export function dayKey(date: Date, timeZone: string): string {
+  const wall = toWallTime(date, timeZone);
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)}`;
+}
+
+export function hourOf(date: Date, timeZone: string): number {
+  return toWallTime(date, timeZone).hour;
+}
+
+export function startOfDay(date: Date, timeZone: string): Date {
+  return fromWallTime({ ...toWallTime(date, timeZone), hour: 0, minute: 0, second: 0 }, timeZone);
+}
+
+// Same wall-clock time `days` later. Days around a DST change are 23 or 25 hours
+// long, so this can't be done by adding 24-hour steps.
+export function addDays(date: Date, days: number, timeZone: string): Date {
+  const wall = toWallTime(date, timeZone);
+  const day = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days));
+  return fromWallTime({
+    ...wall,
+    year: day.getUTCFullYear(),
+    month: day.getUTCMonth() + 1,
+    day: day.getUTCDate()
+  }, timeZone);
+}
+
+// Last millisecond of the day `date` falls on
+export function endOfDay(date: Date, timeZone: string): Date {
+  return new Date(addDays(startOfDay(date, timeZone), 1, timeZone).getTime() - 1);
+}
+
+// Weeks start on Sunday, as everywhere else in the app
+export function startOfWeek(date: Date, timeZone: string): Date {
+  const wall = toWallTime(date, timeZone);
+  const weekday = new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+  return addDays(startOfDay(date, timeZone), -weekday, timeZone);
+}
+
+// All-day tasks store their date as UTC midnight, so the date stays put when the
+// user changes zone, e.g. while travelling
+export function allDayDate(key: string): Date {
+  return new Date(`${key}T00:00:00.000Z`);
+}
+
+export function allDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Whether `value` is a real calendar day as YYYY-MM-DD. Date parsing rolls 2026-02-31 over
+// into March, so the key has to come back unchanged.
+export function isDayKey(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = allDayDate(value);
+  return !isNaN(date.getTime()) && allDayKey(date) === value;
+}
+
+// The due date to show: an all-day task's date at local midnight, otherwise the instant
+export function displayDue(dueAt: Date | string, allDay?: boolean): Date {
+  const date = new Date(dueAt);
+  return allDay ? new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) : date;
+}
+
+// The reverse, for a date picked in the local calendar
+export function localAllDayDate(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
@@ -0,0 +1,34 @@
+// Feature Flag Hook
+// Client-side flag checks, cached per page load so many components can share one request
+
+import { useEffect, useState } from 'react';
+import { adminManager } from './admin';
+
+const flagCache = new Map<string, Promise<boolean>>();
+
+export function checkFeatureFlag(name: string, fallback = false): Promise<boolean> {
+  let pending = flagCache.get(name);
+  if (!pending) {
+    pending = adminManager.isFeatureEnabled(name, fallback);
+    flagCache.set(name, pending);
+  }
+  return pending;
+}
+
+// Returns `fallback` until the server answers. Pass false for dark-launched
+// features so nothing flashes on screen for users outside the cohort.
+export function useFeatureFlag(name: string, fallback = false): boolean {
+  const [enabled, setEnabled] = useState(fallback);
+
+  useEffect(() => {
+    let cancelled = false;
+    checkFeatureFlag(name, fallback).then(result => {
+      if (!cancelled) setEnabled(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [name, fallback]);
+
+  return enabled;
+}
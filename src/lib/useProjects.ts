@@ -0,0 +1,61 @@
+// Projects Hook
+// The signed-in user's projects, shared between the sidebar and project pages
+
+import { useCallback, useEffect, useState } from 'react';
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  color: string;
+  icon: string | null;
+  archived_at: string | null;
+  order_index: number;
+  openTaskCount: number;
+}
+
+const CHANGED_EVENT = 'projects:changed';
+
+// Lets every mounted useProjects() refetch after one of them edits a project
+export function notifyProjectsChanged(): void {
+  window.dispatchEvent(new Event(CHANGED_EVENT));
+}
+
+export async function saveProject(
+  projectId: string | null,
+  data: Partial<{ name: string; color: string; icon: string | null; archived: boolean }>
+): Promise<ProjectSummary> {
+  const res = await fetch(projectId ? `/api/projects/${projectId}` : '/api/projects', {
+    method: projectId ? 'PATCH' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data)
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || 'Failed to save project');
+
+  notifyProjectsChanged();
+  return body;
+}
+
+export function useProjects(includeArchived = false) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/projects${includeArchived ? '?includeArchived=true' : ''}`);
+      if (res.ok) setProjects((await res.json()).projects);
+    } catch (error) {
+      console.error('Failed to load projects:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeArchived]);
+
+  useEffect(() => {
+    reload();
+    window.addEventListener(CHANGED_EVENT, reload);
+    return () => window.removeEventListener(CHANGED_EVENT, reload);
+  }, [reload]);
+
+  return { projects, setProjects, loading, reload };
+}
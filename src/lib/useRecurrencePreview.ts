@@ -0,0 +1,44 @@
+// Recurrence Preview Hook
+// Expands a rule through /api/rrule/preview so forms can show the next few dates before saving
+
+import { useEffect, useState } from 'react';
+
+const PREVIEW_DELAY_MS = 300;
+
+// `timeZone` is the zone the rule repeats in, so "every day at 9am" stays at 9am across DST
+export function useRecurrencePreview(rule: string | undefined, start: Date | undefined, count = 3, timeZone?: string): Date[] {
+  const [occurrences, setOccurrences] = useState<Date[]>([]);
+  const startIso = start?.toISOString();
+
+  useEffect(() => {
+    if (!rule || !startIso) {
+      setOccurrences([]);
+      return;
+    }
+
+    // Debounced, since the rule changes on every keystroke while typing
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ start: startIso, rule, count: String(count) });
+        if (timeZone) params.set('tz', timeZone);
+        const res = await fetch(`/api/rrule/preview?${params}`, { signal: controller.signal });
+        if (!res.ok) {
+          setOccurrences([]);
+          return;
+        }
+        const data = await res.json();
+        setOccurrences((data.occurrences as string[]).map(date => new Date(date)));
+      } catch {
+        // Aborted by a newer rule, or offline; the preview is optional
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [rule, startIso, count, timeZone]);
+
+  return occurrences;
+}
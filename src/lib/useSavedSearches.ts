@@ -0,0 +1,67 @@
+// Saved Searches Hook
+// The signed-in user's smart lists, shared between the sidebar and the search page
+
+import { useCallback, useEffect, useState } from 'react';
+
+export interface SavedSearchSummary {
+  id: string;
+  name: string;
+  query: string;
+  order_index: number;
+}
+
+const CHANGED_EVENT = 'saved-searches:changed';
+
+// Lets every mounted useSavedSearches() refetch after one of them edits a smart list
+export function notifySavedSearchesChanged(): void {
+  window.dispatchEvent(new Event(CHANGED_EVENT));
+}
+
+export async function saveSearch(
+  searchId: string | null,
+  data: Partial<{ name: string; query: string }>
+): Promise<SavedSearchSummary> {
+  const res = await fetch(searchId ? `/api/saved-searches/${searchId}` : '/api/saved-searches', {
+    method: searchId ? 'PATCH' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data)
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || 'Failed to save search');
+
+  notifySavedSearchesChanged();
+  return body;
+}
+
+export async function deleteSavedSearch(searchId: string): Promise<void> {
+  await fetch(`/api/saved-searches/${searchId}`, { method: 'DELETE' });
+  notifySavedSearchesChanged();
+}
+
+export function searchHref(query: string): string {
+  return `/search?q=${encodeURIComponent(query)}`;
+}
+
+export function useSavedSearches() {
+  const [savedSearches, setSavedSearches] = useState<SavedSearchSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch('/api/saved-searches');
+      if (res.ok) setSavedSearches((await res.json()).savedSearches);
+    } catch (error) {
+      console.error('Failed to load saved searches:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    window.addEventListener(CHANGED_EVENT, reload);
+    return () => window.removeEventListener(CHANGED_EVENT, reload);
+  }, [reload]);
+
+  return { savedSearches, setSavedSearches, loading, reload };
+}
@@ -0,0 +1,61 @@
+// Smart Views Hook
+// The signed-in user's smart views, shared between the navigation and the view pages
+
+import { useCallback, useEffect, useState } from 'react';
+import type { SmartViewDefinition } from './smartViewDefinition';
+
+export interface SmartViewSummary {
+  id: string;
+  name: string;
+  builtin: string | null;
+  definition: SmartViewDefinition;
+  pinned: boolean;
+  order_index: number;
+}
+
+const CHANGED_EVENT = 'smart-views:changed';
+
+// Lets every mounted useSmartViews() refetch after one of them edits a view
+export function notifySmartViewsChanged(): void {
+  window.dispatchEvent(new Event(CHANGED_EVENT));
+}
+
+export async function saveSmartView(
+  viewId: string | null,
+  data: Partial<{ name: string; definition: SmartViewDefinition; pinned: boolean; reset: boolean }>
+): Promise<SmartViewSummary> {
+  const res = await fetch(viewId ? `/api/views/${viewId}` : '/api/views', {
+    method: viewId ? 'PATCH' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data)
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || 'Failed to save view');
+
+  notifySmartViewsChanged();
+  return body;
+}
+
+export function useSmartViews() {
+  const [views, setViews] = useState<SmartViewSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch('/api/views');
+      if (res.ok) setViews((await res.json()).views);
+    } catch (error) {
+      console.error('Failed to load views:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    window.addEventListener(CHANGED_EVENT, reload);
+    return () => window.removeEventListener(CHANGED_EVENT, reload);
+  }, [reload]);
+
+  return { views, setViews, loading, reload };
+}
@@ -0,0 +1,101 @@
+// Task Selection Hook
+// Multi-select over a list of tasks: click to toggle, shift-click for a range, and keyboard
+// moves for triaging long lists without the mouse
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+export function taskRowId(taskId: string): string {
+  return `task-row-${taskId}`;
+}
+
+// `orderedIds` is the list as shown; ranges and arrow keys follow it
+export function useTaskSelection(orderedIds: string[]) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  // Where the last plain click or toggle landed; shift-click selects from here
+  const anchor = useRef<string | null>(null);
+
+  const idsKey = orderedIds.join(',');
+  const ids = useMemo(() => (idsKey ? idsKey.split(',') : []), [idsKey]);
+
+  // Tasks that left the list (completed, deleted, filtered out) leave the selection too
+  useEffect(() => {
+    const present = new Set(ids);
+    setSelected(prev => {
+      const next = new Set(Array.from(prev).filter(id => present.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+    setFocusedId(prev => (prev && present.has(prev) ? prev : null));
+  }, [ids]);
+
+  useEffect(() => {
+    if (focusedId) document.getElementById(taskRowId(focusedId))?.scrollIntoView({ block: 'nearest' });
+  }, [focusedId]);
+
+  const selectRange = useCallback((from: string, to: string) => {
+    const start = ids.indexOf(from);
+    const end = ids.indexOf(to);
+    if (start === -1 || end === -1) return;
+    const range = ids.slice(Math.min(start, end), Math.max(start, end) + 1);
+    setSelected(prev => new Set([...Array.from(prev), ...range]));
+  }, [ids]);
+
+  const toggle = useCallback((id: string, options: { range?: boolean } = {}) => {
+    setFocusedId(id);
+    if (options.range && anchor.current && anchor.current !== id) {
+      selectRange(anchor.current, id);
+      return;
+    }
+    anchor.current = id;
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, [selectRange]);
+
+  const selectAll = useCallback(() => setSelected(new Set(ids)), [ids]);
+
+  const clear = useCallback(() => {
+    anchor.current = null;
+    setSelected(new Set());
+  }, []);
+
+  // For the list element: arrows or j/k move, shift extends, space or x toggles,
+  // Ctrl/Cmd+A selects everything and Escape clears
+  const onKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget || ids.length === 0) return;
+
+    const index = focusedId ? ids.indexOf(focusedId) : -1;
+    const step = e.key === 'ArrowDown' || e.key === 'j' ? 1 : e.key === 'ArrowUp' || e.key === 'k' ? -1 : 0;
+
+    if (step !== 0) {
+      e.preventDefault();
+      const next = ids[Math.min(ids.length - 1, Math.max(0, index + step))];
+      if (e.shiftKey) {
+        if (!anchor.current) anchor.current = focusedId ?? next;
+        selectRange(anchor.current, next);
+      }
+      setFocusedId(next);
+    } else if ((e.key === ' ' || e.key === 'x') && focusedId) {
+      e.preventDefault();
+      toggle(focusedId);
+    } else if (e.key === 'a' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      selectAll();
+    } else if (e.key === 'Escape') {
+      clear();
+    }
+  }, [ids, focusedId, selectRange, toggle, selectAll, clear]);
+
+  return {
+    selectedIds: ids.filter(id => selected.has(id)),
+    isSelected: (id: string) => selected.has(id),
+    focusedId,
+    toggle,
+    selectAll,
+    clear,
+    onKeyDown
+  };
+}
@@ -0,0 +1,85 @@
+// Task Templates Hook
+// The signed-in user's task templates, shared between QuickAdd, the task modals and settings
+
+import { useCallback, useEffect, useState } from 'react';
+import type { TaskTemplateDefinition } from './taskTemplateDefinition';
+import { offerUndo, undoBatchFrom } from './useUndo';
+
+export interface TaskTemplateSummary {
+  id: string;
+  name: string;
+  definition: TaskTemplateDefinition;
+  variables: string[];
+}
+
+const CHANGED_EVENT = 'task-templates:changed';
+
+// Lets every mounted useTaskTemplates() refetch after one of them edits a template
+export function notifyTaskTemplatesChanged(): void {
+  window.dispatchEvent(new Event(CHANGED_EVENT));
+}
+
+// `taskId` saves that task and its subtasks as a new template
+export async function saveTaskTemplate(
+  templateId: string | null,
+  data: Partial<{ name: string; definition: TaskTemplateDefinition; taskId: string }>
+): Promise<TaskTemplateSummary> {
+  const res = await fetch(templateId ? `/api/templates/${templateId}` : '/api/templates', {
+    method: templateId ? 'PATCH' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data)
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || 'Failed to save template');
+
+  notifyTaskTemplatesChanged();
+  return body;
+}
+
+export async function deleteTaskTemplate(templateId: string): Promise<void> {
+  const res = await fetch(`/api/templates/${templateId}`, { method: 'DELETE' });
+  if (!res.ok) throw new Error('Failed to delete template');
+
+  notifyTaskTemplatesChanged();
+}
+
+// Creates the template's tasks and offers to undo them. Returns the new parent task's id.
+export async function instantiateTemplate(
+  template: TaskTemplateSummary,
+  data: { values?: Record<string, string>; start?: string; projectId?: string }
+): Promise<string> {
+  const res = await fetch(`/api/templates/${template.id}/instantiate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data)
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || 'Failed to use template');
+
+  offerUndo(`Added "${body.task.title}" from ${template.name}`, undoBatchFrom(res));
+  return body.task.id;
+}
+
+export function useTaskTemplates() {
+  const [templates, setTemplates] = useState<TaskTemplateSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch('/api/templates');
+      if (res.ok) setTemplates((await res.json()).templates);
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    window.addEventListener(CHANGED_EVENT, reload);
+    return () => window.removeEventListener(CHANGED_EVENT, reload);
+  }, [reload]);
+
+  return { templates, loading, reload };
+}
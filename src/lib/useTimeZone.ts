@@ -0,0 +1,42 @@
+// Time Zone Hook
+// The signed-in user's time zone preference, cached per page load like feature flags
+
+import { useEffect, useState } from 'react';
+
+let pending: Promise<string | null> | null = null;
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function fetchTimeZone(): Promise<string | null> {
+  if (!pending) {
+    pending = fetch('/api/users/settings')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => data?.settings?.timezone ?? null)
+      .catch(() => null);
+  }
+  return pending;
+}
+
+// Call after saving a new zone so the next lookup goes back to the server
+export function clearTimeZoneCache(): void {
+  pending = null;
+}
+
+// Uses the browser's zone until the preference loads, or when signed out
+export function useTimeZone(): string {
+  const [timeZone, setTimeZone] = useState(browserTimeZone);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchTimeZone().then(result => {
+      if (!cancelled && result) setTimeZone(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return timeZone;
+}
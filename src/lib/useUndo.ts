@@ -0,0 +1,55 @@
+// Undo Hook
+// Offers "Undo" after a task change, using the journal batch the API sends back in the
+// X-Undo-Batch header, and tells open task lists to refetch once a change is undone
+
+import { useEffect } from 'react';
+
+export interface UndoOffer {
+  message: string;
+  batchId: string;
+}
+
+const OFFER_EVENT = 'undo:offer';
+const TASKS_CHANGED_EVENT = 'tasks:changed';
+
+// The batch id of the change a task API response made, if it was journaled (UNDO_HEADER in
+// taskJournal.ts, which can't be imported here as it pulls in Prisma)
+export function undoBatchFrom(res: Response): string | null {
+  return res.headers.get('X-Undo-Batch');
+}
+
+// Shows the undo toast for `batchId`; a no-op when the response carried none
+export function offerUndo(message: string, batchId: string | null): void {
+  if (!batchId) return;
+  window.dispatchEvent(new CustomEvent<UndoOffer>(OFFER_EVENT, { detail: { message, batchId } }));
+}
+
+export function onUndoOffer(listener: (offer: UndoOffer) => void): () => void {
+  const handler = (e: Event) => listener((e as CustomEvent<UndoOffer>).detail);
+  window.addEventListener(OFFER_EVENT, handler);
+  return () => window.removeEventListener(OFFER_EVENT, handler);
+}
+
+export function notifyTasksChanged(): void {
+  window.dispatchEvent(new Event(TASKS_CHANGED_EVENT));
+}
+
+// Refetches a task list whenever an undo (or anything else) reports tasks changed
+export function useTasksChanged(reload: () => void): void {
+  useEffect(() => {
+    window.addEventListener(TASKS_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(TASKS_CHANGED_EVENT, reload);
+  }, [reload]);
+}
+
+export async function undoChange(batchId: string): Promise<void> {
+  const res = await fetch('/api/tasks/undo', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ batchId })
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || 'Failed to undo');
+
+  notifyTasksChanged();
+}
@@ -0,0 +1,44 @@
+// User Settings
+// Notification preferences and the time zone that decides where the user's days start and end
+
+import { prisma } from './prisma';
+import { isValidTimeZone } from './rrule';
+import { resolveTimeZone } from './timezone';
+
+export interface UserSettings {
+  timezone: string;
+  notification_task_due: boolean;
+  notification_focus_end: boolean;
+  notification_daily_email: boolean;
+  notification_task_unblocked: boolean;
+  notification_task_comment: boolean;
+}
+
+const settingsSelect = {
+  timezone: true,
+  notification_task_due: true,
+  notification_focus_end: true,
+  notification_daily_email: true,
+  notification_task_unblocked: true,
+  notification_task_comment: true
+};
+
+export class UserSettingsManager {
+  static async getSettings(userId: string): Promise<UserSettings | null> {
+    return prisma.user.findUnique({ where: { id: userId }, select: settingsSelect });
+  }
+
+  static async updateSettings(userId: string, data: Partial<UserSettings>): Promise<UserSettings> {
+    if (data.timezone !== undefined && !isValidTimeZone(data.timezone)) {
+      throw new Error('Invalid time zone');
+    }
+
+    return prisma.user.update({ where: { id: userId }, data, select: settingsSelect });
+  }
+
+  // Falls back to UTC for unknown users and zones the runtime no longer recognizes
+  static async getTimeZone(userId: string): Promise<string> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } });
+    return resolveTimeZone(user?.timezone);
+  }
+}
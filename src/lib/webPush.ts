@@ -128,7 +128,7 @@ export class WebPushService {
       await fetch('/api/notifications/subscribe', {
         method: 'DELETE',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, endpoint })
+        body: JSON.stringify({ endpoint })
       });
 
       // Unsubscribe from push manager
@@ -150,7 +150,6 @@ export class WebPushService {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
-        userId,
         subscription: {
           endpoint: subscription.endpoint,
           keys: {
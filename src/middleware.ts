@@ -1,21 +1,89 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import {
+  SESSION_COOKIE,
+  SESSION_ID_HEADER,
+  USER_ID_HEADER,
+  verifySessionToken
+} from '@/lib/sessionToken';
 
-export function middleware(request: NextRequest) {
-  // For now, just pass through all requests
-  // You can add authentication, logging, or other middleware logic here later
-  return NextResponse.next();
+// Pages and API routes reachable without a session
+const PUBLIC_PATHS = ['/', '/login'];
+const PUBLIC_PREFIXES = ['/api/auth/', '/s/'];
+const PUBLIC_PATTERNS = [/^\/api\/sharing\/[^/]+\/(content|download|access|comments)$/];
+
+// Background jobs invoked by an external scheduler rather than a signed-in user
+const JOB_PREFIXES = ['/api/scheduler/', '/api/automations/', '/api/notifications/process'];
+
+// API routes that also accept personal API tokens, with everything under them; the route
+// handler validates the token
+const TOKEN_ROUTES = [
+  '/api/tasks', '/api/focus/complete', '/api/analytics', '/api/projects', '/api/sections',
+  '/api/dependencies', '/api/tags', '/api/search', '/api/saved-searches', '/api/views', '/api/comments',
+  '/api/links/title', '/api/templates'
+];
+
+function isPublic(pathname: string): boolean {
+  return PUBLIC_PATHS.includes(pathname)
+    || PUBLIC_PREFIXES.some(prefix => pathname.startsWith(prefix))
+    || PUBLIC_PATTERNS.some(pattern => pattern.test(pathname));
+}
+
+function isAuthorizedJob(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const { pathname } = request.nextUrl;
+  return !!secret
+    && JOB_PREFIXES.some(prefix => pathname.startsWith(prefix))
+    && request.headers.get('x-cron-secret') === secret;
+}
+
+// Matches whole path segments, so /api/tasks covers /api/tasks/bulk but not /api/tasksfoo
+function isUnder(pathname: string, route: string): boolean {
+  return pathname === route || pathname.startsWith(`${route}/`);
+}
+
+function hasBearerToken(request: NextRequest): boolean {
+  const { pathname } = request.nextUrl;
+  return TOKEN_ROUTES.some(route => isUnder(pathname, route))
+    && /^Bearer\s+\S+$/i.test(request.headers.get('authorization') || '');
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+
+  // Never trust identity headers coming from the client
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete(USER_ID_HEADER);
+  requestHeaders.delete(SESSION_ID_HEADER);
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (session) {
+    requestHeaders.set(USER_ID_HEADER, session.uid);
+    requestHeaders.set(SESSION_ID_HEADER, session.sid);
+  }
+
+  if (session || isPublic(pathname) || isAuthorizedJob(request) || hasBearerToken(request)) {
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', pathname + request.nextUrl.search);
+  return NextResponse.redirect(loginUrl);
 }
 
 export const config = {
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
-     * - api (API routes)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
+     * - PWA assets served from /public
      */
-    '/((?!api|_next/static|_next/image|favicon.ico).*)',
+    '/((?!_next/static|_next/image|favicon.ico|manifest.json|sw.js|workbox-|icons/|sounds/|robots.txt).*)',
   ],
-};
\ No newline at end of file
+};